@@ -0,0 +1,259 @@
+/**
+ * Allocation of amounts across ratios without losing a single minor unit
+ */
+
+import type {
+  AllocationStrategy,
+  AllocationRatio,
+  AllocationStrategyOptions,
+  AllocateOptions,
+  AllocationResult,
+} from './types';
+import { Decimal } from '../decimal';
+import { getCurrencyInfo } from '../currencies';
+import { isValidAmount } from '../validation/validation';
+import { resolveRoundingPolicy } from '../rounding';
+import { MonieUtilsError } from '../errors';
+
+const ALLOCATION_STRATEGIES: readonly AllocationStrategy[] = [
+  'largest-remainder',
+  'first',
+  'last',
+  'random',
+];
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32)
+ *
+ * @param seed - The seed
+ * @returns A function returning numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Converts ratios to integer weights at a common scale
+ *
+ * @param ratios - The ratios to convert
+ * @returns One non-negative bigint weight per ratio
+ */
+function toWeights(ratios: readonly AllocationRatio[]): bigint[] {
+  if (!Array.isArray(ratios) || ratios.length === 0) {
+    throw new MonieUtilsError(
+      'Ratios must be a non-empty array',
+      'INVALID_ARGUMENT',
+      { field: 'ratios', value: ratios }
+    );
+  }
+
+  const parsed = ratios.map(ratio => {
+    let decimal: Decimal;
+    try {
+      decimal = Decimal.from(ratio);
+    } catch {
+      throw new MonieUtilsError(
+        `Invalid ratio: ${ratio}. Must be a finite number.`,
+        'INVALID_ARGUMENT',
+        { field: 'ratios', value: ratio }
+      );
+    }
+
+    if (decimal.isNegative()) {
+      throw new MonieUtilsError(
+        `Invalid ratio: ${ratio}. All ratios must be non-negative numbers.`,
+        'INVALID_ARGUMENT',
+        { field: 'ratios', value: ratio, min: 0 }
+      );
+    }
+    return decimal;
+  });
+
+  const scale = Math.max(...parsed.map(ratio => ratio.scale));
+  return parsed.map(ratio => ratio.toScaled(scale));
+}
+
+/**
+ * Orders share indices by priority for receiving a leftover minor unit
+ *
+ * @param eligible - Indices of shares with a non-zero weight
+ * @param remainders - Fractional remainder numerators of each share
+ * @param strategy - The allocation strategy
+ * @param seed - Seed for the 'random' strategy
+ * @returns The eligible indices, highest priority first
+ */
+function orderRecipients(
+  eligible: number[],
+  remainders: bigint[],
+  strategy: AllocationStrategy,
+  seed: number
+): number[] {
+  switch (strategy) {
+    case 'first':
+      return eligible;
+    case 'last':
+      return [...eligible].reverse();
+    case 'largest-remainder':
+      // Array.prototype.sort is stable, so ties go to the earlier share
+      return [...eligible].sort((a, b) =>
+        remainders[a] === remainders[b]
+          ? 0
+          : remainders[a] > remainders[b]
+            ? -1
+            : 1
+      );
+    case 'random': {
+      const random = createRandom(seed);
+      const shuffled = [...eligible];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    }
+  }
+}
+
+/**
+ * Allocates an integer number of minor units across ratios.
+ * Every share is floored first; the leftover units are then handed out one
+ * per share according to the strategy, so the shares always sum to `total`.
+ *
+ * @param total - Total in minor units (may be negative)
+ * @param ratios - Non-negative ratios (e.g., [1, 1, 1] or [70, 30])
+ * @param options - Strategy options
+ * @returns One share in minor units per ratio
+ *
+ * @throws {MonieUtilsError} When ratios are empty, negative or sum to zero,
+ * or the strategy or seed is invalid
+ *
+ * @example
+ * ```typescript
+ * allocateMinorUnits(BigInt(10000), [1, 1, 1]); // [3334n, 3333n, 3333n]
+ * allocateMinorUnits(BigInt(10000), [1, 1, 1], { strategy: 'last' }); // [3333n, 3333n, 3334n]
+ * ```
+ */
+export function allocateMinorUnits(
+  total: bigint,
+  ratios: readonly AllocationRatio[],
+  options: AllocationStrategyOptions = {}
+): bigint[] {
+  const { strategy = 'largest-remainder', seed = 0 } = options;
+
+  if (!ALLOCATION_STRATEGIES.includes(strategy)) {
+    throw new MonieUtilsError(
+      `Invalid allocation strategy: ${strategy}`,
+      'INVALID_ARGUMENT',
+      { field: 'strategy', value: strategy, allowed: ALLOCATION_STRATEGIES }
+    );
+  }
+
+  if (typeof seed !== 'number' || !Number.isFinite(seed)) {
+    throw new MonieUtilsError(
+      `Invalid seed: ${seed}. Must be a finite number.`,
+      'INVALID_ARGUMENT',
+      { field: 'seed', value: seed }
+    );
+  }
+
+  const weights = toWeights(ratios);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, BigInt(0));
+
+  if (totalWeight === BigInt(0)) {
+    throw new MonieUtilsError(
+      'Sum of ratios cannot be zero',
+      'DIVISION_BY_ZERO',
+      { field: 'ratios', value: ratios }
+    );
+  }
+
+  const isNegative = total < BigInt(0);
+  const magnitude = isNegative ? -total : total;
+  const shares = weights.map(weight => (magnitude * weight) / totalWeight);
+  const remainders = weights.map(
+    (weight, i) => magnitude * weight - shares[i] * totalWeight
+  );
+  const leftover = Number(
+    magnitude - shares.reduce((sum, share) => sum + share, BigInt(0))
+  );
+
+  const eligible = weights
+    .map((weight, i) => (weight > BigInt(0) ? i : -1))
+    .filter(i => i >= 0);
+  const recipients = orderRecipients(eligible, remainders, strategy, seed);
+
+  for (let i = 0; i < leftover; i++) {
+    shares[recipients[i]] += BigInt(1);
+  }
+
+  return isNegative ? shares.map(share => -share) : shares;
+}
+
+/**
+ * Allocates an amount across ratios in a currency's minor units, so the
+ * shares always sum exactly to the total
+ *
+ * @param amount - Amount to allocate, in major units
+ * @param ratios - Non-negative ratios (e.g., [1, 1, 1] or [70, 30])
+ * @param options - Currency and strategy options
+ * @returns Allocation result
+ *
+ * @throws {MonieUtilsError} When the amount, currency, ratios, strategy or
+ * seed is invalid
+ *
+ * @example
+ * ```typescript
+ * allocate(100, [1, 1, 1]).amounts; // [33.34, 33.33, 33.33]
+ * allocate(1000, [1, 1, 1], { currency: 'JPY' }).amounts; // [334, 333, 333]
+ * allocate(0.001, [1, 2], { currency: 'BTC' }).amounts; // [0.00033333, 0.00066667]
+ * allocate(1, [1, 1, 1], { strategy: 'random', seed: 42 }).amounts; // same result for seed 42 every time
+ * ```
+ */
+export function allocate(
+  amount: number,
+  ratios: AllocationRatio[],
+  options: AllocateOptions = {}
+): AllocationResult {
+  const { currency = 'USD', ...strategyOptions } = options;
+
+  if (!isValidAmount(amount)) {
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
+  }
+
+  const currencyInfo = getCurrencyInfo(currency);
+  if (currencyInfo === undefined) {
+    throw new MonieUtilsError(
+      `Invalid currency code: ${currency}`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
+    );
+  }
+
+  const { code, decimalPlaces } = currencyInfo;
+  const total = Decimal.from(amount).toScaled(
+    decimalPlaces,
+    resolveRoundingPolicy()
+  );
+  const shares = allocateMinorUnits(total, ratios, strategyOptions);
+
+  return {
+    amounts: shares.map(share =>
+      Decimal.fromScaled(share, decimalPlaces).toNumber()
+    ),
+    totalAmount: Decimal.fromScaled(total, decimalPlaces).toNumber(),
+    ratios,
+    currency: code,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Tests for currency-aware allocation
+ */
+
+import { allocate, allocateMinorUnits } from './index';
+import { MonieUtilsError } from '../errors';
+
+const sum = (values: bigint[]): bigint =>
+  values.reduce((total, value) => total + value, BigInt(0));
+
+describe('allocation', () => {
+  describe('allocate', () => {
+    it('should allocate in the currency minor unit', () => {
+      expect(allocate(100, [1, 1, 1])).toEqual({
+        amounts: [33.34, 33.33, 33.33],
+        totalAmount: 100,
+        ratios: [1, 1, 1],
+        currency: 'USD',
+      });
+      expect(allocate(1000, [1, 1, 1], { currency: 'jpy' })).toMatchObject({
+        amounts: [334, 333, 333],
+        currency: 'JPY',
+      });
+      expect(allocate(0.001, [1, 2], { currency: 'BTC' }).amounts).toEqual([
+        0.00033333, 0.00066667,
+      ]);
+      expect(allocate(1, [1, 1, 1], { currency: 'KWD' }).amounts).toEqual([
+        0.334, 0.333, 0.333,
+      ]);
+    });
+
+    it('should round the total to the currency precision first', () => {
+      const result = allocate(10.005, [1, 1], { currency: 'USD' });
+      expect(result.totalAmount).toBe(10.01);
+      expect(result.amounts).toEqual([5.01, 5]);
+    });
+
+    it('should accept exact string ratios', () => {
+      expect(allocate(10, ['0.1', '0.2', '0.7']).amounts).toEqual([1, 2, 7]);
+    });
+
+    it('should allocate negative amounts', () => {
+      expect(allocate(-0.05, [1, 1]).amounts).toEqual([-0.03, -0.02]);
+    });
+
+    it('should throw for invalid input', () => {
+      expect(() => allocate(NaN, [1])).toThrow(MonieUtilsError);
+      expect(() => allocate(10, [1], { currency: 'XYZ' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURRENCY' })
+      );
+      expect(() => allocate(10, [])).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() => allocate(10, [0, 0])).toThrow(
+        expect.objectContaining({ code: 'DIVISION_BY_ZERO' })
+      );
+      expect(() => allocate(10, [1, -1])).toThrow(MonieUtilsError);
+      expect(() => allocate(10, [1, 'abc'])).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('strategies', () => {
+    const total = BigInt(100);
+    const ratios = [1, 1, 1, 1, 1, 1, 1];
+
+    it('should favour the largest remainders by default', () => {
+      expect(allocateMinorUnits(BigInt(100), [20, 45, 35])).toEqual([
+        BigInt(20),
+        BigInt(45),
+        BigInt(35),
+      ]);
+      expect(allocateMinorUnits(BigInt(10), [1, 3, 6])).toEqual([
+        BigInt(1),
+        BigInt(3),
+        BigInt(6),
+      ]);
+      expect(allocateMinorUnits(BigInt(5), [10, 15, 75])).toEqual([
+        BigInt(0),
+        BigInt(1),
+        BigInt(4),
+      ]);
+    });
+
+    it('should hand leftovers to the first or last shares', () => {
+      expect(
+        allocateMinorUnits(BigInt(5), [10, 15, 75], { strategy: 'first' })
+      ).toEqual([BigInt(1), BigInt(1), BigInt(3)]);
+      expect(
+        allocateMinorUnits(BigInt(10000), [1, 1, 1], { strategy: 'last' })
+      ).toEqual([BigInt(3333), BigInt(3333), BigInt(3334)]);
+    });
+
+    it('should skip zero ratios', () => {
+      for (const strategy of ['first', 'last', 'random'] as const) {
+        const shares = allocateMinorUnits(BigInt(2), [0, 1, 1, 1, 0], {
+          strategy,
+        });
+        expect(shares[0]).toBe(BigInt(0));
+        expect(shares[4]).toBe(BigInt(0));
+        expect(sum(shares)).toBe(BigInt(2));
+      }
+    });
+
+    it('should make random allocation reproducible by seed', () => {
+      const first = allocateMinorUnits(total, ratios, {
+        strategy: 'random',
+        seed: 42,
+      });
+      const again = allocateMinorUnits(total, ratios, {
+        strategy: 'random',
+        seed: 42,
+      });
+
+      expect(again).toEqual(first);
+      expect(sum(first)).toBe(total);
+      expect(first.every(share => share >= BigInt(14))).toBe(true);
+
+      const results = new Set(
+        [1, 2, 3, 4, 5].map(seed =>
+          allocateMinorUnits(total, ratios, { strategy: 'random', seed }).join()
+        )
+      );
+      expect(results.size).toBeGreaterThan(1);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() =>
+        allocateMinorUnits(total, ratios, { strategy: 'middle' as never })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_ARGUMENT',
+          details: expect.objectContaining({ field: 'strategy' }),
+        })
+      );
+      expect(() =>
+        allocateMinorUnits(total, ratios, { strategy: 'random', seed: NaN })
+      ).toThrow(MonieUtilsError);
+    });
+  });
+});
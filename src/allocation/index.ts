@@ -0,0 +1,28 @@
+/**
+ * Allocation barrel export
+ *
+ * This module provides currency-aware allocation including:
+ * - Splitting amounts by ratio in each currency's minor units
+ * - Shares that always sum exactly to the total
+ * - Largest-remainder, first, last and seeded random leftover strategies
+ *
+ * @example
+ * ```typescript
+ * import { allocate } from 'monie-utils/allocation';
+ *
+ * allocate(1000, [1, 1, 1], { currency: 'JPY' }).amounts; // [334, 333, 333]
+ * allocate(100, [1, 1, 1], { strategy: 'last' }).amounts; // [33.33, 33.33, 33.34]
+ * ```
+ */
+
+// Export allocation functions
+export { allocate, allocateMinorUnits } from './allocation';
+
+// Export types
+export type {
+  AllocationStrategy,
+  AllocationRatio,
+  AllocationStrategyOptions,
+  AllocateOptions,
+  AllocationResult,
+} from './types';
@@ -0,0 +1,55 @@
+/**
+ * Type definitions for minor-unit allocation
+ */
+
+/**
+ * How minor units left over after flooring every share are handed out
+ *
+ * - `largest-remainder`: to the shares with the largest fractional parts
+ * - `first`: to the first shares with a non-zero ratio
+ * - `last`: to the last shares with a non-zero ratio
+ * - `random`: to shares picked by a seeded pseudo-random shuffle
+ */
+export type AllocationStrategy =
+  | 'largest-remainder'
+  | 'first'
+  | 'last'
+  | 'random';
+
+/**
+ * Ratio accepted by allocation.
+ * Strings are parsed exactly, so '0.1' never picks up binary float drift.
+ */
+export type AllocationRatio = number | string;
+
+/**
+ * Options controlling how leftover minor units are distributed
+ */
+export interface AllocationStrategyOptions {
+  /** Leftover distribution strategy (default: 'largest-remainder') */
+  strategy?: AllocationStrategy;
+  /** Seed for the 'random' strategy; equal seeds give equal results (default: 0) */
+  seed?: number;
+}
+
+/**
+ * Options for allocating a plain amount
+ */
+export interface AllocateOptions extends AllocationStrategyOptions {
+  /** Currency whose minor unit is allocated (default: 'USD') */
+  currency?: string;
+}
+
+/**
+ * Result of allocating an amount
+ */
+export interface AllocationResult {
+  /** Allocated amounts, one per ratio, summing exactly to `totalAmount` */
+  amounts: number[];
+  /** Total amount that was allocated, in the currency's precision */
+  totalAmount: number;
+  /** Ratios used for allocation */
+  ratios: AllocationRatio[];
+  /** The currency code */
+  currency: string;
+}
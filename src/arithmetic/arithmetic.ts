@@ -3,21 +3,48 @@
  */
 
 import type {
-  RoundingMode,
   SplitResult,
   DistributionResult,
   InterestResult,
   PercentageResult,
 } from './types';
 import { isValidAmount, isValidCurrency } from '../validation/validation';
+import { Decimal } from '../decimal';
+import { resolveRoundingPolicy, roundNumber } from '../rounding';
+import type { RoundingMode } from '../rounding';
+import { getConfig, isDecimalArithmetic } from '../config/config';
 import { MonieUtilsError } from '../errors';
 
+/**
+ * Rounds an exact decimal result and returns it as a number
+ *
+ * @param value - The exact result
+ * @param precision - Number of decimal places (default: 2)
+ * @param mode - Rounding mode (default: the configured rounding mode)
+ * @returns The rounded number
+ */
+function toRoundedNumber(
+  value: Decimal,
+  precision: number = 2,
+  mode?: RoundingMode
+): number {
+  return value.round(precision, resolveRoundingPolicy(mode)).toNumber();
+}
+
+/**
+ * Divides two decimals at the configured intermediate scale
+ */
+function divide(dividend: Decimal, divisor: Decimal | number): Decimal {
+  return dividend.div(divisor, getConfig().decimalScale);
+}
+
 /**
  * Rounds a money amount using the specified rounding mode
  *
  * @param amount - The amount to round
  * @param precision - Number of decimal places (default: 2)
- * @param mode - Rounding mode (default: 'round')
+ * @param mode - Rounding policy or legacy alias (default: the configured
+ * rounding mode, 'half-up' unless changed)
  * @returns Rounded amount
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -27,16 +54,20 @@ import { MonieUtilsError } from '../errors';
  * roundMoney(123.456) // 123.46
  * roundMoney(123.456, 1) // 123.5
  * roundMoney(123.456, 2, 'floor') // 123.45
+ * roundMoney(2.125, 2, 'half-even') // 2.12
+ * roundMoney(-2.5, 0, 'half-away-from-zero') // -3
  * ```
  */
 export function roundMoney(
   amount: number,
   precision: number = 2,
-  mode: RoundingMode = 'round'
+  mode?: RoundingMode
 ): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
@@ -46,32 +77,13 @@ export function roundMoney(
     !Number.isInteger(precision)
   ) {
     throw new MonieUtilsError(
-      `Invalid precision: ${precision}. Must be a non-negative integer.`
+      `Invalid precision: ${precision}. Must be a non-negative integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'precision', value: precision, min: 0 }
     );
   }
 
-  const multiplier = Math.pow(10, precision);
-
-  switch (mode) {
-    case 'floor':
-      return Math.floor(amount * multiplier) / multiplier;
-    case 'ceil':
-      return Math.ceil(amount * multiplier) / multiplier;
-    case 'bankers':
-      // Banker's rounding (round half to even)
-      const scaled = amount * multiplier;
-      const rounded = Math.round(scaled);
-      if (Math.abs(scaled - Math.floor(scaled) - 0.5) < Number.EPSILON) {
-        return (
-          (rounded % 2 === 0 ? rounded : rounded - Math.sign(rounded)) /
-          multiplier
-        );
-      }
-      return rounded / multiplier;
-    case 'round':
-    default:
-      return Math.round(amount * multiplier) / multiplier;
-  }
+  return roundNumber(amount, precision, resolveRoundingPolicy(mode));
 }
 
 /**
@@ -97,18 +109,30 @@ export function addMoney(
 ): number {
   if (!isValidAmount(amount1)) {
     throw new MonieUtilsError(
-      `Invalid first amount: ${amount1}. Amount must be a finite number.`
+      `Invalid first amount: ${amount1}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount1', value: amount1 }
     );
   }
 
   if (!isValidAmount(amount2)) {
     throw new MonieUtilsError(
-      `Invalid second amount: ${amount2}. Amount must be a finite number.`
+      `Invalid second amount: ${amount2}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount2', value: amount2 }
     );
   }
 
   if (currency && !isValidCurrency(currency)) {
-    throw new MonieUtilsError(`Invalid currency: ${currency}`);
+    throw new MonieUtilsError(
+      `Invalid currency: ${currency}`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
+    );
+  }
+
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(Decimal.from(amount1).add(amount2));
   }
 
   return roundMoney(amount1 + amount2);
@@ -136,18 +160,30 @@ export function subtractMoney(
 ): number {
   if (!isValidAmount(amount1)) {
     throw new MonieUtilsError(
-      `Invalid first amount: ${amount1}. Amount must be a finite number.`
+      `Invalid first amount: ${amount1}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount1', value: amount1 }
     );
   }
 
   if (!isValidAmount(amount2)) {
     throw new MonieUtilsError(
-      `Invalid second amount: ${amount2}. Amount must be a finite number.`
+      `Invalid second amount: ${amount2}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount2', value: amount2 }
     );
   }
 
   if (currency && !isValidCurrency(currency)) {
-    throw new MonieUtilsError(`Invalid currency: ${currency}`);
+    throw new MonieUtilsError(
+      `Invalid currency: ${currency}`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
+    );
+  }
+
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(Decimal.from(amount1).sub(amount2));
   }
 
   return roundMoney(amount1 - amount2);
@@ -170,16 +206,24 @@ export function subtractMoney(
 export function multiplyMoney(amount: number, multiplier: number): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(multiplier)) {
     throw new MonieUtilsError(
-      `Invalid multiplier: ${multiplier}. Multiplier must be a finite number.`
+      `Invalid multiplier: ${multiplier}. Multiplier must be a finite number.`,
+      'INVALID_ARGUMENT',
+      { field: 'multiplier', value: multiplier }
     );
   }
 
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(Decimal.from(amount).mul(multiplier));
+  }
+
   return roundMoney(amount * multiplier);
 }
 
@@ -200,18 +244,29 @@ export function multiplyMoney(amount: number, multiplier: number): number {
 export function divideMoney(amount: number, divisor: number): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(divisor)) {
     throw new MonieUtilsError(
-      `Invalid divisor: ${divisor}. Divisor must be a finite number.`
+      `Invalid divisor: ${divisor}. Divisor must be a finite number.`,
+      'INVALID_ARGUMENT',
+      { field: 'divisor', value: divisor }
     );
   }
 
   if (divisor === 0) {
-    throw new MonieUtilsError('Cannot divide by zero');
+    throw new MonieUtilsError('Cannot divide by zero', 'DIVISION_BY_ZERO', {
+      field: 'divisor',
+      value: divisor,
+    });
+  }
+
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(divide(Decimal.from(amount), divisor));
   }
 
   return roundMoney(amount / divisor);
@@ -235,13 +290,23 @@ export function divideMoney(amount: number, divisor: number): number {
 export function calculateTip(amount: number, percentage: number): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(percentage) || percentage < 0) {
     throw new MonieUtilsError(
-      `Invalid percentage: ${percentage}. Percentage must be a non-negative number.`
+      `Invalid percentage: ${percentage}. Percentage must be a non-negative number.`,
+      'INVALID_PERCENTAGE',
+      { field: 'percentage', value: percentage, min: 0 }
+    );
+  }
+
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(
+      Decimal.from(amount).mul(percentage).div(100, getConfig().decimalScale)
     );
   }
 
@@ -265,16 +330,24 @@ export function calculateTip(amount: number, percentage: number): number {
 export function calculateTax(amount: number, taxRate: number): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(taxRate) || taxRate < 0) {
     throw new MonieUtilsError(
-      `Invalid tax rate: ${taxRate}. Tax rate must be a non-negative number.`
+      `Invalid tax rate: ${taxRate}. Tax rate must be a non-negative number.`,
+      'INVALID_PERCENTAGE',
+      { field: 'taxRate', value: taxRate, min: 0 }
     );
   }
 
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(divide(Decimal.from(amount).mul(taxRate), 100));
+  }
+
   return roundMoney((amount * taxRate) / 100);
 }
 
@@ -298,16 +371,24 @@ export function calculateDiscount(
 ): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(discountRate) || discountRate < 0 || discountRate > 100) {
     throw new MonieUtilsError(
-      `Invalid discount rate: ${discountRate}. Discount rate must be between 0 and 100.`
+      `Invalid discount rate: ${discountRate}. Discount rate must be between 0 and 100.`,
+      'INVALID_PERCENTAGE',
+      { field: 'discountRate', value: discountRate, min: 0, max: 100 }
     );
   }
 
+  if (isDecimalArithmetic()) {
+    return toRoundedNumber(divide(Decimal.from(amount).mul(discountRate), 100));
+  }
+
   return roundMoney((amount * discountRate) / 100);
 }
 
@@ -333,23 +414,31 @@ export function calculateSimpleInterest(
 ): InterestResult {
   if (!isValidAmount(principal) || principal < 0) {
     throw new MonieUtilsError(
-      `Invalid principal: ${principal}. Principal must be a non-negative number.`
+      `Invalid principal: ${principal}. Principal must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'principal', value: principal, min: 0 }
     );
   }
 
   if (!isValidAmount(rate) || rate < 0) {
     throw new MonieUtilsError(
-      `Invalid rate: ${rate}. Rate must be a non-negative number.`
+      `Invalid rate: ${rate}. Rate must be a non-negative number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
     );
   }
 
   if (!isValidAmount(time) || time < 0) {
     throw new MonieUtilsError(
-      `Invalid time: ${time}. Time must be a non-negative number.`
+      `Invalid time: ${time}. Time must be a non-negative number.`,
+      'INVALID_RANGE',
+      { field: 'time', value: time, min: 0 }
     );
   }
 
-  const interest = roundMoney((principal * rate * time) / 100);
+  const interest = isDecimalArithmetic()
+    ? toRoundedNumber(divide(Decimal.from(principal).mul(rate).mul(time), 100))
+    : roundMoney((principal * rate * time) / 100);
   const finalAmount = roundMoney(principal + interest);
 
   return {
@@ -387,19 +476,25 @@ export function calculateCompoundInterest(
 ): InterestResult {
   if (!isValidAmount(principal) || principal < 0) {
     throw new MonieUtilsError(
-      `Invalid principal: ${principal}. Principal must be a non-negative number.`
+      `Invalid principal: ${principal}. Principal must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'principal', value: principal, min: 0 }
     );
   }
 
   if (!isValidAmount(rate) || rate < 0) {
     throw new MonieUtilsError(
-      `Invalid rate: ${rate}. Rate must be a non-negative number.`
+      `Invalid rate: ${rate}. Rate must be a non-negative number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
     );
   }
 
   if (!isValidAmount(time) || time < 0) {
     throw new MonieUtilsError(
-      `Invalid time: ${time}. Time must be a non-negative number.`
+      `Invalid time: ${time}. Time must be a non-negative number.`,
+      'INVALID_RANGE',
+      { field: 'time', value: time, min: 0 }
     );
   }
 
@@ -409,13 +504,29 @@ export function calculateCompoundInterest(
     !Number.isInteger(frequency)
   ) {
     throw new MonieUtilsError(
-      `Invalid frequency: ${frequency}. Frequency must be a positive integer.`
+      `Invalid frequency: ${frequency}. Frequency must be a positive integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'frequency', value: frequency, min: 1 }
+    );
+  }
+
+  const periods = frequency * time;
+  let roundedFinal: number;
+
+  // Exact decimal powers need an integer exponent; fractional periods stay on floats
+  if (isDecimalArithmetic() && Number.isInteger(periods)) {
+    const periodicRate = divide(Decimal.from(rate), frequency * 100);
+    roundedFinal = toRoundedNumber(
+      Decimal.from(principal).mul(
+        periodicRate.add(1).pow(periods, getConfig().decimalScale)
+      )
+    );
+  } else {
+    roundedFinal = roundMoney(
+      principal * Math.pow(1 + rate / 100 / frequency, periods)
     );
   }
 
-  const finalAmount =
-    principal * Math.pow(1 + rate / 100 / frequency, frequency * time);
-  const roundedFinal = roundMoney(finalAmount);
   const interest = roundMoney(roundedFinal - principal);
 
   return {
@@ -434,6 +545,8 @@ export function calculateCompoundInterest(
  *
  * @param totalAmount - Total amount to split
  * @param numberOfParts - Number of parts to split into
+ * @param roundingMode - How each share is rounded to cents before the
+ * leftover cents are settled on the last parts (default: 'floor')
  * @returns Split result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -441,34 +554,56 @@ export function calculateCompoundInterest(
  * @example
  * ```typescript
  * splitAmount(100, 3) // [33.33, 33.33, 33.34] (last part gets remainder)
+ * splitAmount(200, 3, 'half-up') // [66.67, 66.67, 66.66] (last part absorbs the excess)
  * ```
  */
 export function splitAmount(
   totalAmount: number,
-  numberOfParts: number
+  numberOfParts: number,
+  roundingMode: RoundingMode = 'floor'
 ): SplitResult {
   if (!isValidAmount(totalAmount)) {
     throw new MonieUtilsError(
-      `Invalid total amount: ${totalAmount}. Amount must be a finite number.`
+      `Invalid total amount: ${totalAmount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'totalAmount', value: totalAmount }
     );
   }
 
   if (!Number.isInteger(numberOfParts) || numberOfParts <= 0) {
     throw new MonieUtilsError(
-      `Invalid number of parts: ${numberOfParts}. Must be a positive integer.`
+      `Invalid number of parts: ${numberOfParts}. Must be a positive integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'numberOfParts', value: numberOfParts, min: 1 }
     );
   }
 
-  const baseAmount = Math.floor((totalAmount * 100) / numberOfParts) / 100;
-  const remainder = roundMoney(totalAmount - baseAmount * numberOfParts);
+  const policy = resolveRoundingPolicy(roundingMode);
+  const baseAmount = isDecimalArithmetic()
+    ? toRoundedNumber(
+        divide(Decimal.from(totalAmount), numberOfParts),
+        2,
+        policy
+      )
+    : roundNumber((totalAmount * 100) / numberOfParts, 0, policy) / 100;
+  const remainder = isDecimalArithmetic()
+    ? toRoundedNumber(
+        Decimal.from(totalAmount).sub(
+          Decimal.from(baseAmount).mul(numberOfParts)
+        ),
+        2,
+        'half-up'
+      )
+    : roundMoney(totalAmount - baseAmount * numberOfParts, 2, 'half-up');
 
   const amounts = new Array(numberOfParts).fill(baseAmount);
 
-  // Distribute remainder to last parts (in cents)
+  // Settle the remainder on the last parts, one cent at a time
   let remainderCents = Math.round(remainder * 100);
-  for (let i = amounts.length - 1; i >= 0 && remainderCents > 0; i--) {
-    amounts[i] = roundMoney(amounts[i] + 0.01);
-    remainderCents--;
+  const step = Math.sign(remainderCents);
+  for (let i = amounts.length - 1; i >= 0 && remainderCents !== 0; i--) {
+    amounts[i] = roundMoney(amounts[i] + step * 0.01, 2, 'half-up');
+    remainderCents -= step;
   }
 
   return {
@@ -484,6 +619,8 @@ export function splitAmount(
  *
  * @param totalAmount - Total amount to distribute
  * @param ratios - Array of ratios for distribution
+ * @param roundingMode - How each share is rounded to cents (default: the
+ * configured rounding mode)
  * @returns Distribution result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -496,23 +633,32 @@ export function splitAmount(
  */
 export function distributeProportionally(
   totalAmount: number,
-  ratios: number[]
+  ratios: number[],
+  roundingMode?: RoundingMode
 ): DistributionResult {
   if (!isValidAmount(totalAmount)) {
     throw new MonieUtilsError(
-      `Invalid total amount: ${totalAmount}. Amount must be a finite number.`
+      `Invalid total amount: ${totalAmount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'totalAmount', value: totalAmount }
     );
   }
 
   if (!Array.isArray(ratios) || ratios.length === 0) {
-    throw new MonieUtilsError('Ratios must be a non-empty array');
+    throw new MonieUtilsError(
+      'Ratios must be a non-empty array',
+      'INVALID_ARGUMENT',
+      { field: 'ratios', value: ratios }
+    );
   }
 
   // Validate all ratios
   for (const ratio of ratios) {
     if (!isValidAmount(ratio) || ratio < 0) {
       throw new MonieUtilsError(
-        `Invalid ratio: ${ratio}. All ratios must be non-negative numbers.`
+        `Invalid ratio: ${ratio}. All ratios must be non-negative numbers.`,
+        'INVALID_ARGUMENT',
+        { field: 'ratios', value: ratio, min: 0 }
       );
     }
   }
@@ -520,15 +666,43 @@ export function distributeProportionally(
   const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
 
   if (totalRatio === 0) {
-    throw new MonieUtilsError('Sum of ratios cannot be zero');
+    throw new MonieUtilsError(
+      'Sum of ratios cannot be zero',
+      'INVALID_ARGUMENT',
+      { field: 'ratios', value: ratios }
+    );
+  }
+
+  const policy = resolveRoundingPolicy(roundingMode);
+
+  if (isDecimalArithmetic()) {
+    const exactTotal = Decimal.from(totalAmount);
+    const exactRatioSum = ratios.reduce(
+      (sum, ratio) => sum.add(ratio),
+      Decimal.from(0)
+    );
+    const exactAmounts = ratios.map(ratio =>
+      toRoundedNumber(divide(exactTotal.mul(ratio), exactRatioSum), 2, policy)
+    );
+    const distributed = exactAmounts.reduce(
+      (sum, amount) => sum.add(amount),
+      Decimal.from(0)
+    );
+
+    return {
+      amounts: exactAmounts,
+      totalAmount,
+      ratios,
+      remainder: toRoundedNumber(exactTotal.sub(distributed), 2, 'half-up'),
+    };
   }
 
   const amounts = ratios.map(ratio =>
-    roundMoney((totalAmount * ratio) / totalRatio)
+    roundMoney((totalAmount * ratio) / totalRatio, 2, policy)
   );
 
   const distributedTotal = amounts.reduce((sum, amount) => sum + amount, 0);
-  const remainder = roundMoney(totalAmount - distributedTotal);
+  const remainder = roundMoney(totalAmount - distributedTotal, 2, 'half-up');
 
   return {
     amounts,
@@ -559,21 +733,30 @@ export function calculatePercentageOfTotal(
 ): PercentageResult {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(total)) {
     throw new MonieUtilsError(
-      `Invalid total: ${total}. Total must be a finite number.`
+      `Invalid total: ${total}. Total must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'total', value: total }
     );
   }
 
   if (total === 0) {
-    throw new MonieUtilsError('Total cannot be zero');
+    throw new MonieUtilsError('Total cannot be zero', 'DIVISION_BY_ZERO', {
+      field: 'total',
+      value: total,
+    });
   }
 
-  const percentage = roundMoney((amount / total) * 100);
+  const percentage = isDecimalArithmetic()
+    ? toRoundedNumber(divide(Decimal.from(amount).mul(100), total))
+    : roundMoney((amount / total) * 100);
 
   return {
     percentage,
@@ -38,6 +38,21 @@ describe('arithmetic operations', () => {
     it('should throw for division by zero', () => {
       expect(() => divideMoney(100, 0)).toThrow(MonieUtilsError);
     });
+
+    it('should tag errors with a code and details', () => {
+      expect(() => divideMoney(100, 0)).toThrow(
+        expect.objectContaining({
+          code: 'DIVISION_BY_ZERO',
+          details: { field: 'divisor', value: 0 },
+        })
+      );
+      expect(() => addMoney(NaN, 1)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_AMOUNT',
+          details: { field: 'amount1', value: NaN },
+        })
+      );
+    });
   });
 
   describe('financial calculations', () => {
@@ -49,6 +49,8 @@ export {
 // Export types
 export type {
   RoundingMode,
+  RoundingPolicy,
+  LegacyRoundingMode,
   ArithmeticResult,
   SplitResult,
   DistributionResult,
@@ -3,9 +3,13 @@
  */
 
 /**
- * Rounding modes for financial calculations
+ * Rounding modes for financial calculations, shared across the library
  */
-export type RoundingMode = 'round' | 'floor' | 'ceil' | 'bankers';
+export type {
+  RoundingMode,
+  RoundingPolicy,
+  LegacyRoundingMode,
+} from '../rounding/types';
 
 /**
  * Result of money arithmetic operations
@@ -0,0 +1,123 @@
+/**
+ * Library-wide configuration utilities
+ */
+
+import type { MonieUtilsConfig } from './types';
+import type { RoundingPolicy } from '../rounding/types';
+import { ROUNDING_POLICIES } from '../rounding/constants';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_CONFIG: Readonly<MonieUtilsConfig> = Object.freeze({
+  arithmetic: 'float',
+  decimalScale: 20,
+  roundingMode: 'half-up',
+});
+
+let currentConfig: MonieUtilsConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * Updates the library-wide configuration
+ *
+ * @param options - Settings to change; omitted settings keep their current value
+ * @returns The resulting configuration
+ *
+ * @throws {MonieUtilsError} When a setting is invalid
+ *
+ * @example
+ * ```typescript
+ * // Opt every arithmetic, utils, loans and investment function into exact decimals
+ * configure({ arithmetic: 'decimal' });
+ * addMoney(0.1, 0.2); // 0.3, computed exactly
+ *
+ * // Round ties to even wherever no rounding mode is passed
+ * configure({ roundingMode: 'half-even' });
+ * roundMoney(2.125); // 2.12
+ * ```
+ */
+export function configure(
+  options: Partial<MonieUtilsConfig>
+): Readonly<MonieUtilsConfig> {
+  if (!options || typeof options !== 'object') {
+    throw new MonieUtilsError(
+      'Configuration must be an object',
+      'INVALID_ARGUMENT',
+      { field: 'options', value: options }
+    );
+  }
+
+  const { arithmetic, decimalScale, roundingMode } = options;
+
+  if (
+    arithmetic !== undefined &&
+    arithmetic !== 'float' &&
+    arithmetic !== 'decimal'
+  ) {
+    throw new MonieUtilsError(
+      `Invalid arithmetic mode: ${String(arithmetic)}. Must be 'float' or 'decimal'.`,
+      'INVALID_ARGUMENT',
+      { field: 'arithmetic', value: arithmetic, allowed: ['float', 'decimal'] }
+    );
+  }
+
+  if (
+    decimalScale !== undefined &&
+    (!Number.isInteger(decimalScale) || decimalScale < 0)
+  ) {
+    throw new MonieUtilsError(
+      `Invalid decimal scale: ${decimalScale}. Must be a non-negative integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'decimalScale', value: decimalScale, min: 0 }
+    );
+  }
+
+  if (
+    roundingMode !== undefined &&
+    !ROUNDING_POLICIES.includes(roundingMode as RoundingPolicy)
+  ) {
+    throw new MonieUtilsError(
+      `Invalid rounding mode: ${String(roundingMode)}`,
+      'INVALID_ARGUMENT',
+      { field: 'roundingMode', value: roundingMode, allowed: ROUNDING_POLICIES }
+    );
+  }
+
+  currentConfig = {
+    ...currentConfig,
+    ...(arithmetic !== undefined && { arithmetic }),
+    ...(decimalScale !== undefined && { decimalScale }),
+    ...(roundingMode !== undefined && { roundingMode }),
+  };
+
+  return getConfig();
+}
+
+/**
+ * Returns a snapshot of the current configuration
+ *
+ * @returns The current configuration
+ */
+export function getConfig(): Readonly<MonieUtilsConfig> {
+  return Object.freeze({ ...currentConfig });
+}
+
+/**
+ * Restores the default configuration
+ *
+ * @returns The default configuration
+ */
+export function resetConfig(): Readonly<MonieUtilsConfig> {
+  currentConfig = { ...DEFAULT_CONFIG };
+  return getConfig();
+}
+
+/**
+ * Whether calculations should use the exact decimal engine
+ *
+ * @returns True when `arithmetic` is set to 'decimal'
+ */
+export function isDecimalArithmetic(): boolean {
+  return currentConfig.arithmetic === 'decimal';
+}
@@ -0,0 +1,90 @@
+/**
+ * Tests for library-wide configuration
+ */
+
+import { configure, getConfig, resetConfig, DEFAULT_CONFIG } from './index';
+import { MonieUtilsError } from '../errors';
+import { roundMoney, addMoney, splitAmount } from '../arithmetic';
+import { normalizeAmount } from '../validation';
+import { truncateToDecimalPlaces, roundToBankersRounding } from '../utils';
+import {
+  calculateMonthlyPayment,
+  generateAmortizationSchedule,
+} from '../loans';
+import { calculateFutureValue, calculateROI } from '../investment';
+
+describe('configuration', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  describe('configure', () => {
+    it('should start from the defaults', () => {
+      expect(getConfig()).toEqual(DEFAULT_CONFIG);
+      expect(getConfig().arithmetic).toBe('float');
+    });
+
+    it('should merge partial settings', () => {
+      configure({ arithmetic: 'decimal' });
+      configure({ decimalScale: 30 });
+      expect(getConfig()).toEqual({
+        arithmetic: 'decimal',
+        decimalScale: 30,
+        roundingMode: 'half-up',
+      });
+    });
+
+    it('should reset to defaults', () => {
+      configure({ arithmetic: 'decimal' });
+      expect(resetConfig()).toEqual(DEFAULT_CONFIG);
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() =>
+        configure({ arithmetic: 'binary' as unknown as 'float' })
+      ).toThrow(MonieUtilsError);
+      expect(() => configure({ decimalScale: -1 })).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('decimal arithmetic', () => {
+    it('should fix float rounding errors when enabled', () => {
+      expect(roundMoney(1.005)).toBe(1.01);
+      configure({ arithmetic: 'decimal' });
+      expect(roundMoney(1.005)).toBe(1.01);
+      expect(normalizeAmount(1.005)).toBe(1.01);
+      expect(addMoney(0.1, 0.2)).toBe(0.3);
+    });
+
+    it('should keep crypto precision in utils', () => {
+      configure({ arithmetic: 'decimal' });
+      expect(truncateToDecimalPlaces(0.123456789012345, 12)).toBe(
+        0.123456789012
+      );
+      expect(roundToBankersRounding(1.0000000025, 9)).toBe(1.000000002);
+    });
+
+    it('should split amounts exactly', () => {
+      configure({ arithmetic: 'decimal' });
+      const result = splitAmount(100, 3);
+      expect(result.amounts).toEqual([33.33, 33.33, 33.34]);
+    });
+
+    it('should produce matching loan figures', () => {
+      const floatResult = calculateMonthlyPayment(100000, 5, 360);
+      configure({ arithmetic: 'decimal' });
+      const decimalResult = calculateMonthlyPayment(100000, 5, 360);
+      expect(decimalResult.monthlyPayment).toBe(floatResult.monthlyPayment);
+      expect(decimalResult.totalAmount).toBe(193255.2);
+
+      const schedule = generateAmortizationSchedule(1000, 12, 12);
+      expect(schedule.payments[11].remainingBalance).toBe(0);
+    });
+
+    it('should compute investment results exactly', () => {
+      configure({ arithmetic: 'decimal' });
+      expect(calculateFutureValue(1000, 0.05, 10).futureValue).toBe(1628.89);
+      expect(calculateROI(1000, 1250).roiPercentage).toBe(25);
+    });
+  });
+});
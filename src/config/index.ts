@@ -0,0 +1,27 @@
+/**
+ * Library configuration barrel export
+ *
+ * This module provides library-wide settings including:
+ * - Opting calculations into the exact decimal engine
+ * - Controlling the precision of intermediate decimal division
+ * - Choosing the default rounding policy
+ *
+ * @example
+ * ```typescript
+ * import { configure, resetConfig } from 'monie-utils/config';
+ *
+ * configure({ arithmetic: 'decimal' });
+ * roundMoney(1.005); // 1.01
+ *
+ * resetConfig(); // back to native floats
+ * ```
+ */
+
+// Export configuration functions
+export { configure, getConfig, resetConfig } from './config';
+
+// Export constants
+export { DEFAULT_CONFIG } from './config';
+
+// Export types
+export type { ArithmeticMode, MonieUtilsConfig } from './types';
@@ -0,0 +1,25 @@
+/**
+ * Type definitions for library-wide configuration
+ */
+
+import type { RoundingPolicy } from '../rounding/types';
+
+/**
+ * Numeric engine used by calculations
+ *
+ * - `float`: native IEEE 754 doubles (fast, default)
+ * - `decimal`: exact bigint-backed decimals, rounded to the requested precision
+ */
+export type ArithmeticMode = 'float' | 'decimal';
+
+/**
+ * Library-wide configuration
+ */
+export interface MonieUtilsConfig {
+  /** Numeric engine used by arithmetic, utils, loans and investment (default: 'float') */
+  arithmetic: ArithmeticMode;
+  /** Fractional digits kept by intermediate decimal division (default: 20) */
+  decimalScale: number;
+  /** Rounding policy used when a function is not given one (default: 'half-up') */
+  roundingMode: RoundingPolicy;
+}
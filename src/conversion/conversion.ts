@@ -4,164 +4,483 @@
 
 import type {
   ConversionResult,
+  ConversionOptions,
   ConversionWithFeeResult,
+  ConversionWithFeeOptions,
   BulkConversionResult,
+  HistoricalConversionOptions,
+  HistoricalConversionResult,
+  RateQuoteInput,
+  RateQuote,
+  QuotedConversionOptions,
+  QuoteSide,
+  QuotedConversionResult,
+  ConversionCost,
 } from './types';
+import type {
+  ExchangeRateProvider,
+  AsyncExchangeRateProvider,
+  RateResolutionOptions,
+  ResolvedRate,
+} from '../rates/types';
 import { isValidAmount, isValidCurrency } from '../validation/validation';
+import {
+  InMemoryRateProvider,
+  assertValidRate,
+  isExchangeRateProvider,
+  resolveExchangeRate,
+  resolveExchangeRateAsync,
+} from '../rates/rates';
+import { HistoricalRateStore, toRateDate } from '../rates/historicalRates';
+import type { FeeStructure } from '../types';
+import type { FeeBreakdown } from '../fees/types';
+import { calculateFee } from '../fees/fees';
+import { getCurrencyInfo } from '../currencies';
+import { resolveRoundingPolicy } from '../rounding';
+import { Decimal } from '../decimal';
 import { MonieUtilsError } from '../errors';
 
 /**
  * Default exchange rates for demo purposes (not for production use)
  */
-const DEFAULT_RATES: Record<string, Record<string, number>> = {
-  USD: { EUR: 0.85, GBP: 0.73, JPY: 110, NGN: 460 },
+const DEFAULT_RATES = new InMemoryRateProvider({
+  USD: {
+    EUR: 0.85,
+    GBP: 0.73,
+    JPY: 110,
+    NGN: 460,
+    KES: 129,
+    GHS: 15.5,
+    ZAR: 18.5,
+  },
   EUR: { USD: 1.18, GBP: 0.86, JPY: 129, NGN: 542 },
   GBP: { USD: 1.37, EUR: 1.16, JPY: 150, NGN: 630 },
   JPY: { USD: 0.0091, EUR: 0.0077, GBP: 0.0067, NGN: 4.18 },
   NGN: { USD: 0.0022, EUR: 0.0018, GBP: 0.0016, JPY: 0.24 },
-};
+  KES: { USD: 0.0078 },
+  GHS: { USD: 0.065 },
+  ZAR: { USD: 0.054 },
+});
+
+/**
+ * Checks that both currencies of a conversion are supported
+ *
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ *
+ * @throws {MonieUtilsError} When either currency is not supported
+ */
+export function assertCurrencyPair(
+  fromCurrency: string,
+  toCurrency: string
+): void {
+  if (!isValidCurrency(fromCurrency)) {
+    throw new MonieUtilsError(
+      `Invalid source currency: ${fromCurrency}`,
+      'INVALID_CURRENCY',
+      { field: 'fromCurrency', value: fromCurrency }
+    );
+  }
+
+  if (!isValidCurrency(toCurrency)) {
+    throw new MonieUtilsError(
+      `Invalid target currency: ${toCurrency}`,
+      'INVALID_CURRENCY',
+      { field: 'toCurrency', value: toCurrency }
+    );
+  }
+}
+
+/**
+ * Checks that a provider could resolve a rate
+ *
+ * @param resolved - The resolved rate, if any
+ * @param from - Source currency
+ * @param to - Target currency
+ * @returns The resolved rate
+ */
+function checkResolvedRate(
+  resolved: ResolvedRate | undefined,
+  from: string,
+  to: string
+): ResolvedRate {
+  if (resolved === undefined) {
+    throw new MonieUtilsError(
+      `Exchange rate not available for ${from} to ${to}`,
+      'EXCHANGE_RATE_NOT_FOUND',
+      { from, to }
+    );
+  }
+
+  return resolved;
+}
 
 /**
  * Gets exchange rate between two currencies
  *
  * @param from - Source currency
  * @param to - Target currency
- * @param customRate - Custom rate to use instead of default
- * @returns Exchange rate
+ * @param source - Custom rate or provider to use instead of the defaults
+ * @param options - Triangulation options
+ * @returns Exchange rate and the route it was derived from
+ *
+ * @throws {MonieUtilsError} When the rate is unavailable, or a custom rate
+ * is not a positive finite number
  */
-function getExchangeRate(
+export function getExchangeRate(
   from: string,
   to: string,
-  customRate?: number
-): number {
-  if (customRate !== undefined) {
-    return customRate;
+  source?: number | ExchangeRateProvider,
+  options?: RateResolutionOptions
+): ResolvedRate {
+  if (typeof source === 'number') {
+    const rate = assertValidRate(source, from, to);
+    return {
+      rate,
+      path: [from, to],
+      legs: [{ from, to, rate }],
+    };
   }
 
-  if (from === to) {
-    return 1;
-  }
+  return checkResolvedRate(
+    resolveExchangeRate(source ?? DEFAULT_RATES, from, to, options),
+    from,
+    to
+  );
+}
 
-  const rate = DEFAULT_RATES[from]?.[to];
-  if (!rate) {
-    throw new MonieUtilsError(
-      `Exchange rate not available for ${from} to ${to}`
-    );
+/**
+ * Gets exchange rate between two currencies from a provider that may
+ * answer asynchronously
+ *
+ * @param from - Source currency
+ * @param to - Target currency
+ * @param source - Custom rate or provider to use instead of the defaults
+ * @param options - Triangulation options
+ * @returns Exchange rate and the route it was derived from
+ *
+ * @throws {MonieUtilsError} When the rate is unavailable
+ */
+export async function getExchangeRateAsync(
+  from: string,
+  to: string,
+  source?: number | AsyncExchangeRateProvider,
+  options?: RateResolutionOptions
+): Promise<ResolvedRate> {
+  if (!isExchangeRateProvider(source)) {
+    return getExchangeRate(from, to, source, options);
   }
 
-  return rate;
+  return checkResolvedRate(
+    await resolveExchangeRateAsync(source, from, to, options),
+    from,
+    to
+  );
+}
+
+/**
+ * Applies a rate to an amount exactly, then rounds to the target
+ * currency's minor units unless the options ask for the raw value
+ *
+ * @param toCurrency - Target currency code
+ * @param options - Rounding options
+ * @returns Function converting an amount at a rate
+ *
+ * @throws {MonieUtilsError} When the rounding mode is invalid
+ */
+function createRateApplier(
+  toCurrency: string,
+  options: Pick<ConversionOptions, 'roundToMinorUnits' | 'roundingMode'>
+): (
+  amount: number | Decimal,
+  rate: number | Decimal
+) => { converted: Decimal; raw: Decimal } {
+  const { roundToMinorUnits = true, roundingMode } = options;
+  const policy = resolveRoundingPolicy(roundingMode);
+  const decimalPlaces = getCurrencyInfo(toCurrency)?.decimalPlaces ?? 2;
+
+  return (amount, rate) => {
+    const raw = Decimal.from(amount).mul(rate);
+    return {
+      converted: roundToMinorUnits ? raw.round(decimalPlaces, policy) : raw,
+      raw,
+    };
+  };
 }
 
 /**
- * Converts currency amount between two currencies
+ * Validates a conversion and applies the rate
  *
  * @param amount - Amount to convert
  * @param fromCurrency - Source currency code
  * @param toCurrency - Target currency code
- * @param rate - Optional custom exchange rate
+ * @param getRate - Resolves the rate once the inputs are validated
+ * @param options - Rounding options
  * @returns Conversion result
- *
- * @throws {MonieUtilsError} When inputs are invalid
- *
- * @example
- * ```typescript
- * convertCurrency(100, 'USD', 'EUR') // Uses default rate
- * convertCurrency(100, 'USD', 'EUR', 0.85) // Uses custom rate
- * ```
  */
-export function convertCurrency(
+function convertAmount(
   amount: number,
   fromCurrency: string,
   toCurrency: string,
-  rate?: number
+  getRate: () => ResolvedRate,
+  options: ConversionOptions = {}
 ): ConversionResult {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
-  if (!isValidCurrency(fromCurrency)) {
-    throw new MonieUtilsError(`Invalid source currency: ${fromCurrency}`);
-  }
+  assertCurrencyPair(fromCurrency, toCurrency);
 
-  if (!isValidCurrency(toCurrency)) {
-    throw new MonieUtilsError(`Invalid target currency: ${toCurrency}`);
-  }
-
-  const exchangeRate = getExchangeRate(
-    fromCurrency.toUpperCase(),
-    toCurrency.toUpperCase(),
-    rate
-  );
-  const convertedAmount = amount * exchangeRate;
+  const applyRate = createRateApplier(toCurrency, options);
+  const { rate: exchangeRate, path, legs } = getRate();
+  const { converted, raw } = applyRate(amount, exchangeRate);
 
   return {
     originalAmount: amount,
-    convertedAmount,
+    convertedAmount: converted.toNumber(),
     fromCurrency: fromCurrency.toUpperCase(),
     toCurrency: toCurrency.toUpperCase(),
     exchangeRate,
     timestamp: new Date(),
+    path,
+    legs,
+    rawConvertedAmount: raw.toNumber(),
+    roundingAdjustment: converted.sub(raw).toNumber(),
   };
 }
 
+/**
+ * Converts currency amount between two currencies. When no direct rate is
+ * known, a cross rate is derived through a pivot currency (USD by default)
+ * and the route is reported in `path` and `legs`.
+ *
+ * @param amount - Amount to convert
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param rate - Optional custom exchange rate or synchronous rate provider
+ * @param options - Triangulation and rounding options
+ * @returns Conversion result
+ *
+ * @throws {MonieUtilsError} When inputs are invalid or the rate is
+ * unavailable
+ *
+ * @example
+ * ```typescript
+ * convertCurrency(100, 'USD', 'EUR') // Uses default rate
+ * convertCurrency(100, 'USD', 'EUR', 0.85) // Uses custom rate
+ * convertCurrency(100, 'USD', 'EUR', new InMemoryRateProvider({ USD: { EUR: 0.92 } }))
+ * convertCurrency(100, 'KES', 'GHS').path // ['KES', 'USD', 'GHS']
+ * ```
+ */
+export function convertCurrency(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  rate?: number | ExchangeRateProvider,
+  options: ConversionOptions = {}
+): ConversionResult {
+  return convertAmount(
+    amount,
+    fromCurrency,
+    toCurrency,
+    () =>
+      getExchangeRate(
+        fromCurrency.toUpperCase(),
+        toCurrency.toUpperCase(),
+        rate,
+        options
+      ),
+    options
+  );
+}
+
 /**
  * Converts currency with transaction fee
  *
  * @param amount - Amount to convert
  * @param rate - Exchange rate
- * @param feePercentage - Fee percentage (e.g., 2.5 for 2.5%)
- * @returns Conversion result with fee information
+ * @param fee - Fee percentage (e.g., 2.5 for 2.5%) or a fee structure,
+ * which is evaluated with `calculateFee`
+ * @param options - Currency and rounding for a fee structure, and the
+ * target currency whose minor units the converted amount is rounded to
+ * @returns Conversion result with fee information, itemized when the fee is
+ * a fee structure
  *
  * @throws {MonieUtilsError} When inputs are invalid
  *
  * @example
  * ```typescript
- * convertWithFee(100, 0.85, 2.5) // 2.5% fee
+ * convertWithFee(100, 0.85, 2.5) // 2.5% fee, 82.88 converted
+ * convertWithFee(100, 0.85, { fixed: 1, percentage: 1.5 }) // $1 + 1.5% fee
+ * convertWithFee(10000, 0.0062, { fixed: 150 }, { currency: 'JPY' })
  * ```
  */
 export function convertWithFee(
   amount: number,
   rate: number,
-  feePercentage: number
+  fee: FeeStructure,
+  options?: ConversionWithFeeOptions
+): ConversionWithFeeResult & { feeBreakdown: FeeBreakdown };
+export function convertWithFee(
+  amount: number,
+  rate: number,
+  fee: number | FeeStructure,
+  options?: ConversionWithFeeOptions
+): ConversionWithFeeResult;
+export function convertWithFee(
+  amount: number,
+  rate: number,
+  fee: number | FeeStructure,
+  options: ConversionWithFeeOptions = {}
 ): ConversionWithFeeResult {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidAmount(rate) || rate <= 0) {
     throw new MonieUtilsError(
-      `Invalid exchange rate: ${rate}. Rate must be a positive number.`
+      `Invalid exchange rate: ${rate}. Rate must be a positive number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate }
     );
   }
 
-  if (
-    !isValidAmount(feePercentage) ||
-    feePercentage < 0 ||
-    feePercentage > 100
-  ) {
+  const { currency, toCurrency, roundingMode } = options;
+  if (toCurrency !== undefined && !isValidCurrency(toCurrency)) {
     throw new MonieUtilsError(
-      `Invalid fee percentage: ${feePercentage}. Must be between 0 and 100.`
+      `Invalid target currency: ${toCurrency}`,
+      'INVALID_CURRENCY',
+      { field: 'toCurrency', value: toCurrency }
     );
   }
 
-  const feeAmount = (amount * feePercentage) / 100;
+  const applyRate = createRateApplier(toCurrency ?? '', options);
+  let feeAmount: number;
+  let feePercentage: number;
+  let feeBreakdown: FeeBreakdown | undefined;
+
+  if (typeof fee === 'object' && fee !== null) {
+    const result = calculateFee(amount, fee, {
+      ...(currency !== undefined && { currency }),
+      ...(roundingMode !== undefined && { roundingMode }),
+    });
+    feeAmount = result.fee;
+    feeBreakdown = result.breakdown;
+    feePercentage = amount === 0 ? 0 : (feeAmount / amount) * 100;
+  } else {
+    if (!isValidAmount(fee) || fee < 0 || fee > 100) {
+      throw new MonieUtilsError(
+        `Invalid fee percentage: ${fee}. Must be between 0 and 100.`,
+        'INVALID_PERCENTAGE',
+        { field: 'feePercentage', value: fee, min: 0, max: 100 }
+      );
+    }
+
+    feeAmount = (amount * fee) / 100;
+    feePercentage = fee;
+  }
+
   const amountAfterFee = amount - feeAmount;
-  const convertedAmount = amountAfterFee * rate;
+  const { converted, raw } = applyRate(amountAfterFee, rate);
 
   return {
     originalAmount: amount,
-    convertedAmount,
-    fromCurrency: '', // Not specified in this function
-    toCurrency: '', // Not specified in this function
+    convertedAmount: converted.toNumber(),
+    fromCurrency: currency?.toUpperCase() ?? '',
+    toCurrency: toCurrency?.toUpperCase() ?? '',
     exchangeRate: rate,
     timestamp: new Date(),
+    rawConvertedAmount: raw.toNumber(),
+    roundingAdjustment: converted.sub(raw).toNumber(),
     feeAmount,
     feePercentage,
     amountAfterFee,
+    ...(feeBreakdown !== undefined && { feeBreakdown }),
+  };
+}
+
+/**
+ * Validates a bulk conversion and applies the rate to every amount
+ *
+ * @param amounts - Array of amounts to convert
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param getRate - Resolves the rate once the inputs are validated
+ * @param options - Rounding options
+ * @returns Bulk conversion result
+ */
+function convertAmounts(
+  amounts: number[],
+  fromCurrency: string,
+  toCurrency: string,
+  getRate: () => ResolvedRate,
+  options: ConversionOptions = {}
+): BulkConversionResult {
+  if (!Array.isArray(amounts) || amounts.length === 0) {
+    throw new MonieUtilsError(
+      'Amounts must be a non-empty array',
+      'INVALID_ARGUMENT',
+      { field: 'amounts', value: amounts }
+    );
+  }
+
+  assertCurrencyPair(fromCurrency, toCurrency);
+
+  // Validate all amounts
+  for (const amount of amounts) {
+    if (!isValidAmount(amount)) {
+      throw new MonieUtilsError(
+        `Invalid amount in array: ${amount}`,
+        'INVALID_AMOUNT',
+        { field: 'amounts', value: amount }
+      );
+    }
+  }
+
+  const applyRate = createRateApplier(toCurrency, options);
+  const { rate: exchangeRate, path, legs } = getRate();
+  let totalConverted = Decimal.from(0);
+  let totalRaw = Decimal.from(0);
+
+  const conversions = amounts.map(amount => {
+    const { converted, raw } = applyRate(amount, exchangeRate);
+    totalConverted = totalConverted.add(converted);
+    totalRaw = totalRaw.add(raw);
+
+    return {
+      originalAmount: amount,
+      convertedAmount: converted.toNumber(),
+      fromCurrency: fromCurrency.toUpperCase(),
+      toCurrency: toCurrency.toUpperCase(),
+      exchangeRate,
+      timestamp: new Date(),
+      path,
+      legs,
+      rawConvertedAmount: raw.toNumber(),
+      roundingAdjustment: converted.sub(raw).toNumber(),
+    };
+  });
+
+  const totalOriginalAmount = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  // The total is the sum of the lines, so the lines always add up to it
+  return {
+    conversions,
+    totalOriginalAmount,
+    totalConvertedAmount: totalConverted.toNumber(),
+    roundingAdjustment: totalConverted.sub(totalRaw).toNumber(),
+    exchangeRate,
+    path,
+    fromCurrency: fromCurrency.toUpperCase(),
+    toCurrency: toCurrency.toUpperCase(),
   };
 }
 
@@ -171,7 +490,8 @@ export function convertWithFee(
  * @param amounts - Array of amounts to convert
  * @param fromCurrency - Source currency code
  * @param toCurrency - Target currency code
- * @param rate - Optional custom exchange rate
+ * @param rate - Optional custom exchange rate or synchronous rate provider
+ * @param options - Triangulation and rounding options
  * @returns Bulk conversion result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -185,51 +505,435 @@ export function bulkConvert(
   amounts: number[],
   fromCurrency: string,
   toCurrency: string,
-  rate?: number
+  rate?: number | ExchangeRateProvider,
+  options: ConversionOptions = {}
 ): BulkConversionResult {
-  if (!Array.isArray(amounts) || amounts.length === 0) {
-    throw new MonieUtilsError('Amounts must be a non-empty array');
-  }
+  return convertAmounts(
+    amounts,
+    fromCurrency,
+    toCurrency,
+    () =>
+      getExchangeRate(
+        fromCurrency.toUpperCase(),
+        toCurrency.toUpperCase(),
+        rate,
+        options
+      ),
+    options
+  );
+}
 
-  if (!isValidCurrency(fromCurrency)) {
-    throw new MonieUtilsError(`Invalid source currency: ${fromCurrency}`);
-  }
+/**
+ * Converts currency amount using a rate provider that may answer
+ * asynchronously (e.g., a live rate feed)
+ *
+ * @param amount - Amount to convert
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param rate - Optional custom exchange rate or rate provider
+ * @param options - Triangulation and rounding options
+ * @returns Conversion result
+ *
+ * @throws {MonieUtilsError} When inputs are invalid or the rate is
+ * unavailable
+ *
+ * @example
+ * ```typescript
+ * const feed = { getRate: async (from, to) => fetchRate(from, to) };
+ * await convertCurrencyAsync(100, 'USD', 'EUR', feed);
+ * ```
+ */
+export async function convertCurrencyAsync(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  rate?: number | AsyncExchangeRateProvider,
+  options: ConversionOptions = {}
+): Promise<ConversionResult> {
+  assertCurrencyPair(fromCurrency, toCurrency);
 
-  if (!isValidCurrency(toCurrency)) {
-    throw new MonieUtilsError(`Invalid target currency: ${toCurrency}`);
-  }
+  const resolved = await getExchangeRateAsync(
+    fromCurrency.toUpperCase(),
+    toCurrency.toUpperCase(),
+    rate,
+    options
+  );
 
-  // Validate all amounts
-  for (const amount of amounts) {
-    if (!isValidAmount(amount)) {
-      throw new MonieUtilsError(`Invalid amount in array: ${amount}`);
-    }
-  }
+  return convertAmount(
+    amount,
+    fromCurrency,
+    toCurrency,
+    () => resolved,
+    options
+  );
+}
+
+/**
+ * Converts multiple amounts using one rate from a provider that may answer
+ * asynchronously
+ *
+ * @param amounts - Array of amounts to convert
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param rate - Optional custom exchange rate or rate provider
+ * @param options - Triangulation and rounding options
+ * @returns Bulk conversion result
+ *
+ * @throws {MonieUtilsError} When inputs are invalid or the rate is
+ * unavailable
+ *
+ * @example
+ * ```typescript
+ * await bulkConvertAsync([100, 200, 300], 'USD', 'EUR', feed);
+ * ```
+ */
+export async function bulkConvertAsync(
+  amounts: number[],
+  fromCurrency: string,
+  toCurrency: string,
+  rate?: number | AsyncExchangeRateProvider,
+  options: ConversionOptions = {}
+): Promise<BulkConversionResult> {
+  assertCurrencyPair(fromCurrency, toCurrency);
 
-  const exchangeRate = getExchangeRate(
+  const resolved = await getExchangeRateAsync(
     fromCurrency.toUpperCase(),
     toCurrency.toUpperCase(),
-    rate
+    rate,
+    options
   );
 
-  const conversions = amounts.map(amount => ({
-    originalAmount: amount,
-    convertedAmount: amount * exchangeRate,
-    fromCurrency: fromCurrency.toUpperCase(),
-    toCurrency: toCurrency.toUpperCase(),
-    exchangeRate,
-    timestamp: new Date(),
+  return convertAmounts(
+    amounts,
+    fromCurrency,
+    toCurrency,
+    () => resolved,
+    options
+  );
+}
+
+/**
+ * Converts currency amount at the rates in effect on a past date, for
+ * restating invoices or tax reporting. When no rate was recorded that day,
+ * `missingDate` picks a substitute (the previous business day by default).
+ *
+ * @param amount - Amount to convert
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param date - Day to convert at
+ * @param rates - Historical rates to use
+ * @param options - Missing-date handling, triangulation and rounding options
+ * @returns Conversion result with the requested day and the rate's day
+ *
+ * @throws {MonieUtilsError} When inputs are invalid or no rate is available
+ * for that day
+ *
+ * @example
+ * ```typescript
+ * const history = new HistoricalRateStore([
+ *   { date: '2024-03-15', from: 'USD', to: 'EUR', rate: 0.918 },
+ * ]);
+ *
+ * const result = convertCurrencyAt(100, 'USD', 'EUR', '2024-03-17', history);
+ * result.convertedAmount; // 91.8
+ * result.rateDate; // 2024-03-15 (Friday's rate for a Sunday)
+ * ```
+ */
+export function convertCurrencyAt(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date | string,
+  rates: HistoricalRateStore,
+  options: HistoricalConversionOptions = {}
+): HistoricalConversionResult {
+  const requestedDate = toRateDate(date);
+
+  if (!(rates instanceof HistoricalRateStore)) {
+    throw new MonieUtilsError(
+      'Rates must be a HistoricalRateStore',
+      'INVALID_ARGUMENT',
+      { field: 'rates', value: rates }
+    );
+  }
+
+  const rateDates = new Map<string, Date>();
+  const snapshot: ExchangeRateProvider = {
+    getRate: (from, to) => {
+      const historical = rates.getRate(from, to, requestedDate, options);
+      if (historical !== undefined) {
+        rateDates.set(`${historical.from}/${historical.to}`, historical.date);
+      }
+      return historical?.rate;
+    },
+    listPairs: () => rates.listPairs(),
+  };
+
+  const result = convertAmount(
+    amount,
+    fromCurrency,
+    toCurrency,
+    () =>
+      getExchangeRate(
+        fromCurrency.toUpperCase(),
+        toCurrency.toUpperCase(),
+        snapshot,
+        options
+      ),
+    options
+  );
+  const legs = (result.legs ?? []).map(leg => ({
+    ...leg,
+    timestamp: rateDates.get(`${leg.from}/${leg.to}`) ?? requestedDate,
   }));
+  // The oldest rate used, which can fall after the requested day with
+  // missingDate 'nearest'
+  const rateDate =
+    legs.length === 0
+      ? requestedDate
+      : legs.reduce(
+          (oldest, leg) => (leg.timestamp < oldest ? leg.timestamp : oldest),
+          legs[0].timestamp
+        );
 
-  const totalOriginalAmount = amounts.reduce((sum, amount) => sum + amount, 0);
-  const totalConvertedAmount = totalOriginalAmount * exchangeRate;
+  return {
+    ...result,
+    timestamp: requestedDate,
+    legs,
+    requestedDate,
+    rateDate,
+  };
+}
+
+/**
+ * Creates a two-sided rate quote from bid and ask prices, or from a mid
+ * price and a spread in basis points
+ *
+ * @param input - The pair and its prices
+ * @returns The rate quote
+ *
+ * @throws {MonieUtilsError} When a currency is invalid, a price is not
+ * positive or the bid is above the ask
+ *
+ * @example
+ * ```typescript
+ * createRateQuote({ base: 'EUR', quote: 'USD', bid: 1.085, ask: 1.086 });
+ * // { base: 'EUR', quote: 'USD', bid: 1.085, ask: 1.086, mid: 1.0855, spreadBps: 9.21, ... }
+ *
+ * createRateQuote({ base: 'USD', quote: 'NGN', mid: 1500, spreadBps: 200 });
+ * // { bid: 1485, ask: 1515, mid: 1500, spreadBps: 200, ... }
+ * ```
+ */
+export function createRateQuote(input: RateQuoteInput): RateQuote {
+  const { base, quote, timestamp = new Date() } = input;
+
+  assertCurrencyPair(base, quote);
+
+  let bid: number;
+  let ask: number;
+
+  if ('mid' in input) {
+    const { mid, spreadBps } = input;
+    assertValidRate(mid, base, quote);
+
+    if (!isValidAmount(spreadBps) || spreadBps < 0 || spreadBps >= 20000) {
+      throw new MonieUtilsError(
+        `Invalid spread: ${spreadBps}. Must be between 0 and 20000 basis points.`,
+        'INVALID_ARGUMENT',
+        { field: 'spreadBps', value: spreadBps, min: 0, max: 20000 }
+      );
+    }
+
+    const halfSpread = Decimal.from(mid).mul(spreadBps).div(20000);
+    bid = Decimal.from(mid).sub(halfSpread).toNumber();
+    ask = Decimal.from(mid).add(halfSpread).toNumber();
+  } else {
+    bid = assertValidRate(input.bid, base, quote);
+    ask = assertValidRate(input.ask, base, quote);
+
+    if (bid > ask) {
+      throw new MonieUtilsError(
+        `Invalid quote: bid ${bid} is above ask ${ask}`,
+        'INVALID_RATE',
+        { field: 'bid', value: bid, max: ask }
+      );
+    }
+  }
+
+  const mid =
+    'mid' in input ? input.mid : Decimal.from(bid).add(ask).div(2).toNumber();
 
   return {
-    conversions,
-    totalOriginalAmount,
-    totalConvertedAmount,
-    exchangeRate,
-    fromCurrency: fromCurrency.toUpperCase(),
-    toCurrency: toCurrency.toUpperCase(),
+    base: base.toUpperCase(),
+    quote: quote.toUpperCase(),
+    bid,
+    ask,
+    mid,
+    spreadBps: ((ask - bid) / mid) * 10000,
+    timestamp,
+  };
+}
+
+/**
+ * Converts an amount with a two-sided rate quote. Selling the base currency
+ * executes at the bid, buying it at the ask; a markup is then taken off the
+ * customer rate and any fee is deducted before conversion. Everything is
+ * computed exactly, and the fee and cost figures are rounded to their
+ * currency's minor units, as is the converted amount unless
+ * `roundToMinorUnits` is off.
+ *
+ * @param amount - Amount to convert, in the source currency
+ * @param fromCurrency - Source currency code
+ * @param toCurrency - Target currency code
+ * @param quote - Rate quote for the pair, in either direction
+ * @param options - Markup, fees and rounding
+ * @returns Conversion result with the effective rate, spread cost and fee
+ * in both currencies
+ *
+ * @throws {MonieUtilsError} When inputs are invalid, the quote is for a
+ * different pair or the fee exceeds the amount
+ *
+ * @example
+ * ```typescript
+ * const quote = createRateQuote({ base: 'EUR', quote: 'USD', bid: 1.085, ask: 1.086 });
+ *
+ * const result = convertWithQuote(1000, 'EUR', 'USD', quote, { markupBps: 50, fixedFee: 2 });
+ * result.side; // 'bid'
+ * result.exchangeRate; // 1.079575
+ * result.spreadCost; // { source: 5.45, target: 5.91 }
+ * ```
+ */
+export function convertWithQuote(
+  amount: number,
+  fromCurrency: string,
+  toCurrency: string,
+  quote: RateQuote,
+  options: QuotedConversionOptions = {}
+): QuotedConversionResult {
+  const {
+    markupBps = 0,
+    feePercentage = 0,
+    fixedFee = 0,
+    roundingMode,
+  } = options;
+
+  if (!isValidAmount(amount) || amount < 0) {
+    throw new MonieUtilsError(
+      `Invalid amount: ${amount}. Amount must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount, min: 0 }
+    );
+  }
+
+  assertCurrencyPair(fromCurrency, toCurrency);
+
+  const from = fromCurrency.toUpperCase();
+  const to = toCurrency.toUpperCase();
+  let side: QuoteSide;
+
+  if (from === quote.base && to === quote.quote) {
+    side = 'bid';
+  } else if (from === quote.quote && to === quote.base) {
+    side = 'ask';
+  } else {
+    throw new MonieUtilsError(
+      `Quote for ${quote.base}/${quote.quote} cannot convert ${from} to ${to}`,
+      'INVALID_ARGUMENT',
+      { field: 'quote', value: `${quote.base}/${quote.quote}`, from, to }
+    );
+  }
+
+  if (!isValidAmount(markupBps) || markupBps < 0 || markupBps >= 10000) {
+    throw new MonieUtilsError(
+      `Invalid markup: ${markupBps}. Must be between 0 and 10000 basis points.`,
+      'INVALID_ARGUMENT',
+      { field: 'markupBps', value: markupBps, min: 0, max: 10000 }
+    );
+  }
+
+  if (
+    !isValidAmount(feePercentage) ||
+    feePercentage < 0 ||
+    feePercentage > 100
+  ) {
+    throw new MonieUtilsError(
+      `Invalid fee percentage: ${feePercentage}. Must be between 0 and 100.`,
+      'INVALID_PERCENTAGE',
+      { field: 'feePercentage', value: feePercentage, min: 0, max: 100 }
+    );
+  }
+
+  if (!isValidAmount(fixedFee) || fixedFee < 0) {
+    throw new MonieUtilsError(
+      `Invalid fixed fee: ${fixedFee}. Must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'fixedFee', value: fixedFee, min: 0 }
+    );
+  }
+
+  // Costs are money, so each is kept to its currency's minor units
+  const applyRate = createRateApplier(to, options);
+  const policy = resolveRoundingPolicy(roundingMode);
+  const sourcePlaces = getCurrencyInfo(from)?.decimalPlaces ?? 2;
+  const targetPlaces = getCurrencyInfo(to)?.decimalPlaces ?? 2;
+  const toCost = (source: Decimal, target: Decimal): ConversionCost => ({
+    source: source.round(sourcePlaces, policy).toNumber(),
+    target: target.round(targetPlaces, policy).toNumber(),
+  });
+
+  const feeAmount = Decimal.from(amount)
+    .mul(feePercentage)
+    .div(100)
+    .add(fixedFee)
+    .round(sourcePlaces, policy);
+  if (feeAmount.gt(amount)) {
+    throw new MonieUtilsError(
+      `Fee ${feeAmount.toNumber()} exceeds the amount ${amount}`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount, min: feeAmount.toNumber() }
+    );
+  }
+
+  const midRate =
+    side === 'bid' ? Decimal.from(quote.mid) : Decimal.from(1).div(quote.mid);
+  const quotedRate =
+    side === 'bid' ? Decimal.from(quote.bid) : Decimal.from(1).div(quote.ask);
+  const exchangeRate = quotedRate.mul(
+    Decimal.from(10000).sub(markupBps).div(10000)
+  );
+
+  const amountAfterFee = Decimal.from(amount).sub(feeAmount);
+  const { converted, raw } = applyRate(amountAfterFee, exchangeRate);
+  const spreadTarget = amountAfterFee.mul(midRate).sub(raw);
+  const fee = toCost(feeAmount, feeAmount.mul(midRate));
+  const spreadCost = toCost(spreadTarget.div(midRate), spreadTarget);
+  const rate = exchangeRate.toNumber();
+
+  return {
+    originalAmount: amount,
+    convertedAmount: converted.toNumber(),
+    fromCurrency: from,
+    toCurrency: to,
+    exchangeRate: rate,
+    timestamp: new Date(),
+    path: [from, to],
+    legs: [{ from, to, rate, timestamp: quote.timestamp }],
+    rawConvertedAmount: raw.toNumber(),
+    roundingAdjustment: converted.sub(raw).toNumber(),
+    side,
+    midRate: midRate.toNumber(),
+    quotedRate: quotedRate.toNumber(),
+    markupBps,
+    effectiveRate: (amount === 0
+      ? exchangeRate
+      : converted.div(amount)
+    ).toNumber(),
+    amountAfterFee: amountAfterFee.toNumber(),
+    fee,
+    spreadCost,
+    totalCost: {
+      source: Decimal.from(fee.source).add(spreadCost.source).toNumber(),
+      target: Decimal.from(fee.target).add(spreadCost.target).toNumber(),
+    },
   };
 }
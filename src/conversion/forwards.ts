@@ -0,0 +1,341 @@
+/**
+ * FX forward pricing by covered interest rate parity
+ */
+
+import type {
+  DayCountBasis,
+  ForwardTenor,
+  ForwardRateInput,
+  ForwardPointsInput,
+  ForwardRateOptions,
+  ForwardRate,
+  ImpliedRateDifferential,
+} from './types';
+import { assertCurrencyPair } from './conversion';
+import { assertValidRate } from '../rates/rates';
+import { toRateDate } from '../rates/historicalRates';
+import { getCurrencyInfo } from '../currencies';
+import { isValidAmount } from '../validation/validation';
+import { Decimal } from '../decimal';
+import { MonieUtilsError } from '../errors';
+
+const MS_PER_DAY = 86_400_000;
+
+const DAY_COUNT_BASES: Record<DayCountBasis, number> = {
+  'ACT/360': 360,
+  'ACT/365': 365,
+};
+
+/**
+ * Currencies whose money markets accrue interest on ACT/365; the rest use
+ * ACT/360
+ */
+const ACT_365_CURRENCIES: ReadonlySet<string> = new Set([
+  'AUD',
+  'CAD',
+  'GBP',
+  'GHS',
+  'HKD',
+  'ILS',
+  'INR',
+  'JPY',
+  'KES',
+  'MYR',
+  'NGN',
+  'NZD',
+  'PLN',
+  'SGD',
+  'THB',
+  'TWD',
+  'ZAR',
+]);
+
+interface ForwardTerms {
+  base: string;
+  quote: string;
+  days: number;
+  baseDayCount: DayCountBasis;
+  quoteDayCount: DayCountBasis;
+  pointScale: Decimal;
+}
+
+/**
+ * Returns a currency's money-market day-count convention
+ *
+ * @param currency - Currency code
+ * @returns The day-count basis
+ */
+function defaultDayCount(currency: string): DayCountBasis {
+  return ACT_365_CURRENCIES.has(currency) ? 'ACT/365' : 'ACT/360';
+}
+
+/**
+ * Counts the days of a tenor
+ *
+ * @param tenor - Number of days, or start and end dates
+ * @returns Days in the tenor
+ */
+function countDays(tenor: ForwardTenor): number {
+  const days =
+    typeof tenor === 'object' && tenor !== null
+      ? (toRateDate(tenor.end, 'tenor.end').getTime() -
+          toRateDate(tenor.start, 'tenor.start').getTime()) /
+        MS_PER_DAY
+      : tenor;
+
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new MonieUtilsError(
+      `Invalid tenor: ${days} days. Must be a positive whole number of days.`,
+      'INVALID_ARGUMENT',
+      { field: 'tenor', value: tenor, min: 1 }
+    );
+  }
+
+  return days;
+}
+
+/**
+ * Validates the pair, tenor and options shared by both calculations
+ *
+ * @param base - Base currency code
+ * @param quote - Quote currency code
+ * @param spot - Spot rate
+ * @param tenor - Length of the contract
+ * @param options - Day-count and point options
+ * @returns The normalized terms
+ */
+function resolveTerms(
+  base: string,
+  quote: string,
+  spot: number,
+  tenor: ForwardTenor,
+  options: ForwardRateOptions
+): ForwardTerms {
+  assertCurrencyPair(base, quote);
+
+  const from = base.toUpperCase();
+  const to = quote.toUpperCase();
+  assertValidRate(spot, from, to);
+
+  const {
+    baseDayCount = defaultDayCount(from),
+    quoteDayCount = defaultDayCount(to),
+    pointDecimals = getCurrencyInfo(to)?.decimalPlaces === 0 ? 2 : 4,
+  } = options;
+
+  for (const [field, value] of [
+    ['baseDayCount', baseDayCount],
+    ['quoteDayCount', quoteDayCount],
+  ] as const) {
+    if (!Object.prototype.hasOwnProperty.call(DAY_COUNT_BASES, value)) {
+      throw new MonieUtilsError(
+        `Invalid day-count basis: ${value}`,
+        'INVALID_ARGUMENT',
+        { field, value, allowed: Object.keys(DAY_COUNT_BASES) }
+      );
+    }
+  }
+
+  if (
+    !Number.isInteger(pointDecimals) ||
+    pointDecimals < 0 ||
+    pointDecimals > 10
+  ) {
+    throw new MonieUtilsError(
+      `Invalid point decimals: ${pointDecimals}. Must be a whole number from 0 to 10.`,
+      'INVALID_ARGUMENT',
+      { field: 'pointDecimals', value: pointDecimals, min: 0, max: 10 }
+    );
+  }
+
+  return {
+    base: from,
+    quote: to,
+    days: countDays(tenor),
+    baseDayCount,
+    quoteDayCount,
+    pointScale: Decimal.from(10).pow(pointDecimals),
+  };
+}
+
+/**
+ * Growth of one unit at simple interest over the tenor
+ *
+ * @param rate - Annual interest rate as a percentage
+ * @param days - Days in the tenor
+ * @param basis - Day-count basis
+ * @param field - Field name for error details
+ * @returns `1 + rate / 100 * days / basis`
+ */
+function accrualFactor(
+  rate: number,
+  days: number,
+  basis: DayCountBasis,
+  field: string
+): Decimal {
+  if (!isValidAmount(rate)) {
+    throw new MonieUtilsError(
+      `Invalid ${field}: ${rate}. Must be a finite number.`,
+      'INVALID_RATE',
+      { field, value: rate }
+    );
+  }
+
+  const yearPercent = 100 * DAY_COUNT_BASES[basis];
+  const factor = Decimal.from(rate).mul(days).add(yearPercent).div(yearPercent);
+
+  if (!factor.gt(0)) {
+    throw new MonieUtilsError(
+      `Invalid ${field}: ${rate}. Interest over the tenor cannot exceed the principal.`,
+      'INVALID_RATE',
+      { field, value: rate }
+    );
+  }
+
+  return factor;
+}
+
+/**
+ * Prices an FX forward by covered interest rate parity:
+ * `forward = spot × (1 + r_quote × days / basis_quote) / (1 + r_base × days / basis_base)`.
+ *
+ * Each currency accrues on its own day-count basis (ACT/365 for GBP, JPY,
+ * AUD, ZAR, NGN and similar markets, ACT/360 otherwise) unless
+ * overridden. The base currency trades at a forward premium when its
+ * interest rate is below the quote currency's.
+ *
+ * @param input - Pair, spot rate, both interest rates and the tenor
+ * @param options - Day-count and point options
+ * @returns Outright forward rate and forward points
+ *
+ * @throws {MonieUtilsError} When a currency, rate, tenor or option is
+ * invalid
+ *
+ * @example
+ * ```typescript
+ * const forward = calculateForwardRate({
+ *   base: 'EUR',
+ *   quote: 'USD',
+ *   spot: 1.085,
+ *   baseRate: 3.9,
+ *   quoteRate: 5.3,
+ *   tenor: 90,
+ * });
+ *
+ * forward.forwardRate; // 1.0887608...
+ * forward.forwardPoints; // 37.608... (EUR at a forward premium)
+ * ```
+ */
+export function calculateForwardRate(
+  input: ForwardRateInput,
+  options: ForwardRateOptions = {}
+): ForwardRate {
+  const { spot, baseRate, quoteRate, tenor } = input;
+  const terms = resolveTerms(input.base, input.quote, spot, tenor, options);
+  const { days, baseDayCount, quoteDayCount, pointScale } = terms;
+
+  const forward = Decimal.from(spot)
+    .mul(accrualFactor(quoteRate, days, quoteDayCount, 'quoteRate'))
+    .div(accrualFactor(baseRate, days, baseDayCount, 'baseRate'));
+  const points = forward.sub(spot);
+
+  return {
+    base: terms.base,
+    quote: terms.quote,
+    spot,
+    forwardRate: forward.toNumber(),
+    forwardPoints: points.mul(pointScale).toNumber(),
+    forwardType: points.isZero()
+      ? 'par'
+      : points.isNegative()
+        ? 'discount'
+        : 'premium',
+    days,
+    baseRate,
+    quoteRate,
+    baseDayCount,
+    quoteDayCount,
+  };
+}
+
+/**
+ * Backs out the interest rate differential implied by quoted forward
+ * points, the inverse of `calculateForwardRate`.
+ *
+ * With the base currency's rate, the quote currency's rate is solved
+ * exactly from interest rate parity. Without it, the differential is the
+ * annualized forward premium, `(forward / spot - 1) × basis / days`, which
+ * is the usual approximation.
+ *
+ * @param input - Pair, spot rate, forward points, tenor and optionally the
+ * base currency's rate
+ * @param options - Day-count and point options
+ * @returns Implied differential (quote minus base, annual percentage)
+ *
+ * @throws {MonieUtilsError} When a currency, rate, tenor or option is
+ * invalid, or the points imply a non-positive forward rate
+ *
+ * @example
+ * ```typescript
+ * calculateImpliedRateDifferential({
+ *   base: 'EUR',
+ *   quote: 'USD',
+ *   spot: 1.085,
+ *   forwardPoints: 37.6,
+ *   tenor: 90,
+ *   baseRate: 3.9,
+ * });
+ * // { forwardRate: 1.08876, impliedQuoteRate: 5.2996..., impliedDifferential: 1.3996..., ... }
+ * ```
+ */
+export function calculateImpliedRateDifferential(
+  input: ForwardPointsInput,
+  options: ForwardRateOptions = {}
+): ImpliedRateDifferential {
+  const { spot, forwardPoints, tenor, baseRate } = input;
+  const terms = resolveTerms(input.base, input.quote, spot, tenor, options);
+  const { days, baseDayCount, quoteDayCount, pointScale } = terms;
+
+  if (!isValidAmount(forwardPoints)) {
+    throw new MonieUtilsError(
+      `Invalid forward points: ${forwardPoints}. Must be a finite number.`,
+      'INVALID_ARGUMENT',
+      { field: 'forwardPoints', value: forwardPoints }
+    );
+  }
+
+  const forward = Decimal.from(forwardPoints).div(pointScale).add(spot);
+  if (!forward.gt(0)) {
+    throw new MonieUtilsError(
+      `Forward points ${forwardPoints} imply a non-positive forward rate`,
+      'INVALID_RATE',
+      { field: 'forwardPoints', value: forwardPoints }
+    );
+  }
+
+  const ratio = forward.div(spot);
+  const quoteYear = 100 * DAY_COUNT_BASES[quoteDayCount];
+  const result: ImpliedRateDifferential = {
+    base: terms.base,
+    quote: terms.quote,
+    spot,
+    forwardRate: forward.toNumber(),
+    days,
+    impliedDifferential: ratio.sub(1).mul(quoteYear).div(days).toNumber(),
+    baseDayCount,
+    quoteDayCount,
+  };
+
+  if (baseRate !== undefined) {
+    const impliedQuoteRate = ratio
+      .mul(accrualFactor(baseRate, days, baseDayCount, 'baseRate'))
+      .sub(1)
+      .mul(quoteYear)
+      .div(days);
+
+    result.impliedQuoteRate = impliedQuoteRate.toNumber();
+    result.impliedDifferential = impliedQuoteRate.sub(baseRate).toNumber();
+  }
+
+  return result;
+}
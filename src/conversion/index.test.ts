@@ -2,8 +2,23 @@
  * Tests for currency conversion utilities
  */
 
-import { convertCurrency, convertWithFee, bulkConvert } from './conversion';
-import { MonieUtilsError } from '../errors';
+import {
+  convertCurrency,
+  convertWithFee,
+  bulkConvert,
+  convertCurrencyAsync,
+  bulkConvertAsync,
+  convertCurrencyAt,
+  createRateQuote,
+  convertWithQuote,
+} from './conversion';
+import {
+  calculateForwardRate,
+  calculateImpliedRateDifferential,
+} from './forwards';
+import { InMemoryRateProvider, HistoricalRateStore } from '../rates';
+import type { AsyncExchangeRateProvider } from '../rates';
+import { MonieUtilsError, hasErrorCode, isMonieUtilsError } from '../errors';
 
 describe('currency conversion', () => {
   describe('convertCurrency', () => {
@@ -19,9 +34,54 @@ describe('currency conversion', () => {
       expect(result.exchangeRate).toBe(0.85);
     });
 
+    it('should reject custom rates that are not positive finite numbers', () => {
+      for (const rate of [NaN, Infinity, 0, -0.85]) {
+        expect(() => convertCurrency(100, 'USD', 'EUR', rate)).toThrow(
+          expect.objectContaining({
+            code: 'INVALID_RATE',
+            details: expect.objectContaining({ from: 'USD', to: 'EUR' }),
+          })
+        );
+      }
+    });
+
     it('should throw for invalid amounts', () => {
       expect(() => convertCurrency(NaN, 'USD', 'EUR')).toThrow(MonieUtilsError);
     });
+
+    it("should round to the target currency's minor units", () => {
+      expect(convertCurrency(10.37, 'USD', 'JPY', 151.23)).toMatchObject({
+        convertedAmount: 1568,
+        rawConvertedAmount: 1568.2551,
+        roundingAdjustment: -0.2551,
+      });
+      expect(convertCurrency(1.2345, 'USD', 'NGN', 1580.55)).toMatchObject({
+        convertedAmount: 1951.19,
+        rawConvertedAmount: 1951.188975,
+        roundingAdjustment: 0.001025,
+      });
+    });
+
+    it('should accept a rounding mode or keep the raw value', () => {
+      expect(
+        convertCurrency(1.2345, 'USD', 'NGN', 1580.55, {
+          roundingMode: 'floor',
+        }).convertedAmount
+      ).toBe(1951.18);
+      expect(
+        convertCurrency(1.2345, 'USD', 'NGN', 1580.55, {
+          roundToMinorUnits: false,
+        })
+      ).toMatchObject({
+        convertedAmount: 1951.188975,
+        roundingAdjustment: 0,
+      });
+      expect(() =>
+        convertCurrency(1, 'USD', 'NGN', 1580.55, {
+          roundingMode: 'sideways' as never,
+        })
+      ).toThrow(MonieUtilsError);
+    });
   });
 
   describe('convertWithFee', () => {
@@ -29,7 +89,41 @@ describe('currency conversion', () => {
       const result = convertWithFee(100, 0.85, 2.5);
       expect(result.feeAmount).toBe(2.5);
       expect(result.amountAfterFee).toBe(97.5);
-      expect(result.convertedAmount).toBe(82.875); // 97.5 * 0.85
+      expect(result.convertedAmount).toBe(82.88); // 97.5 * 0.85 = 82.875
+      expect(result.rawConvertedAmount).toBe(82.875);
+      expect(result.roundingAdjustment).toBe(0.005);
+    });
+
+    it('should round to the target currency minor units', () => {
+      expect(
+        convertWithFee(100, 0.85, 2.5, { roundingMode: 'half-even' })
+          .convertedAmount
+      ).toBe(82.88);
+      expect(
+        convertWithFee(100, 0.85, 2.5, { roundToMinorUnits: false })
+          .convertedAmount
+      ).toBe(82.875);
+
+      const yen = convertWithFee(100, 148.37, 1, { toCurrency: 'jpy' });
+      expect(yen.convertedAmount).toBe(14689);
+      expect(yen.rawConvertedAmount).toBe(14688.63);
+      expect(yen.toCurrency).toBe('JPY');
+      expect(() =>
+        convertWithFee(100, 0.85, 2.5, { toCurrency: 'XYZ' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CURRENCY' }));
+    });
+
+    it('should accept a fee structure', () => {
+      const result = convertWithFee(100, 0.85, { fixed: 1, percentage: 1.5 });
+      expect(result.feeAmount).toBe(2.5);
+      expect(result.feePercentage).toBe(2.5);
+      expect(result.convertedAmount).toBe(82.88);
+      expect(
+        convertWithFee(10, 0.85, { percentage: 1, minimum: 2 })
+      ).toMatchObject({
+        feeAmount: 2,
+        feePercentage: 20,
+      });
     });
 
     it('should throw for invalid fee percentage', () => {
@@ -49,5 +143,475 @@ describe('currency conversion', () => {
     it('should throw for empty array', () => {
       expect(() => bulkConvert([], 'USD', 'EUR')).toThrow(MonieUtilsError);
     });
+
+    it('should total the rounded conversions', () => {
+      const result = bulkConvert([0.05, 0.05, 0.05], 'EUR', 'USD', 1.085);
+
+      expect(result.conversions.map(c => c.convertedAmount)).toEqual([
+        0.05, 0.05, 0.05,
+      ]);
+      expect(result.totalConvertedAmount).toBe(0.15);
+      expect(result.roundingAdjustment).toBe(-0.01275);
+    });
+  });
+
+  describe('rate providers', () => {
+    const rates = new InMemoryRateProvider({ USD: { EUR: 0.92, CHF: 0.88 } });
+    const feed: AsyncExchangeRateProvider = {
+      getRate: async (from, to) => rates.getRate(from, to),
+    };
+
+    it('should convert with a sync provider', () => {
+      expect(convertCurrency(100, 'usd', 'CHF', rates)).toMatchObject({
+        convertedAmount: 88,
+        exchangeRate: 0.88,
+        toCurrency: 'CHF',
+      });
+      expect(bulkConvert([100, 200], 'USD', 'EUR', rates).exchangeRate).toBe(
+        0.92
+      );
+    });
+
+    it('should report pairs the provider does not know', () => {
+      expect(() => convertCurrency(100, 'EUR', 'USD', rates)).toThrow(
+        expect.objectContaining({
+          code: 'EXCHANGE_RATE_NOT_FOUND',
+          details: { from: 'EUR', to: 'USD' },
+        })
+      );
+      expect(() =>
+        convertCurrency(100, 'USD', 'EUR', { getRate: () => -1 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_RATE' }));
+    });
+
+    it('should require the async functions for async providers', async () => {
+      expect(() => convertCurrency(100, 'USD', 'EUR', feed as never)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+
+      const result = await convertCurrencyAsync(100, 'USD', 'EUR', feed);
+      expect(result.convertedAmount).toBe(92);
+
+      const bulk = await bulkConvertAsync([100, 200], 'USD', 'CHF', feed);
+      expect(bulk.conversions.map(c => c.convertedAmount)).toEqual([88, 176]);
+    });
+
+    it('should validate inputs before asking an async provider', async () => {
+      const getRate = jest.fn(async () => 1);
+      await expect(
+        convertCurrencyAsync(100, 'USD', 'XYZ', { getRate })
+      ).rejects.toThrow(expect.objectContaining({ code: 'INVALID_CURRENCY' }));
+      expect(getRate).not.toHaveBeenCalled();
+      await expect(
+        convertCurrencyAsync(100, 'EUR', 'USD', feed)
+      ).rejects.toThrow(
+        expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' })
+      );
+      await expect(
+        convertCurrencyAsync(100, 'USD', 'EUR')
+      ).resolves.toMatchObject({ exchangeRate: 0.85 });
+    });
+  });
+
+  describe('cross-rate triangulation', () => {
+    it('should derive missing pairs through USD', () => {
+      const result = convertCurrency(100, 'KES', 'GHS');
+
+      expect(result.exchangeRate).toBe(0.1209);
+      expect(result.convertedAmount).toBeCloseTo(12.09, 10);
+      expect(result.path).toEqual(['KES', 'USD', 'GHS']);
+      expect(result.legs).toEqual([
+        { from: 'KES', to: 'USD', rate: 0.0078 },
+        { from: 'USD', to: 'GHS', rate: 15.5 },
+      ]);
+    });
+
+    it('should keep direct rates and report their path', () => {
+      expect(convertCurrency(100, 'USD', 'EUR')).toMatchObject({
+        exchangeRate: 0.85,
+        path: ['USD', 'EUR'],
+      });
+      expect(convertCurrency(100, 'USD', 'EUR', 0.9).path).toEqual([
+        'USD',
+        'EUR',
+      ]);
+      expect(bulkConvert([100, 200], 'KES', 'ZAR').path).toEqual([
+        'KES',
+        'USD',
+        'ZAR',
+      ]);
+    });
+
+    it('should accept a pivot currency and triangulation strategy', () => {
+      const rates = new InMemoryRateProvider({
+        KES: { EUR: 0.0072 },
+        EUR: { GHS: 16.8 },
+      });
+
+      expect(
+        convertCurrency(100, 'KES', 'GHS', rates, { pivotCurrency: 'EUR' })
+          .exchangeRate
+      ).toBe(0.12096);
+      expect(() => convertCurrency(100, 'KES', 'GHS', rates)).toThrow(
+        expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' })
+      );
+      expect(() =>
+        convertCurrency(100, 'KES', 'GHS', undefined, {
+          triangulation: 'none',
+        })
+      ).toThrow(expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' }));
+      expect(
+        convertCurrency(100, 'KES', 'GHS', rates, {
+          triangulation: 'shortest-path',
+        }).path
+      ).toEqual(['KES', 'EUR', 'GHS']);
+    });
+
+    it('should triangulate with async providers', async () => {
+      const rates = new InMemoryRateProvider({
+        KES: { USD: 0.0078 },
+        USD: { GHS: 15.5 },
+      });
+      const result = await convertCurrencyAsync(100, 'KES', 'GHS', {
+        getRate: async (from, to) => rates.getRate(from, to),
+      });
+
+      expect(result.exchangeRate).toBe(0.1209);
+      expect(result.path).toEqual(['KES', 'USD', 'GHS']);
+    });
+  });
+
+  describe('convertCurrencyAt', () => {
+    const history = new HistoricalRateStore([
+      { date: '2024-03-14', from: 'USD', to: 'EUR', rate: 0.915 },
+      { date: '2024-03-15', from: 'USD', to: 'EUR', rate: 0.918 },
+      { date: '2024-03-15', from: 'KES', to: 'USD', rate: 0.0076 },
+      { date: '2024-03-14', from: 'USD', to: 'GHS', rate: 12.9 },
+    ]);
+
+    it('should convert at the rate in effect on the day', () => {
+      const result = convertCurrencyAt(
+        100,
+        'USD',
+        'EUR',
+        '2024-03-14',
+        history
+      );
+
+      expect(result).toMatchObject({
+        convertedAmount: 91.5,
+        exchangeRate: 0.915,
+        requestedDate: new Date('2024-03-14'),
+        rateDate: new Date('2024-03-14'),
+        timestamp: new Date('2024-03-14'),
+      });
+    });
+
+    it('should report the day of the rate actually used', () => {
+      const sunday = convertCurrencyAt(
+        100,
+        'usd',
+        'eur',
+        '2024-03-17',
+        history
+      );
+      expect(sunday.exchangeRate).toBe(0.918);
+      expect(sunday.rateDate).toEqual(new Date('2024-03-15'));
+
+      const cross = convertCurrencyAt(
+        1000,
+        'KES',
+        'GHS',
+        '2024-03-15',
+        history
+      );
+      expect(cross.path).toEqual(['KES', 'USD', 'GHS']);
+      expect(cross.exchangeRate).toBe(0.09804);
+      expect(cross.rateDate).toEqual(new Date('2024-03-14'));
+      expect(cross.legs?.map(leg => leg.timestamp)).toEqual([
+        new Date('2024-03-15'),
+        new Date('2024-03-14'),
+      ]);
+    });
+
+    it('should report a rate day after the requested day', () => {
+      const later = new HistoricalRateStore([
+        { date: '2024-03-10', from: 'USD', to: 'EUR', rate: 0.8 },
+        { date: '2024-03-20', from: 'USD', to: 'EUR', rate: 0.9 },
+      ]);
+      const result = convertCurrencyAt(100, 'USD', 'EUR', '2024-03-18', later, {
+        missingDate: 'nearest',
+      });
+
+      expect(result).toMatchObject({
+        convertedAmount: 90,
+        requestedDate: new Date('2024-03-18'),
+        rateDate: new Date('2024-03-20'),
+      });
+    });
+
+    it('should honour the missing date strategy', () => {
+      expect(() =>
+        convertCurrencyAt(100, 'USD', 'EUR', '2024-03-17', history, {
+          missingDate: 'error',
+        })
+      ).toThrow(expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' }));
+      expect(() =>
+        convertCurrencyAt(100, 'USD', 'EUR', '2024-01-01', history)
+      ).toThrow(expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' }));
+      expect(() =>
+        convertCurrencyAt(100, 'USD', 'EUR', 'not a date', history)
+      ).toThrow(expect.objectContaining({ code: 'INVALID_DATE' }));
+    });
+  });
+
+  describe('bid/ask quotes', () => {
+    const quote = createRateQuote({
+      base: 'eur',
+      quote: 'USD',
+      bid: 1.085,
+      ask: 1.086,
+      timestamp: new Date('2024-03-15T12:00:00Z'),
+    });
+
+    it('should create quotes from both sides or a mid and spread', () => {
+      expect(quote).toMatchObject({ base: 'EUR', quote: 'USD', mid: 1.0855 });
+      expect(quote.spreadBps).toBeCloseTo(9.2123, 4);
+
+      const fromMid = createRateQuote({
+        base: 'USD',
+        quote: 'NGN',
+        mid: 1500,
+        spreadBps: 200,
+      });
+      expect(fromMid).toMatchObject({ bid: 1485, ask: 1515, mid: 1500 });
+      expect(fromMid.spreadBps).toBeCloseTo(200, 10);
+    });
+
+    it('should sell the base currency at the bid', () => {
+      const result = convertWithQuote(1000, 'EUR', 'USD', quote);
+
+      expect(result.side).toBe('bid');
+      expect(result.exchangeRate).toBe(1.085);
+      expect(result.convertedAmount).toBe(1085);
+      expect(result.midRate).toBe(1.0855);
+      expect(result.spreadCost).toEqual({ source: 0.46, target: 0.5 });
+      expect(result.legs).toEqual([
+        {
+          from: 'EUR',
+          to: 'USD',
+          rate: 1.085,
+          timestamp: new Date('2024-03-15T12:00:00Z'),
+        },
+      ]);
+    });
+
+    it('should buy the base currency at the ask', () => {
+      const result = convertWithQuote(1086, 'USD', 'EUR', quote);
+
+      expect(result.side).toBe('ask');
+      expect(result.quotedRate).toBeCloseTo(1 / 1.086, 12);
+      expect(result.convertedAmount).toBe(1000);
+      expect(result.spreadCost.source).toBe(0.5);
+    });
+
+    it('should break out markup and fees in both currencies', () => {
+      const result = convertWithQuote(1000, 'EUR', 'USD', quote, {
+        markupBps: 50,
+        feePercentage: 1,
+        fixedFee: 2,
+      });
+
+      expect(result.amountAfterFee).toBe(988);
+      expect(result.exchangeRate).toBeCloseTo(1.079575, 12);
+      expect(result.convertedAmount).toBe(1066.62);
+      expect(result.rawConvertedAmount).toBe(1066.6201);
+      expect(result.fee).toEqual({ source: 12, target: 13.03 });
+      expect(result.spreadCost).toEqual({ source: 5.39, target: 5.85 });
+      expect(result.totalCost).toEqual({ source: 17.39, target: 18.88 });
+      expect(result.effectiveRate).toBe(1.06662);
+    });
+
+    it('should compute costs without float drift', () => {
+      const result = convertWithQuote(1000, 'EUR', 'USD', quote, {
+        markupBps: 50,
+        fixedFee: 2,
+      });
+
+      expect(result.exchangeRate).toBe(1.079575);
+      expect(result.amountAfterFee).toBe(998);
+      expect(result.convertedAmount).toBe(1077.42);
+      expect(result.rawConvertedAmount).toBe(1077.41585);
+      expect(result.roundingAdjustment).toBe(0.00415);
+      expect(
+        convertWithQuote(1000, 'EUR', 'USD', quote, {
+          markupBps: 50,
+          fixedFee: 2,
+          roundingMode: 'floor',
+        }).convertedAmount
+      ).toBe(1077.41);
+      expect(
+        convertWithQuote(1000, 'EUR', 'USD', quote, {
+          markupBps: 50,
+          fixedFee: 2,
+          roundToMinorUnits: false,
+        }).convertedAmount
+      ).toBe(1077.41585);
+      expect(result.spreadCost).toEqual({ source: 5.45, target: 5.91 });
+      expect(result.totalCost).toEqual({ source: 7.45, target: 8.08 });
+    });
+
+    it('should reject invalid quotes and options', () => {
+      expect(() =>
+        createRateQuote({ base: 'EUR', quote: 'USD', bid: 1.09, ask: 1.08 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_RATE' }));
+      expect(() =>
+        createRateQuote({ base: 'EUR', quote: 'XYZ', mid: 1, spreadBps: 10 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CURRENCY' }));
+      expect(() => convertWithQuote(100, 'GBP', 'USD', quote)).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() =>
+        convertWithQuote(100, 'EUR', 'USD', quote, { markupBps: -5 })
+      ).toThrow(MonieUtilsError);
+      expect(() =>
+        convertWithQuote(1, 'EUR', 'USD', quote, { fixedFee: 2 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+    });
+  });
+
+  describe('forward rates', () => {
+    const eurUsd = {
+      base: 'EUR',
+      quote: 'USD',
+      spot: 1.085,
+      baseRate: 3.9,
+      quoteRate: 5.3,
+      tenor: 90,
+    };
+
+    it('should price forwards by interest rate parity', () => {
+      const forward = calculateForwardRate(eurUsd);
+      expect(forward.forwardRate).toBeCloseTo(1.0887608, 7);
+      expect(forward.forwardPoints).toBeCloseTo(37.608, 3);
+      expect(forward.forwardType).toBe('premium');
+      expect(forward.baseDayCount).toBe('ACT/360');
+
+      const usdJpy = calculateForwardRate({
+        base: 'usd',
+        quote: 'jpy',
+        spot: 150,
+        baseRate: 5.3,
+        quoteRate: 0.1,
+        tenor: { start: '2024-01-15', end: '2024-07-15' },
+      });
+      expect(usdJpy.days).toBe(182);
+      expect(usdJpy.quoteDayCount).toBe('ACT/365');
+      expect(usdJpy.forwardRate).toBeCloseTo(146.158557, 6);
+      expect(usdJpy.forwardPoints).toBeCloseTo(-384.144, 3);
+      expect(usdJpy.forwardType).toBe('discount');
+
+      const flat = calculateForwardRate(
+        { ...eurUsd, base: 'GBP', quoteRate: 3.9 },
+        { baseDayCount: 'ACT/360' }
+      );
+      expect(flat.forwardRate).toBe(1.085);
+      expect(flat.forwardType).toBe('par');
+    });
+
+    it('should imply the rate differential from forward points', () => {
+      const { forwardPoints } = calculateForwardRate(eurUsd);
+      const implied = calculateImpliedRateDifferential({
+        ...eurUsd,
+        forwardPoints,
+      });
+      expect(implied.impliedQuoteRate).toBeCloseTo(5.3, 10);
+      expect(implied.impliedDifferential).toBeCloseTo(1.4, 10);
+
+      const approximate = calculateImpliedRateDifferential({
+        base: 'EUR',
+        quote: 'USD',
+        spot: 1.085,
+        forwardPoints: 37.6,
+        tenor: 90,
+      });
+      expect(approximate.forwardRate).toBeCloseTo(1.08876, 10);
+      expect(approximate.impliedDifferential).toBeCloseTo(1.3862, 4);
+      expect(approximate.impliedQuoteRate).toBeUndefined();
+    });
+
+    it('should reject invalid forward inputs', () => {
+      expect(() => calculateForwardRate({ ...eurUsd, tenor: 0 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() =>
+        calculateForwardRate({
+          ...eurUsd,
+          tenor: { start: '2024-07-15', end: '2024-01-15' },
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() => calculateForwardRate({ ...eurUsd, spot: 0 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_RATE' })
+      );
+      expect(() =>
+        calculateForwardRate({ ...eurUsd, baseRate: -500, tenor: 365 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_RATE' }));
+      expect(() => calculateForwardRate({ ...eurUsd, quote: 'XYZ' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURRENCY' })
+      );
+      expect(() =>
+        calculateImpliedRateDifferential({
+          ...eurUsd,
+          forwardPoints: -20000,
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_RATE' }));
+    });
+  });
+
+  describe('error codes', () => {
+    const captureError = (fn: () => unknown): unknown => {
+      try {
+        fn();
+      } catch (error) {
+        return error;
+      }
+      throw new Error('Expected function to throw');
+    };
+
+    it('should report a missing exchange rate with the currency pair', () => {
+      const error = captureError(() => convertCurrency(100, 'USD', 'BTC'));
+      expect(hasErrorCode(error, 'EXCHANGE_RATE_NOT_FOUND')).toBe(true);
+      expect((error as MonieUtilsError).details).toEqual({
+        from: 'USD',
+        to: 'BTC',
+      });
+    });
+
+    it('should identify the offending field and value', () => {
+      const error = captureError(() => convertCurrency(100, 'USD', 'XYZ'));
+      expect(isMonieUtilsError(error)).toBe(true);
+      expect(error).toMatchObject({
+        code: 'INVALID_CURRENCY',
+        details: { field: 'toCurrency', value: 'XYZ' },
+      });
+    });
+
+    it('should include the allowed range', () => {
+      const error = captureError(() => convertWithFee(100, 0.85, 101));
+      expect((error as MonieUtilsError).toJSON()).toEqual({
+        name: 'MonieUtilsError',
+        code: 'INVALID_PERCENTAGE',
+        message: 'Invalid fee percentage: 101. Must be between 0 and 100.',
+        details: { field: 'feePercentage', value: 101, min: 0, max: 100 },
+      });
+    });
+
+    it('should not match other codes or non-library errors', () => {
+      const error = captureError(() => bulkConvert([], 'USD', 'EUR'));
+      expect(hasErrorCode(error, 'INVALID_ARGUMENT')).toBe(true);
+      expect(hasErrorCode(error, 'INVALID_AMOUNT')).toBe(false);
+      expect(hasErrorCode(new Error('boom'), 'INVALID_ARGUMENT')).toBe(false);
+      expect(isMonieUtilsError('INVALID_ARGUMENT')).toBe(false);
+    });
   });
 });
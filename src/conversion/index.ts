@@ -5,6 +5,11 @@
  * - Basic currency conversion between supported currencies
  * - Conversion with transaction fees
  * - Bulk conversion of multiple amounts
+ * - Custom exchange rate providers, including async rate feeds
+ * - Cross rates through a pivot currency when no direct rate is known
+ * - Point-in-time conversion with historical rates
+ * - Bid/ask quotes with FX markup and itemized costs
+ * - FX forward pricing by covered interest rate parity
  *
  * @example
  * ```typescript
@@ -21,12 +26,42 @@
  */
 
 // Export conversion functions
-export { convertCurrency, convertWithFee, bulkConvert } from './conversion';
+export {
+  convertCurrency,
+  convertWithFee,
+  bulkConvert,
+  convertCurrencyAsync,
+  bulkConvertAsync,
+  convertCurrencyAt,
+  createRateQuote,
+  convertWithQuote,
+} from './conversion';
+export {
+  calculateForwardRate,
+  calculateImpliedRateDifferential,
+} from './forwards';
 
 // Export types
 export type {
   ExchangeRate,
   ConversionResult,
+  ConversionOptions,
   ConversionWithFeeResult,
+  ConversionWithFeeOptions,
   BulkConversionResult,
+  HistoricalConversionOptions,
+  HistoricalConversionResult,
+  RateQuoteInput,
+  RateQuote,
+  QuoteSide,
+  QuotedConversionOptions,
+  ConversionCost,
+  QuotedConversionResult,
+  DayCountBasis,
+  ForwardTenor,
+  ForwardRateInput,
+  ForwardPointsInput,
+  ForwardRateOptions,
+  ForwardRate,
+  ImpliedRateDifferential,
 } from './types';
@@ -2,6 +2,13 @@
  * Type definitions for currency conversion utilities
  */
 
+import type {
+  RateResolutionOptions,
+  HistoricalRateOptions,
+} from '../rates/types';
+import type { RoundingMode } from '../rounding/types';
+import type { FeeBreakdown } from '../fees/types';
+
 /**
  * Exchange rate information
  */
@@ -32,6 +39,27 @@ export interface ConversionResult {
   exchangeRate: number;
   /** Timestamp of conversion */
   timestamp: Date;
+  /** Currencies the rate was routed through, from source to target */
+  path?: string[];
+  /** Direct rates multiplied into `exchangeRate`, one per hop of `path` */
+  legs?: ExchangeRate[];
+  /** Exact `originalAmount * exchangeRate`, before rounding */
+  rawConvertedAmount?: number;
+  /** `convertedAmount` minus `rawConvertedAmount` */
+  roundingAdjustment?: number;
+}
+
+/**
+ * Options for converting currency amounts
+ */
+export interface ConversionOptions extends RateResolutionOptions {
+  /**
+   * Round converted amounts to the target currency's minor units
+   * (default: true). Turn off to keep the raw `amount * rate`.
+   */
+  roundToMinorUnits?: boolean;
+  /** Rounding mode for converted amounts (default: configured roundingMode) */
+  roundingMode?: RoundingMode;
 }
 
 /**
@@ -44,6 +72,25 @@ export interface ConversionWithFeeResult extends ConversionResult {
   feePercentage: number;
   /** Amount after fee deduction */
   amountAfterFee: number;
+  /** Itemized fee, when the fee was given as a fee structure */
+  feeBreakdown?: FeeBreakdown;
+}
+
+/**
+ * Options for converting with a fee
+ */
+export interface ConversionWithFeeOptions {
+  /** Currency of the amount; a fee structure is rounded to its minor units (default: 'USD') */
+  currency?: string;
+  /** Currency converted into; the converted amount is rounded to its minor units (default: 2 decimal places) */
+  toCurrency?: string;
+  /**
+   * Round the converted amount to the target currency's minor units
+   * (default: true). Turn off to keep the raw `amountAfterFee * rate`.
+   */
+  roundToMinorUnits?: boolean;
+  /** Rounding mode for a fee structure and the converted amount (default: configured roundingMode) */
+  roundingMode?: RoundingMode;
 }
 
 /**
@@ -54,11 +101,268 @@ export interface BulkConversionResult {
   conversions: ConversionResult[];
   /** Total original amount */
   totalOriginalAmount: number;
-  /** Total converted amount */
+  /** Total converted amount (the sum of the converted amounts) */
   totalConvertedAmount: number;
+  /** `totalConvertedAmount` minus the unrounded converted total */
+  roundingAdjustment?: number;
   /** Exchange rate used */
   exchangeRate: number;
+  /** Currencies the rate was routed through, from source to target */
+  path?: string[];
   /** Currencies involved */
   fromCurrency: string;
   toCurrency: string;
 }
+
+/**
+ * Options for converting at a past date
+ */
+export interface HistoricalConversionOptions
+  extends ConversionOptions,
+    HistoricalRateOptions {}
+
+/**
+ * Currency conversion result at a past date
+ */
+export interface HistoricalConversionResult extends ConversionResult {
+  /** Day the conversion was requested for (UTC midnight) */
+  requestedDate: Date;
+  /** Day of the rate actually used; the oldest leg's day for cross rates */
+  rateDate: Date;
+}
+
+/**
+ * Prices for creating a rate quote: either both sides of the market or a
+ * mid rate with a spread
+ */
+export type RateQuoteInput =
+  | {
+      /** Currency being priced */
+      base: string;
+      /** Currency the price is expressed in */
+      quote: string;
+      /** Price at which the desk buys one unit of `base` */
+      bid: number;
+      /** Price at which the desk sells one unit of `base` */
+      ask: number;
+      /** When the quote was taken (default: now) */
+      timestamp?: Date;
+    }
+  | {
+      /** Currency being priced */
+      base: string;
+      /** Currency the price is expressed in */
+      quote: string;
+      /** Mid-market price of one unit of `base` */
+      mid: number;
+      /** Distance between bid and ask, in basis points of the mid */
+      spreadBps: number;
+      /** When the quote was taken (default: now) */
+      timestamp?: Date;
+    };
+
+/**
+ * Two-sided exchange rate quote for a currency pair (e.g., EUR/USD)
+ */
+export interface RateQuote {
+  /** Currency being priced */
+  base: string;
+  /** Currency the price is expressed in */
+  quote: string;
+  /** Price at which the desk buys one unit of `base` */
+  bid: number;
+  /** Price at which the desk sells one unit of `base` */
+  ask: number;
+  /** Mid-market price, halfway between bid and ask */
+  mid: number;
+  /** Distance between bid and ask, in basis points of the mid */
+  spreadBps: number;
+  /** When the quote was taken */
+  timestamp: Date;
+}
+
+/**
+ * Side of a quote a conversion is executed on: 'bid' when selling the base
+ * currency, 'ask' when buying it
+ */
+export type QuoteSide = 'bid' | 'ask';
+
+/**
+ * Options for converting with a rate quote
+ */
+export interface QuotedConversionOptions {
+  /** Margin taken off the customer rate, in basis points (default: 0) */
+  markupBps?: number;
+  /** Percentage fee deducted before conversion (e.g., 1.5 for 1.5%) */
+  feePercentage?: number;
+  /** Fixed fee deducted before conversion, in the source currency */
+  fixedFee?: number;
+  /**
+   * Round the converted amount to the target currency's minor units
+   * (default: true). Turn off to keep the raw `amountAfterFee * rate`.
+   */
+  roundToMinorUnits?: boolean;
+  /** Rounding mode for the converted amount and costs (default: configured roundingMode) */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * A cost expressed in both currencies of a conversion
+ */
+export interface ConversionCost {
+  /** Cost in the source currency */
+  source: number;
+  /** Cost in the target currency, at the mid rate */
+  target: number;
+}
+
+/**
+ * Result of converting with a rate quote. `exchangeRate` is the customer
+ * rate after markup.
+ */
+export interface QuotedConversionResult extends ConversionResult {
+  /** Side of the quote the conversion was executed on */
+  side: QuoteSide;
+  /** Mid-market rate from source to target */
+  midRate: number;
+  /** Bid or ask rate from source to target, before markup */
+  quotedRate: number;
+  /** Margin applied, in basis points */
+  markupBps: number;
+  /** Converted amount per unit of the original amount, after all costs */
+  effectiveRate: number;
+  /** Amount converted once the fee is deducted */
+  amountAfterFee: number;
+  /** Explicit fee charged */
+  fee: ConversionCost;
+  /** Cost of the spread and markup compared with the mid rate */
+  spreadCost: ConversionCost;
+  /** Fee plus spread cost */
+  totalCost: ConversionCost;
+}
+
+/**
+ * Money-market day-count convention: interest accrues for the actual
+ * number of days over a 360- or 365-day year
+ */
+export type DayCountBasis = 'ACT/360' | 'ACT/365';
+
+/**
+ * Length of a forward contract: a number of days, or the start and end
+ * dates (e.g., the spot date and the maturity date)
+ */
+export type ForwardTenor =
+  | number
+  | { start: Date | string; end: Date | string };
+
+/**
+ * Inputs for pricing an FX forward
+ */
+export interface ForwardRateInput {
+  /** Currency being priced */
+  base: string;
+  /** Currency the price is expressed in */
+  quote: string;
+  /** Spot rate: units of `quote` per unit of `base` */
+  spot: number;
+  /** Annual interest rate of the base currency (e.g., 3.9 for 3.9%) */
+  baseRate: number;
+  /** Annual interest rate of the quote currency (e.g., 5.3 for 5.3%) */
+  quoteRate: number;
+  /** Length of the contract */
+  tenor: ForwardTenor;
+}
+
+/**
+ * Inputs for backing out the interest rate differential from a quoted
+ * forward
+ */
+export interface ForwardPointsInput {
+  /** Currency being priced */
+  base: string;
+  /** Currency the price is expressed in */
+  quote: string;
+  /** Spot rate: units of `quote` per unit of `base` */
+  spot: number;
+  /** Quoted forward points (e.g., 37.6 for +0.00376 on EUR/USD) */
+  forwardPoints: number;
+  /** Length of the contract */
+  tenor: ForwardTenor;
+  /**
+   * Annual interest rate of the base currency. When given, the quote
+   * currency's rate is solved exactly; otherwise the differential is
+   * approximated from the forward premium.
+   */
+  baseRate?: number;
+}
+
+/**
+ * Options for forward pricing
+ */
+export interface ForwardRateOptions {
+  /** Day-count basis of the base currency (default: the currency's money-market convention) */
+  baseDayCount?: DayCountBasis;
+  /** Day-count basis of the quote currency (default: the currency's money-market convention) */
+  quoteDayCount?: DayCountBasis;
+  /**
+   * Decimal places of one forward point (default: 2 when the quote currency
+   * has no minor units, such as JPY; otherwise 4)
+   */
+  pointDecimals?: number;
+}
+
+/**
+ * Forward rate derived by covered interest rate parity
+ */
+export interface ForwardRate {
+  /** Currency being priced */
+  base: string;
+  /** Currency the price is expressed in */
+  quote: string;
+  /** Spot rate */
+  spot: number;
+  /** Outright forward rate */
+  forwardRate: number;
+  /** Forward rate minus spot, in points */
+  forwardPoints: number;
+  /** Whether the base currency trades at a forward premium or discount */
+  forwardType: 'premium' | 'discount' | 'par';
+  /** Length of the contract in days */
+  days: number;
+  /** Annual interest rate of the base currency */
+  baseRate: number;
+  /** Annual interest rate of the quote currency */
+  quoteRate: number;
+  /** Day-count basis used for the base currency */
+  baseDayCount: DayCountBasis;
+  /** Day-count basis used for the quote currency */
+  quoteDayCount: DayCountBasis;
+}
+
+/**
+ * Interest rate differential implied by a quoted forward
+ */
+export interface ImpliedRateDifferential {
+  /** Currency being priced */
+  base: string;
+  /** Currency the price is expressed in */
+  quote: string;
+  /** Spot rate */
+  spot: number;
+  /** Outright forward rate implied by the points */
+  forwardRate: number;
+  /** Length of the contract in days */
+  days: number;
+  /**
+   * Quote currency rate minus base currency rate, annual percentage.
+   * Exact when `baseRate` was given, otherwise approximated from the
+   * forward premium.
+   */
+  impliedDifferential: number;
+  /** Quote currency rate implied by the forward, when `baseRate` was given */
+  impliedQuoteRate?: number;
+  /** Day-count basis used for the base currency */
+  baseDayCount: DayCountBasis;
+  /** Day-count basis used for the quote currency */
+  quoteDayCount: DayCountBasis;
+}
@@ -0,0 +1,1920 @@
+/**
+ * Built-in currency data
+ */
+
+import type { CurrencyDisplay } from '../formatCurrency/types';
+
+/**
+ * Active ISO 4217 currencies, including fund codes with defined minor units.
+ * Precious metals, SDRs and testing codes (XAU, XDR, XTS, ...) are omitted
+ * because they have no minor unit.
+ */
+export const ISO_4217_CURRENCIES: Readonly<Record<string, CurrencyDisplay>> = {
+  AED: {
+    code: 'AED',
+    numericCode: '784',
+    symbol: 'AED',
+    narrowSymbol: 'AED',
+    name: 'United Arab Emirates Dirham',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AE'],
+    isCrypto: false,
+  },
+  AFN: {
+    code: 'AFN',
+    numericCode: '971',
+    symbol: 'AFN',
+    narrowSymbol: '؋',
+    name: 'Afghan Afghani',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AF'],
+    isCrypto: false,
+  },
+  ALL: {
+    code: 'ALL',
+    numericCode: '008',
+    symbol: 'ALL',
+    narrowSymbol: 'ALL',
+    name: 'Albanian Lek',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AL'],
+    isCrypto: false,
+  },
+  AMD: {
+    code: 'AMD',
+    numericCode: '051',
+    symbol: 'AMD',
+    narrowSymbol: '֏',
+    name: 'Armenian Dram',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AM'],
+    isCrypto: false,
+  },
+  AOA: {
+    code: 'AOA',
+    numericCode: '973',
+    symbol: 'AOA',
+    narrowSymbol: 'Kz',
+    name: 'Angolan Kwanza',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AO'],
+    isCrypto: false,
+  },
+  ARS: {
+    code: 'ARS',
+    numericCode: '032',
+    symbol: 'ARS',
+    narrowSymbol: '$',
+    name: 'Argentine Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AR'],
+    isCrypto: false,
+  },
+  AUD: {
+    code: 'AUD',
+    numericCode: '036',
+    symbol: 'A$',
+    narrowSymbol: '$',
+    name: 'Australian Dollar',
+    decimalPlaces: 2,
+    cashIncrement: 0.05,
+    usesGrouping: true,
+    countries: ['AU', 'CC', 'CX', 'HM', 'KI', 'NF', 'NR', 'TV'],
+    isCrypto: false,
+  },
+  AWG: {
+    code: 'AWG',
+    numericCode: '533',
+    symbol: 'AWG',
+    narrowSymbol: 'AWG',
+    name: 'Aruban Florin',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AW'],
+    isCrypto: false,
+  },
+  AZN: {
+    code: 'AZN',
+    numericCode: '944',
+    symbol: 'AZN',
+    narrowSymbol: '₼',
+    name: 'Azerbaijani Manat',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AZ'],
+    isCrypto: false,
+  },
+  BAM: {
+    code: 'BAM',
+    numericCode: '977',
+    symbol: 'BAM',
+    narrowSymbol: 'KM',
+    name: 'Bosnia-Herzegovina Convertible Mark',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BA'],
+    isCrypto: false,
+  },
+  BBD: {
+    code: 'BBD',
+    numericCode: '052',
+    symbol: 'BBD',
+    narrowSymbol: '$',
+    name: 'Barbadian Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BB'],
+    isCrypto: false,
+  },
+  BDT: {
+    code: 'BDT',
+    numericCode: '050',
+    symbol: 'BDT',
+    narrowSymbol: '৳',
+    name: 'Bangladeshi Taka',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BD'],
+    isCrypto: false,
+  },
+  BHD: {
+    code: 'BHD',
+    numericCode: '048',
+    symbol: 'BHD',
+    narrowSymbol: 'BHD',
+    name: 'Bahraini Dinar',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['BH'],
+    isCrypto: false,
+  },
+  BIF: {
+    code: 'BIF',
+    numericCode: '108',
+    symbol: 'BIF',
+    narrowSymbol: 'BIF',
+    name: 'Burundian Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['BI'],
+    isCrypto: false,
+  },
+  BMD: {
+    code: 'BMD',
+    numericCode: '060',
+    symbol: 'BMD',
+    narrowSymbol: '$',
+    name: 'Bermudan Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BM'],
+    isCrypto: false,
+  },
+  BND: {
+    code: 'BND',
+    numericCode: '096',
+    symbol: 'BND',
+    narrowSymbol: '$',
+    name: 'Brunei Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BN'],
+    isCrypto: false,
+  },
+  BOB: {
+    code: 'BOB',
+    numericCode: '068',
+    symbol: 'BOB',
+    narrowSymbol: 'Bs',
+    name: 'Bolivian Boliviano',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BO'],
+    isCrypto: false,
+  },
+  BOV: {
+    code: 'BOV',
+    numericCode: '984',
+    symbol: 'BOV',
+    narrowSymbol: 'BOV',
+    name: 'Bolivian Mvdol',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BO'],
+    isCrypto: false,
+  },
+  BRL: {
+    code: 'BRL',
+    numericCode: '986',
+    symbol: 'R$',
+    narrowSymbol: 'R$',
+    name: 'Brazilian Real',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BR'],
+    isCrypto: false,
+  },
+  BSD: {
+    code: 'BSD',
+    numericCode: '044',
+    symbol: 'BSD',
+    narrowSymbol: '$',
+    name: 'Bahamian Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BS'],
+    isCrypto: false,
+  },
+  BTN: {
+    code: 'BTN',
+    numericCode: '064',
+    symbol: 'BTN',
+    narrowSymbol: 'BTN',
+    name: 'Bhutanese Ngultrum',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BT'],
+    isCrypto: false,
+  },
+  BWP: {
+    code: 'BWP',
+    numericCode: '072',
+    symbol: 'BWP',
+    narrowSymbol: 'P',
+    name: 'Botswanan Pula',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BW'],
+    isCrypto: false,
+  },
+  BYN: {
+    code: 'BYN',
+    numericCode: '933',
+    symbol: 'BYN',
+    narrowSymbol: 'BYN',
+    name: 'Belarusian Ruble',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BY'],
+    isCrypto: false,
+  },
+  BZD: {
+    code: 'BZD',
+    numericCode: '084',
+    symbol: 'BZD',
+    narrowSymbol: '$',
+    name: 'Belize Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['BZ'],
+    isCrypto: false,
+  },
+  CAD: {
+    code: 'CAD',
+    numericCode: '124',
+    symbol: 'C$',
+    narrowSymbol: '$',
+    name: 'Canadian Dollar',
+    decimalPlaces: 2,
+    cashIncrement: 0.05,
+    usesGrouping: true,
+    countries: ['CA'],
+    isCrypto: false,
+  },
+  CDF: {
+    code: 'CDF',
+    numericCode: '976',
+    symbol: 'CDF',
+    narrowSymbol: 'CDF',
+    name: 'Congolese Franc',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CD'],
+    isCrypto: false,
+  },
+  CHE: {
+    code: 'CHE',
+    numericCode: '947',
+    symbol: 'CHE',
+    narrowSymbol: 'CHE',
+    name: 'WIR Euro',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CH'],
+    isCrypto: false,
+  },
+  CHF: {
+    code: 'CHF',
+    numericCode: '756',
+    symbol: 'CHF',
+    narrowSymbol: 'CHF',
+    name: 'Swiss Franc',
+    decimalPlaces: 2,
+    cashIncrement: 0.05,
+    usesGrouping: true,
+    countries: ['CH', 'LI'],
+    isCrypto: false,
+  },
+  CHW: {
+    code: 'CHW',
+    numericCode: '948',
+    symbol: 'CHW',
+    narrowSymbol: 'CHW',
+    name: 'WIR Franc',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CH'],
+    isCrypto: false,
+  },
+  CLF: {
+    code: 'CLF',
+    numericCode: '990',
+    symbol: 'CLF',
+    narrowSymbol: 'CLF',
+    name: 'Chilean Unit of Account (UF)',
+    decimalPlaces: 4,
+    usesGrouping: true,
+    countries: ['CL'],
+    isCrypto: false,
+  },
+  CLP: {
+    code: 'CLP',
+    numericCode: '152',
+    symbol: 'CLP',
+    narrowSymbol: '$',
+    name: 'Chilean Peso',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['CL'],
+    isCrypto: false,
+  },
+  CNY: {
+    code: 'CNY',
+    numericCode: '156',
+    symbol: '¥',
+    narrowSymbol: '¥',
+    name: 'Chinese Yuan',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CN'],
+    isCrypto: false,
+  },
+  COP: {
+    code: 'COP',
+    numericCode: '170',
+    symbol: 'COP',
+    narrowSymbol: '$',
+    name: 'Colombian Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CO'],
+    isCrypto: false,
+  },
+  COU: {
+    code: 'COU',
+    numericCode: '970',
+    symbol: 'COU',
+    narrowSymbol: 'COU',
+    name: 'Colombian Real Value Unit',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CO'],
+    isCrypto: false,
+  },
+  CRC: {
+    code: 'CRC',
+    numericCode: '188',
+    symbol: 'CRC',
+    narrowSymbol: '₡',
+    name: 'Costa Rican Colón',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CR'],
+    isCrypto: false,
+  },
+  CUP: {
+    code: 'CUP',
+    numericCode: '192',
+    symbol: 'CUP',
+    narrowSymbol: '$',
+    name: 'Cuban Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CU'],
+    isCrypto: false,
+  },
+  CVE: {
+    code: 'CVE',
+    numericCode: '132',
+    symbol: 'CVE',
+    narrowSymbol: 'CVE',
+    name: 'Cape Verdean Escudo',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CV'],
+    isCrypto: false,
+  },
+  CZK: {
+    code: 'CZK',
+    numericCode: '203',
+    symbol: 'CZK',
+    narrowSymbol: 'Kč',
+    name: 'Czech Koruna',
+    decimalPlaces: 2,
+    cashIncrement: 1,
+    usesGrouping: true,
+    countries: ['CZ'],
+    isCrypto: false,
+  },
+  DJF: {
+    code: 'DJF',
+    numericCode: '262',
+    symbol: 'DJF',
+    narrowSymbol: 'DJF',
+    name: 'Djiboutian Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['DJ'],
+    isCrypto: false,
+  },
+  DKK: {
+    code: 'DKK',
+    numericCode: '208',
+    symbol: 'DKK',
+    narrowSymbol: 'kr',
+    name: 'Danish Krone',
+    decimalPlaces: 2,
+    cashIncrement: 0.5,
+    usesGrouping: true,
+    countries: ['DK', 'FO', 'GL'],
+    isCrypto: false,
+  },
+  DOP: {
+    code: 'DOP',
+    numericCode: '214',
+    symbol: 'DOP',
+    narrowSymbol: '$',
+    name: 'Dominican Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['DO'],
+    isCrypto: false,
+  },
+  DZD: {
+    code: 'DZD',
+    numericCode: '012',
+    symbol: 'DZD',
+    narrowSymbol: 'DZD',
+    name: 'Algerian Dinar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['DZ'],
+    isCrypto: false,
+  },
+  EGP: {
+    code: 'EGP',
+    numericCode: '818',
+    symbol: 'EGP',
+    narrowSymbol: 'E£',
+    name: 'Egyptian Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['EG'],
+    isCrypto: false,
+  },
+  ERN: {
+    code: 'ERN',
+    numericCode: '232',
+    symbol: 'ERN',
+    narrowSymbol: 'ERN',
+    name: 'Eritrean Nakfa',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['ER'],
+    isCrypto: false,
+  },
+  ETB: {
+    code: 'ETB',
+    numericCode: '230',
+    symbol: 'ETB',
+    narrowSymbol: 'ETB',
+    name: 'Ethiopian Birr',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['ET'],
+    isCrypto: false,
+  },
+  EUR: {
+    code: 'EUR',
+    numericCode: '978',
+    symbol: '€',
+    narrowSymbol: '€',
+    name: 'Euro',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: [
+      'AD',
+      'AT',
+      'AX',
+      'BE',
+      'BG',
+      'BL',
+      'CY',
+      'DE',
+      'EE',
+      'ES',
+      'FI',
+      'FR',
+      'GF',
+      'GP',
+      'GR',
+      'HR',
+      'IE',
+      'IT',
+      'LT',
+      'LU',
+      'LV',
+      'MC',
+      'ME',
+      'MF',
+      'MQ',
+      'MT',
+      'NL',
+      'PM',
+      'PT',
+      'RE',
+      'SI',
+      'SK',
+      'SM',
+      'TF',
+      'VA',
+      'YT',
+    ],
+    isCrypto: false,
+  },
+  FJD: {
+    code: 'FJD',
+    numericCode: '242',
+    symbol: 'FJD',
+    narrowSymbol: '$',
+    name: 'Fijian Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['FJ'],
+    isCrypto: false,
+  },
+  FKP: {
+    code: 'FKP',
+    numericCode: '238',
+    symbol: 'FKP',
+    narrowSymbol: '£',
+    name: 'Falkland Islands Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['FK'],
+    isCrypto: false,
+  },
+  GBP: {
+    code: 'GBP',
+    numericCode: '826',
+    symbol: '£',
+    narrowSymbol: '£',
+    name: 'British Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GB', 'GG', 'IM', 'JE'],
+    isCrypto: false,
+  },
+  GEL: {
+    code: 'GEL',
+    numericCode: '981',
+    symbol: 'GEL',
+    narrowSymbol: '₾',
+    name: 'Georgian Lari',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GE'],
+    isCrypto: false,
+  },
+  GHS: {
+    code: 'GHS',
+    numericCode: '936',
+    symbol: '₵',
+    narrowSymbol: 'GH₵',
+    name: 'Ghanaian Cedi',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GH'],
+    isCrypto: false,
+  },
+  GIP: {
+    code: 'GIP',
+    numericCode: '292',
+    symbol: 'GIP',
+    narrowSymbol: '£',
+    name: 'Gibraltar Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GI'],
+    isCrypto: false,
+  },
+  GMD: {
+    code: 'GMD',
+    numericCode: '270',
+    symbol: 'GMD',
+    narrowSymbol: 'GMD',
+    name: 'Gambian Dalasi',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GM'],
+    isCrypto: false,
+  },
+  GNF: {
+    code: 'GNF',
+    numericCode: '324',
+    symbol: 'GNF',
+    narrowSymbol: 'FG',
+    name: 'Guinean Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['GN'],
+    isCrypto: false,
+  },
+  GTQ: {
+    code: 'GTQ',
+    numericCode: '320',
+    symbol: 'GTQ',
+    narrowSymbol: 'Q',
+    name: 'Guatemalan Quetzal',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GT'],
+    isCrypto: false,
+  },
+  GYD: {
+    code: 'GYD',
+    numericCode: '328',
+    symbol: 'GYD',
+    narrowSymbol: '$',
+    name: 'Guyanaese Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['GY'],
+    isCrypto: false,
+  },
+  HKD: {
+    code: 'HKD',
+    numericCode: '344',
+    symbol: 'HK$',
+    narrowSymbol: '$',
+    name: 'Hong Kong Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['HK'],
+    isCrypto: false,
+  },
+  HNL: {
+    code: 'HNL',
+    numericCode: '340',
+    symbol: 'HNL',
+    narrowSymbol: 'L',
+    name: 'Honduran Lempira',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['HN'],
+    isCrypto: false,
+  },
+  HTG: {
+    code: 'HTG',
+    numericCode: '332',
+    symbol: 'HTG',
+    narrowSymbol: 'HTG',
+    name: 'Haitian Gourde',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['HT'],
+    isCrypto: false,
+  },
+  HUF: {
+    code: 'HUF',
+    numericCode: '348',
+    symbol: 'HUF',
+    narrowSymbol: 'Ft',
+    name: 'Hungarian Forint',
+    decimalPlaces: 2,
+    cashIncrement: 5,
+    usesGrouping: true,
+    countries: ['HU'],
+    isCrypto: false,
+  },
+  IDR: {
+    code: 'IDR',
+    numericCode: '360',
+    symbol: 'IDR',
+    narrowSymbol: 'Rp',
+    name: 'Indonesian Rupiah',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['ID'],
+    isCrypto: false,
+  },
+  ILS: {
+    code: 'ILS',
+    numericCode: '376',
+    symbol: '₪',
+    narrowSymbol: '₪',
+    name: 'Israeli New Shekel',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['IL', 'PS'],
+    isCrypto: false,
+  },
+  INR: {
+    code: 'INR',
+    numericCode: '356',
+    symbol: '₹',
+    narrowSymbol: '₹',
+    name: 'Indian Rupee',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['IN', 'BT'],
+    isCrypto: false,
+  },
+  IQD: {
+    code: 'IQD',
+    numericCode: '368',
+    symbol: 'IQD',
+    narrowSymbol: 'IQD',
+    name: 'Iraqi Dinar',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['IQ'],
+    isCrypto: false,
+  },
+  IRR: {
+    code: 'IRR',
+    numericCode: '364',
+    symbol: 'IRR',
+    narrowSymbol: 'IRR',
+    name: 'Iranian Rial',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['IR'],
+    isCrypto: false,
+  },
+  ISK: {
+    code: 'ISK',
+    numericCode: '352',
+    symbol: 'ISK',
+    narrowSymbol: 'kr',
+    name: 'Icelandic Króna',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['IS'],
+    isCrypto: false,
+  },
+  JMD: {
+    code: 'JMD',
+    numericCode: '388',
+    symbol: 'JMD',
+    narrowSymbol: '$',
+    name: 'Jamaican Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['JM'],
+    isCrypto: false,
+  },
+  JOD: {
+    code: 'JOD',
+    numericCode: '400',
+    symbol: 'JOD',
+    narrowSymbol: 'JOD',
+    name: 'Jordanian Dinar',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['JO'],
+    isCrypto: false,
+  },
+  JPY: {
+    code: 'JPY',
+    numericCode: '392',
+    symbol: '¥',
+    narrowSymbol: '¥',
+    name: 'Japanese Yen',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['JP'],
+    isCrypto: false,
+  },
+  KES: {
+    code: 'KES',
+    numericCode: '404',
+    symbol: 'KSh',
+    narrowSymbol: 'KES',
+    name: 'Kenyan Shilling',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['KE'],
+    isCrypto: false,
+  },
+  KGS: {
+    code: 'KGS',
+    numericCode: '417',
+    symbol: 'KGS',
+    narrowSymbol: '⃀',
+    name: 'Kyrgystani Som',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['KG'],
+    isCrypto: false,
+  },
+  KHR: {
+    code: 'KHR',
+    numericCode: '116',
+    symbol: 'KHR',
+    narrowSymbol: '៛',
+    name: 'Cambodian Riel',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['KH'],
+    isCrypto: false,
+  },
+  KMF: {
+    code: 'KMF',
+    numericCode: '174',
+    symbol: 'KMF',
+    narrowSymbol: 'CF',
+    name: 'Comorian Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['KM'],
+    isCrypto: false,
+  },
+  KPW: {
+    code: 'KPW',
+    numericCode: '408',
+    symbol: 'KPW',
+    narrowSymbol: '₩',
+    name: 'North Korean Won',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['KP'],
+    isCrypto: false,
+  },
+  KRW: {
+    code: 'KRW',
+    numericCode: '410',
+    symbol: '₩',
+    narrowSymbol: '₩',
+    name: 'South Korean Won',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['KR'],
+    isCrypto: false,
+  },
+  KWD: {
+    code: 'KWD',
+    numericCode: '414',
+    symbol: 'KWD',
+    narrowSymbol: 'KWD',
+    name: 'Kuwaiti Dinar',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['KW'],
+    isCrypto: false,
+  },
+  KYD: {
+    code: 'KYD',
+    numericCode: '136',
+    symbol: 'KYD',
+    narrowSymbol: '$',
+    name: 'Cayman Islands Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['KY'],
+    isCrypto: false,
+  },
+  KZT: {
+    code: 'KZT',
+    numericCode: '398',
+    symbol: 'KZT',
+    narrowSymbol: '₸',
+    name: 'Kazakhstani Tenge',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['KZ'],
+    isCrypto: false,
+  },
+  LAK: {
+    code: 'LAK',
+    numericCode: '418',
+    symbol: 'LAK',
+    narrowSymbol: '₭',
+    name: 'Laotian Kip',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['LA'],
+    isCrypto: false,
+  },
+  LBP: {
+    code: 'LBP',
+    numericCode: '422',
+    symbol: 'LBP',
+    narrowSymbol: 'L£',
+    name: 'Lebanese Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['LB'],
+    isCrypto: false,
+  },
+  LKR: {
+    code: 'LKR',
+    numericCode: '144',
+    symbol: 'LKR',
+    narrowSymbol: 'Rs',
+    name: 'Sri Lankan Rupee',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['LK'],
+    isCrypto: false,
+  },
+  LRD: {
+    code: 'LRD',
+    numericCode: '430',
+    symbol: 'LRD',
+    narrowSymbol: '$',
+    name: 'Liberian Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['LR'],
+    isCrypto: false,
+  },
+  LSL: {
+    code: 'LSL',
+    numericCode: '426',
+    symbol: 'LSL',
+    narrowSymbol: 'LSL',
+    name: 'Lesotho Loti',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['LS'],
+    isCrypto: false,
+  },
+  LYD: {
+    code: 'LYD',
+    numericCode: '434',
+    symbol: 'LYD',
+    narrowSymbol: 'LYD',
+    name: 'Libyan Dinar',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['LY'],
+    isCrypto: false,
+  },
+  MAD: {
+    code: 'MAD',
+    numericCode: '504',
+    symbol: 'MAD',
+    narrowSymbol: 'MAD',
+    name: 'Moroccan Dirham',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['EH', 'MA'],
+    isCrypto: false,
+  },
+  MDL: {
+    code: 'MDL',
+    numericCode: '498',
+    symbol: 'MDL',
+    narrowSymbol: 'MDL',
+    name: 'Moldovan Leu',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MD'],
+    isCrypto: false,
+  },
+  MGA: {
+    code: 'MGA',
+    numericCode: '969',
+    symbol: 'MGA',
+    narrowSymbol: 'Ar',
+    name: 'Malagasy Ariary',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MG'],
+    isCrypto: false,
+  },
+  MKD: {
+    code: 'MKD',
+    numericCode: '807',
+    symbol: 'MKD',
+    narrowSymbol: 'MKD',
+    name: 'Macedonian Denar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MK'],
+    isCrypto: false,
+  },
+  MMK: {
+    code: 'MMK',
+    numericCode: '104',
+    symbol: 'MMK',
+    narrowSymbol: 'K',
+    name: 'Myanmar Kyat',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MM'],
+    isCrypto: false,
+  },
+  MNT: {
+    code: 'MNT',
+    numericCode: '496',
+    symbol: 'MNT',
+    narrowSymbol: '₮',
+    name: 'Mongolian Tugrik',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MN'],
+    isCrypto: false,
+  },
+  MOP: {
+    code: 'MOP',
+    numericCode: '446',
+    symbol: 'MOP',
+    narrowSymbol: 'MOP',
+    name: 'Macanese Pataca',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MO'],
+    isCrypto: false,
+  },
+  MRU: {
+    code: 'MRU',
+    numericCode: '929',
+    symbol: 'MRU',
+    narrowSymbol: 'MRU',
+    name: 'Mauritanian Ouguiya',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MR'],
+    isCrypto: false,
+  },
+  MUR: {
+    code: 'MUR',
+    numericCode: '480',
+    symbol: 'MUR',
+    narrowSymbol: 'Rs',
+    name: 'Mauritian Rupee',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MU'],
+    isCrypto: false,
+  },
+  MVR: {
+    code: 'MVR',
+    numericCode: '462',
+    symbol: 'MVR',
+    narrowSymbol: 'MVR',
+    name: 'Maldivian Rufiyaa',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MV'],
+    isCrypto: false,
+  },
+  MWK: {
+    code: 'MWK',
+    numericCode: '454',
+    symbol: 'MWK',
+    narrowSymbol: 'MWK',
+    name: 'Malawian Kwacha',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MW'],
+    isCrypto: false,
+  },
+  MXN: {
+    code: 'MXN',
+    numericCode: '484',
+    symbol: 'MX$',
+    narrowSymbol: '$',
+    name: 'Mexican Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MX'],
+    isCrypto: false,
+  },
+  MXV: {
+    code: 'MXV',
+    numericCode: '979',
+    symbol: 'MXV',
+    narrowSymbol: 'MXV',
+    name: 'Mexican Investment Unit',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MX'],
+    isCrypto: false,
+  },
+  MYR: {
+    code: 'MYR',
+    numericCode: '458',
+    symbol: 'MYR',
+    narrowSymbol: 'RM',
+    name: 'Malaysian Ringgit',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MY'],
+    isCrypto: false,
+  },
+  MZN: {
+    code: 'MZN',
+    numericCode: '943',
+    symbol: 'MZN',
+    narrowSymbol: 'MZN',
+    name: 'Mozambican Metical',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['MZ'],
+    isCrypto: false,
+  },
+  NAD: {
+    code: 'NAD',
+    numericCode: '516',
+    symbol: 'NAD',
+    narrowSymbol: '$',
+    name: 'Namibian Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['NA'],
+    isCrypto: false,
+  },
+  NGN: {
+    code: 'NGN',
+    numericCode: '566',
+    symbol: '₦',
+    narrowSymbol: '₦',
+    name: 'Nigerian Naira',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['NG'],
+    isCrypto: false,
+  },
+  NIO: {
+    code: 'NIO',
+    numericCode: '558',
+    symbol: 'NIO',
+    narrowSymbol: 'C$',
+    name: 'Nicaraguan Córdoba',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['NI'],
+    isCrypto: false,
+  },
+  NOK: {
+    code: 'NOK',
+    numericCode: '578',
+    symbol: 'NOK',
+    narrowSymbol: 'kr',
+    name: 'Norwegian Krone',
+    decimalPlaces: 2,
+    cashIncrement: 1,
+    usesGrouping: true,
+    countries: ['BV', 'NO', 'SJ'],
+    isCrypto: false,
+  },
+  NPR: {
+    code: 'NPR',
+    numericCode: '524',
+    symbol: 'NPR',
+    narrowSymbol: 'Rs',
+    name: 'Nepalese Rupee',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['NP'],
+    isCrypto: false,
+  },
+  NZD: {
+    code: 'NZD',
+    numericCode: '554',
+    symbol: 'NZ$',
+    narrowSymbol: '$',
+    name: 'New Zealand Dollar',
+    decimalPlaces: 2,
+    cashIncrement: 0.1,
+    usesGrouping: true,
+    countries: ['CK', 'NU', 'NZ', 'PN', 'TK'],
+    isCrypto: false,
+  },
+  OMR: {
+    code: 'OMR',
+    numericCode: '512',
+    symbol: 'OMR',
+    narrowSymbol: 'OMR',
+    name: 'Omani Rial',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['OM'],
+    isCrypto: false,
+  },
+  PAB: {
+    code: 'PAB',
+    numericCode: '590',
+    symbol: 'PAB',
+    narrowSymbol: 'PAB',
+    name: 'Panamanian Balboa',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['PA'],
+    isCrypto: false,
+  },
+  PEN: {
+    code: 'PEN',
+    numericCode: '604',
+    symbol: 'PEN',
+    narrowSymbol: 'PEN',
+    name: 'Peruvian Sol',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['PE'],
+    isCrypto: false,
+  },
+  PGK: {
+    code: 'PGK',
+    numericCode: '598',
+    symbol: 'PGK',
+    narrowSymbol: 'PGK',
+    name: 'Papua New Guinean Kina',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['PG'],
+    isCrypto: false,
+  },
+  PHP: {
+    code: 'PHP',
+    numericCode: '608',
+    symbol: '₱',
+    narrowSymbol: '₱',
+    name: 'Philippine Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['PH'],
+    isCrypto: false,
+  },
+  PKR: {
+    code: 'PKR',
+    numericCode: '586',
+    symbol: 'PKR',
+    narrowSymbol: 'Rs',
+    name: 'Pakistani Rupee',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['PK'],
+    isCrypto: false,
+  },
+  PLN: {
+    code: 'PLN',
+    numericCode: '985',
+    symbol: 'PLN',
+    narrowSymbol: 'zł',
+    name: 'Polish Zloty',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['PL'],
+    isCrypto: false,
+  },
+  PYG: {
+    code: 'PYG',
+    numericCode: '600',
+    symbol: 'PYG',
+    narrowSymbol: '₲',
+    name: 'Paraguayan Guarani',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['PY'],
+    isCrypto: false,
+  },
+  QAR: {
+    code: 'QAR',
+    numericCode: '634',
+    symbol: 'QAR',
+    narrowSymbol: 'QAR',
+    name: 'Qatari Riyal',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['QA'],
+    isCrypto: false,
+  },
+  RON: {
+    code: 'RON',
+    numericCode: '946',
+    symbol: 'RON',
+    narrowSymbol: 'lei',
+    name: 'Romanian Leu',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['RO'],
+    isCrypto: false,
+  },
+  RSD: {
+    code: 'RSD',
+    numericCode: '941',
+    symbol: 'RSD',
+    narrowSymbol: 'RSD',
+    name: 'Serbian Dinar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['RS'],
+    isCrypto: false,
+  },
+  RUB: {
+    code: 'RUB',
+    numericCode: '643',
+    symbol: 'RUB',
+    narrowSymbol: '₽',
+    name: 'Russian Ruble',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['RU'],
+    isCrypto: false,
+  },
+  RWF: {
+    code: 'RWF',
+    numericCode: '646',
+    symbol: 'RWF',
+    narrowSymbol: 'RF',
+    name: 'Rwandan Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['RW'],
+    isCrypto: false,
+  },
+  SAR: {
+    code: 'SAR',
+    numericCode: '682',
+    symbol: 'SAR',
+    narrowSymbol: 'SAR',
+    name: 'Saudi Riyal',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SA'],
+    isCrypto: false,
+  },
+  SBD: {
+    code: 'SBD',
+    numericCode: '090',
+    symbol: 'SBD',
+    narrowSymbol: '$',
+    name: 'Solomon Islands Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SB'],
+    isCrypto: false,
+  },
+  SCR: {
+    code: 'SCR',
+    numericCode: '690',
+    symbol: 'SCR',
+    narrowSymbol: 'SCR',
+    name: 'Seychellois Rupee',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SC'],
+    isCrypto: false,
+  },
+  SDG: {
+    code: 'SDG',
+    numericCode: '938',
+    symbol: 'SDG',
+    narrowSymbol: 'SDG',
+    name: 'Sudanese Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SD'],
+    isCrypto: false,
+  },
+  SEK: {
+    code: 'SEK',
+    numericCode: '752',
+    symbol: 'SEK',
+    narrowSymbol: 'kr',
+    name: 'Swedish Krona',
+    decimalPlaces: 2,
+    cashIncrement: 1,
+    usesGrouping: true,
+    countries: ['SE'],
+    isCrypto: false,
+  },
+  SGD: {
+    code: 'SGD',
+    numericCode: '702',
+    symbol: 'S$',
+    narrowSymbol: '$',
+    name: 'Singapore Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SG'],
+    isCrypto: false,
+  },
+  SHP: {
+    code: 'SHP',
+    numericCode: '654',
+    symbol: 'SHP',
+    narrowSymbol: '£',
+    name: 'St. Helena Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SH'],
+    isCrypto: false,
+  },
+  SLE: {
+    code: 'SLE',
+    numericCode: '925',
+    symbol: 'SLE',
+    narrowSymbol: 'SLE',
+    name: 'Sierra Leonean Leone',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SL'],
+    isCrypto: false,
+  },
+  SOS: {
+    code: 'SOS',
+    numericCode: '706',
+    symbol: 'SOS',
+    narrowSymbol: 'SOS',
+    name: 'Somali Shilling',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SO'],
+    isCrypto: false,
+  },
+  SRD: {
+    code: 'SRD',
+    numericCode: '968',
+    symbol: 'SRD',
+    narrowSymbol: '$',
+    name: 'Surinamese Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SR'],
+    isCrypto: false,
+  },
+  SSP: {
+    code: 'SSP',
+    numericCode: '728',
+    symbol: 'SSP',
+    narrowSymbol: '£',
+    name: 'South Sudanese Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SS'],
+    isCrypto: false,
+  },
+  STN: {
+    code: 'STN',
+    numericCode: '930',
+    symbol: 'STN',
+    narrowSymbol: 'Db',
+    name: 'São Tomé & Príncipe Dobra',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['ST'],
+    isCrypto: false,
+  },
+  SVC: {
+    code: 'SVC',
+    numericCode: '222',
+    symbol: 'SVC',
+    narrowSymbol: 'SVC',
+    name: 'Salvadoran Colón',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SV'],
+    isCrypto: false,
+  },
+  SYP: {
+    code: 'SYP',
+    numericCode: '760',
+    symbol: 'SYP',
+    narrowSymbol: '£',
+    name: 'Syrian Pound',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SY'],
+    isCrypto: false,
+  },
+  SZL: {
+    code: 'SZL',
+    numericCode: '748',
+    symbol: 'SZL',
+    narrowSymbol: 'SZL',
+    name: 'Swazi Lilangeni',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['SZ'],
+    isCrypto: false,
+  },
+  THB: {
+    code: 'THB',
+    numericCode: '764',
+    symbol: 'THB',
+    narrowSymbol: '฿',
+    name: 'Thai Baht',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TH'],
+    isCrypto: false,
+  },
+  TJS: {
+    code: 'TJS',
+    numericCode: '972',
+    symbol: 'TJS',
+    narrowSymbol: 'TJS',
+    name: 'Tajikistani Somoni',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TJ'],
+    isCrypto: false,
+  },
+  TMT: {
+    code: 'TMT',
+    numericCode: '934',
+    symbol: 'TMT',
+    narrowSymbol: 'TMT',
+    name: 'Turkmenistani Manat',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TM'],
+    isCrypto: false,
+  },
+  TND: {
+    code: 'TND',
+    numericCode: '788',
+    symbol: 'TND',
+    narrowSymbol: 'TND',
+    name: 'Tunisian Dinar',
+    decimalPlaces: 3,
+    usesGrouping: true,
+    countries: ['TN'],
+    isCrypto: false,
+  },
+  TOP: {
+    code: 'TOP',
+    numericCode: '776',
+    symbol: 'TOP',
+    narrowSymbol: 'T$',
+    name: 'Tongan Paʻanga',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TO'],
+    isCrypto: false,
+  },
+  TRY: {
+    code: 'TRY',
+    numericCode: '949',
+    symbol: 'TRY',
+    narrowSymbol: '₺',
+    name: 'Turkish Lira',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TR'],
+    isCrypto: false,
+  },
+  TTD: {
+    code: 'TTD',
+    numericCode: '780',
+    symbol: 'TTD',
+    narrowSymbol: '$',
+    name: 'Trinidad & Tobago Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TT'],
+    isCrypto: false,
+  },
+  TWD: {
+    code: 'TWD',
+    numericCode: '901',
+    symbol: 'NT$',
+    narrowSymbol: '$',
+    name: 'New Taiwan Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TW'],
+    isCrypto: false,
+  },
+  TZS: {
+    code: 'TZS',
+    numericCode: '834',
+    symbol: 'TZS',
+    narrowSymbol: 'TZS',
+    name: 'Tanzanian Shilling',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['TZ'],
+    isCrypto: false,
+  },
+  UAH: {
+    code: 'UAH',
+    numericCode: '980',
+    symbol: 'UAH',
+    narrowSymbol: '₴',
+    name: 'Ukrainian Hryvnia',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['UA'],
+    isCrypto: false,
+  },
+  UGX: {
+    code: 'UGX',
+    numericCode: '800',
+    symbol: 'UGX',
+    narrowSymbol: 'UGX',
+    name: 'Ugandan Shilling',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['UG'],
+    isCrypto: false,
+  },
+  USD: {
+    code: 'USD',
+    numericCode: '840',
+    symbol: '$',
+    narrowSymbol: '$',
+    name: 'US Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: [
+      'AS',
+      'BQ',
+      'EC',
+      'FM',
+      'GU',
+      'IO',
+      'MH',
+      'MP',
+      'PR',
+      'PW',
+      'SV',
+      'TC',
+      'TL',
+      'UM',
+      'US',
+      'VG',
+      'VI',
+    ],
+    isCrypto: false,
+  },
+  USN: {
+    code: 'USN',
+    numericCode: '997',
+    symbol: 'USN',
+    narrowSymbol: 'USN',
+    name: 'US Dollar (Next day)',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['US'],
+    isCrypto: false,
+  },
+  UYI: {
+    code: 'UYI',
+    numericCode: '940',
+    symbol: 'UYI',
+    narrowSymbol: 'UYI',
+    name: 'Uruguayan Peso (Indexed Units)',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['UY'],
+    isCrypto: false,
+  },
+  UYU: {
+    code: 'UYU',
+    numericCode: '858',
+    symbol: 'UYU',
+    narrowSymbol: '$',
+    name: 'Uruguayan Peso',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['UY'],
+    isCrypto: false,
+  },
+  UYW: {
+    code: 'UYW',
+    numericCode: '927',
+    symbol: 'UYW',
+    narrowSymbol: 'UYW',
+    name: 'Uruguayan Nominal Wage Index Unit',
+    decimalPlaces: 4,
+    usesGrouping: true,
+    countries: ['UY'],
+    isCrypto: false,
+  },
+  UZS: {
+    code: 'UZS',
+    numericCode: '860',
+    symbol: 'UZS',
+    narrowSymbol: 'UZS',
+    name: 'Uzbekistani Som',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['UZ'],
+    isCrypto: false,
+  },
+  VED: {
+    code: 'VED',
+    numericCode: '926',
+    symbol: 'VED',
+    narrowSymbol: 'VED',
+    name: 'Bolívar Soberano',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['VE'],
+    isCrypto: false,
+  },
+  VES: {
+    code: 'VES',
+    numericCode: '928',
+    symbol: 'VES',
+    narrowSymbol: 'VES',
+    name: 'Venezuelan Bolívar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['VE'],
+    isCrypto: false,
+  },
+  VND: {
+    code: 'VND',
+    numericCode: '704',
+    symbol: '₫',
+    narrowSymbol: '₫',
+    name: 'Vietnamese Dong',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['VN'],
+    isCrypto: false,
+  },
+  VUV: {
+    code: 'VUV',
+    numericCode: '548',
+    symbol: 'VUV',
+    narrowSymbol: 'VUV',
+    name: 'Vanuatu Vatu',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['VU'],
+    isCrypto: false,
+  },
+  WST: {
+    code: 'WST',
+    numericCode: '882',
+    symbol: 'WST',
+    narrowSymbol: 'WST',
+    name: 'Samoan Tala',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['WS'],
+    isCrypto: false,
+  },
+  XAF: {
+    code: 'XAF',
+    numericCode: '950',
+    symbol: 'FCFA',
+    narrowSymbol: 'FCFA',
+    name: 'Central African CFA Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['CF', 'CG', 'CM', 'GA', 'GQ', 'TD'],
+    isCrypto: false,
+  },
+  XCD: {
+    code: 'XCD',
+    numericCode: '951',
+    symbol: 'EC$',
+    narrowSymbol: '$',
+    name: 'East Caribbean Dollar',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['AG', 'AI', 'DM', 'GD', 'KN', 'LC', 'MS', 'VC'],
+    isCrypto: false,
+  },
+  XCG: {
+    code: 'XCG',
+    numericCode: '532',
+    symbol: 'Cg.',
+    narrowSymbol: 'Cg.',
+    name: 'Caribbean Guilder',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['CW', 'SX'],
+    isCrypto: false,
+  },
+  XOF: {
+    code: 'XOF',
+    numericCode: '952',
+    symbol: 'F CFA',
+    narrowSymbol: 'F CFA',
+    name: 'West African CFA Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['BF', 'BJ', 'CI', 'GW', 'ML', 'NE', 'SN', 'TG'],
+    isCrypto: false,
+  },
+  XPF: {
+    code: 'XPF',
+    numericCode: '953',
+    symbol: 'CFPF',
+    narrowSymbol: 'CFPF',
+    name: 'CFP Franc',
+    decimalPlaces: 0,
+    usesGrouping: true,
+    countries: ['NC', 'PF', 'WF'],
+    isCrypto: false,
+  },
+  YER: {
+    code: 'YER',
+    numericCode: '886',
+    symbol: 'YER',
+    narrowSymbol: 'YER',
+    name: 'Yemeni Rial',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['YE'],
+    isCrypto: false,
+  },
+  ZAR: {
+    code: 'ZAR',
+    numericCode: '710',
+    symbol: 'R',
+    narrowSymbol: 'R',
+    name: 'South African Rand',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['LS', 'NA', 'ZA'],
+    isCrypto: false,
+  },
+  ZMW: {
+    code: 'ZMW',
+    numericCode: '967',
+    symbol: 'ZMW',
+    narrowSymbol: 'ZK',
+    name: 'Zambian Kwacha',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['ZM'],
+    isCrypto: false,
+  },
+  ZWG: {
+    code: 'ZWG',
+    numericCode: '924',
+    symbol: 'ZWG',
+    narrowSymbol: 'ZWG',
+    name: 'Zimbabwean Gold',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: ['ZW'],
+    isCrypto: false,
+  },
+};
+
+/**
+ * Built-in cryptocurrencies (not part of ISO 4217)
+ */
+export const CRYPTO_CURRENCIES: Readonly<Record<string, CurrencyDisplay>> = {
+  BTC: {
+    code: 'BTC',
+    numericCode: null,
+    symbol: '₿',
+    narrowSymbol: '₿',
+    name: 'Bitcoin',
+    decimalPlaces: 8,
+    usesGrouping: true,
+    countries: [],
+    isCrypto: true,
+  },
+  ETH: {
+    code: 'ETH',
+    numericCode: null,
+    symbol: 'Ξ',
+    narrowSymbol: 'Ξ',
+    name: 'Ethereum',
+    decimalPlaces: 8,
+    usesGrouping: true,
+    countries: [],
+    isCrypto: true,
+  },
+  USDT: {
+    code: 'USDT',
+    numericCode: null,
+    symbol: '₮',
+    narrowSymbol: '₮',
+    name: 'Tether',
+    decimalPlaces: 2,
+    usesGrouping: true,
+    countries: [],
+    isCrypto: true,
+  },
+};
@@ -0,0 +1,302 @@
+/**
+ * Runtime currency registry
+ */
+
+import type {
+  CurrencyDefinition,
+  RegisterCurrencyOptions,
+  ListCurrenciesOptions,
+} from './types';
+import type { CurrencyDisplay } from '../formatCurrency/types';
+import { CURRENCY_INFO } from '../formatCurrency/constants';
+import { ISO_4217_CURRENCIES, CRYPTO_CURRENCIES } from './constants';
+import { MonieUtilsError } from '../errors';
+
+const CODE_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+const NUMERIC_CODE_PATTERN = /^\d{3}$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const MAX_DECIMAL_PLACES = 18;
+
+/**
+ * Own-property lookup, so codes like 'CONSTRUCTOR' never hit the prototype
+ */
+function lookup(
+  table: Readonly<Record<string, CurrencyDisplay>>,
+  code: string
+): CurrencyDisplay | undefined {
+  return Object.prototype.hasOwnProperty.call(table, code)
+    ? table[code]
+    : undefined;
+}
+
+/**
+ * Returns the built-in definition for a code, if there is one
+ */
+function getBuiltInCurrency(code: string): CurrencyDisplay | undefined {
+  return lookup(ISO_4217_CURRENCIES, code) ?? lookup(CRYPTO_CURRENCIES, code);
+}
+
+/**
+ * Checks that an increment is a positive whole number of minor units
+ */
+function isWholeMinorUnits(increment: number, decimalPlaces: number): boolean {
+  if (typeof increment !== 'number' || !(increment > 0)) {
+    return false;
+  }
+
+  const minorUnits = increment * 10 ** decimalPlaces;
+  return (
+    Number.isFinite(minorUnits) &&
+    Math.round(minorUnits) >= 1 &&
+    Math.abs(minorUnits - Math.round(minorUnits)) < 1e-9
+  );
+}
+
+/**
+ * Checks whether a currency code is in the registry
+ *
+ * @param code - The currency code (case-insensitive)
+ * @returns True if the currency is registered
+ *
+ * @example
+ * ```typescript
+ * isRegisteredCurrency('mxn'); // true
+ * isRegisteredCurrency('XYZ'); // false
+ * ```
+ */
+export function isRegisteredCurrency(code: unknown): code is string {
+  return (
+    typeof code === 'string' &&
+    lookup(CURRENCY_INFO, code.toUpperCase()) !== undefined
+  );
+}
+
+/**
+ * Looks up a registered currency by alphabetic or ISO 4217 numeric code
+ *
+ * @param code - Alphabetic code (case-insensitive) or three-digit numeric code
+ * @returns The currency metadata, or undefined when not registered
+ *
+ * @example
+ * ```typescript
+ * getCurrencyInfo('AED')?.name; // "United Arab Emirates Dirham"
+ * getCurrencyInfo('840')?.code; // "USD"
+ * ```
+ */
+export function getCurrencyInfo(code: string): CurrencyDisplay | undefined {
+  if (typeof code !== 'string') {
+    return undefined;
+  }
+
+  if (NUMERIC_CODE_PATTERN.test(code)) {
+    return Object.values(CURRENCY_INFO).find(
+      currency => currency.numericCode === code
+    );
+  }
+
+  return lookup(CURRENCY_INFO, code.toUpperCase());
+}
+
+/**
+ * Lists registered currencies sorted by code
+ *
+ * @param options - Optional filters
+ * @returns Matching currency metadata
+ *
+ * @example
+ * ```typescript
+ * listCurrencies({ country: 'SN' }).map(c => c.code); // ["XOF"]
+ * listCurrencies({ includeCrypto: false }).length; // 164
+ * ```
+ */
+export function listCurrencies(
+  options: ListCurrenciesOptions = {}
+): CurrencyDisplay[] {
+  const { includeCrypto = true, country } = options;
+  const countryCode = country?.toUpperCase();
+
+  return Object.values(CURRENCY_INFO)
+    .filter(currency => includeCrypto || !currency.isCrypto)
+    .filter(
+      currency =>
+        countryCode === undefined || currency.countries.includes(countryCode)
+    )
+    .sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * Adds a currency to the registry so validation, formatting, conversion and
+ * Money accept it
+ *
+ * @param definition - The currency to register
+ * @param options - Registration options
+ * @returns The stored currency metadata
+ *
+ * @throws {MonieUtilsError} When the definition is invalid or the code is
+ * already registered and `overwrite` is not set
+ *
+ * @example
+ * ```typescript
+ * registerCurrency({ code: 'PTS', name: 'Loyalty Points', decimalPlaces: 0 });
+ * formatCurrency(1500, 'PTS').formatted; // "PTS 1,500"
+ *
+ * registerCurrency({ code: 'USDC', symbol: 'USDC', decimalPlaces: 6, isCrypto: true });
+ * ```
+ */
+export function registerCurrency(
+  definition: CurrencyDefinition,
+  options: RegisterCurrencyOptions = {}
+): CurrencyDisplay {
+  if (!definition || typeof definition !== 'object') {
+    throw new MonieUtilsError(
+      'Currency definition must be an object',
+      'INVALID_ARGUMENT',
+      { field: 'definition', value: definition }
+    );
+  }
+
+  const code =
+    typeof definition.code === 'string' ? definition.code.toUpperCase() : '';
+  if (!CODE_PATTERN.test(code)) {
+    throw new MonieUtilsError(
+      `Invalid currency code: ${definition.code}. Must be 2-10 letters or digits starting with a letter.`,
+      'INVALID_CURRENCY',
+      { field: 'code', value: definition.code }
+    );
+  }
+
+  const { decimalPlaces } = definition;
+  if (
+    !Number.isInteger(decimalPlaces) ||
+    decimalPlaces < 0 ||
+    decimalPlaces > MAX_DECIMAL_PLACES
+  ) {
+    throw new MonieUtilsError(
+      `Invalid decimal places: ${decimalPlaces}. Must be an integer between 0 and ${MAX_DECIMAL_PLACES}.`,
+      'INVALID_ARGUMENT',
+      {
+        field: 'decimalPlaces',
+        value: decimalPlaces,
+        min: 0,
+        max: MAX_DECIMAL_PLACES,
+      }
+    );
+  }
+
+  const numericCode = definition.numericCode ?? null;
+  if (numericCode !== null && !NUMERIC_CODE_PATTERN.test(numericCode)) {
+    throw new MonieUtilsError(
+      `Invalid numeric code: ${numericCode}. Must be three digits.`,
+      'INVALID_ARGUMENT',
+      { field: 'numericCode', value: numericCode }
+    );
+  }
+
+  const { cashIncrement } = definition;
+  if (
+    cashIncrement !== undefined &&
+    !isWholeMinorUnits(cashIncrement, decimalPlaces)
+  ) {
+    throw new MonieUtilsError(
+      `Invalid cash increment: ${cashIncrement}. Must be a positive multiple of the minor unit.`,
+      'INVALID_ARGUMENT',
+      {
+        field: 'cashIncrement',
+        value: cashIncrement,
+        min: 10 ** -decimalPlaces,
+      }
+    );
+  }
+
+  const countries = (definition.countries ?? []).map(country =>
+    typeof country === 'string' ? country.toUpperCase() : country
+  );
+  const invalidCountry = countries.find(
+    country => typeof country !== 'string' || !COUNTRY_PATTERN.test(country)
+  );
+  if (invalidCountry !== undefined) {
+    throw new MonieUtilsError(
+      `Invalid country code: ${invalidCountry}. Must be ISO 3166-1 alpha-2.`,
+      'INVALID_ARGUMENT',
+      { field: 'countries', value: invalidCountry }
+    );
+  }
+
+  for (const field of ['symbol', 'narrowSymbol', 'name'] as const) {
+    const value = definition[field];
+    if (value !== undefined && (typeof value !== 'string' || value === '')) {
+      throw new MonieUtilsError(
+        `Invalid ${field}: ${value}. Must be a non-empty string.`,
+        'INVALID_ARGUMENT',
+        { field, value }
+      );
+    }
+  }
+
+  if (isRegisteredCurrency(code) && !options.overwrite) {
+    throw new MonieUtilsError(
+      `Currency already registered: ${code}. Pass { overwrite: true } to replace it.`,
+      'INVALID_CURRENCY',
+      { field: 'code', value: code }
+    );
+  }
+
+  const symbol = definition.symbol ?? code;
+  const currency: CurrencyDisplay = {
+    code,
+    numericCode,
+    symbol,
+    narrowSymbol: definition.narrowSymbol ?? symbol,
+    name: definition.name ?? code,
+    decimalPlaces,
+    ...(cashIncrement !== undefined && { cashIncrement }),
+    usesGrouping: definition.usesGrouping ?? true,
+    countries,
+    isCrypto: definition.isCrypto ?? false,
+  };
+
+  CURRENCY_INFO[code] = currency;
+  return currency;
+}
+
+/**
+ * Removes a custom currency from the registry.
+ * Built-in currencies cannot be removed; if a built-in was overwritten with
+ * `registerCurrency`, its original definition is restored instead.
+ *
+ * @param code - The currency code (case-insensitive)
+ * @returns True if the registry changed, false if the code was not registered
+ *
+ * @throws {MonieUtilsError} When the code is an unmodified built-in currency
+ *
+ * @example
+ * ```typescript
+ * registerCurrency({ code: 'PTS', decimalPlaces: 0 });
+ * unregisterCurrency('PTS'); // true
+ * unregisterCurrency('PTS'); // false
+ * ```
+ */
+export function unregisterCurrency(code: string): boolean {
+  if (!isRegisteredCurrency(code)) {
+    return false;
+  }
+
+  const upperCode = code.toUpperCase();
+  const builtIn = getBuiltInCurrency(upperCode);
+
+  if (builtIn === undefined) {
+    delete CURRENCY_INFO[upperCode];
+    return true;
+  }
+
+  if (CURRENCY_INFO[upperCode] === builtIn) {
+    throw new MonieUtilsError(
+      `Cannot unregister built-in currency: ${upperCode}`,
+      'INVALID_CURRENCY',
+      { field: 'code', value: code }
+    );
+  }
+
+  CURRENCY_INFO[upperCode] = builtIn;
+  return true;
+}
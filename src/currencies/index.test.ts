@@ -0,0 +1,195 @@
+/**
+ * Tests for the currency registry
+ */
+
+import {
+  isRegisteredCurrency,
+  getCurrencyInfo,
+  listCurrencies,
+  registerCurrency,
+  unregisterCurrency,
+  ISO_4217_CURRENCIES,
+} from './index';
+import { MonieUtilsError } from '../errors';
+import { isValidCurrency } from '../validation';
+import { formatCurrency } from '../formatCurrency';
+import { convertCurrency } from '../conversion';
+import { Money } from '../money';
+
+describe('currency registry', () => {
+  afterEach(() => {
+    for (const code of ['PTS', 'USDC', 'MILES']) {
+      unregisterCurrency(code);
+    }
+    if (getCurrencyInfo('USD') !== ISO_4217_CURRENCIES.USD) {
+      unregisterCurrency('USD');
+    }
+  });
+
+  describe('built-in currencies', () => {
+    it('should know everyday ISO 4217 codes', () => {
+      for (const code of ['MXN', 'AED', 'EGP', 'XOF', 'RWF']) {
+        expect(isValidCurrency(code)).toBe(true);
+      }
+      expect(() => convertCurrency(100, 'MXN', 'AED', 0.2)).not.toThrow();
+    });
+
+    it('should carry ISO metadata', () => {
+      expect(getCurrencyInfo('aed')).toMatchObject({
+        code: 'AED',
+        numericCode: '784',
+        name: 'United Arab Emirates Dirham',
+        decimalPlaces: 2,
+        countries: ['AE'],
+        isCrypto: false,
+      });
+      expect(getCurrencyInfo('MXN')).toMatchObject({
+        symbol: 'MX$',
+        narrowSymbol: '$',
+      });
+    });
+
+    it('should use ISO minor units', () => {
+      expect(getCurrencyInfo('RWF')?.decimalPlaces).toBe(0);
+      expect(getCurrencyInfo('KWD')?.decimalPlaces).toBe(3);
+      expect(getCurrencyInfo('CLF')?.decimalPlaces).toBe(4);
+      expect(Money.of('1.234', 'BHD').minorUnits).toBe(BigInt(1234));
+    });
+
+    it('should look up by numeric code', () => {
+      expect(getCurrencyInfo('840')?.code).toBe('USD');
+      expect(getCurrencyInfo('008')?.code).toBe('ALL');
+      expect(getCurrencyInfo('000')).toBeUndefined();
+    });
+
+    it('should give every ISO entry a unique three-digit numeric code', () => {
+      const numericCodes = Object.values(ISO_4217_CURRENCIES).map(
+        currency => currency.numericCode
+      );
+      expect(numericCodes.every(code => /^\d{3}$/.test(code ?? ''))).toBe(true);
+      expect(new Set(numericCodes).size).toBe(numericCodes.length);
+    });
+
+    it('should not treat prototype keys as currencies', () => {
+      expect(isValidCurrency('constructor')).toBe(false);
+      expect(isRegisteredCurrency('__proto__')).toBe(false);
+      expect(getCurrencyInfo('toString')).toBeUndefined();
+    });
+  });
+
+  describe('listCurrencies', () => {
+    it('should filter by country', () => {
+      expect(listCurrencies({ country: 'sn' }).map(c => c.code)).toEqual([
+        'XOF',
+      ]);
+      expect(listCurrencies({ country: 'CH' }).map(c => c.code)).toEqual([
+        'CHE',
+        'CHF',
+        'CHW',
+      ]);
+    });
+
+    it('should exclude cryptocurrencies on request', () => {
+      const codes = listCurrencies({ includeCrypto: false }).map(c => c.code);
+      expect(codes).not.toContain('BTC');
+      expect(codes).toContain('USD');
+      expect(listCurrencies().map(c => c.code)).toContain('BTC');
+    });
+  });
+
+  describe('registerCurrency', () => {
+    it('should make custom currencies usable across the library', () => {
+      const points = registerCurrency({
+        code: 'pts',
+        name: 'Loyalty Points',
+        decimalPlaces: 0,
+      });
+
+      expect(points).toEqual({
+        code: 'PTS',
+        numericCode: null,
+        symbol: 'PTS',
+        narrowSymbol: 'PTS',
+        name: 'Loyalty Points',
+        decimalPlaces: 0,
+        usesGrouping: true,
+        countries: [],
+        isCrypto: false,
+      });
+      expect(isValidCurrency('PTS')).toBe(true);
+      expect(formatCurrency(1500, 'PTS').formatted).toBe('PTS\u00a01,500');
+      expect(Money.of(1500, 'PTS').toString()).toBe('1500 PTS');
+    });
+
+    it('should support longer token codes', () => {
+      registerCurrency({
+        code: 'USDC',
+        symbol: 'USDC ',
+        decimalPlaces: 6,
+        isCrypto: true,
+      });
+      expect(formatCurrency(1.5, 'USDC').formatted).toBe('USDC 1.500000');
+      expect(getCurrencyInfo('USDC')?.isCrypto).toBe(true);
+    });
+
+    it('should refuse to replace an existing currency unless asked', () => {
+      expect(() => registerCurrency({ code: 'USD', decimalPlaces: 2 })).toThrow(
+        MonieUtilsError
+      );
+
+      registerCurrency(
+        { code: 'USD', symbol: 'US$', decimalPlaces: 2 },
+        { overwrite: true }
+      );
+      expect(formatCurrency(10, 'USD').formatted).toBe('US$10.00');
+    });
+
+    it('should validate the definition', () => {
+      expect(() => registerCurrency({ code: '1X', decimalPlaces: 0 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURRENCY' })
+      );
+      expect(() =>
+        registerCurrency({ code: 'MILES', decimalPlaces: 1.5 })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_ARGUMENT',
+          details: expect.objectContaining({ field: 'decimalPlaces' }),
+        })
+      );
+      expect(() =>
+        registerCurrency({ code: 'MILES', decimalPlaces: 0, numericCode: '12' })
+      ).toThrow(MonieUtilsError);
+      expect(() =>
+        registerCurrency({
+          code: 'MILES',
+          decimalPlaces: 0,
+          countries: ['USA'],
+        })
+      ).toThrow(MonieUtilsError);
+      expect(isValidCurrency('MILES')).toBe(false);
+    });
+  });
+
+  describe('unregisterCurrency', () => {
+    it('should remove custom currencies', () => {
+      registerCurrency({ code: 'PTS', decimalPlaces: 0 });
+      expect(unregisterCurrency('pts')).toBe(true);
+      expect(isValidCurrency('PTS')).toBe(false);
+      expect(unregisterCurrency('PTS')).toBe(false);
+    });
+
+    it('should restore overwritten built-ins', () => {
+      registerCurrency(
+        { code: 'USD', symbol: 'US$', decimalPlaces: 2 },
+        { overwrite: true }
+      );
+      expect(unregisterCurrency('USD')).toBe(true);
+      expect(getCurrencyInfo('USD')?.symbol).toBe('$');
+    });
+
+    it('should refuse to remove built-in currencies', () => {
+      expect(() => unregisterCurrency('EUR')).toThrow(MonieUtilsError);
+      expect(isValidCurrency('EUR')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Currency registry barrel export
+ *
+ * This module provides the currency registry including:
+ * - Every active ISO 4217 currency with numeric codes, symbols and countries
+ * - Lookup by alphabetic or numeric code and listing by country
+ * - Runtime registration of custom tokens, loyalty points and cryptocurrencies
+ *
+ * @example
+ * ```typescript
+ * import { getCurrencyInfo, registerCurrency } from 'monie-utils/currencies';
+ *
+ * getCurrencyInfo('XOF')?.countries; // ["BF", "BJ", "CI", ...]
+ *
+ * registerCurrency({ code: 'PTS', name: 'Loyalty Points', decimalPlaces: 0 });
+ * isValidCurrency('PTS'); // true
+ * ```
+ */
+
+// Export registry functions
+export {
+  isRegisteredCurrency,
+  getCurrencyInfo,
+  listCurrencies,
+  registerCurrency,
+  unregisterCurrency,
+} from './currencies';
+
+// Export types
+export type {
+  CurrencyDefinition,
+  RegisterCurrencyOptions,
+  ListCurrenciesOptions,
+} from './types';
+
+// Export constants
+export { ISO_4217_CURRENCIES, CRYPTO_CURRENCIES } from './constants';
@@ -0,0 +1,49 @@
+/**
+ * Type definitions for the currency registry
+ */
+
+/**
+ * Definition of a currency to add to the registry.
+ * Only `code` and `decimalPlaces` are required; display fields default to
+ * the code itself.
+ */
+export interface CurrencyDefinition {
+  /** Currency code, 2-10 letters or digits starting with a letter (e.g., 'PTS') */
+  code: string;
+  /** Number of minor-unit decimal places (0-18) */
+  decimalPlaces: number;
+  /** Cash rounding increment in major units (default: one minor unit) */
+  cashIncrement?: number;
+  /** Display symbol (default: the code) */
+  symbol?: string;
+  /** Narrow display symbol (default: the symbol) */
+  narrowSymbol?: string;
+  /** Display name (default: the code) */
+  name?: string;
+  /** Three-digit ISO 4217 numeric code (default: null) */
+  numericCode?: string | null;
+  /** ISO 3166-1 alpha-2 codes of the countries that use this currency */
+  countries?: string[];
+  /** Whether this is a cryptocurrency (default: false) */
+  isCrypto?: boolean;
+  /** Whether amounts use grouping separators (default: true) */
+  usesGrouping?: boolean;
+}
+
+/**
+ * Options for registering a currency
+ */
+export interface RegisterCurrencyOptions {
+  /** Replace an existing currency with the same code (default: false) */
+  overwrite?: boolean;
+}
+
+/**
+ * Filters for listing registered currencies
+ */
+export interface ListCurrenciesOptions {
+  /** Include cryptocurrencies (default: true) */
+  includeCrypto?: boolean;
+  /** Only return currencies used in this ISO 3166-1 alpha-2 country */
+  country?: string;
+}
@@ -0,0 +1,446 @@
+/**
+ * Arbitrary-precision decimal arithmetic backed by bigint
+ */
+
+import type { DecimalValue, DecimalRoundingMode } from './types';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Default number of fractional digits kept by division
+ */
+export const DEFAULT_DIVISION_SCALE = 20;
+
+/**
+ * Extra digits carried through repeated squaring before the final rounding
+ */
+const POW_GUARD_DIGITS = 10;
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+/**
+ * Returns 10 raised to the given power as a bigint
+ */
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+/**
+ * Returns the absolute value of a bigint
+ */
+function absBigInt(value: bigint): bigint {
+  return value < ZERO ? -value : value;
+}
+
+/**
+ * Divides two bigints and rounds the quotient to an integer
+ *
+ * @param numerator - The dividend
+ * @param denominator - The divisor (must not be zero)
+ * @param mode - How to round a non-integer quotient
+ * @returns The rounded quotient
+ */
+export function divideAndRound(
+  numerator: bigint,
+  denominator: bigint,
+  mode: DecimalRoundingMode
+): bigint {
+  if (denominator < ZERO) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+
+  if (remainder === ZERO) {
+    return quotient;
+  }
+
+  const isNegative = numerator < ZERO;
+  // Candidates either side of the exact value; bigint division truncates toward zero
+  const towardZero = quotient;
+  const awayFromZero = isNegative ? quotient - ONE : quotient + ONE;
+  const twiceRemainder = absBigInt(remainder) * TWO;
+
+  // Half-* modes only differ from plain rounding on an exact tie
+  if (mode.startsWith('half-') && twiceRemainder !== denominator) {
+    return twiceRemainder > denominator ? awayFromZero : towardZero;
+  }
+
+  switch (mode) {
+    case 'floor':
+      return isNegative ? awayFromZero : towardZero;
+    case 'ceiling':
+      return isNegative ? towardZero : awayFromZero;
+    case 'down':
+      return towardZero;
+    case 'up':
+      return awayFromZero;
+    case 'half-up':
+      return isNegative ? towardZero : awayFromZero;
+    case 'half-down':
+      return isNegative ? awayFromZero : towardZero;
+    case 'half-away-from-zero':
+      return awayFromZero;
+    case 'half-toward-zero':
+      return towardZero;
+    case 'half-even':
+      return towardZero % TWO === ZERO ? towardZero : awayFromZero;
+    case 'half-odd':
+      return towardZero % TWO !== ZERO ? towardZero : awayFromZero;
+    default:
+      throw new MonieUtilsError(
+        `Invalid rounding mode: ${String(mode)}`,
+        'INVALID_ARGUMENT',
+        { field: 'mode', value: mode }
+      );
+  }
+}
+
+/**
+ * Immutable arbitrary-precision decimal number.
+ *
+ * The value is stored as `coefficient / 10^scale`, where the coefficient is
+ * a bigint, so addition, subtraction and multiplication are always exact.
+ * Division and negative powers are carried out to a configurable scale.
+ *
+ * @example
+ * ```typescript
+ * Decimal.from('0.1').add('0.2').toString(); // "0.3"
+ * Decimal.from(1.005).round(2).toNumber(); // 1.01
+ * Decimal.from(1).div(3, 4).toString(); // "0.3333"
+ * ```
+ */
+export class Decimal {
+  /** Integer coefficient of the value */
+  public readonly coefficient: bigint;
+  /** Number of fractional digits in the coefficient */
+  public readonly scale: number;
+
+  private constructor(coefficient: bigint, scale: number) {
+    this.coefficient = coefficient;
+    this.scale = scale;
+  }
+
+  /**
+   * Creates a decimal from a number, numeric string, bigint or Decimal
+   *
+   * @param value - The value to convert
+   * @returns The decimal representation
+   *
+   * @throws {MonieUtilsError} When the value is not a finite number
+   */
+  public static from(value: DecimalValue | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+
+    if (typeof value === 'bigint') {
+      return new Decimal(value, 0);
+    }
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new MonieUtilsError(
+        `Invalid decimal value: ${value}. Must be a finite number.`,
+        'INVALID_AMOUNT',
+        { field: 'value', value }
+      );
+    }
+
+    const text = typeof value === 'number' ? String(value) : value.trim();
+    const match = DECIMAL_PATTERN.exec(text);
+
+    if (!match || (!match[2] && !match[3])) {
+      throw new MonieUtilsError(
+        `Invalid decimal value: ${value}. Must be a finite number.`,
+        'INVALID_AMOUNT',
+        { field: 'value', value }
+      );
+    }
+
+    const [, sign, integerPart = '', fractionPart = '', exponent = '0'] = match;
+    let coefficient = BigInt(`${integerPart}${fractionPart}` || '0');
+    let scale = fractionPart.length - parseInt(exponent, 10);
+
+    if (scale < 0) {
+      coefficient *= pow10(-scale);
+      scale = 0;
+    }
+
+    return new Decimal(sign === '-' ? -coefficient : coefficient, scale);
+  }
+
+  /**
+   * Creates a decimal from an integer coefficient and scale
+   *
+   * @param coefficient - The integer coefficient
+   * @param scale - Number of fractional digits (non-negative integer)
+   * @returns The decimal `coefficient / 10^scale`
+   */
+  public static fromScaled(coefficient: bigint, scale: number): Decimal {
+    if (!Number.isInteger(scale) || scale < 0) {
+      throw new MonieUtilsError(
+        `Invalid scale: ${scale}. Must be a non-negative integer.`,
+        'INVALID_ARGUMENT',
+        { field: 'scale', value: scale, min: 0 }
+      );
+    }
+
+    return new Decimal(coefficient, scale);
+  }
+
+  /** Adds another value */
+  public add(other: DecimalValue | Decimal): Decimal {
+    const [a, b, scale] = align(this, Decimal.from(other));
+    return new Decimal(a + b, scale);
+  }
+
+  /** Subtracts another value */
+  public sub(other: DecimalValue | Decimal): Decimal {
+    const [a, b, scale] = align(this, Decimal.from(other));
+    return new Decimal(a - b, scale);
+  }
+
+  /** Multiplies by another value */
+  public mul(other: DecimalValue | Decimal): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(
+      this.coefficient * value.coefficient,
+      this.scale + value.scale
+    );
+  }
+
+  /**
+   * Divides by another value
+   *
+   * @param other - The divisor
+   * @param scale - Fractional digits to keep (default: 20)
+   * @param mode - Rounding mode for the last digit (default: 'half-even')
+   * @returns The quotient
+   *
+   * @throws {MonieUtilsError} When dividing by zero
+   */
+  public div(
+    other: DecimalValue | Decimal,
+    scale: number = DEFAULT_DIVISION_SCALE,
+    mode: DecimalRoundingMode = 'half-even'
+  ): Decimal {
+    const divisor = Decimal.from(other);
+
+    if (divisor.coefficient === ZERO) {
+      throw new MonieUtilsError('Cannot divide by zero', 'DIVISION_BY_ZERO', {
+        field: 'divisor',
+        value: divisor.toString(),
+      });
+    }
+
+    const numerator = this.coefficient * pow10(divisor.scale + scale);
+    const denominator = divisor.coefficient * pow10(this.scale);
+
+    return new Decimal(divideAndRound(numerator, denominator, mode), scale);
+  }
+
+  /**
+   * Raises to an integer power.
+   * Results that fit within `scale` fractional digits are exact; longer
+   * results are computed by repeated squaring with guard digits and rounded
+   * to `scale`.
+   *
+   * @param exponent - Integer exponent (negative exponents divide)
+   * @param scale - Maximum fractional digits to keep (default: 20)
+   * @returns The power
+   *
+   * @throws {MonieUtilsError} When the exponent is not an integer
+   */
+  public pow(
+    exponent: number,
+    scale: number = DEFAULT_DIVISION_SCALE
+  ): Decimal {
+    if (!Number.isInteger(exponent)) {
+      throw new MonieUtilsError(
+        `Invalid exponent: ${exponent}. Must be an integer.`,
+        'INVALID_ARGUMENT',
+        { field: 'exponent', value: exponent }
+      );
+    }
+
+    const magnitude = Math.abs(exponent);
+    let power: Decimal;
+
+    if (this.scale * magnitude <= scale) {
+      power = new Decimal(
+        this.coefficient ** BigInt(magnitude),
+        this.scale * magnitude
+      );
+    } else {
+      const workingScale = scale + POW_GUARD_DIGITS;
+      let base: Decimal = this;
+      let remaining = magnitude;
+      power = new Decimal(ONE, 0);
+
+      while (remaining > 0) {
+        if (remaining % 2 === 1) {
+          power = power.mul(base).round(workingScale, 'half-even');
+        }
+        remaining = Math.floor(remaining / 2);
+        if (remaining > 0) {
+          base = base.mul(base).round(workingScale, 'half-even');
+        }
+      }
+
+      power = power.round(scale, 'half-even');
+    }
+
+    return exponent < 0 ? new Decimal(ONE, 0).div(power, scale) : power;
+  }
+
+  /**
+   * Rounds to a number of decimal places
+   *
+   * @param decimalPlaces - Fractional digits to keep
+   * @param mode - Rounding mode (default: 'half-up')
+   * @returns The rounded value
+   */
+  public round(
+    decimalPlaces: number,
+    mode: DecimalRoundingMode = 'half-up'
+  ): Decimal {
+    if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0) {
+      throw new MonieUtilsError(
+        `Invalid decimal places: ${decimalPlaces}. Must be a non-negative integer.`,
+        'INVALID_ARGUMENT',
+        { field: 'decimalPlaces', value: decimalPlaces, min: 0 }
+      );
+    }
+
+    if (decimalPlaces >= this.scale) {
+      return this;
+    }
+
+    return new Decimal(
+      divideAndRound(this.coefficient, pow10(this.scale - decimalPlaces), mode),
+      decimalPlaces
+    );
+  }
+
+  /**
+   * Compares with another value
+   *
+   * @returns -1, 0 or 1
+   */
+  public cmp(other: DecimalValue | Decimal): -1 | 0 | 1 {
+    const [a, b] = align(this, Decimal.from(other));
+    if (a === b) return 0;
+    return a < b ? -1 : 1;
+  }
+
+  /** Whether the value equals `other` */
+  public eq(other: DecimalValue | Decimal): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  /** Whether the value is less than `other` */
+  public lt(other: DecimalValue | Decimal): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  /** Whether the value is greater than `other` */
+  public gt(other: DecimalValue | Decimal): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  /** Whether the value is zero */
+  public isZero(): boolean {
+    return this.coefficient === ZERO;
+  }
+
+  /** Whether the value is below zero */
+  public isNegative(): boolean {
+    return this.coefficient < ZERO;
+  }
+
+  /** Returns the value with its sign flipped */
+  public neg(): Decimal {
+    return new Decimal(-this.coefficient, this.scale);
+  }
+
+  /** Returns the absolute value */
+  public abs(): Decimal {
+    return this.isNegative() ? this.neg() : this;
+  }
+
+  /**
+   * Returns the value as a coefficient at the given scale.
+   * Useful for converting to integer minor units.
+   *
+   * @param scale - Target number of fractional digits
+   * @param mode - Rounding mode when digits are dropped (default: 'half-up')
+   * @returns The integer coefficient
+   */
+  public toScaled(
+    scale: number,
+    mode: DecimalRoundingMode = 'half-up'
+  ): bigint {
+    if (scale >= this.scale) {
+      return this.coefficient * pow10(scale - this.scale);
+    }
+
+    return this.round(scale, mode).coefficient;
+  }
+
+  /**
+   * Formats with a fixed number of decimal places
+   *
+   * @param decimalPlaces - Fractional digits to show
+   * @param mode - Rounding mode (default: 'half-up')
+   */
+  public toFixed(
+    decimalPlaces: number,
+    mode: DecimalRoundingMode = 'half-up'
+  ): string {
+    const coefficient = this.toScaled(decimalPlaces, mode);
+    return formatScaled(coefficient, decimalPlaces);
+  }
+
+  /** Returns the nearest JS number */
+  public toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /** Returns the exact value without trailing fractional zeros */
+  public toString(): string {
+    const text = formatScaled(this.coefficient, this.scale);
+    return text.includes('.') ? text.replace(/\.?0+$/, '') : text;
+  }
+}
+
+/**
+ * Brings two decimals to a common scale
+ */
+function align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [
+    a.coefficient * pow10(scale - a.scale),
+    b.coefficient * pow10(scale - b.scale),
+    scale,
+  ];
+}
+
+/**
+ * Renders a scaled coefficient as a decimal string
+ */
+function formatScaled(coefficient: bigint, scale: number): string {
+  const sign = coefficient < ZERO ? '-' : '';
+  const digits = absBigInt(coefficient).toString();
+
+  if (scale === 0) {
+    return `${sign}${digits}`;
+  }
+
+  const padded = digits.padStart(scale + 1, '0');
+  return `${sign}${padded.slice(0, -scale)}.${padded.slice(-scale)}`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Tests for the decimal engine
+ */
+
+import { Decimal, divideAndRound } from './index';
+import { MonieUtilsError } from '../errors';
+
+describe('Decimal', () => {
+  describe('parsing', () => {
+    it('should parse numbers through their shortest representation', () => {
+      expect(Decimal.from(1.005).toString()).toBe('1.005');
+      expect(Decimal.from(0.1).add(0.2).toString()).toBe('0.3');
+    });
+
+    it('should parse strings, exponents and bigints', () => {
+      expect(Decimal.from('-12.3400').toString()).toBe('-12.34');
+      expect(Decimal.from(1e-7).toString()).toBe('0.0000001');
+      expect(Decimal.from('1.5e3').toString()).toBe('1500');
+      expect(Decimal.from(BigInt(42)).toString()).toBe('42');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => Decimal.from(NaN)).toThrow(MonieUtilsError);
+      expect(() => Decimal.from('abc')).toThrow(MonieUtilsError);
+      expect(() => Decimal.from('.')).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add, subtract and multiply exactly', () => {
+      expect(Decimal.from('0.00000001').add('1').toString()).toBe('1.00000001');
+      expect(Decimal.from('10').sub('0.01').toString()).toBe('9.99');
+      expect(Decimal.from('1.1').mul('1.1').toString()).toBe('1.21');
+    });
+
+    it('should divide to the requested scale', () => {
+      expect(Decimal.from(1).div(3, 4).toString()).toBe('0.3333');
+      expect(Decimal.from(2).div(3, 4).toString()).toBe('0.6667');
+      expect(() => Decimal.from(1).div(0)).toThrow('Cannot divide by zero');
+    });
+
+    it('should raise to integer powers', () => {
+      expect(Decimal.from('1.1').pow(2).toString()).toBe('1.21');
+      expect(Decimal.from(2).pow(-2).toString()).toBe('0.25');
+      expect(Decimal.from('1.05').pow(10).toFixed(10)).toBe('1.6288946268');
+      expect(() => Decimal.from(2).pow(0.5)).toThrow(MonieUtilsError);
+    });
+
+    it('should keep long powers bounded to the scale', () => {
+      const growth = Decimal.from('1.0001').pow(10000, 12);
+      expect(growth.scale).toBeLessThanOrEqual(12);
+      expect(growth.toFixed(6)).toBe('2.718146');
+    });
+
+    it('should handle 18-decimal token amounts', () => {
+      const wei = Decimal.from('0.000000000000000001');
+      expect(wei.mul(3).toString()).toBe('0.000000000000000003');
+    });
+  });
+
+  describe('rounding', () => {
+    it('should round 1.005 correctly', () => {
+      expect(Decimal.from(1.005).round(2).toNumber()).toBe(1.01);
+    });
+
+    it('should support every rounding mode on ties', () => {
+      const value = Decimal.from('-2.5');
+      expect(value.round(0, 'half-up').toString()).toBe('-2');
+      expect(value.round(0, 'half-away-from-zero').toString()).toBe('-3');
+      expect(value.round(0, 'half-even').toString()).toBe('-2');
+      expect(value.round(0, 'half-odd').toString()).toBe('-3');
+      expect(value.round(0, 'floor').toString()).toBe('-3');
+      expect(value.round(0, 'ceiling').toString()).toBe('-2');
+      expect(value.round(0, 'down').toString()).toBe('-2');
+    });
+
+    it('should round integer quotients', () => {
+      expect(divideAndRound(BigInt(7), BigInt(2), 'half-even')).toBe(BigInt(4));
+      expect(divideAndRound(BigInt(-7), BigInt(3), 'floor')).toBe(BigInt(-3));
+    });
+
+    it('should format with fixed decimals', () => {
+      expect(Decimal.from('1.2').toFixed(3)).toBe('1.200');
+      expect(Decimal.from('-0.005').toFixed(2, 'half-even')).toBe('0.00');
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare values of different scales', () => {
+      expect(Decimal.from('1.10').cmp('1.1')).toBe(0);
+      expect(Decimal.from('1.09').lt('1.1')).toBe(true);
+      expect(Decimal.from('-1').gt('-2')).toBe(true);
+      expect(Decimal.from(0).isZero()).toBe(true);
+    });
+  });
+});
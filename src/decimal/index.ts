@@ -0,0 +1,23 @@
+/**
+ * Decimal engine barrel export (internal)
+ *
+ * This module provides the exact bigint-backed decimal type used when the
+ * library is configured with `arithmetic: 'decimal'`:
+ * - Exact add, sub and mul
+ * - Division and negative powers to a configurable scale
+ * - Rounding with explicit modes and comparison
+ *
+ * @example
+ * ```typescript
+ * import { Decimal } from '../decimal';
+ *
+ * Decimal.from('0.1').add('0.2').toString(); // "0.3"
+ * Decimal.from(1.005).round(2).toNumber(); // 1.01
+ * ```
+ */
+
+// Export decimal type
+export { Decimal, divideAndRound, DEFAULT_DIVISION_SCALE } from './decimal';
+
+// Export types
+export type { DecimalValue, DecimalRoundingMode } from './types';
@@ -0,0 +1,17 @@
+/**
+ * Type definitions for the arbitrary-precision decimal engine
+ */
+
+import type { RoundingPolicy } from '../rounding/types';
+
+/**
+ * Values that can be turned into a Decimal.
+ * Numbers are read through their shortest round-trip string, so 1.005 is
+ * treated as exactly 1.005 rather than 1.00499999999999989...
+ */
+export type DecimalValue = number | string | bigint;
+
+/**
+ * Rounding modes understood by the decimal engine
+ */
+export type DecimalRoundingMode = RoundingPolicy;
@@ -1,22 +1,114 @@
+import type { MonieUtilsErrorCode } from './types';
+
+/**
+ * Structured context attached to a MonieUtilsError
+ */
+export interface MonieUtilsErrorDetails {
+  /** Name of the offending parameter or field */
+  field?: string;
+  /** The offending value */
+  value?: unknown;
+  /** Smallest allowed value */
+  min?: number;
+  /** Largest allowed value */
+  max?: number;
+  /** Values that would have been accepted */
+  allowed?: readonly unknown[];
+  /** Any additional context */
+  [key: string]: unknown;
+}
+
 /**
  * Custom error class for monie-utils
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   convertCurrency(100, 'USD', 'XYZ');
+ * } catch (error) {
+ *   if (hasErrorCode(error, 'INVALID_CURRENCY')) {
+ *     console.log(error.details.field); // "toCurrency"
+ *   }
+ * }
+ * ```
  */
 export class MonieUtilsError extends Error {
-  public readonly code: string = 'MONIE_UTILS_ERROR';
+  /** Machine-readable error code */
+  public readonly code: MonieUtilsErrorCode;
+  /** Structured context about the failure */
+  public readonly details: MonieUtilsErrorDetails;
 
-  constructor(message: string) {
+  constructor(
+    message: string,
+    code: MonieUtilsErrorCode = 'MONIE_UTILS_ERROR',
+    details: MonieUtilsErrorDetails = {}
+  ) {
     super(message);
     this.name = 'MonieUtilsError';
+    this.code = code;
+    this.details = details;
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
       Error.captureStackTrace(this, MonieUtilsError);
     }
   }
+
+  /**
+   * Returns a plain object suitable for logging or API responses
+   */
+  toJSON(): {
+    name: string;
+    code: MonieUtilsErrorCode;
+    message: string;
+    details: MonieUtilsErrorDetails;
+  } {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      details: this.details,
+    };
+  }
 }
 
 /**
  * Create a standardized error
  */
-export function createError(message: string): MonieUtilsError {
-  return new MonieUtilsError(message);
+export function createError(
+  message: string,
+  code?: MonieUtilsErrorCode,
+  details?: MonieUtilsErrorDetails
+): MonieUtilsError {
+  return new MonieUtilsError(message, code, details);
+}
+
+/**
+ * Checks whether a value is a MonieUtilsError
+ *
+ * @param error - The value to check (typically from a catch block)
+ * @returns True if the value is a MonieUtilsError
+ */
+export function isMonieUtilsError(error: unknown): error is MonieUtilsError {
+  return error instanceof MonieUtilsError;
+}
+
+/**
+ * Checks whether a value is a MonieUtilsError with a specific code
+ *
+ * @param error - The value to check (typically from a catch block)
+ * @param code - The expected error code
+ * @returns True if the value is a MonieUtilsError carrying `code`
+ *
+ * @example
+ * ```typescript
+ * if (hasErrorCode(error, 'EXCHANGE_RATE_NOT_FOUND')) {
+ *   return res.status(422).json(error.toJSON());
+ * }
+ * ```
+ */
+export function hasErrorCode<C extends MonieUtilsErrorCode>(
+  error: unknown,
+  code: C
+): error is MonieUtilsError & { code: C } {
+  return isMonieUtilsError(error) && error.code === code;
 }
@@ -0,0 +1,467 @@
+/**
+ * Fee calculation: fixed and percentage fees, bands, floors, caps and
+ * gross-up
+ */
+
+import type { FeeOptions, FeeBreakdown, FeeResult } from './types';
+import type { FeeStructure, FeeTier, FeeTierMode } from '../types';
+import type { RoundingPolicy } from '../rounding/types';
+import { Decimal } from '../decimal';
+import { getCurrencyInfo } from '../currencies';
+import { isValidAmount } from '../validation/validation';
+import { resolveRoundingPolicy } from '../rounding';
+import { MonieUtilsError } from '../errors';
+
+const FEE_TIER_MODES: readonly FeeTierMode[] = ['tiered', 'volume'];
+
+/**
+ * Largest number of doublings tried when searching for a gross-up bound
+ */
+const MAX_GROSS_UP_DOUBLINGS = 64;
+
+interface FeeEvaluation {
+  fee: Decimal;
+  waived: boolean;
+  breakdown: Record<keyof FeeBreakdown, Decimal>;
+}
+
+/**
+ * Checks that an optional fee field is a non-negative number
+ *
+ * @param value - The value to check
+ * @param field - Field name for error details
+ * @param max - Optional upper bound
+ */
+function assertFeeValue(value: unknown, field: string, max?: number): void {
+  if (value === undefined) {
+    return;
+  }
+
+  if (
+    typeof value !== 'number' ||
+    !isValidAmount(value) ||
+    value < 0 ||
+    (max !== undefined && value > max)
+  ) {
+    throw new MonieUtilsError(
+      max === undefined
+        ? `Invalid ${field}: ${value}. Must be a non-negative number.`
+        : `Invalid ${field}: ${value}. Must be between 0 and ${max}.`,
+      'INVALID_ARGUMENT',
+      {
+        field,
+        value,
+        min: 0,
+        ...(max !== undefined && { max }),
+      }
+    );
+  }
+}
+
+/**
+ * Checks that a fee structure is well formed
+ *
+ * @param structure - The fee structure
+ */
+function assertFeeStructure(structure: FeeStructure): void {
+  if (!structure || typeof structure !== 'object') {
+    throw new MonieUtilsError(
+      'Fee structure must be an object',
+      'INVALID_ARGUMENT',
+      { field: 'structure', value: structure }
+    );
+  }
+
+  const { fixed, percentage, minimum, maximum, waiveBelow, tiers, tierMode } =
+    structure;
+
+  assertFeeValue(fixed, 'fixed');
+  assertFeeValue(percentage, 'percentage', 100);
+  assertFeeValue(minimum, 'minimum');
+  assertFeeValue(maximum, 'maximum');
+  assertFeeValue(waiveBelow, 'waiveBelow');
+
+  if (minimum !== undefined && maximum !== undefined && minimum > maximum) {
+    throw new MonieUtilsError(
+      `Invalid fee structure: minimum ${minimum} is above maximum ${maximum}`,
+      'INVALID_ARGUMENT',
+      { field: 'minimum', value: minimum, max: maximum }
+    );
+  }
+
+  if (tierMode !== undefined && !FEE_TIER_MODES.includes(tierMode)) {
+    throw new MonieUtilsError(
+      `Invalid tier mode: ${tierMode}`,
+      'INVALID_ARGUMENT',
+      { field: 'tierMode', value: tierMode, allowed: FEE_TIER_MODES }
+    );
+  }
+
+  if (tiers === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(tiers)) {
+    throw new MonieUtilsError('Tiers must be an array', 'INVALID_ARGUMENT', {
+      field: 'tiers',
+      value: tiers,
+    });
+  }
+
+  tiers.forEach((tier: FeeTier, index) => {
+    assertFeeValue(tier.upTo, 'upTo');
+    assertFeeValue(tier.fixed, 'fixed');
+    assertFeeValue(tier.percentage, 'percentage', 100);
+
+    // Only the last band may be unbounded, so earlier bands have an upTo
+    const previous = index > 0 ? (tiers[index - 1].upTo as number) : -1;
+    const isLast = index === tiers.length - 1;
+
+    if (
+      (tier.upTo === undefined && !isLast) ||
+      (tier.upTo !== undefined && tier.upTo <= previous)
+    ) {
+      throw new MonieUtilsError(
+        'Tiers must be in ascending order of upTo, with only the last tier unbounded',
+        'INVALID_ARGUMENT',
+        { field: 'tiers', value: tier }
+      );
+    }
+  });
+}
+
+/**
+ * Percentage of an amount
+ *
+ * @param amount - The amount
+ * @param percentage - Percentage rate (e.g., 2.9 for 2.9%)
+ * @returns The fee
+ */
+function percentageOf(amount: Decimal, percentage = 0): Decimal {
+  return amount.mul(percentage).div(100);
+}
+
+/**
+ * Fee from the structure's bands
+ *
+ * @param amount - The amount
+ * @param tiers - Bands in ascending order
+ * @param mode - How the bands apply
+ * @returns The unrounded band fee
+ */
+function tierFee(
+  amount: Decimal,
+  tiers: FeeTier[],
+  mode: FeeTierMode
+): Decimal {
+  if (tiers.length === 0) {
+    return Decimal.from(0);
+  }
+
+  // Amounts above every bound fall in the last band
+  const found = tiers.findIndex(
+    tier => tier.upTo === undefined || !amount.gt(tier.upTo)
+  );
+  const index = found === -1 ? tiers.length - 1 : found;
+  const band = tiers[index];
+  let fee = Decimal.from(band.fixed ?? 0);
+
+  if (mode === 'volume') {
+    return fee.add(percentageOf(amount, band.percentage));
+  }
+
+  let lower = Decimal.from(0);
+  for (let i = 0; i <= index; i++) {
+    const upper = i === index ? amount : Decimal.from(tiers[i].upTo as number);
+    fee = fee.add(percentageOf(upper.sub(lower), tiers[i].percentage));
+    lower = upper;
+  }
+
+  return fee;
+}
+
+/**
+ * Evaluates a fee structure at an amount
+ *
+ * @param amount - The amount charged
+ * @param structure - The fee structure
+ * @param decimalPlaces - Minor unit digits of the currency
+ * @param policy - Rounding policy for each component
+ * @returns The fee and its components
+ */
+function evaluateFee(
+  amount: Decimal,
+  structure: FeeStructure,
+  decimalPlaces: number,
+  policy: RoundingPolicy
+): FeeEvaluation {
+  const zero = Decimal.from(0);
+
+  if (structure.waiveBelow !== undefined && amount.lt(structure.waiveBelow)) {
+    return {
+      fee: zero,
+      waived: true,
+      breakdown: {
+        fixed: zero,
+        percentage: zero,
+        tiers: zero,
+        adjustment: zero,
+      },
+    };
+  }
+
+  const round = (value: Decimal): Decimal => value.round(decimalPlaces, policy);
+  const fixed = round(Decimal.from(structure.fixed ?? 0));
+  const percentage = round(percentageOf(amount, structure.percentage));
+  const tiers = round(
+    tierFee(amount, structure.tiers ?? [], structure.tierMode ?? 'tiered')
+  );
+
+  const subtotal = fixed.add(percentage).add(tiers);
+  let fee = subtotal;
+
+  if (structure.minimum !== undefined && fee.lt(structure.minimum)) {
+    fee = round(Decimal.from(structure.minimum));
+  }
+  if (structure.maximum !== undefined && fee.gt(structure.maximum)) {
+    fee = round(Decimal.from(structure.maximum));
+  }
+
+  return {
+    fee,
+    waived: false,
+    breakdown: { fixed, percentage, tiers, adjustment: fee.sub(subtotal) },
+  };
+}
+
+/**
+ * Lists the amounts, in minor units, where the fee formula changes: the
+ * waiver threshold and the first amount above each band. The net received
+ * can drop at these points (a volume band charging a higher rate, or the
+ * fee kicking in at `waiveBelow`), so each band is searched on its own.
+ *
+ * @param structure - The fee structure
+ * @param decimalPlaces - Minor unit digits of the currency
+ * @returns Band starts in ascending order
+ *
+ * @throws {MonieUtilsError} When the structure is invalid
+ */
+export function bandStarts(
+  structure: FeeStructure,
+  decimalPlaces: number
+): bigint[] {
+  assertFeeStructure(structure);
+
+  const starts = new Set<bigint>();
+
+  if (structure.waiveBelow !== undefined) {
+    starts.add(
+      Decimal.from(structure.waiveBelow).toScaled(decimalPlaces, 'ceiling')
+    );
+  }
+
+  for (const tier of structure.tiers ?? []) {
+    if (tier.upTo !== undefined) {
+      starts.add(
+        Decimal.from(tier.upTo).toScaled(decimalPlaces, 'floor') + BigInt(1)
+      );
+    }
+  }
+
+  return [...starts].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+/**
+ * Finds the smallest amount in `(low, high]` that nets at least the target,
+ * given `netAt(low) < target <= netAt(high)` and a net that does not drop
+ * inside the range
+ *
+ * @param low - Amount known to net too little
+ * @param high - Amount known to net enough
+ * @param target - Net target in minor units
+ * @param netAt - Net received when charging an amount in minor units
+ * @returns Amount to charge in minor units
+ */
+function bisectGrossUp(
+  low: bigint,
+  high: bigint,
+  target: bigint,
+  netAt: (gross: bigint) => bigint
+): bigint {
+  while (high - low > BigInt(1)) {
+    const mid = (low + high) / BigInt(2);
+    if (netAt(mid) >= target) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Finds the smallest amount to charge, in minor units, that nets at least
+ * the target after fees. The bands between `starts` are searched in order,
+ * with their boundaries checked explicitly; the last band is unbounded.
+ *
+ * @param target - Net target in minor units
+ * @param netAt - Net received when charging an amount in minor units
+ * @param starts - Amounts where a new band begins, ascending
+ * @param from - Smallest amount worth trying (default: the target, since
+ * fees are never negative)
+ * @returns Amount to charge in minor units, or undefined when fees grow as
+ * fast as the amount
+ */
+export function solveGrossUp(
+  target: bigint,
+  netAt: (gross: bigint) => bigint,
+  starts: bigint[],
+  from: bigint = target
+): bigint | undefined {
+  const bands = [from, ...starts.filter(start => start > from)];
+
+  for (let i = 0; i < bands.length - 1; i++) {
+    const low = bands[i];
+    const high = bands[i + 1] - BigInt(1);
+
+    if (netAt(low) >= target) {
+      return low;
+    }
+    if (high > low && netAt(high) >= target) {
+      return bisectGrossUp(low, high, target, netAt);
+    }
+  }
+
+  const low = bands[bands.length - 1];
+  if (netAt(low) >= target) {
+    return low;
+  }
+
+  let step = low > BigInt(0) ? low : BigInt(1);
+  let high = low + step;
+  let known = low;
+
+  for (let i = 0; netAt(high) < target; i++) {
+    if (i === MAX_GROSS_UP_DOUBLINGS) {
+      return undefined;
+    }
+    known = high;
+    step *= BigInt(2);
+    high = known + step;
+  }
+
+  return bisectGrossUp(known, high, target, netAt);
+}
+
+/**
+ * Calculates the fee for an amount from a fee structure.
+ *
+ * The fee is the sum of the fixed fee, the percentage fee and the band fee,
+ * each rounded to the currency's minor units, then raised to the minimum or
+ * lowered to the maximum. Amounts below `waiveBelow` are charged nothing.
+ * With `grossUp`, `amount` is the net the merchant must receive and the
+ * result holds the smallest amount to charge that nets at least that much.
+ *
+ * @param amount - Amount charged, or the target net with `grossUp`
+ * @param structure - Fee structure
+ * @param options - Currency, rounding and gross-up options
+ * @returns Fee calculation result
+ *
+ * @throws {MonieUtilsError} When the amount, currency, structure or
+ * rounding mode is invalid, or the fees make a gross-up impossible
+ *
+ * @example
+ * ```typescript
+ * calculateFee(100, { fixed: 0.3, percentage: 2.9 }).fee; // 3.2
+ * calculateFee(10, { percentage: 1, minimum: 0.5 }).fee; // 0.5
+ * calculateFee(20, { fixed: 1, waiveBelow: 25 }).waived; // true
+ *
+ * calculateFee(5000, {
+ *   tiers: [{ upTo: 1000, percentage: 3 }, { percentage: 1 }],
+ * }).fee; // 70 (3% of the first 1,000 plus 1% of the next 4,000)
+ *
+ * // Charge enough that the merchant nets 100
+ * calculateFee(100, { fixed: 0.3, percentage: 2.9 }, { grossUp: true }).amount; // 103.3
+ * ```
+ */
+export function calculateFee(
+  amount: number,
+  structure: FeeStructure,
+  options: FeeOptions = {}
+): FeeResult {
+  const { currency = 'USD', roundingMode, grossUp = false } = options;
+
+  if (!isValidAmount(amount) || amount < 0) {
+    throw new MonieUtilsError(
+      `Invalid amount: ${amount}. Amount must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount, min: 0 }
+    );
+  }
+
+  const currencyInfo = getCurrencyInfo(currency);
+  if (currencyInfo === undefined) {
+    throw new MonieUtilsError(
+      `Invalid currency code: ${currency}`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
+    );
+  }
+
+  assertFeeStructure(structure);
+
+  const { code, decimalPlaces } = currencyInfo;
+  const policy = resolveRoundingPolicy(roundingMode);
+  const toDecimal = (minor: bigint): Decimal =>
+    Decimal.fromScaled(minor, decimalPlaces);
+
+  let charged = Decimal.from(amount).toScaled(decimalPlaces, policy);
+
+  if (grossUp) {
+    const solved = solveGrossUp(
+      charged,
+      gross => {
+        const { fee } = evaluateFee(
+          toDecimal(gross),
+          structure,
+          decimalPlaces,
+          policy
+        );
+        return gross - fee.toScaled(decimalPlaces);
+      },
+      bandStarts(structure, decimalPlaces)
+    );
+
+    if (solved === undefined) {
+      throw new MonieUtilsError(
+        `Cannot gross up ${amount}: the fees consume the whole amount`,
+        'INVALID_ARGUMENT',
+        { field: 'structure', value: structure }
+      );
+    }
+    charged = solved;
+  }
+
+  const gross = toDecimal(charged);
+  const { fee, waived, breakdown } = evaluateFee(
+    gross,
+    structure,
+    decimalPlaces,
+    policy
+  );
+
+  return {
+    amount: gross.toNumber(),
+    fee: fee.toNumber(),
+    netAmount: gross.sub(fee).toNumber(),
+    currency: code,
+    waived,
+    breakdown: {
+      fixed: breakdown.fixed.toNumber(),
+      percentage: breakdown.percentage.toNumber(),
+      tiers: breakdown.tiers.toNumber(),
+      adjustment: breakdown.adjustment.toNumber(),
+    },
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Tests for fee calculation utilities
+ */
+
+import { calculateFee } from './index';
+import { MonieUtilsError } from '../errors';
+import type { FeeStructure } from '../types';
+
+describe('fee calculation', () => {
+  describe('calculateFee', () => {
+    it('should combine fixed and percentage fees', () => {
+      expect(calculateFee(100, { fixed: 0.3, percentage: 2.9 })).toEqual({
+        amount: 100,
+        fee: 3.2,
+        netAmount: 96.8,
+        currency: 'USD',
+        waived: false,
+        breakdown: { fixed: 0.3, percentage: 2.9, tiers: 0, adjustment: 0 },
+      });
+      expect(
+        calculateFee(1234, { percentage: 3.5 }, { currency: 'JPY' }).fee
+      ).toBe(43);
+      expect(
+        calculateFee(10.05, { percentage: 2.5 }, { roundingMode: 'ceiling' })
+          .fee
+      ).toBe(0.26);
+    });
+
+    it('should apply floors and caps', () => {
+      expect(calculateFee(10, { percentage: 1, minimum: 0.5 })).toMatchObject({
+        fee: 0.5,
+        breakdown: { percentage: 0.1, adjustment: 0.4 },
+      });
+      expect(calculateFee(10000, { percentage: 2, maximum: 50 })).toMatchObject(
+        {
+          fee: 50,
+          netAmount: 9950,
+          breakdown: { percentage: 200, adjustment: -150 },
+        }
+      );
+    });
+
+    it('should charge each tier on its own band', () => {
+      const structure: FeeStructure = {
+        tiers: [
+          { upTo: 1000, percentage: 3 },
+          { upTo: 10000, percentage: 2 },
+          { percentage: 1 },
+        ],
+      };
+
+      expect(calculateFee(500, structure).fee).toBe(15);
+      expect(calculateFee(5000, structure).fee).toBe(110);
+      expect(calculateFee(15000, structure).fee).toBe(260);
+    });
+
+    it('should charge the whole amount at its volume band', () => {
+      const structure: FeeStructure = {
+        fixed: 0.25,
+        tierMode: 'volume',
+        tiers: [
+          { upTo: 1000, percentage: 3 },
+          { upTo: 10000, percentage: 2, fixed: 5 },
+          { percentage: 1, fixed: 10 },
+        ],
+      };
+
+      expect(calculateFee(1000, structure).fee).toBe(30.25);
+      expect(calculateFee(5000, structure)).toMatchObject({
+        fee: 105.25,
+        breakdown: { fixed: 0.25, tiers: 105 },
+      });
+      expect(calculateFee(20000, structure).fee).toBe(210.25);
+    });
+
+    it('should waive fees below the threshold', () => {
+      const structure = { fixed: 1, minimum: 2, waiveBelow: 25 };
+
+      expect(calculateFee(20, structure)).toMatchObject({
+        fee: 0,
+        netAmount: 20,
+        waived: true,
+      });
+      expect(calculateFee(25, structure)).toMatchObject({
+        fee: 2,
+        waived: false,
+      });
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => calculateFee(-1, { fixed: 1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_AMOUNT' })
+      );
+      expect(() => calculateFee(1, { percentage: 101 })).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_ARGUMENT',
+          details: expect.objectContaining({ field: 'percentage', max: 100 }),
+        })
+      );
+      expect(() => calculateFee(1, { minimum: 5, maximum: 1 })).toThrow(
+        MonieUtilsError
+      );
+      expect(() =>
+        calculateFee(1, { tiers: [{ percentage: 1 }, { upTo: 10 }] })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() =>
+        calculateFee(1, { tiers: [{ upTo: 10 }, { upTo: 5 }] })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() => calculateFee(1, {}, { currency: 'XYZ' })).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURRENCY' })
+      );
+    });
+  });
+
+  describe('gross-up', () => {
+    it('should find the charge that nets the target', () => {
+      expect(
+        calculateFee(100, { fixed: 0.3, percentage: 2.9 }, { grossUp: true })
+      ).toMatchObject({ amount: 103.3, fee: 3.3, netAmount: 100 });
+      expect(
+        calculateFee(100, { percentage: 1, minimum: 5 }, { grossUp: true })
+          .amount
+      ).toBe(105);
+      expect(
+        calculateFee(500, { percentage: 10, maximum: 20 }, { grossUp: true })
+          .amount
+      ).toBe(520);
+      expect(
+        calculateFee(10, { fixed: 1, waiveBelow: 25 }, { grossUp: true })
+      ).toMatchObject({ amount: 10, waived: true });
+    });
+
+    it('should be exact to the minor unit', () => {
+      const structure: FeeStructure = {
+        fixed: 0.3,
+        percentage: 2.9,
+        tiers: [{ upTo: 100, percentage: 0.5 }, { percentage: 0.25 }],
+      };
+
+      for (const target of [0.01, 1, 9.99, 99.99, 123.45, 1000]) {
+        const { amount, netAmount } = calculateFee(target, structure, {
+          grossUp: true,
+        });
+        const oneCentLess = calculateFee(
+          Math.round(amount * 100 - 1) / 100,
+          structure
+        );
+
+        expect(netAmount).toBeGreaterThanOrEqual(target);
+        expect(oneCentLess.netAmount).toBeLessThan(target);
+      }
+    });
+
+    it('should search each band when the net drops at a boundary', () => {
+      // Net falls from 98 at 100.00 to 88.99 at 100.01
+      const structure: FeeStructure = {
+        fixed: 1,
+        waiveBelow: 10,
+        tiers: [{ upTo: 100, percentage: 1 }, { percentage: 10 }],
+        tierMode: 'volume',
+      };
+
+      expect(calculateFee(95, structure, { grossUp: true })).toMatchObject({
+        amount: 96.97,
+        netAmount: 95,
+      });
+      expect(calculateFee(10, structure, { grossUp: true }).amount).toBe(11.11);
+      expect(calculateFee(5, structure, { grossUp: true })).toMatchObject({
+        amount: 5,
+        waived: true,
+      });
+
+      for (const target of [9.99, 10, 95, 99, 150]) {
+        const { amount } = calculateFee(target, structure, { grossUp: true });
+        for (
+          let cents = Math.round(target * 100);
+          cents < amount * 100;
+          cents++
+        ) {
+          expect(calculateFee(cents / 100, structure).netAmount).toBeLessThan(
+            target
+          );
+        }
+      }
+    });
+
+    it('should throw when fees consume the whole amount', () => {
+      expect(() =>
+        calculateFee(100, { percentage: 100 }, { grossUp: true })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    });
+  });
+});
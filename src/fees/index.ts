@@ -0,0 +1,24 @@
+/**
+ * Fee calculation barrel export
+ *
+ * This module provides a fee engine built on `FeeStructure` including:
+ * - Fixed plus percentage fees rounded to the currency's minor units
+ * - Minimum fees (floors) and maximum fees (caps)
+ * - Tiered and volume fee bands
+ * - Waivers for amounts below a threshold
+ * - Gross-up to find what to charge so the merchant nets a target amount
+ *
+ * @example
+ * ```typescript
+ * import { calculateFee } from 'monie-utils/fees';
+ *
+ * calculateFee(100, { fixed: 0.3, percentage: 2.9 }).fee; // 3.2
+ * calculateFee(100, { fixed: 0.3, percentage: 2.9 }, { grossUp: true }).amount; // 103.3
+ * ```
+ */
+
+// Export fee functions
+export { calculateFee } from './fees';
+
+// Export types
+export type { FeeOptions, FeeBreakdown, FeeResult } from './types';
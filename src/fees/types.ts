@@ -0,0 +1,52 @@
+/**
+ * Type definitions for fee calculation utilities
+ */
+
+import type { RoundingMode } from '../rounding/types';
+
+/**
+ * Options for calculating a fee
+ */
+export interface FeeOptions {
+  /** Currency whose minor units the fee is rounded to (default: 'USD') */
+  currency?: string;
+  /** Rounding mode for each fee component (default: configured roundingMode) */
+  roundingMode?: RoundingMode;
+  /**
+   * Treat the amount as the net the merchant must receive and solve for
+   * the amount to charge (default: false)
+   */
+  grossUp?: boolean;
+}
+
+/**
+ * Itemized fee components, each rounded to the currency's minor units
+ */
+export interface FeeBreakdown {
+  /** Flat fee from the structure's `fixed` */
+  fixed: number;
+  /** Fee from the structure's `percentage` */
+  percentage: number;
+  /** Fee from the structure's `tiers` */
+  tiers: number;
+  /** Amount added by the minimum or removed by the maximum */
+  adjustment: number;
+}
+
+/**
+ * Fee calculation result
+ */
+export interface FeeResult {
+  /** Amount charged, before the fee is deducted */
+  amount: number;
+  /** Total fee */
+  fee: number;
+  /** What remains after the fee is deducted */
+  netAmount: number;
+  /** Currency code */
+  currency: string;
+  /** Whether the fee was waived because the amount is below the threshold */
+  waived: boolean;
+  /** Itemized fee components */
+  breakdown: FeeBreakdown;
+}
@@ -0,0 +1,238 @@
+/**
+ * Locale-aware compact notation: 1.5K, 15 lakh, 1.5万, 1,5 Mio.
+ */
+
+import type { CompactUnit, CurrencyPart } from './types';
+import type { RoundingPolicy } from '../rounding/types';
+import { LOCALE_COMPACT_UNITS } from './constants';
+import { toNumberParts } from './patterns';
+import { Decimal } from '../decimal';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Resolved options for compact formatting
+ */
+export interface CompactNumberOptions {
+  locale: string;
+  display: 'short' | 'long';
+  decimalPlaces: number;
+  significantDigits?: number;
+  policy: RoundingPolicy;
+  useGrouping: boolean;
+}
+
+/**
+ * An amount in compact notation
+ */
+export interface CompactNumber {
+  /** Parts of the absolute amount with its compact suffix */
+  parts: CurrencyPart[];
+  /** Whether the amount shows as zero */
+  isZero: boolean;
+}
+
+const TEN = Decimal.from(10);
+
+/**
+ * Counts the digits before the decimal point
+ *
+ * @param value - A non-negative value
+ * @returns Integer digits, at least 1
+ */
+function integerDigits(value: Decimal): number {
+  return value.round(0, 'down').toString().length;
+}
+
+/**
+ * Finds the largest bundled unit an amount reaches
+ *
+ * @param abs - Absolute amount
+ * @param units - Bundled units, smallest first
+ * @returns The unit, or undefined below the smallest
+ */
+function findUnit(abs: Decimal, units: CompactUnit[]): CompactUnit | undefined {
+  let found: CompactUnit | undefined;
+
+  for (const unit of units) {
+    if (!abs.lt(TEN.pow(unit.exponent))) {
+      found = unit;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Finds the power of ten the locale's compact pattern divides an amount by,
+ * e.g. 6 for 1,500,000 in en-US (1.5M) and 4 in ja-JP (150万)
+ *
+ * @param abs - Absolute amount
+ * @param formatter - Compact formatter showing every digit
+ * @returns The exponent
+ */
+function findExponent(abs: Decimal, formatter: Intl.NumberFormat): number {
+  if (abs.lt(1)) {
+    return 0;
+  }
+
+  const shown = formatter
+    .formatToParts(abs.toNumber())
+    .filter(part => part.type === 'integer')
+    .map(part => part.value)
+    .join('');
+
+  return Math.max(0, integerDigits(abs) - shown.length);
+}
+
+/**
+ * Rounds a scaled amount to the requested decimals or significant digits
+ *
+ * @param scaled - The amount divided by its unit
+ * @param options - Rounding options
+ * @returns The rounded amount and the fraction digits to show
+ */
+function roundScaled(
+  scaled: Decimal,
+  options: CompactNumberOptions
+): { rounded: Decimal; fractionDigits: number } {
+  const { decimalPlaces, significantDigits, policy } = options;
+
+  if (significantDigits === undefined) {
+    return {
+      rounded: scaled.round(decimalPlaces, policy),
+      fractionDigits: decimalPlaces,
+    };
+  }
+
+  const digits = significantDigits - integerDigits(scaled.abs());
+  if (digits >= 0) {
+    return { rounded: scaled.round(digits, policy), fractionDigits: digits };
+  }
+
+  const step = TEN.pow(-digits);
+  return {
+    rounded: scaled.div(step).round(0, policy).mul(step),
+    fractionDigits: 0,
+  };
+}
+
+/**
+ * Splits a bundled suffix such as ' lakh' into its spacing and the suffix
+ *
+ * @param suffix - Unit suffix
+ * @returns Literal and compact parts
+ */
+function suffixParts(suffix: string): CurrencyPart[] {
+  const [, spacing = '', text = ''] = /^(\s*)(.*)$/s.exec(suffix) ?? [];
+  const parts: CurrencyPart[] = [];
+
+  if (spacing !== '') {
+    parts.push({ type: 'literal', value: spacing });
+  }
+  if (text !== '') {
+    parts.push({ type: 'compact', value: text });
+  }
+
+  return parts;
+}
+
+/**
+ * Formats an amount in compact notation for a locale. The amount is scaled
+ * and rounded exactly, then the locale's CLDR compact pattern (or a bundled
+ * unit from `LOCALE_COMPACT_UNITS`) supplies the suffix and separators.
+ *
+ * @param amount - The amount (the sign is not shown)
+ * @param options - Locale, display, digits and rounding
+ * @returns The compact absolute amount
+ *
+ * @throws {MonieUtilsError} When `decimalPlaces` or `significantDigits` is
+ * out of range
+ * @throws {RangeError} When the locale is malformed
+ */
+export function formatCompactNumber(
+  amount: number,
+  options: CompactNumberOptions
+): CompactNumber {
+  const { locale, display, decimalPlaces, significantDigits } = options;
+
+  if (
+    !Number.isInteger(decimalPlaces) ||
+    decimalPlaces < 0 ||
+    decimalPlaces > 20
+  ) {
+    throw new MonieUtilsError(
+      `Invalid decimal places: ${decimalPlaces}. Must be a whole number from 0 to 20.`,
+      'INVALID_ARGUMENT',
+      { field: 'decimalPlaces', value: decimalPlaces, min: 0, max: 20 }
+    );
+  }
+
+  if (
+    significantDigits !== undefined &&
+    (!Number.isInteger(significantDigits) ||
+      significantDigits < 1 ||
+      significantDigits > 21)
+  ) {
+    throw new MonieUtilsError(
+      `Invalid significant digits: ${significantDigits}. Must be a whole number from 1 to 21.`,
+      'INVALID_ARGUMENT',
+      { field: 'significantDigits', value: significantDigits, min: 1, max: 21 }
+    );
+  }
+
+  const units = LOCALE_COMPACT_UNITS[locale]?.[display];
+  const probe = new Intl.NumberFormat(locale, {
+    notation: 'compact',
+    compactDisplay: display,
+    maximumSignificantDigits: 21,
+  });
+  const exponentOf = (abs: Decimal): number =>
+    units === undefined
+      ? findExponent(abs, probe)
+      : (findUnit(abs, units)?.exponent ?? 0);
+
+  const value = Decimal.from(amount);
+  let exponent = exponentOf(value.abs());
+  let { rounded, fractionDigits } = roundScaled(
+    value.div(TEN.pow(exponent)),
+    options
+  );
+
+  // Rounding can carry into the next unit (999.95K is 1.0M)
+  const carried = exponentOf(rounded.mul(TEN.pow(exponent)).abs());
+  if (carried !== exponent) {
+    exponent = carried;
+    ({ rounded, fractionDigits } = roundScaled(
+      value.div(TEN.pow(exponent)),
+      options
+    ));
+  }
+
+  const digits: Intl.NumberFormatOptions = {
+    minimumFractionDigits: significantDigits === undefined ? fractionDigits : 0,
+    maximumFractionDigits: fractionDigits,
+    useGrouping: options.useGrouping,
+  };
+  const abs = rounded.abs();
+  let parts: CurrencyPart[];
+
+  if (units === undefined) {
+    parts = toNumberParts(
+      new Intl.NumberFormat(locale, {
+        ...digits,
+        notation: 'compact',
+        compactDisplay: display,
+      }).formatToParts(abs.mul(TEN.pow(exponent)).toNumber())
+    );
+  } else {
+    const unit = units.find(candidate => candidate.exponent === exponent);
+    parts = [
+      ...toNumberParts(
+        new Intl.NumberFormat(locale, digits).formatToParts(abs.toNumber())
+      ),
+      ...suffixParts(unit?.suffix ?? ''),
+    ];
+  }
+
+  return { parts, isZero: rounded.isZero() };
+}
@@ -2,7 +2,11 @@
  * Constants used in currency formatting operations
  */
 
-import type { CurrencyDisplay } from './types';
+import type { CurrencyDisplay, CompactUnit } from './types';
+import {
+  ISO_4217_CURRENCIES,
+  CRYPTO_CURRENCIES,
+} from '../currencies/constants';
 
 /**
  * Default formatting options
@@ -12,141 +16,17 @@ export const DEFAULT_FORMAT_OPTIONS = {
   showSymbol: true,
   showCode: false,
   useGrouping: true,
-  symbolPosition: 'start' as const,
 } as const;
 
 /**
- * Currency information database
- * Contains symbols, decimal places, and other formatting info for major currencies
+ * Currency information database.
+ * Seeded with every active ISO 4217 currency plus a few cryptocurrencies;
+ * use `registerCurrency` / `unregisterCurrency` to change it at runtime.
  */
 export const CURRENCY_INFO: Record<string, CurrencyDisplay> = {
-  // Major World Currencies
-  USD: {
-    code: 'USD',
-    symbol: '$',
-    name: 'US Dollar',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  EUR: {
-    code: 'EUR',
-    symbol: '€',
-    name: 'Euro',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  GBP: {
-    code: 'GBP',
-    symbol: '£',
-    name: 'British Pound',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  JPY: {
-    code: 'JPY',
-    symbol: '¥',
-    name: 'Japanese Yen',
-    decimalPlaces: 0,
-    usesGrouping: true,
-  },
-  CHF: {
-    code: 'CHF',
-    symbol: 'CHF',
-    name: 'Swiss Franc',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  CAD: {
-    code: 'CAD',
-    symbol: 'C$',
-    name: 'Canadian Dollar',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  AUD: {
-    code: 'AUD',
-    symbol: 'A$',
-    name: 'Australian Dollar',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-
-  // African Currencies
-  NGN: {
-    code: 'NGN',
-    symbol: '₦',
-    name: 'Nigerian Naira',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  ZAR: {
-    code: 'ZAR',
-    symbol: 'R',
-    name: 'South African Rand',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  KES: {
-    code: 'KES',
-    symbol: 'KSh',
-    name: 'Kenyan Shilling',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  GHS: {
-    code: 'GHS',
-    symbol: '₵',
-    name: 'Ghanaian Cedi',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-
-  // Asian Currencies
-  CNY: {
-    code: 'CNY',
-    symbol: '¥',
-    name: 'Chinese Yuan',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  INR: {
-    code: 'INR',
-    symbol: '₹',
-    name: 'Indian Rupee',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-  SGD: {
-    code: 'SGD',
-    symbol: 'S$',
-    name: 'Singapore Dollar',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-
-  // Cryptocurrencies
-  BTC: {
-    code: 'BTC',
-    symbol: '₿',
-    name: 'Bitcoin',
-    decimalPlaces: 8,
-    usesGrouping: true,
-  },
-  ETH: {
-    code: 'ETH',
-    symbol: 'Ξ',
-    name: 'Ethereum',
-    decimalPlaces: 8,
-    usesGrouping: true,
-  },
-  USDT: {
-    code: 'USDT',
-    symbol: '₮',
-    name: 'Tether',
-    decimalPlaces: 2,
-    usesGrouping: true,
-  },
-} as const;
+  ...ISO_4217_CURRENCIES,
+  ...CRYPTO_CURRENCIES,
+};
 
 /**
  * Compact notation suffixes for large numbers
@@ -167,3 +47,21 @@ export const COMPACT_THRESHOLDS = {
   BILLION: 1000000000,
   TRILLION: 1000000000000,
 } as const;
+
+/**
+ * Compact units for locales whose CLDR data lacks them, by locale and
+ * display, largest unit last. Locales not listed use the platform's CLDR
+ * compact patterns, e.g. 万/億 in ja-JP and Mio./Mrd. in de-DE.
+ */
+export const LOCALE_COMPACT_UNITS: Record<
+  string,
+  Partial<Record<'short' | 'long', CompactUnit[]>>
+> = {
+  'en-IN': {
+    long: [
+      { exponent: 3, suffix: ' thousand' },
+      { exponent: 5, suffix: ' lakh' },
+      { exponent: 7, suffix: ' crore' },
+    ],
+  },
+};
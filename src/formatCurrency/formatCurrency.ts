@@ -2,13 +2,24 @@
  * Currency formatting utilities
  */
 
-import type { FormatCurrencyOptions, FormattedCurrency } from './types';
+import type {
+  FormatCurrencyOptions,
+  FormattedCurrency,
+  CurrencyPart,
+} from './types';
+import type { RoundingPolicy } from '../rounding/types';
+import { DEFAULT_FORMAT_OPTIONS, CURRENCY_INFO } from './constants';
 import {
-  DEFAULT_FORMAT_OPTIONS,
-  CURRENCY_INFO,
-  COMPACT_THRESHOLDS,
-} from './constants';
-import { MonieUtilsError } from '../errors';
+  resolvePattern,
+  applyPattern,
+  toNumberParts,
+  getCurrencySpacing,
+} from './patterns';
+import { formatCompactNumber } from './compact';
+import { resolveRoundingPolicy } from '../rounding';
+import { Decimal } from '../decimal';
+import { MonieUtilsError, isMonieUtilsError } from '../errors';
+import { isRegisteredCurrency } from '../currencies/currencies';
 
 /**
  * Validates if an amount is a valid number for currency formatting
@@ -40,46 +51,16 @@ function isValidAmount(amount: unknown): amount is number {
  * ```
  */
 function isValidCurrency(currency: string): boolean {
-  return currency.toUpperCase() in CURRENCY_INFO;
+  return isRegisteredCurrency(currency);
 }
 
 /**
- * Formats a number in compact notation (e.g., 1M, 1.5B)
- *
- * @param amount - The amount to format (should be positive)
- * @param decimalPlaces - Number of decimal places to show
- * @returns Formatted compact string
- *
- * @example
- * ```typescript
- * formatCompactNumber(1500000, 1) // "1.5M"
- * formatCompactNumber(1000000000, 0) // "1B"
- * ```
- */
-function formatCompactNumber(
-  amount: number,
-  decimalPlaces: number = 1
-): string {
-  const absAmount = Math.abs(amount);
-
-  if (absAmount >= COMPACT_THRESHOLDS.TRILLION) {
-    return `${(absAmount / COMPACT_THRESHOLDS.TRILLION).toFixed(decimalPlaces)}T`;
-  }
-  if (absAmount >= COMPACT_THRESHOLDS.BILLION) {
-    return `${(absAmount / COMPACT_THRESHOLDS.BILLION).toFixed(decimalPlaces)}B`;
-  }
-  if (absAmount >= COMPACT_THRESHOLDS.MILLION) {
-    return `${(absAmount / COMPACT_THRESHOLDS.MILLION).toFixed(decimalPlaces)}M`;
-  }
-  if (absAmount >= COMPACT_THRESHOLDS.THOUSAND) {
-    return `${(absAmount / COMPACT_THRESHOLDS.THOUSAND).toFixed(decimalPlaces)}K`;
-  }
-
-  return absAmount.toFixed(decimalPlaces);
-}
-
-/**
- * Formats a currency amount with locale-specific formatting
+ * Formats a currency amount with locale-specific formatting. The symbol's
+ * side, the spacing around it and the sign's position follow the locale's
+ * currency pattern (e.g., `1.234,56 €` in de-DE, `R$ 1.234,56` in pt-BR);
+ * `symbolPosition` overrides the locale and glues the symbol to one side.
+ * `signDisplay` picks how signs are shown, and `negativePattern`,
+ * `positivePattern` and `zeroPattern` replace the locale's patterns.
  *
  * @param amount - The amount to format
  * @param currency - The currency code (e.g., 'USD', 'EUR')
@@ -98,6 +79,15 @@ function formatCompactNumber(
  * formatCurrency(1234.56, 'EUR', { locale: 'de-DE', showCode: true })
  * // Returns: { formatted: '1.234,56 EUR', amount: 1234.56, currency: 'EUR', locale: 'de-DE', isCompact: false }
  *
+ * // Accounting negatives and explicit signs
+ * formatCurrency(-1234.56, 'USD', { signDisplay: 'accounting' }).formatted // '($1,234.56)'
+ * formatCurrency(10, 'USD', { signDisplay: 'exceptZero' }).formatted // '+$10.00'
+ * formatCurrency(-1234.56, 'USD', { negativePattern: '¤#-' }).formatted // '$1,234.56-'
+ *
+ * // Locale pattern, or an explicit symbol position
+ * formatCurrency(1234.56, 'EUR', { locale: 'fr-FR' }).formatted // '1 234,56 €'
+ * formatCurrency(1234.56, 'EUR', { locale: 'fr-FR', symbolPosition: 'start' }).formatted // '€1 234,56'
+ *
  * // Compact notation
  * formatCurrency(1500000, 'USD', { compact: true })
  * // Returns: { formatted: '$1.5M', amount: 1500000, currency: 'USD', locale: 'en-US', isCompact: true }
@@ -108,17 +98,67 @@ export function formatCurrency(
   currency: string,
   options: FormatCurrencyOptions = {}
 ): FormattedCurrency {
+  const parts = formatCurrencyToParts(amount, currency, options);
+
+  return {
+    formatted: parts.map(part => part.value).join(''),
+    amount,
+    currency: currency.toUpperCase(),
+    locale: { ...DEFAULT_FORMAT_OPTIONS, ...options }.locale,
+    isCompact: options.compact === true,
+  };
+}
+
+/**
+ * Formats a currency amount into typed segments (symbol, sign, digits,
+ * separators, compact suffix and literals) for styling each one
+ * separately. The values concatenate to exactly `formatCurrency`'s
+ * `formatted` string.
+ *
+ * @param amount - The amount to format
+ * @param currency - The currency code (e.g., 'USD', 'EUR')
+ * @param options - Formatting options, as for `formatCurrency`
+ * @returns The formatted segments in order
+ *
+ * @throws {MonieUtilsError} When amount is invalid or currency is not supported
+ *
+ * @example
+ * ```typescript
+ * formatCurrencyToParts(-1234.56, 'USD')
+ * // [
+ * //   { type: 'minusSign', value: '-' },
+ * //   { type: 'currency', value: '$' },
+ * //   { type: 'integer', value: '1' },
+ * //   { type: 'group', value: ',' },
+ * //   { type: 'integer', value: '234' },
+ * //   { type: 'decimal', value: '.' },
+ * //   { type: 'fraction', value: '56' },
+ * // ]
+ *
+ * formatCurrencyToParts(1500000, 'USD', { compact: true }).map(part => part.type)
+ * // ['currency', 'integer', 'decimal', 'fraction', 'compact']
+ * ```
+ */
+export function formatCurrencyToParts(
+  amount: number,
+  currency: string,
+  options: FormatCurrencyOptions = {}
+): CurrencyPart[] {
   // Validate inputs
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   const upperCurrency = currency.toUpperCase();
   if (!isValidCurrency(upperCurrency)) {
     throw new MonieUtilsError(
-      `Unsupported currency: ${currency}. Check the currency code.`
+      `Unsupported currency: ${currency}. Check the currency code.`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
     );
   }
 
@@ -129,85 +169,70 @@ export function formatCurrency(
   // Determine decimal places
   const decimalPlaces = opts.decimalPlaces ?? currencyInfo.decimalPlaces;
 
-  // Handle compact formatting
-  if (opts.compact) {
-    const isNegative = amount < 0;
-    const absAmount = Math.abs(amount);
-    const compactNumber = formatCompactNumber(absAmount, 1);
-    const symbol = opts.customSymbol ?? currencyInfo.symbol;
+  try {
+    // Round exactly, then let Intl localize the digits
+    const policy: RoundingPolicy =
+      opts.roundingMode === undefined
+        ? 'half-away-from-zero'
+        : resolveRoundingPolicy(opts.roundingMode);
+    let number: CurrencyPart[];
+    let isZero: boolean;
 
-    let formatted: string;
-    if (opts.symbolPosition === 'end') {
-      formatted = opts.showCode
-        ? `${compactNumber} ${upperCurrency}`
-        : `${compactNumber}${symbol}`;
+    if (opts.compact) {
+      ({ parts: number, isZero } = formatCompactNumber(amount, {
+        locale: opts.locale,
+        display: opts.compactDisplay ?? 'short',
+        decimalPlaces: opts.decimalPlaces ?? 1,
+        policy,
+        useGrouping: opts.useGrouping,
+        ...(opts.significantDigits !== undefined && {
+          significantDigits: opts.significantDigits,
+        }),
+      }));
     } else {
-      formatted = opts.showCode
-        ? `${upperCurrency} ${compactNumber}`
-        : `${symbol}${compactNumber}`;
+      const rounded = Decimal.from(amount).round(decimalPlaces, policy);
+      isZero = rounded.isZero();
+      number = toNumberParts(
+        new Intl.NumberFormat(opts.locale, {
+          style: 'decimal',
+          minimumFractionDigits: decimalPlaces,
+          maximumFractionDigits: decimalPlaces,
+          useGrouping: opts.useGrouping,
+        }).formatToParts(rounded.abs().toNumber())
+      );
     }
 
-    // Add negative sign at the beginning if needed
-    if (isNegative) {
-      formatted = `-${formatted}`;
+    // Place the symbol/code, spacing and sign the way the locale does,
+    // unless symbolPosition pins the symbol to one side
+    const pattern = resolvePattern(opts.locale, opts, opts.symbolPosition);
+    let tokens = pattern.positive;
+    if (amount < 0 && !(isZero && opts.signDisplay === 'exceptZero')) {
+      tokens = pattern.negative;
+    } else if (isZero) {
+      tokens = pattern.zero;
     }
 
-    return {
-      formatted,
-      amount,
-      currency: upperCurrency,
-      locale: opts.locale!,
-      isCompact: true,
-    };
-  }
-
-  // Use Intl.NumberFormat for standard formatting
-  try {
-    const isNegative = amount < 0;
-    const absAmount = Math.abs(amount);
-
-    const formatOptions: Intl.NumberFormatOptions = {
-      style: 'decimal',
-      minimumFractionDigits: decimalPlaces,
-      maximumFractionDigits: decimalPlaces,
-      useGrouping: opts.useGrouping,
-    };
-
-    const formatter = new Intl.NumberFormat(opts.locale, formatOptions);
-    let formatted = formatter.format(absAmount);
-
-    // Add currency symbol/code
-    const symbol = opts.customSymbol ?? currencyInfo.symbol;
-
+    let symbol: string | undefined;
     if (opts.showCode) {
-      if (opts.symbolPosition === 'end') {
-        formatted = `${formatted} ${upperCurrency}`;
-      } else {
-        formatted = `${upperCurrency} ${formatted}`;
-      }
+      symbol = upperCurrency;
     } else if (opts.showSymbol !== false) {
-      if (opts.symbolPosition === 'end') {
-        formatted = `${formatted}${symbol}`;
-      } else {
-        formatted = `${symbol}${formatted}`;
-      }
-    }
-
-    // Add negative sign at the beginning if needed
-    if (isNegative) {
-      formatted = `-${formatted}`;
+      symbol = opts.customSymbol ?? currencyInfo.symbol;
     }
 
-    return {
-      formatted,
-      amount,
-      currency: upperCurrency,
-      locale: opts.locale!,
-      isCompact: false,
-    };
+    return applyPattern(tokens, {
+      number,
+      isCode: opts.showCode,
+      spacing: getCurrencySpacing(opts.locale),
+      ...(symbol !== undefined && { symbol }),
+    });
   } catch (error) {
+    if (isMonieUtilsError(error)) {
+      throw error;
+    }
     throw new MonieUtilsError(
-      `Failed to format currency: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to format currency: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'FORMATTING_FAILED',
+      { field: 'amount', value: amount }
     );
   }
 }
@@ -217,21 +242,28 @@ export function formatCurrency(
  *
  * @param amount - The amount to format
  * @param currency - The currency code
- * @param locale - Optional locale (defaults to 'en-US')
+ * @param localeOrOptions - Locale (defaults to 'en-US') or formatting options
  * @returns Formatted currency string
  *
  * @example
  * ```typescript
  * formatMoney(1234.56, 'USD') // "$1,234.56"
  * formatMoney(1234.56, 'EUR', 'de-DE') // "1.234,56 €"
+ * formatMoney(-1234.56, 'USD', { signDisplay: 'accounting' }) // "($1,234.56)"
  * ```
  */
 export function formatMoney(
   amount: number,
   currency: string,
-  locale?: string
+  localeOrOptions?: string | FormatCurrencyOptions
 ): string {
-  const options: FormatCurrencyOptions = locale ? { locale } : {};
+  let options: FormatCurrencyOptions = {};
+  if (typeof localeOrOptions === 'string') {
+    options = { locale: localeOrOptions };
+  } else if (localeOrOptions) {
+    options = localeOrOptions;
+  }
+
   const result = formatCurrency(amount, currency, options);
   return result.formatted;
 }
@@ -257,14 +289,18 @@ export function formatCents(
 ): FormattedCurrency {
   if (!isValidAmount(cents)) {
     throw new MonieUtilsError(
-      `Invalid cents amount: ${cents}. Amount must be a finite number.`
+      `Invalid cents amount: ${cents}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'cents', value: cents }
     );
   }
 
   const upperCurrency = currency.toUpperCase();
   if (!isValidCurrency(upperCurrency)) {
     throw new MonieUtilsError(
-      `Unsupported currency: ${currency}. Check the currency code.`
+      `Unsupported currency: ${currency}. Check the currency code.`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
     );
   }
 
@@ -276,7 +312,11 @@ export function formatCents(
 }
 
 /**
- * Formats a currency amount in compact notation for large numbers
+ * Formats a currency amount in compact notation for large numbers. Suffixes
+ * and separators follow the locale, including the Indian (lakh, crore) and
+ * East Asian (万, 億) systems; `compactDisplay: 'long'` spells them out.
+ * One decimal is shown unless `decimalPlaces` or `significantDigits` says
+ * otherwise.
  *
  * @param amount - The amount to format
  * @param currency - The currency code
@@ -287,6 +327,9 @@ export function formatCents(
  * ```typescript
  * formatCompactCurrency(1500000, 'USD') // "$1.5M"
  * formatCompactCurrency(2300000000, 'EUR') // "€2.3B"
+ * formatCompactCurrency(1500000, 'INR', { locale: 'en-IN', compactDisplay: 'long', decimalPlaces: 0 }) // "₹15 lakh"
+ * formatCompactCurrency(15000, 'JPY', { locale: 'ja-JP' }) // "¥1.5万"
+ * formatCompactCurrency(1234567, 'USD', { significantDigits: 3 }) // "$1.23M"
  * ```
  */
 export function formatCompactCurrency(
@@ -7,8 +7,10 @@ import {
   formatMoney,
   formatCents,
   formatCompactCurrency,
+  formatCurrencyToParts,
   CURRENCY_INFO,
 } from './index';
+import type { SignDisplay, FormatCurrencyOptions } from './index';
 
 describe('formatCurrency', () => {
   describe('basic functionality', () => {
@@ -100,6 +102,16 @@ describe('formatCurrency', () => {
       expect(result.formatted).toBe('$1,234.500');
     });
 
+    it('should round with the requested rounding mode', () => {
+      expect(formatCurrency(2.345, 'USD').formatted).toBe('$2.35');
+      expect(
+        formatCurrency(2.345, 'USD', { roundingMode: 'half-even' }).formatted
+      ).toBe('$2.34');
+      expect(
+        formatCurrency(-2.341, 'USD', { roundingMode: 'floor' }).formatted
+      ).toBe('-$2.35');
+    });
+
     it('should disable grouping when requested', () => {
       const result = formatCurrency(1234.56, 'USD', { useGrouping: false });
       expect(result.formatted).toBe('$1234.56');
@@ -116,6 +128,156 @@ describe('formatCurrency', () => {
     });
   });
 
+  describe('locale patterns', () => {
+    it('should place the symbol and spacing the way the locale does', () => {
+      expect(
+        formatCurrency(1234.56, 'EUR', { locale: 'de-DE' }).formatted
+      ).toBe('1.234,56\u00a0€');
+      expect(
+        formatCurrency(1234.56, 'EUR', { locale: 'fr-FR' }).formatted
+      ).toBe('1\u202f234,56\u00a0€');
+      expect(
+        formatCurrency(1234.56, 'BRL', { locale: 'pt-BR' }).formatted
+      ).toBe('R$\u00a01.234,56');
+      expect(
+        formatCurrency(1234.56, 'EUR', { locale: 'de-DE', showCode: true })
+          .formatted
+      ).toBe('1.234,56\u00a0EUR');
+    });
+
+    it('should put the sign where the locale does', () => {
+      expect(
+        formatCurrency(-1234.56, 'EUR', { locale: 'nl-NL' }).formatted
+      ).toBe('€\u00a0-1.234,56');
+      expect(formatCurrency(-5, 'CHF', { locale: 'de-CH' }).formatted).toBe(
+        'CHF-5.00'
+      );
+    });
+
+    it('should set letter symbols off from the digits', () => {
+      const intl = (amount: number, currency: string, locale: string) =>
+        new Intl.NumberFormat(locale, { style: 'currency', currency }).format(
+          amount
+        );
+
+      expect(formatCurrency(-1234.56, 'CHF').formatted).toBe(
+        '-CHF\u00a01,234.56'
+      );
+      expect(formatCurrency(-1234.56, 'CHF').formatted).toBe(
+        intl(-1234.56, 'CHF', 'en-US')
+      );
+      expect(
+        formatCurrency(1234.56, 'ZAR', { locale: 'en-ZA' }).formatted
+      ).toBe(intl(1234.56, 'ZAR', 'en-ZA'));
+      expect(
+        formatCurrency(1234.56, 'USD', { customSymbol: 'US$' }).formatted
+      ).toBe('US$1,234.56');
+    });
+
+    it('should drop the symbol spacing when the symbol is hidden', () => {
+      expect(
+        formatCurrency(1234.56, 'EUR', { locale: 'de-DE', showSymbol: false })
+          .formatted
+      ).toBe('1.234,56');
+    });
+
+    it('should let symbolPosition override the locale', () => {
+      expect(
+        formatCurrency(-1234.56, 'EUR', {
+          locale: 'fr-FR',
+          symbolPosition: 'start',
+        }).formatted
+      ).toBe('-€1\u202f234,56');
+      expect(
+        formatCurrency(1234.56, 'EUR', {
+          locale: 'de-DE',
+          symbolPosition: 'end',
+          showCode: true,
+        }).formatted
+      ).toBe('1.234,56 EUR');
+    });
+
+    it('should report malformed locales', () => {
+      expect(() => formatCurrency(1, 'USD', { locale: 'en_US!' })).toThrow(
+        expect.objectContaining({ code: 'FORMATTING_FAILED' })
+      );
+    });
+  });
+
+  describe('sign display', () => {
+    it('should support sign display modes', () => {
+      const format = (amount: number, signDisplay: SignDisplay): string =>
+        formatCurrency(amount, 'USD', { signDisplay }).formatted;
+
+      expect(format(-1234.56, 'accounting')).toBe('($1,234.56)');
+      expect(format(1234.56, 'accounting')).toBe('$1,234.56');
+      expect(format(10, 'always')).toBe('+$10.00');
+      expect(format(0, 'always')).toBe('+$0.00');
+      expect(format(10, 'exceptZero')).toBe('+$10.00');
+      expect(format(-0.001, 'exceptZero')).toBe('$0.00');
+      expect(format(-3, 'never')).toBe('$3.00');
+      expect(format(-3, 'auto')).toBe('-$3.00');
+    });
+
+    it('should use the locale accounting format', () => {
+      expect(
+        formatCurrency(-1234.56, 'EUR', {
+          locale: 'fr-FR',
+          signDisplay: 'accounting',
+        }).formatted
+      ).toBe('(1\u202f234,56\u00a0€)');
+      expect(
+        formatCurrency(-1234.56, 'EUR', {
+          locale: 'de-DE',
+          signDisplay: 'accounting',
+        }).formatted
+      ).toBe('-1.234,56\u00a0€');
+    });
+
+    it('should apply custom patterns', () => {
+      const markers = { negativePattern: '▼ -¤#', positivePattern: '▲ +¤#' };
+
+      expect(
+        formatCurrency(-1234.56, 'USD', { negativePattern: '¤#-' }).formatted
+      ).toBe('$1,234.56-');
+      expect(formatCurrency(-5, 'USD', markers).formatted).toBe('▼ -$5.00');
+      expect(formatCurrency(5, 'USD', markers).formatted).toBe('▲ +$5.00');
+      expect(formatCurrency(0, 'USD', markers).formatted).toBe('$0.00');
+      expect(
+        formatCurrency(0, 'USD', { ...markers, zeroPattern: '– ¤#' }).formatted
+      ).toBe('– $0.00');
+      expect(
+        formatCurrency(-5, 'SEK', { locale: 'sv-SE', negativePattern: '#- ¤' })
+          .formatted
+      ).toBe('5,00\u2212 SEK');
+    });
+
+    it('should apply sign options in every formatter', () => {
+      const accounting = { signDisplay: 'accounting' } as const;
+
+      expect(formatMoney(-1234.56, 'USD', accounting)).toBe('($1,234.56)');
+      expect(formatCents(-12345, 'USD', accounting).formatted).toBe(
+        '($123.45)'
+      );
+      expect(formatCompactCurrency(-1500000, 'USD', accounting).formatted).toBe(
+        '($1.5M)'
+      );
+      expect(
+        formatCurrency(-5, 'USD', { ...accounting, showSymbol: false })
+          .formatted
+      ).toBe('(5.00)');
+    });
+
+    it('should reject invalid sign options', () => {
+      expect(() =>
+        formatCurrency(1, 'USD', { signDisplay: 'sometimes' as SignDisplay })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() =>
+        formatCurrency(-1, 'USD', { negativePattern: '(¤)' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    });
+  });
+
   describe('compact formatting', () => {
     it('should format thousands in compact notation', () => {
       const result = formatCurrency(1500, 'USD', { compact: true });
@@ -150,6 +312,68 @@ describe('formatCurrency', () => {
       const result = formatCurrency(500, 'USD', { compact: true });
       expect(result.formatted).toBe('$500.0');
     });
+
+    it('should use the locale compact units and separators', () => {
+      expect(
+        formatCompactCurrency(1500000, 'INR', { locale: 'en-IN' }).formatted
+      ).toBe('₹15.0L');
+      expect(
+        formatCompactCurrency(1500000, 'INR', {
+          locale: 'en-IN',
+          compactDisplay: 'long',
+          decimalPlaces: 0,
+        }).formatted
+      ).toBe('₹15 lakh');
+      expect(
+        formatCompactCurrency(25000000, 'INR', {
+          locale: 'en-IN',
+          compactDisplay: 'long',
+        }).formatted
+      ).toBe('₹2.5 crore');
+      expect(
+        formatCompactCurrency(15000, 'JPY', { locale: 'ja-JP' }).formatted
+      ).toBe('¥1.5万');
+      expect(
+        formatCompactCurrency(1.5e12, 'KRW', { locale: 'ko-KR' }).formatted
+      ).toBe('₩1.5조');
+      expect(
+        formatCompactCurrency(1500000, 'EUR', { locale: 'de-DE' }).formatted
+      ).toBe('1,5\u00a0Mio.\u00a0€');
+      expect(
+        formatCompactCurrency(2300000000, 'EUR', {
+          locale: 'de-DE',
+          compactDisplay: 'long',
+        }).formatted
+      ).toBe('2,3 Milliarden\u00a0€');
+    });
+
+    it('should round compact amounts to the requested digits', () => {
+      expect(
+        formatCompactCurrency(1234567, 'USD', { significantDigits: 3 })
+          .formatted
+      ).toBe('$1.23M');
+      expect(
+        formatCompactCurrency(1234567, 'USD', { decimalPlaces: 2 }).formatted
+      ).toBe('$1.23M');
+      expect(
+        formatCompactCurrency(1250000, 'USD', { roundingMode: 'half-even' })
+          .formatted
+      ).toBe('$1.2M');
+      expect(
+        formatCompactCurrency(-1210000, 'USD', { roundingMode: 'floor' })
+          .formatted
+      ).toBe('-$1.3M');
+      expect(formatCompactCurrency(999950, 'USD').formatted).toBe('$1.0M');
+      expect(
+        formatCompactCurrency(9999999, 'INR', {
+          locale: 'en-IN',
+          compactDisplay: 'long',
+        }).formatted
+      ).toBe('₹1.0 crore');
+      expect(() =>
+        formatCompactCurrency(1500, 'USD', { significantDigits: 0 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    });
   });
 
   describe('cryptocurrency formatting', () => {
@@ -261,6 +485,100 @@ describe('formatCompactCurrency', () => {
   });
 });
 
+describe('formatCurrencyToParts', () => {
+  it('should split an amount into typed parts', () => {
+    expect(formatCurrencyToParts(-1234.56, 'USD')).toEqual([
+      { type: 'minusSign', value: '-' },
+      { type: 'currency', value: '$' },
+      { type: 'integer', value: '1' },
+      { type: 'group', value: ',' },
+      { type: 'integer', value: '234' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '56' },
+    ]);
+    expect(
+      formatCurrencyToParts(-1234.56, 'USD', { signDisplay: 'accounting' })
+    ).toEqual([
+      { type: 'literal', value: '(' },
+      { type: 'currency', value: '$' },
+      { type: 'integer', value: '1' },
+      { type: 'group', value: ',' },
+      { type: 'integer', value: '234' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '56' },
+      { type: 'literal', value: ')' },
+    ]);
+  });
+
+  it('should mark compact suffixes and code spacing', () => {
+    expect(formatCurrencyToParts(1500000, 'USD', { compact: true })).toEqual([
+      { type: 'currency', value: '$' },
+      { type: 'integer', value: '1' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '5' },
+      { type: 'compact', value: 'M' },
+    ]);
+    expect(
+      formatCurrencyToParts(1500000, 'INR', {
+        locale: 'en-IN',
+        compact: true,
+        compactDisplay: 'long',
+        decimalPlaces: 0,
+      })
+    ).toEqual([
+      { type: 'currency', value: '₹' },
+      { type: 'integer', value: '15' },
+      { type: 'literal', value: ' ' },
+      { type: 'compact', value: 'lakh' },
+    ]);
+    expect(
+      formatCurrencyToParts(1500, 'USD', {
+        showCode: true,
+        signDisplay: 'always',
+      })
+    ).toEqual([
+      { type: 'plusSign', value: '+' },
+      { type: 'currency', value: 'USD' },
+      { type: 'literal', value: ' ' },
+      { type: 'integer', value: '1' },
+      { type: 'group', value: ',' },
+      { type: 'integer', value: '500' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '00' },
+    ]);
+  });
+
+  it('should concatenate to the formatCurrency string', () => {
+    const cases: [number, string, FormatCurrencyOptions][] = [
+      [1234.56, 'EUR', { locale: 'de-DE' }],
+      [-1234.56, 'EUR', { locale: 'nl-NL' }],
+      [1234.56, 'BRL', { locale: 'pt-BR' }],
+      [-1234.56, 'USD', { negativePattern: '¤#-' }],
+      [0, 'USD', { signDisplay: 'always' }],
+      [1234.56, 'USD', { showSymbol: false }],
+      [1234.56, 'EUR', { locale: 'fr-FR', symbolPosition: 'end' }],
+      [-15000, 'JPY', { locale: 'ja-JP', compact: true }],
+      [1500000, 'EUR', { locale: 'de-DE', compact: true }],
+      [-1234.5, 'SAR', { locale: 'ar-SA' }],
+    ];
+
+    for (const [amount, currency, options] of cases) {
+      expect(
+        formatCurrencyToParts(amount, currency, options)
+          .map(part => part.value)
+          .join('')
+      ).toBe(formatCurrency(amount, currency, options).formatted);
+    }
+  });
+
+  it('should throw the same errors as formatCurrency', () => {
+    expect(() => formatCurrencyToParts(NaN, 'USD')).toThrow('Invalid amount');
+    expect(() => formatCurrencyToParts(100, 'XXX')).toThrow(
+      'Unsupported currency'
+    );
+  });
+});
+
 describe('edge cases and error handling', () => {
   it('should handle very large numbers', () => {
     const result = formatCurrency(Number.MAX_SAFE_INTEGER, 'USD');
@@ -288,30 +606,42 @@ describe('currency info constants', () => {
   it('should have correct USD info', () => {
     expect(CURRENCY_INFO.USD).toEqual({
       code: 'USD',
+      numericCode: '840',
       symbol: '$',
+      narrowSymbol: '$',
       name: 'US Dollar',
       decimalPlaces: 2,
       usesGrouping: true,
+      countries: expect.arrayContaining(['US', 'EC', 'PR']),
+      isCrypto: false,
     });
   });
 
   it('should have correct JPY info', () => {
     expect(CURRENCY_INFO.JPY).toEqual({
       code: 'JPY',
+      numericCode: '392',
       symbol: '¥',
+      narrowSymbol: '¥',
       name: 'Japanese Yen',
       decimalPlaces: 0,
       usesGrouping: true,
+      countries: ['JP'],
+      isCrypto: false,
     });
   });
 
   it('should have correct BTC info', () => {
     expect(CURRENCY_INFO.BTC).toEqual({
       code: 'BTC',
+      numericCode: null,
       symbol: '₿',
+      narrowSymbol: '₿',
       name: 'Bitcoin',
       decimalPlaces: 8,
       usesGrouping: true,
+      countries: [],
+      isCrypto: true,
     });
   });
 });
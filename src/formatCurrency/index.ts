@@ -3,8 +3,10 @@
  *
  * This module provides comprehensive currency formatting capabilities including:
  * - Standard currency formatting with locale support
- * - Compact notation for large numbers (1M, 1B, etc.)
+ * - Locale-aware compact notation (1.5M, 15 lakh, 1.5万, 1,5 Mio.)
+ * - Sign display modes, accounting negatives and custom sign patterns
  * - Cents/smallest unit formatting
+ * - Typed segments for styling each part of the output
  * - Customizable formatting options
  *
  * @example
@@ -31,12 +33,18 @@ export {
   formatMoney,
   formatCents,
   formatCompactCurrency,
+  formatCurrencyToParts,
 } from './formatCurrency';
 
 // Export types
 export type {
   FormatCurrencyOptions,
+  SignDisplay,
+  CurrencySignOptions,
   FormattedCurrency,
+  CurrencyPartType,
+  CurrencyPart,
+  CompactUnit,
   CurrencyDisplay,
 } from './types';
 
@@ -46,4 +54,5 @@ export {
   CURRENCY_INFO,
   COMPACT_SUFFIXES,
   COMPACT_THRESHOLDS,
+  LOCALE_COMPACT_UNITS,
 } from './constants';
@@ -0,0 +1,460 @@
+/**
+ * Locale-derived currency patterns: where the symbol, number and sign go
+ * and what separates them
+ */
+
+import type {
+  CurrencySignOptions,
+  SignDisplay,
+  CurrencyPart,
+  CurrencyPartType,
+} from './types';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * One slot of a currency pattern
+ */
+export type PatternToken =
+  | { type: 'symbol' | 'number' }
+  | { type: 'minusSign' | 'plusSign' | 'literal'; value: string };
+
+/**
+ * Token sequences for positive, negative and zero amounts
+ */
+export interface CurrencyPattern {
+  positive: PatternToken[];
+  negative: PatternToken[];
+  zero: PatternToken[];
+}
+
+/**
+ * Values substituted into a pattern
+ */
+export interface PatternValues {
+  /** Parts of the formatted absolute amount */
+  number: CurrencyPart[];
+  /** Symbol or code; omitted to render the amount alone */
+  symbol?: string;
+  /** Whether the symbol is a currency code, which never touches the digits */
+  isCode?: boolean;
+  /** Literal set between a letter symbol and the digits it would touch */
+  spacing?: string;
+}
+
+const SIGN_DISPLAYS: readonly SignDisplay[] = [
+  'auto',
+  'always',
+  'exceptZero',
+  'never',
+  'accounting',
+];
+
+/**
+ * Currency whose narrow symbol ('$') is non-alphabetic in every locale, so
+ * its patterns carry no symbol-specific spacing
+ */
+const REFERENCE_CURRENCY = 'USD';
+
+/**
+ * Whitespace and bidi marks that only exist to separate the symbol
+ */
+const SYMBOL_SPACING = /^[\s\u200e\u200f\u061c]+$/;
+
+/**
+ * CLDR currency spacing: a symbol edge that is not itself a symbol (the 'F'
+ * of 'CHF', the 'R' for rand) is set off from an adjacent digit
+ */
+const SPACED_SYMBOL_EDGE = /^[^\p{S}\p{Z}]$/u;
+const DIGIT = /^\p{Nd}$/u;
+
+/**
+ * Intl part types kept as is in number parts; the rest become literals
+ */
+const NUMBER_PART_TYPES: ReadonlySet<string> = new Set<CurrencyPartType>([
+  'minusSign',
+  'plusSign',
+  'integer',
+  'group',
+  'decimal',
+  'fraction',
+  'compact',
+  'literal',
+]);
+
+const localePatterns = new Map<string, CurrencyPattern>();
+const localeSpacings = new Map<string, string>();
+
+/**
+ * Converts Intl parts into pattern tokens, collapsing the digits and
+ * separators into one number slot
+ *
+ * @param parts - Parts of a formatted reference amount
+ * @returns Pattern tokens
+ */
+function toTokens(parts: Intl.NumberFormatPart[]): PatternToken[] {
+  const tokens: PatternToken[] = [];
+
+  for (const part of parts) {
+    switch (part.type) {
+      case 'currency':
+        tokens.push({ type: 'symbol' });
+        break;
+      case 'minusSign':
+      case 'plusSign':
+      case 'literal':
+        tokens.push({ type: part.type, value: part.value });
+        break;
+      default:
+        if (tokens[tokens.length - 1]?.type !== 'number') {
+          tokens.push({ type: 'number' });
+        }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Removes the symbol slot along with the spacing that set it apart
+ *
+ * @param tokens - Pattern tokens
+ * @returns Tokens without the symbol
+ */
+function withoutSymbol(tokens: PatternToken[]): PatternToken[] {
+  const symbolAt = tokens.findIndex(token => token.type === 'symbol');
+
+  return tokens.filter(
+    (token, index) =>
+      symbolAt === -1 ||
+      (index !== symbolAt &&
+        !(
+          Math.abs(index - symbolAt) === 1 &&
+          token.type === 'literal' &&
+          SYMBOL_SPACING.test(token.value)
+        ))
+  );
+}
+
+/**
+ * Returns the sign a locale writes in one variant of a sign display mode
+ *
+ * @param locale - BCP 47 locale
+ * @param signDisplay - Sign display mode
+ * @param variant - Pattern variant carrying the sign
+ * @param fallback - Sign used when the locale has none
+ * @returns The sign
+ */
+function getLocaleSign(
+  locale: string,
+  signDisplay: SignDisplay,
+  variant: keyof CurrencyPattern,
+  fallback: string
+): string {
+  for (const token of getLocalePattern(locale, signDisplay)[variant]) {
+    if (token.type === 'minusSign' || token.type === 'plusSign') {
+      return token.value;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Parses a custom pattern such as `(¤#)` or `¤#-`
+ *
+ * @param pattern - The pattern
+ * @param field - Option name for error details
+ * @param locale - Locale supplying the minus and plus signs
+ * @returns Pattern tokens
+ */
+function parsePattern(
+  pattern: string,
+  field: string,
+  locale: string
+): PatternToken[] {
+  const tokens: PatternToken[] = [];
+  let literal = '';
+
+  for (const char of typeof pattern === 'string' ? pattern : '') {
+    let token: PatternToken | undefined;
+
+    if (char === '#') {
+      token = { type: 'number' };
+    } else if (char === '¤') {
+      token = { type: 'symbol' };
+    } else if (char === '-') {
+      token = {
+        type: 'minusSign',
+        value: getLocaleSign(locale, 'auto', 'negative', '-'),
+      };
+    } else if (char === '+') {
+      token = {
+        type: 'plusSign',
+        value: getLocaleSign(locale, 'always', 'positive', '+'),
+      };
+    }
+
+    if (token === undefined) {
+      literal += char;
+    } else {
+      if (literal !== '') {
+        tokens.push({ type: 'literal', value: literal });
+        literal = '';
+      }
+      tokens.push(token);
+    }
+  }
+
+  if (literal !== '') {
+    tokens.push({ type: 'literal', value: literal });
+  }
+
+  const count = (type: PatternToken['type']): number =>
+    tokens.filter(token => token.type === type).length;
+
+  if (count('number') !== 1 || count('symbol') > 1) {
+    throw new MonieUtilsError(
+      `Invalid ${field}: ${pattern}. Must contain one '#' and at most one '¤'.`,
+      'INVALID_ARGUMENT',
+      { field, value: pattern }
+    );
+  }
+
+  return tokens;
+}
+
+/**
+ * Returns the currency pattern of a locale, e.g. `¤#` for en-US,
+ * `# ¤` for de-DE and `¤ -#` for negative amounts in nl-NL
+ *
+ * @param locale - BCP 47 locale
+ * @param signDisplay - Sign display mode
+ * @returns The locale's pattern
+ *
+ * @throws {RangeError} When the locale is malformed
+ */
+function getLocalePattern(
+  locale: string,
+  signDisplay: SignDisplay = 'auto'
+): CurrencyPattern {
+  const key = `${locale}|${signDisplay}`;
+  let pattern = localePatterns.get(key);
+
+  if (pattern === undefined) {
+    const accounting = signDisplay === 'accounting';
+    const formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: REFERENCE_CURRENCY,
+      currencyDisplay: 'narrowSymbol',
+      currencySign: accounting ? 'accounting' : 'standard',
+      signDisplay: accounting ? 'auto' : signDisplay,
+    });
+
+    pattern = {
+      positive: toTokens(formatter.formatToParts(1)),
+      negative: toTokens(formatter.formatToParts(-1)),
+      zero: toTokens(formatter.formatToParts(0)),
+    };
+    localePatterns.set(key, pattern);
+  }
+
+  return pattern;
+}
+
+/**
+ * Returns the literal a locale sets between a letter symbol and the digits,
+ * read from how it spaces a currency code. Locales that already space the
+ * symbol in their pattern fall back to a no-break space.
+ *
+ * @param locale - BCP 47 locale
+ * @returns The spacing literal
+ *
+ * @throws {RangeError} When the locale is malformed
+ */
+export function getCurrencySpacing(locale: string): string {
+  let spacing = localeSpacings.get(locale);
+
+  if (spacing === undefined) {
+    const parts = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: REFERENCE_CURRENCY,
+      currencyDisplay: 'code',
+    }).formatToParts(1);
+    const codeAt = parts.findIndex(part => part.type === 'currency');
+    const literal = [parts[codeAt - 1], parts[codeAt + 1]].find(
+      part => part?.type === 'literal' && SYMBOL_SPACING.test(part.value)
+    );
+
+    spacing = literal?.value ?? '\u00a0';
+    localeSpacings.set(locale, spacing);
+  }
+
+  return spacing;
+}
+
+/**
+ * Moves the symbol directly next to the number, keeping the locale's sign,
+ * parentheses and other literals
+ *
+ * @param position - Side of the number the symbol goes on
+ * @param pattern - The locale's pattern
+ * @returns The positioned pattern
+ */
+function positionPattern(
+  position: 'start' | 'end',
+  pattern: CurrencyPattern
+): CurrencyPattern {
+  const place = (tokens: PatternToken[]): PatternToken[] =>
+    withoutSymbol(tokens).flatMap<PatternToken>(token => {
+      if (token.type !== 'number') {
+        return [token];
+      }
+      return position === 'end'
+        ? [token, { type: 'symbol' }]
+        : [{ type: 'symbol' }, token];
+    });
+
+  return {
+    positive: place(pattern.positive),
+    negative: place(pattern.negative),
+    zero: place(pattern.zero),
+  };
+}
+
+/**
+ * Resolves the pattern for a locale and sign options: the locale's pattern
+ * for the sign display mode, with the symbol pinned to one side when a
+ * position is given, and custom patterns in place of the locale's
+ *
+ * @param locale - BCP 47 locale
+ * @param options - Sign display mode and custom patterns
+ * @param position - Side of the number the symbol is pinned to
+ * @returns The currency pattern
+ *
+ * @throws {MonieUtilsError} When the sign display mode or a custom pattern
+ * is invalid
+ * @throws {RangeError} When the locale is malformed
+ */
+export function resolvePattern(
+  locale: string,
+  options: CurrencySignOptions,
+  position?: 'start' | 'end'
+): CurrencyPattern {
+  const { signDisplay = 'auto' } = options;
+
+  if (!SIGN_DISPLAYS.includes(signDisplay)) {
+    throw new MonieUtilsError(
+      `Invalid sign display: ${signDisplay}`,
+      'INVALID_ARGUMENT',
+      { field: 'signDisplay', value: signDisplay, allowed: SIGN_DISPLAYS }
+    );
+  }
+
+  const localePattern = getLocalePattern(locale, signDisplay);
+  const pattern =
+    position === undefined
+      ? { ...localePattern }
+      : positionPattern(position, localePattern);
+
+  for (const [variant, field] of [
+    ['positive', 'positivePattern'],
+    ['negative', 'negativePattern'],
+    ['zero', 'zeroPattern'],
+  ] as const) {
+    const custom = options[field];
+    if (custom !== undefined) {
+      pattern[variant] = parsePattern(custom, field, locale);
+    }
+  }
+
+  return pattern;
+}
+
+/**
+ * Converts Intl parts of a formatted number into currency parts
+ *
+ * @param parts - Intl number parts
+ * @returns Currency parts
+ */
+export function toNumberParts(parts: Intl.NumberFormatPart[]): CurrencyPart[] {
+  return parts.map(part => ({
+    type: NUMBER_PART_TYPES.has(part.type)
+      ? (part.type as CurrencyPartType)
+      : 'literal',
+    value: part.value,
+  }));
+}
+
+/**
+ * Whether a symbol edge needs spacing where it meets a number edge
+ *
+ * @param symbolEdge - Character of the symbol next to the number
+ * @param numberEdge - Character of the number next to the symbol
+ * @returns True when a digit touches a non-symbol character
+ */
+function needsSpacing(
+  symbolEdge: string | undefined,
+  numberEdge: string | undefined
+): boolean {
+  return (
+    SPACED_SYMBOL_EDGE.test(symbolEdge ?? '') && DIGIT.test(numberEdge ?? '')
+  );
+}
+
+/**
+ * Renders pattern tokens into parts. Without a symbol, the spacing around
+ * its slot is dropped too; a currency code that would touch the digits is
+ * set off with a space, and a letter symbol with the given spacing.
+ *
+ * @param tokens - Pattern tokens
+ * @param values - Number parts and symbol to substitute
+ * @returns The formatted parts
+ */
+export function applyPattern(
+  tokens: PatternToken[],
+  values: PatternValues
+): CurrencyPart[] {
+  const { number, symbol = '', isCode = false, spacing } = values;
+  const slots = values.symbol === undefined ? withoutSymbol(tokens) : tokens;
+  const parts: CurrencyPart[] = [];
+  const symbolChars = [...symbol];
+  const numberChars = [...number.map(part => part.value).join('')];
+  const gap = isCode ? ' ' : spacing;
+  const spacingBetween = (
+    symbolEdge: string | undefined,
+    numberEdge: string | undefined
+  ): CurrencyPart[] =>
+    gap !== undefined && (isCode || needsSpacing(symbolEdge, numberEdge))
+      ? [{ type: 'literal', value: gap }]
+      : [];
+
+  slots.forEach((token, index) => {
+    switch (token.type) {
+      case 'symbol':
+        if (slots[index - 1]?.type === 'number') {
+          parts.push(
+            ...spacingBetween(
+              symbolChars[0],
+              numberChars[numberChars.length - 1]
+            )
+          );
+        }
+        parts.push({ type: 'currency', value: symbol });
+        if (slots[index + 1]?.type === 'number') {
+          parts.push(
+            ...spacingBetween(
+              symbolChars[symbolChars.length - 1],
+              numberChars[0]
+            )
+          );
+        }
+        break;
+      case 'number':
+        parts.push(...number);
+        break;
+      default:
+        parts.push({ type: token.type, value: token.value });
+    }
+  });
+
+  return parts;
+}
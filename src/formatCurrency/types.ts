@@ -2,25 +2,72 @@
  * Type definitions for currency formatting utilities
  */
 
+import type { RoundingMode } from '../rounding/types';
+
+/**
+ * How the sign of an amount is shown
+ *
+ * - `auto`: minus sign for negative amounts only (default)
+ * - `always`: plus or minus sign on every amount, zero included
+ * - `exceptZero`: plus or minus sign on every amount except zero
+ * - `never`: no sign
+ * - `accounting`: the locale's accounting format for negative amounts,
+ *   e.g. `($1,234.56)` in en-US
+ */
+export type SignDisplay =
+  | 'auto'
+  | 'always'
+  | 'exceptZero'
+  | 'never'
+  | 'accounting';
+
+/**
+ * Options controlling the sign of formatted amounts.
+ *
+ * Custom patterns replace the locale's for one kind of amount. In a
+ * pattern, `#` is the number, `¤` the symbol or code, `-` and `+` the
+ * locale's minus and plus signs, and anything else is copied as is:
+ * `(¤#)`, `¤#-`, `+¤#` or `▲ ¤#`.
+ */
+export interface CurrencySignOptions {
+  /** Sign display mode (default: 'auto') */
+  signDisplay?: SignDisplay;
+  /** Pattern for negative amounts (default: from `signDisplay`) */
+  negativePattern?: string;
+  /** Pattern for positive amounts (default: from `signDisplay`) */
+  positivePattern?: string;
+  /** Pattern for amounts that display as zero (default: from `signDisplay`) */
+  zeroPattern?: string;
+}
+
 /**
  * Options for formatting currency amounts
  */
-export interface FormatCurrencyOptions {
+export interface FormatCurrencyOptions extends CurrencySignOptions {
   /** Locale for formatting (e.g., 'en-US', 'en-GB', 'de-DE') */
   locale?: string;
   /** Whether to show the currency symbol (default: true) */
   showSymbol?: boolean;
   /** Whether to show the currency code (default: false) */
   showCode?: boolean;
-  /** Custom decimal places (overrides currency default) */
+  /** Custom decimal places (overrides currency default; 1 in compact notation) */
   decimalPlaces?: number;
   /** Whether to use compact notation for large numbers (1M, 1B, etc.) */
   compact?: boolean;
+  /** Compact suffix style: `short` (1.5M) or `long` (1.5 million) (default: 'short') */
+  compactDisplay?: 'short' | 'long';
+  /** Significant digits in compact notation (overrides `decimalPlaces`) */
+  significantDigits?: number;
+  /** Rounding mode for the displayed digits (default: 'half-away-from-zero') */
+  roundingMode?: RoundingMode;
   /** Whether to use grouping separators (thousands separators) */
   useGrouping?: boolean;
   /** Custom currency symbol to override default */
   customSymbol?: string;
-  /** Position of currency symbol ('start' | 'end') */
+  /**
+   * Pins the currency symbol to the start or end of the number, overriding
+   * the locale's pattern (default: the locale's placement and spacing)
+   */
   symbolPosition?: 'start' | 'end';
 }
 
@@ -40,18 +87,71 @@ export interface FormattedCurrency {
   isCompact: boolean;
 }
 
+/**
+ * Kind of a formatted currency segment
+ *
+ * - `currency`: the symbol or code
+ * - `minusSign`, `plusSign`: the sign
+ * - `integer`, `group`, `decimal`, `fraction`: digits and separators
+ * - `compact`: the compact suffix, e.g. `M` or `lakh`
+ * - `literal`: spacing, parentheses and other fixed text
+ */
+export type CurrencyPartType =
+  | 'currency'
+  | 'minusSign'
+  | 'plusSign'
+  | 'integer'
+  | 'group'
+  | 'decimal'
+  | 'fraction'
+  | 'compact'
+  | 'literal';
+
+/**
+ * One segment of a formatted currency amount
+ */
+export interface CurrencyPart {
+  /** Kind of segment */
+  type: CurrencyPartType;
+  /** Text of the segment */
+  value: string;
+}
+
 /**
  * Currency display information
  */
 export interface CurrencyDisplay {
   /** Currency code (e.g., 'USD', 'EUR') */
   code: string;
+  /** ISO 4217 numeric code (e.g., '840'), or null for non-ISO currencies */
+  numericCode: string | null;
   /** Currency symbol (e.g., '$', '€') */
   symbol: string;
+  /** Shortest unambiguous-in-context symbol (e.g., '$' for MXN) */
+  narrowSymbol: string;
   /** Currency name (e.g., 'US Dollar', 'Euro') */
   name: string;
   /** Number of decimal places for this currency */
   decimalPlaces: number;
+  /**
+   * Smallest cash denomination in major units, when cash is rounded more
+   * coarsely than the minor unit (e.g., 0.05 for CHF)
+   */
+  cashIncrement?: number;
   /** Whether this currency uses grouping separators */
   usesGrouping: boolean;
+  /** ISO 3166-1 alpha-2 codes of the countries that use this currency */
+  countries: string[];
+  /** Whether this is a cryptocurrency */
+  isCrypto: boolean;
+}
+
+/**
+ * A power of ten with its compact suffix, e.g. 10^5 as ' lakh'
+ */
+export interface CompactUnit {
+  /** Power of ten the unit stands for */
+  exponent: number;
+  /** Suffix appended to the scaled number, including any spacing */
+  suffix: string;
 }
@@ -2,10 +2,27 @@
  * Percentage formatting utilities
  */
 
-import type { FormatPercentageOptions, FormattedPercentage } from './types';
+import type {
+  FormatPercentageOptions,
+  FormattedPercentage,
+  PercentagePart,
+  PercentagePartType,
+} from './types';
 import { DEFAULT_PERCENTAGE_OPTIONS } from './constants';
 import { MonieUtilsError } from '../errors';
 
+/**
+ * Intl part types kept as is; the rest become literals
+ */
+const NUMBER_PART_TYPES: ReadonlySet<string> = new Set<PercentagePartType>([
+  'minusSign',
+  'integer',
+  'group',
+  'decimal',
+  'fraction',
+  'literal',
+]);
+
 /**
  * Validates if a decimal is a valid number for percentage formatting
  *
@@ -50,10 +67,52 @@ export function formatPercentage(
   decimal: number,
   options: FormatPercentageOptions = {}
 ): FormattedPercentage {
+  const parts = formatPercentageToParts(decimal, options);
+  const opts = { ...DEFAULT_PERCENTAGE_OPTIONS, ...options };
+
+  return {
+    formatted: parts.map(part => part.value).join(''),
+    decimal,
+    percentage: decimal * 100,
+    precision: opts.precision,
+    locale: opts.locale,
+  };
+}
+
+/**
+ * Formats a decimal as a percentage in typed segments (sign, digits,
+ * separators, suffix and literals) for styling each one separately. The
+ * values concatenate to exactly `formatPercentage`'s `formatted` string.
+ *
+ * @param decimal - The decimal to format (e.g., 0.25 for 25%)
+ * @param options - Formatting options, as for `formatPercentage`
+ * @returns The formatted segments in order
+ *
+ * @throws {MonieUtilsError} When decimal is invalid
+ *
+ * @example
+ * ```typescript
+ * formatPercentageToParts(-0.1234, { precision: 1, spaceBefore: true })
+ * // [
+ * //   { type: 'minusSign', value: '-' },
+ * //   { type: 'integer', value: '12' },
+ * //   { type: 'decimal', value: '.' },
+ * //   { type: 'fraction', value: '3' },
+ * //   { type: 'literal', value: ' ' },
+ * //   { type: 'percentSign', value: '%' },
+ * // ]
+ * ```
+ */
+export function formatPercentageToParts(
+  decimal: number,
+  options: FormatPercentageOptions = {}
+): PercentagePart[] {
   // Validate input
   if (!isValidDecimal(decimal)) {
     throw new MonieUtilsError(
-      `Invalid decimal: ${decimal}. Decimal must be a finite number.`
+      `Invalid decimal: ${decimal}. Decimal must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'decimal', value: decimal }
     );
   }
 
@@ -73,24 +132,30 @@ export function formatPercentage(
     };
 
     const formatter = new Intl.NumberFormat(opts.locale, formatOptions);
-    const formattedNumber = formatter.format(percentage);
+    const parts = formatter.formatToParts(percentage).map(
+      (part): PercentagePart => ({
+        type: NUMBER_PART_TYPES.has(part.type)
+          ? (part.type as PercentagePartType)
+          : 'literal',
+        value: part.value,
+      })
+    );
 
     // Add suffix
     const suffix = opts.suffix ?? '%';
-    const formatted = opts.spaceBefore
-      ? `${formattedNumber} ${suffix}`
-      : `${formattedNumber}${suffix}`;
+    if (opts.spaceBefore) {
+      parts.push({ type: 'literal', value: ' ' });
+    }
+    if (suffix !== '') {
+      parts.push({ type: 'percentSign', value: suffix });
+    }
 
-    return {
-      formatted,
-      decimal,
-      percentage,
-      precision: opts.precision,
-      locale: opts.locale,
-    };
+    return parts;
   } catch (error) {
     throw new MonieUtilsError(
-      `Failed to format percentage: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to format percentage: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'FORMATTING_FAILED',
+      { field: 'decimal', value: decimal }
     );
   }
 }
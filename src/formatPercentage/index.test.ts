@@ -2,7 +2,7 @@
  * Tests for formatPercentage utility
  */
 
-import { formatPercentage } from './formatPercentage';
+import { formatPercentage, formatPercentageToParts } from './formatPercentage';
 import { MonieUtilsError } from '../errors';
 
 describe('formatPercentage', () => {
@@ -56,3 +56,45 @@ describe('formatPercentage', () => {
     });
   });
 });
+
+describe('formatPercentageToParts', () => {
+  it('should split a percentage into typed parts', () => {
+    expect(
+      formatPercentageToParts(-0.1234, { precision: 1, spaceBefore: true })
+    ).toEqual([
+      { type: 'minusSign', value: '-' },
+      { type: 'integer', value: '12' },
+      { type: 'decimal', value: '.' },
+      { type: 'fraction', value: '3' },
+      { type: 'literal', value: ' ' },
+      { type: 'percentSign', value: '%' },
+    ]);
+    expect(formatPercentageToParts(12.345, { locale: 'de-DE' })).toEqual([
+      { type: 'integer', value: '1' },
+      { type: 'group', value: '.' },
+      { type: 'integer', value: '234' },
+      { type: 'decimal', value: ',' },
+      { type: 'fraction', value: '50' },
+      { type: 'percentSign', value: '%' },
+    ]);
+  });
+
+  it('should concatenate to the formatPercentage string', () => {
+    for (const options of [
+      {},
+      { precision: 0 },
+      { suffix: ' percent' },
+      { locale: 'ar-EG', spaceBefore: true },
+    ]) {
+      expect(
+        formatPercentageToParts(-0.25, options)
+          .map(part => part.value)
+          .join('')
+      ).toBe(formatPercentage(-0.25, options).formatted);
+    }
+  });
+
+  it('should throw error for invalid decimals', () => {
+    expect(() => formatPercentageToParts(NaN)).toThrow(MonieUtilsError);
+  });
+});
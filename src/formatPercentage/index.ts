@@ -5,6 +5,7 @@
  * - Decimal to percentage conversion
  * - Locale-specific formatting
  * - Customizable precision and suffixes
+ * - Typed segments for styling each part of the output
  *
  * @example
  * ```typescript
@@ -21,10 +22,15 @@
  */
 
 // Export main formatting function
-export { formatPercentage } from './formatPercentage';
+export { formatPercentage, formatPercentageToParts } from './formatPercentage';
 
 // Export types
-export type { FormatPercentageOptions, FormattedPercentage } from './types';
+export type {
+  FormatPercentageOptions,
+  FormattedPercentage,
+  PercentagePartType,
+  PercentagePart,
+} from './types';
 
 // Export constants for advanced usage
 export { DEFAULT_PERCENTAGE_OPTIONS } from './constants';
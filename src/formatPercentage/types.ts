@@ -33,3 +33,30 @@ export interface FormattedPercentage {
   /** The locale used */
   locale: string;
 }
+
+/**
+ * Kind of a formatted percentage segment
+ *
+ * - `minusSign`: the sign
+ * - `integer`, `group`, `decimal`, `fraction`: digits and separators
+ * - `percentSign`: the `%` or custom suffix
+ * - `literal`: spacing and other fixed text
+ */
+export type PercentagePartType =
+  | 'minusSign'
+  | 'integer'
+  | 'group'
+  | 'decimal'
+  | 'fraction'
+  | 'percentSign'
+  | 'literal';
+
+/**
+ * One segment of a formatted percentage
+ */
+export interface PercentagePart {
+  /** Kind of segment */
+  type: PercentagePartType;
+  /** Text of the segment */
+  value: string;
+}
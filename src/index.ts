@@ -1,6 +1,6 @@
 /**
  * Monie Utils - A comprehensive TypeScript library for money-related utilities
- * 
+ *
  * @author Oluwaferanmi Adeniji
  * @version 0.1.0
  * @license MIT
@@ -8,21 +8,40 @@
 
 // Export types and interfaces
 export type {
-  Money,
+  MoneyLike,
+  MoneyInterface,
   ExchangeRate,
   Transaction,
   CurrencyInfo,
   FormatOptions,
   FeeStructure,
+  FeeTier,
+  FeeTierMode,
   LoanParameters,
   InvestmentReturn,
   BudgetCategory,
   SubscriptionPlan,
-  MonieUtilsError as MonieUtilsErrorType
+  MonieUtilsErrorCode,
+  MonieUtilsErrorType,
 } from './types';
 
 // Export error classes
-export { MonieUtilsError, createError } from './errors';
+export {
+  MonieUtilsError,
+  createError,
+  isMonieUtilsError,
+  hasErrorCode,
+} from './errors';
+export type { MonieUtilsErrorDetails } from './errors';
+
+// Export library configuration
+export * from './config';
+
+// Export Money value object
+export * from './money';
+
+// Export currency registry
+export * from './currencies';
 
 // Export formatCurrency utilities
 export * from './formatCurrency';
@@ -39,15 +58,30 @@ export * from './validation';
 // Export conversion utilities
 export * from './conversion';
 
+// Export exchange rate providers
+export * from './rates';
+
 // Export arithmetic utilities
 export * from './arithmetic';
 
+// Export allocation utilities
+export * from './allocation';
+
+// Export fee calculation utilities
+export * from './fees';
+
+// Export remittance quoting utilities
+export * from './remittance';
+
 // Export loan and credit utilities
 export * from './loans';
 
 // Export investment and returns utilities
 export * from './investment';
 
+// Export double-entry ledger
+export * from './ledger';
+
 // Export subscription and recurring payment utilities
 export * from './subscription';
 
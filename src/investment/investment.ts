@@ -6,6 +6,10 @@
 import { MonieUtilsError } from '../errors';
 import { isValidAmount } from '../validation';
 import { roundMoney } from '../arithmetic';
+import { resolveRoundingPolicy } from '../rounding';
+import type { RoundingMode } from '../rounding';
+import { Decimal } from '../decimal';
+import { getConfig, isDecimalArithmetic } from '../config/config';
 import type {
   ROIResult,
   AnnualizedReturnResult,
@@ -18,6 +22,8 @@ import type {
  *
  * @param initialInvestment - The initial investment amount
  * @param finalValue - The final value of the investment
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns ROI calculation result with percentage and gain/loss information
  *
  * @throws {MonieUtilsError} When initial investment or final value is invalid
@@ -33,16 +39,40 @@ import type {
  */
 export function calculateROI(
   initialInvestment: number,
-  finalValue: number
+  finalValue: number,
+  roundingMode?: RoundingMode
 ): ROIResult {
   if (!isValidAmount(initialInvestment) || !isValidAmount(finalValue)) {
     throw new MonieUtilsError(
-      'Initial investment and final value must be valid numbers'
+      'Initial investment and final value must be valid numbers',
+      'INVALID_AMOUNT',
+      { initialInvestment, finalValue }
     );
   }
 
   if (initialInvestment <= 0) {
-    throw new MonieUtilsError('Initial investment must be greater than zero');
+    throw new MonieUtilsError(
+      'Initial investment must be greater than zero',
+      'INVALID_AMOUNT',
+      { field: 'initialInvestment', value: initialInvestment }
+    );
+  }
+
+  const policy = resolveRoundingPolicy(roundingMode);
+
+  if (isDecimalArithmetic()) {
+    const exactGainLoss = Decimal.from(finalValue).sub(initialInvestment);
+    const exactRoi = exactGainLoss.div(
+      initialInvestment,
+      getConfig().decimalScale
+    );
+
+    return {
+      roi: exactRoi.round(6, policy).toNumber(),
+      roiPercentage: exactRoi.mul(100).round(2, policy).toNumber(),
+      gainLoss: exactGainLoss.round(2, policy).toNumber(),
+      isGain: !exactGainLoss.isNegative(),
+    };
   }
 
   const gainLoss = finalValue - initialInvestment;
@@ -50,9 +80,9 @@ export function calculateROI(
   const roiPercentage = roi * 100;
 
   return {
-    roi: roundMoney(roi, 6),
-    roiPercentage: roundMoney(roiPercentage, 2),
-    gainLoss: roundMoney(gainLoss, 2),
+    roi: roundMoney(roi, 6, policy),
+    roiPercentage: roundMoney(roiPercentage, 2, policy),
+    gainLoss: roundMoney(gainLoss, 2, policy),
     isGain: gainLoss >= 0,
   };
 }
@@ -63,6 +93,8 @@ export function calculateROI(
  * @param initialValue - The initial investment value
  * @param finalValue - The final investment value
  * @param years - The number of years the investment was held
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Annualized return calculation with total return information
  *
  * @throws {MonieUtilsError} When any parameter is invalid
@@ -79,7 +111,8 @@ export function calculateROI(
 export function calculateAnnualizedReturn(
   initialValue: number,
   finalValue: number,
-  years: number
+  years: number,
+  roundingMode?: RoundingMode
 ): AnnualizedReturnResult {
   if (
     !isValidAmount(initialValue) ||
@@ -87,26 +120,56 @@ export function calculateAnnualizedReturn(
     !isValidAmount(years)
   ) {
     throw new MonieUtilsError(
-      'Initial value, final value, and years must be valid numbers'
+      'Initial value, final value, and years must be valid numbers',
+      'INVALID_AMOUNT',
+      { initialValue, finalValue, years }
     );
   }
 
   if (initialValue <= 0) {
-    throw new MonieUtilsError('Initial value must be greater than zero');
+    throw new MonieUtilsError(
+      'Initial value must be greater than zero',
+      'INVALID_AMOUNT',
+      { field: 'initialValue', value: initialValue }
+    );
   }
 
   if (years <= 0) {
-    throw new MonieUtilsError('Years must be greater than zero');
+    throw new MonieUtilsError(
+      'Years must be greater than zero',
+      'INVALID_RANGE',
+      { field: 'years', value: years }
+    );
   }
 
-  const totalReturn = (finalValue - initialValue) / initialValue;
+  const policy = resolveRoundingPolicy(roundingMode);
+
+  // Fractional roots have no exact decimal form, so the annualized figure always uses floats
   const annualizedReturn = Math.pow(finalValue / initialValue, 1 / years) - 1;
 
+  if (isDecimalArithmetic()) {
+    const exactTotalReturn = Decimal.from(finalValue)
+      .sub(initialValue)
+      .div(initialValue, getConfig().decimalScale);
+
+    return {
+      annualizedReturn: roundMoney(annualizedReturn, 6, policy),
+      annualizedReturnPercentage: roundMoney(annualizedReturn * 100, 2, policy),
+      totalReturn: exactTotalReturn.round(6, policy).toNumber(),
+      totalReturnPercentage: exactTotalReturn
+        .mul(100)
+        .round(2, policy)
+        .toNumber(),
+    };
+  }
+
+  const totalReturn = (finalValue - initialValue) / initialValue;
+
   return {
-    annualizedReturn: roundMoney(annualizedReturn, 6),
-    annualizedReturnPercentage: roundMoney(annualizedReturn * 100, 2),
-    totalReturn: roundMoney(totalReturn, 6),
-    totalReturnPercentage: roundMoney(totalReturn * 100, 2),
+    annualizedReturn: roundMoney(annualizedReturn, 6, policy),
+    annualizedReturnPercentage: roundMoney(annualizedReturn * 100, 2, policy),
+    totalReturn: roundMoney(totalReturn, 6, policy),
+    totalReturnPercentage: roundMoney(totalReturn * 100, 2, policy),
   };
 }
 
@@ -115,6 +178,8 @@ export function calculateAnnualizedReturn(
  *
  * @param dividendPerShare - The annual dividend payment per share
  * @param pricePerShare - The current price per share
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Dividend yield calculation with percentage information
  *
  * @throws {MonieUtilsError} When dividend per share or price per share is invalid
@@ -130,30 +195,57 @@ export function calculateAnnualizedReturn(
  */
 export function calculateDividendYield(
   dividendPerShare: number,
-  pricePerShare: number
+  pricePerShare: number,
+  roundingMode?: RoundingMode
 ): DividendYieldResult {
   if (!isValidAmount(dividendPerShare) || !isValidAmount(pricePerShare)) {
     throw new MonieUtilsError(
-      'Dividend per share and price per share must be valid numbers'
+      'Dividend per share and price per share must be valid numbers',
+      'INVALID_AMOUNT',
+      { dividendPerShare, pricePerShare }
     );
   }
 
   if (pricePerShare <= 0) {
-    throw new MonieUtilsError('Price per share must be greater than zero');
+    throw new MonieUtilsError(
+      'Price per share must be greater than zero',
+      'INVALID_AMOUNT',
+      { field: 'pricePerShare', value: pricePerShare }
+    );
   }
 
   if (dividendPerShare < 0) {
-    throw new MonieUtilsError('Dividend per share cannot be negative');
+    throw new MonieUtilsError(
+      'Dividend per share cannot be negative',
+      'INVALID_AMOUNT',
+      { field: 'dividendPerShare', value: dividendPerShare, min: 0 }
+    );
+  }
+
+  const policy = resolveRoundingPolicy(roundingMode);
+
+  if (isDecimalArithmetic()) {
+    const exactYield = Decimal.from(dividendPerShare).div(
+      pricePerShare,
+      getConfig().decimalScale
+    );
+
+    return {
+      yield: exactYield.round(6, policy).toNumber(),
+      yieldPercentage: exactYield.mul(100).round(2, policy).toNumber(),
+      dividendPerShare: roundMoney(dividendPerShare, 2, policy),
+      sharePrice: roundMoney(pricePerShare, 2, policy),
+    };
   }
 
   const yield_ = dividendPerShare / pricePerShare;
   const yieldPercentage = yield_ * 100;
 
   return {
-    yield: roundMoney(yield_, 6),
-    yieldPercentage: roundMoney(yieldPercentage, 2),
-    dividendPerShare: roundMoney(dividendPerShare, 2),
-    sharePrice: roundMoney(pricePerShare, 2),
+    yield: roundMoney(yield_, 6, policy),
+    yieldPercentage: roundMoney(yieldPercentage, 2, policy),
+    dividendPerShare: roundMoney(dividendPerShare, 2, policy),
+    sharePrice: roundMoney(pricePerShare, 2, policy),
   };
 }
 
@@ -163,6 +255,8 @@ export function calculateDividendYield(
  * @param presentValue - The present value of the investment
  * @param rate - The interest rate per period (as decimal, e.g., 0.05 for 5%)
  * @param periods - The number of compounding periods
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Future value calculation with interest breakdown
  *
  * @throws {MonieUtilsError} When any parameter is invalid
@@ -180,7 +274,8 @@ export function calculateDividendYield(
 export function calculateFutureValue(
   presentValue: number,
   rate: number,
-  periods: number
+  periods: number,
+  roundingMode?: RoundingMode
 ): FutureValueResult {
   if (
     !isValidAmount(presentValue) ||
@@ -188,30 +283,63 @@ export function calculateFutureValue(
     !isValidAmount(periods)
   ) {
     throw new MonieUtilsError(
-      'Present value, rate, and periods must be valid numbers'
+      'Present value, rate, and periods must be valid numbers',
+      'INVALID_AMOUNT',
+      { presentValue, rate, periods }
     );
   }
 
   if (presentValue <= 0) {
-    throw new MonieUtilsError('Present value must be greater than zero');
+    throw new MonieUtilsError(
+      'Present value must be greater than zero',
+      'INVALID_AMOUNT',
+      { field: 'presentValue', value: presentValue }
+    );
   }
 
   if (rate < 0) {
-    throw new MonieUtilsError('Interest rate cannot be negative');
+    throw new MonieUtilsError(
+      'Interest rate cannot be negative',
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
+    );
   }
 
   if (periods < 0 || !Number.isInteger(periods)) {
-    throw new MonieUtilsError('Periods must be a non-negative integer');
+    throw new MonieUtilsError(
+      'Periods must be a non-negative integer',
+      'INVALID_ARGUMENT',
+      { field: 'periods', value: periods, min: 0 }
+    );
+  }
+
+  const policy = resolveRoundingPolicy(roundingMode);
+
+  if (isDecimalArithmetic()) {
+    const exactFutureValue = Decimal.from(presentValue).mul(
+      Decimal.from(rate).add(1).pow(periods, getConfig().decimalScale)
+    );
+
+    return {
+      futureValue: exactFutureValue.round(2, policy).toNumber(),
+      presentValue: roundMoney(presentValue, 2, policy),
+      totalInterest: exactFutureValue
+        .sub(presentValue)
+        .round(2, policy)
+        .toNumber(),
+      effectiveRate: roundMoney(rate, 6, policy),
+      periods,
+    };
   }
 
   const futureValue = presentValue * Math.pow(1 + rate, periods);
   const totalInterest = futureValue - presentValue;
 
   return {
-    futureValue: roundMoney(futureValue, 2),
-    presentValue: roundMoney(presentValue, 2),
-    totalInterest: roundMoney(totalInterest, 2),
-    effectiveRate: roundMoney(rate, 6),
+    futureValue: roundMoney(futureValue, 2, policy),
+    presentValue: roundMoney(presentValue, 2, policy),
+    totalInterest: roundMoney(totalInterest, 2, policy),
+    effectiveRate: roundMoney(rate, 6, policy),
     periods,
   };
 }
@@ -0,0 +1,312 @@
+/**
+ * Tests for the double-entry ledger
+ */
+
+import { Ledger } from './index';
+import { Money } from '../money';
+import { MonieUtilsError } from '../errors';
+
+const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+function createLedger(): Ledger {
+  const ledger = new Ledger();
+  ledger.openAccount({ id: 'cash', name: 'Cash', type: 'asset' });
+  ledger.openAccount({ id: 'sales', name: 'Sales', type: 'revenue' });
+  ledger.openAccount({ id: 'rent', name: 'Rent', type: 'expense' });
+  ledger.openAccount({
+    id: 'eur-bank',
+    name: 'EUR Bank',
+    type: 'asset',
+    currency: 'EUR',
+  });
+  ledger.openAccount({ id: 'equity', name: 'Owner Equity', type: 'equity' });
+
+  ledger.post({
+    date: new Date('2024-01-15'),
+    description: 'Cash sale',
+    lines: [
+      { accountId: 'cash', type: 'debit', amount: usd(250) },
+      { accountId: 'sales', type: 'credit', amount: usd(250) },
+    ],
+  });
+  ledger.post({
+    date: new Date('2024-01-10'),
+    description: 'Owner investment',
+    lines: [
+      { accountId: 'cash', type: 'debit', amount: usd(1000) },
+      { accountId: 'eur-bank', type: 'debit', amount: Money.of(500, 'EUR') },
+      { accountId: 'equity', type: 'credit', amount: usd(1000) },
+      { accountId: 'equity', type: 'credit', amount: Money.of(500, 'EUR') },
+    ],
+  });
+  ledger.post({
+    date: new Date('2024-02-01'),
+    description: 'February rent',
+    lines: [
+      { accountId: 'rent', type: 'debit', amount: usd(1200.1) },
+      { accountId: 'cash', type: 'credit', amount: usd(1200.1) },
+    ],
+  });
+
+  return ledger;
+}
+
+describe('Ledger', () => {
+  describe('accounts', () => {
+    it('should open and list accounts', () => {
+      const ledger = createLedger();
+      expect(ledger.listAccounts().map(account => account.id)).toEqual([
+        'cash',
+        'sales',
+        'rent',
+        'eur-bank',
+        'equity',
+      ]);
+      expect(ledger.getAccount('eur-bank')?.currency).toBe('EUR');
+      expect(ledger.getAccount('missing')).toBeUndefined();
+    });
+
+    it('should reject duplicate or invalid accounts', () => {
+      const ledger = createLedger();
+      expect(() =>
+        ledger.openAccount({ id: 'cash', name: 'Cash', type: 'asset' })
+      ).toThrow(MonieUtilsError);
+      expect(() =>
+        ledger.openAccount({ id: 'x', name: 'X', type: 'income' as never })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() =>
+        ledger.openAccount({
+          id: 'y',
+          name: 'Y',
+          type: 'asset',
+          currency: 'XYZ',
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CURRENCY' }));
+    });
+  });
+
+  describe('posting', () => {
+    it('should record each line as a transaction', () => {
+      const [entry] = createLedger().getEntries();
+
+      expect(entry.id).toBe('JE-000001');
+      expect(entry.postings[0]).toEqual({
+        id: 'JE-000001-1',
+        entryId: 'JE-000001',
+        accountId: 'cash',
+        amount: Money.of(250, 'USD'),
+        date: new Date('2024-01-15'),
+        description: 'Cash sale',
+        type: 'debit',
+      });
+      expect(Object.isFrozen(entry)).toBe(true);
+      // @ts-expect-error postings are read-only
+      expect(() => entry.postings.push(entry.postings[0])).toThrow(TypeError);
+    });
+
+    it('should require debits to equal credits per currency', () => {
+      const ledger = createLedger();
+      expect(() =>
+        ledger.post({
+          date: new Date('2024-02-02'),
+          description: 'Typo',
+          lines: [
+            { accountId: 'cash', type: 'debit', amount: usd(100) },
+            { accountId: 'sales', type: 'credit', amount: usd(10) },
+          ],
+        })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'UNBALANCED_ENTRY',
+          details: expect.objectContaining({ currency: 'USD', value: 90 }),
+        })
+      );
+      expect(() =>
+        ledger.post({
+          date: new Date('2024-02-02'),
+          description: 'Mixed currencies',
+          lines: [
+            { accountId: 'cash', type: 'debit', amount: usd(100) },
+            {
+              accountId: 'equity',
+              type: 'credit',
+              amount: Money.of(100, 'EUR'),
+            },
+          ],
+        })
+      ).toThrow(expect.objectContaining({ code: 'UNBALANCED_ENTRY' }));
+      expect(ledger.getEntries()).toHaveLength(3);
+    });
+
+    it('should reject invalid lines', () => {
+      const ledger = createLedger();
+      const post = (lines: Parameters<Ledger['post']>[0]['lines']) => () =>
+        ledger.post({ date: new Date('2024-02-02'), description: 'x', lines });
+
+      expect(
+        post([
+          { accountId: 'nope', type: 'debit', amount: usd(1) },
+          { accountId: 'cash', type: 'credit', amount: usd(1) },
+        ])
+      ).toThrow(expect.objectContaining({ code: 'ACCOUNT_NOT_FOUND' }));
+      expect(
+        post([
+          { accountId: 'cash', type: 'debit', amount: usd(0) },
+          { accountId: 'sales', type: 'credit', amount: usd(0) },
+        ])
+      ).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+      expect(
+        post([
+          { accountId: 'eur-bank', type: 'debit', amount: usd(1) },
+          { accountId: 'cash', type: 'credit', amount: usd(1) },
+        ])
+      ).toThrow(expect.objectContaining({ code: 'CURRENCY_MISMATCH' }));
+      expect(
+        post([{ accountId: 'cash', type: 'debit', amount: usd(1) }])
+      ).toThrow(MonieUtilsError);
+      expect(() =>
+        ledger.post({
+          id: 'JE-000001',
+          date: new Date('2024-02-02'),
+          description: 'Duplicate',
+          lines: [
+            { accountId: 'cash', type: 'debit', amount: usd(1) },
+            { accountId: 'sales', type: 'credit', amount: usd(1) },
+          ],
+        })
+      ).toThrow(MonieUtilsError);
+    });
+
+    it('should skip ids already taken when generating entry ids', () => {
+      const ledger = new Ledger();
+      ledger.openAccount({ id: 'cash', name: 'Cash', type: 'asset' });
+      ledger.openAccount({ id: 'sales', name: 'Sales', type: 'revenue' });
+      const sale = (id?: string) =>
+        ledger.post({
+          ...(id === undefined ? {} : { id }),
+          date: new Date('2024-01-15'),
+          description: 'Sale',
+          lines: [
+            { accountId: 'cash', type: 'debit', amount: usd(1) },
+            { accountId: 'sales', type: 'credit', amount: usd(1) },
+          ],
+        });
+
+      sale('JE-000002');
+      expect(sale().id).toBe('JE-000001');
+      expect(sale().id).toBe('JE-000003');
+      expect(sale().id).toBe('JE-000004');
+    });
+
+    it('should keep posted amounts exact in minor units', () => {
+      const ledger = new Ledger();
+      ledger.openAccount({ id: 'wallet', name: 'Wallet', type: 'asset' });
+      ledger.openAccount({ id: 'equity', name: 'Equity', type: 'equity' });
+      const amount = Money.fromMinorUnits(123456789012345678n, 'BTC');
+
+      const entry = ledger.post({
+        date: new Date('2024-01-15'),
+        description: 'Deposit',
+        lines: [
+          { accountId: 'wallet', type: 'debit', amount },
+          { accountId: 'equity', type: 'credit', amount },
+        ],
+      });
+
+      expect(entry.postings[0].amount.minorUnits).toBe(123456789012345678n);
+      expect(ledger.getBalance('wallet', 'BTC').balance.minorUnits).toBe(
+        123456789012345678n
+      );
+    });
+  });
+
+  describe('balances', () => {
+    it('should report balances on the normal side of each account', () => {
+      const ledger = createLedger();
+
+      expect(ledger.getBalance('cash', 'USD').balance.toString()).toBe(
+        '49.90 USD'
+      );
+      expect(ledger.getBalance('sales', 'USD').balance.amount).toBe(250);
+      expect(ledger.getBalance('rent', 'usd').balance.amount).toBe(1200.1);
+      expect(
+        ledger.getBalances('equity').map(balance => balance.balance.toString())
+      ).toEqual(['1000.00 USD', '500.00 EUR']);
+      expect(
+        ledger.getBalance('cash', 'USD', new Date('2024-01-31')).balance.amount
+      ).toBe(1250);
+      expect(ledger.getBalance('cash', 'GBP').balance.isZero()).toBe(true);
+      expect(() => ledger.getBalance('nope', 'USD')).toThrow(
+        expect.objectContaining({ code: 'ACCOUNT_NOT_FOUND' })
+      );
+    });
+
+    it('should compute running balances in date order', () => {
+      const rows = createLedger().getRunningBalance('cash', 'USD');
+
+      expect(rows.map(row => row.posting.description)).toEqual([
+        'Owner investment',
+        'Cash sale',
+        'February rent',
+      ]);
+      expect(rows.map(row => row.balance.amount)).toEqual([1000, 1250, 49.9]);
+    });
+
+    it('should produce a balanced trial balance', () => {
+      const trial = createLedger().getTrialBalance();
+
+      expect(trial.isBalanced).toBe(true);
+      expect(
+        trial.totals.map(total => [
+          total.currency,
+          total.debits.amount,
+          total.credits.amount,
+        ])
+      ).toEqual([
+        ['USD', 1250, 1250],
+        ['EUR', 500, 500],
+      ]);
+      expect(trial.balances).toHaveLength(6);
+    });
+  });
+
+  describe('closePeriod', () => {
+    it('should snapshot the trial balance and lock the period', () => {
+      const ledger = createLedger();
+      const january = ledger.closePeriod(new Date('2024-01-31T23:59:59Z'));
+
+      expect(january.entryCount).toBe(2);
+      expect(january.trialBalance.isBalanced).toBe(true);
+      expect(
+        january.trialBalance.balances.find(
+          balance => balance.accountId === 'cash'
+        )?.balance.amount
+      ).toBe(1250);
+      expect(ledger.getSnapshots()).toEqual([january]);
+
+      expect(() =>
+        ledger.post({
+          date: new Date('2024-01-20'),
+          description: 'Late entry',
+          lines: [
+            { accountId: 'cash', type: 'debit', amount: usd(5) },
+            { accountId: 'sales', type: 'credit', amount: usd(5) },
+          ],
+        })
+      ).toThrow(expect.objectContaining({ code: 'PERIOD_CLOSED' }));
+      expect(() => ledger.closePeriod(new Date('2024-01-15'))).toThrow(
+        expect.objectContaining({ code: 'PERIOD_CLOSED' })
+      );
+
+      const february = ledger.closePeriod(new Date('2024-02-29T23:59:59Z'));
+      expect(february.entryCount).toBe(1);
+    });
+
+    it('should reject invalid dates', () => {
+      const ledger = createLedger();
+      expect(() => ledger.closePeriod(new Date('invalid'))).toThrow(
+        expect.objectContaining({ code: 'INVALID_DATE' })
+      );
+    });
+  });
+});
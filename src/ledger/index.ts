@@ -0,0 +1,46 @@
+/**
+ * Ledger barrel export
+ *
+ * This module provides a double-entry book of record including:
+ * - Asset, liability, equity, revenue and expense accounts
+ * - Journal entries that must balance per currency before they post
+ * - Postings stored as `Transaction` records with exact Money sums
+ * - Account balances, running balances and trial balances
+ * - Period close with trial-balance snapshots
+ *
+ * @example
+ * ```typescript
+ * import { Ledger } from 'monie-utils/ledger';
+ *
+ * const ledger = new Ledger();
+ * ledger.openAccount({ id: 'cash', name: 'Cash', type: 'asset' });
+ * ledger.openAccount({ id: 'sales', name: 'Sales', type: 'revenue' });
+ * ledger.post({
+ *   date: new Date('2024-01-15'),
+ *   description: 'Cash sale',
+ *   lines: [
+ *     { accountId: 'cash', type: 'debit', amount: { amount: 250, currency: 'USD' } },
+ *     { accountId: 'sales', type: 'credit', amount: { amount: 250, currency: 'USD' } },
+ *   ],
+ * });
+ * ledger.getTrialBalance().isBalanced; // true
+ * ```
+ */
+
+// Export ledger class
+export { Ledger } from './ledger';
+
+// Export types
+export type {
+  AccountType,
+  LedgerAccount,
+  JournalLineInput,
+  JournalEntryInput,
+  LedgerPosting,
+  JournalEntry,
+  AccountBalance,
+  RunningBalanceEntry,
+  TrialBalanceTotal,
+  TrialBalance,
+  PeriodSnapshot,
+} from './types';
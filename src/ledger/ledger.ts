@@ -0,0 +1,580 @@
+/**
+ * Double-entry ledger built on the Transaction type
+ */
+
+import type {
+  AccountType,
+  LedgerAccount,
+  JournalEntryInput,
+  JournalEntry,
+  LedgerPosting,
+  AccountBalance,
+  RunningBalanceEntry,
+  TrialBalance,
+  TrialBalanceTotal,
+  PeriodSnapshot,
+} from './types';
+import { Money } from '../money/money';
+import { isValidCurrency } from '../validation/validation';
+import { MonieUtilsError } from '../errors';
+
+const ACCOUNT_TYPES: readonly AccountType[] = [
+  'asset',
+  'liability',
+  'equity',
+  'revenue',
+  'expense',
+];
+
+/**
+ * Account types whose balance increases with debits
+ */
+const DEBIT_NORMAL_TYPES: readonly AccountType[] = ['asset', 'expense'];
+
+/**
+ * Checks that a value is a valid Date
+ */
+function isValidDate(value: unknown): value is Date {
+  return value instanceof Date && !Number.isNaN(value.getTime());
+}
+
+/**
+ * Orders postings by date, keeping posting order for equal dates
+ */
+function byDate(a: LedgerPosting, b: LedgerPosting): number {
+  return a.date.getTime() - b.date.getTime();
+}
+
+/**
+ * Sums debit and credit postings of one account in one currency
+ *
+ * @param account - The account
+ * @param currency - The currency code
+ * @param postings - Postings of the account in that currency
+ * @returns The account balance
+ */
+function summarize(
+  account: LedgerAccount,
+  currency: string,
+  postings: LedgerPosting[]
+): AccountBalance {
+  let debits = Money.zero(currency);
+  let credits = Money.zero(currency);
+
+  for (const posting of postings) {
+    if (posting.type === 'debit') {
+      debits = debits.add(posting.amount);
+    } else {
+      credits = credits.add(posting.amount);
+    }
+  }
+
+  return {
+    accountId: account.id,
+    accountType: account.type,
+    currency,
+    debits,
+    credits,
+    balance: DEBIT_NORMAL_TYPES.includes(account.type)
+      ? debits.subtract(credits)
+      : credits.subtract(debits),
+  };
+}
+
+/**
+ * Double-entry book of record.
+ *
+ * Accounts are opened first; journal entries are then posted as balanced
+ * sets of debit and credit lines. Each line is stored as a `Transaction`
+ * against its account, so balances, running balances and trial balances
+ * are always derived from the postings themselves. Closing a period takes
+ * a snapshot of the trial balance and rejects later entries dated within
+ * the closed period.
+ *
+ * @example
+ * ```typescript
+ * const ledger = new Ledger();
+ * ledger.openAccount({ id: 'cash', name: 'Cash', type: 'asset' });
+ * ledger.openAccount({ id: 'sales', name: 'Sales', type: 'revenue' });
+ *
+ * ledger.post({
+ *   date: new Date('2024-01-15'),
+ *   description: 'Cash sale',
+ *   lines: [
+ *     { accountId: 'cash', type: 'debit', amount: { amount: 250, currency: 'USD' } },
+ *     { accountId: 'sales', type: 'credit', amount: { amount: 250, currency: 'USD' } },
+ *   ],
+ * });
+ *
+ * ledger.getBalance('cash', 'USD').balance.toString(); // "250.00 USD"
+ * ledger.getTrialBalance().isBalanced; // true
+ * ```
+ */
+export class Ledger {
+  private readonly accounts = new Map<string, LedgerAccount>();
+
+  private readonly entries: JournalEntry[] = [];
+
+  private readonly snapshots: PeriodSnapshot[] = [];
+
+  /** Number of the last auto-generated entry id */
+  private entrySequence = 0;
+
+  /**
+   * Opens an account
+   *
+   * @param account - The account to open
+   * @returns The stored account
+   *
+   * @throws {MonieUtilsError} When the account is invalid or its id is taken
+   */
+  public openAccount(account: LedgerAccount): LedgerAccount {
+    if (!account || typeof account.id !== 'string' || account.id === '') {
+      throw new MonieUtilsError(
+        'Account id must be a non-empty string',
+        'INVALID_ARGUMENT',
+        { field: 'id', value: account?.id }
+      );
+    }
+
+    if (this.accounts.has(account.id)) {
+      throw new MonieUtilsError(
+        `Account already exists: ${account.id}`,
+        'INVALID_ARGUMENT',
+        { field: 'id', value: account.id }
+      );
+    }
+
+    if (!ACCOUNT_TYPES.includes(account.type)) {
+      throw new MonieUtilsError(
+        `Invalid account type: ${account.type}`,
+        'INVALID_ARGUMENT',
+        { field: 'type', value: account.type, allowed: ACCOUNT_TYPES }
+      );
+    }
+
+    if (account.currency !== undefined && !isValidCurrency(account.currency)) {
+      throw new MonieUtilsError(
+        `Invalid currency: ${account.currency}`,
+        'INVALID_CURRENCY',
+        { field: 'currency', value: account.currency }
+      );
+    }
+
+    const stored: LedgerAccount = {
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      ...(account.currency !== undefined && {
+        currency: account.currency.toUpperCase(),
+      }),
+    };
+    this.accounts.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  /**
+   * Looks up an account
+   *
+   * @param accountId - The account identifier
+   * @returns The account, or undefined when it was never opened
+   */
+  public getAccount(accountId: string): LedgerAccount | undefined {
+    const account = this.accounts.get(accountId);
+    return account && { ...account };
+  }
+
+  /**
+   * Lists every account in the order they were opened
+   */
+  public listAccounts(): LedgerAccount[] {
+    return [...this.accounts.values()].map(account => ({ ...account }));
+  }
+
+  /**
+   * Posts a balanced journal entry
+   *
+   * @param input - The entry to post
+   * @returns The posted entry
+   *
+   * @throws {MonieUtilsError} When an account is unknown, a line is invalid,
+   * debits and credits differ in any currency, or the date falls in a
+   * closed period
+   *
+   * @example
+   * ```typescript
+   * ledger.post({
+   *   date: new Date('2024-01-31'),
+   *   description: 'January rent',
+   *   lines: [
+   *     { accountId: 'rent', type: 'debit', amount: Money.of(1200, 'USD') },
+   *     { accountId: 'cash', type: 'credit', amount: Money.of(1200, 'USD') },
+   *   ],
+   * });
+   * ```
+   */
+  public post(input: JournalEntryInput): JournalEntry {
+    const { date, description, lines } = input;
+
+    if (!isValidDate(date)) {
+      throw new MonieUtilsError(
+        'Entry date must be a valid Date',
+        'INVALID_DATE',
+        { field: 'date', value: date }
+      );
+    }
+
+    const closedThrough = this.getClosedThrough();
+    if (closedThrough !== undefined && date <= closedThrough) {
+      throw new MonieUtilsError(
+        `Cannot post to a closed period: entries must be dated after ${closedThrough.toISOString()}`,
+        'PERIOD_CLOSED',
+        { field: 'date', value: date, closedThrough }
+      );
+    }
+
+    if (!Array.isArray(lines) || lines.length < 2) {
+      throw new MonieUtilsError(
+        'A journal entry needs at least two lines',
+        'INVALID_ARGUMENT',
+        { field: 'lines', value: lines }
+      );
+    }
+
+    // Auto ids skip any id already taken by an explicit one
+    let sequence = this.entrySequence;
+    let id = input.id;
+    if (id === undefined) {
+      do {
+        sequence += 1;
+        id = `JE-${String(sequence).padStart(6, '0')}`;
+      } while (this.hasEntry(id));
+    }
+
+    if (this.hasEntry(id)) {
+      throw new MonieUtilsError(
+        `Journal entry already exists: ${id}`,
+        'INVALID_ARGUMENT',
+        { field: 'id', value: id }
+      );
+    }
+
+    const net = new Map<string, Money>();
+    const postings = lines.map((line, index): LedgerPosting => {
+      const account = this.accounts.get(line.accountId);
+      if (account === undefined) {
+        throw new MonieUtilsError(
+          `Account not found: ${line.accountId}`,
+          'ACCOUNT_NOT_FOUND',
+          { field: 'accountId', value: line.accountId }
+        );
+      }
+
+      if (line.type !== 'debit' && line.type !== 'credit') {
+        throw new MonieUtilsError(
+          `Invalid line type: ${line.type}`,
+          'INVALID_ARGUMENT',
+          { field: 'type', value: line.type, allowed: ['debit', 'credit'] }
+        );
+      }
+
+      const amount = Money.from(line.amount);
+      if (!amount.isPositive()) {
+        throw new MonieUtilsError(
+          `Invalid line amount: ${amount}. Must be positive.`,
+          'INVALID_AMOUNT',
+          { field: 'amount', value: amount.amount, min: 0 }
+        );
+      }
+
+      if (
+        account.currency !== undefined &&
+        account.currency !== amount.currency
+      ) {
+        throw new MonieUtilsError(
+          `Currency mismatch: account ${account.id} only accepts ${account.currency}`,
+          'CURRENCY_MISMATCH',
+          { expected: account.currency, actual: amount.currency }
+        );
+      }
+
+      const signed = line.type === 'debit' ? amount : amount.negate();
+      const current = net.get(amount.currency);
+      net.set(amount.currency, current ? current.add(signed) : signed);
+
+      return Object.freeze({
+        id: `${id}-${index + 1}`,
+        entryId: id,
+        accountId: account.id,
+        amount,
+        date: new Date(date.getTime()),
+        description: line.description ?? description,
+        ...(line.category !== undefined && { category: line.category }),
+        type: line.type,
+      });
+    });
+
+    for (const [currency, difference] of net) {
+      if (!difference.isZero()) {
+        throw new MonieUtilsError(
+          `Unbalanced entry: debits and credits differ by ${difference.abs()} in ${currency}`,
+          'UNBALANCED_ENTRY',
+          { field: 'lines', currency, value: difference.amount }
+        );
+      }
+    }
+
+    const entry: JournalEntry = Object.freeze({
+      id,
+      date: new Date(date.getTime()),
+      description,
+      postings: Object.freeze(postings),
+    });
+    this.entries.push(entry);
+    this.entrySequence = sequence;
+    return entry;
+  }
+
+  /**
+   * Lists posted entries in posting order
+   */
+  public getEntries(): JournalEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Lists the postings of an account, ordered by date
+   *
+   * @param accountId - The account identifier
+   * @param asOf - Only include postings dated on or before this date
+   * @returns The account's postings
+   *
+   * @throws {MonieUtilsError} When the account does not exist
+   */
+  public getPostings(accountId: string, asOf?: Date): LedgerPosting[] {
+    this.requireAccount(accountId);
+
+    return this.entries
+      .flatMap(entry => entry.postings)
+      .filter(
+        posting =>
+          posting.accountId === accountId &&
+          (asOf === undefined || posting.date <= asOf)
+      )
+      .sort(byDate);
+  }
+
+  /**
+   * Returns the balances of an account, one per currency it holds
+   *
+   * @param accountId - The account identifier
+   * @param asOf - Only include postings dated on or before this date
+   * @returns Balances per currency, in the order the currencies first appear
+   *
+   * @throws {MonieUtilsError} When the account does not exist
+   */
+  public getBalances(accountId: string, asOf?: Date): AccountBalance[] {
+    const account = this.requireAccount(accountId);
+    const byCurrency = new Map<string, LedgerPosting[]>();
+
+    for (const posting of this.getPostings(accountId, asOf)) {
+      const currency = posting.amount.currency;
+      byCurrency.set(currency, [...(byCurrency.get(currency) ?? []), posting]);
+    }
+
+    return [...byCurrency].map(([currency, postings]) =>
+      summarize(account, currency, postings)
+    );
+  }
+
+  /**
+   * Returns the balance of an account in one currency
+   *
+   * @param accountId - The account identifier
+   * @param currency - The currency code
+   * @param asOf - Only include postings dated on or before this date
+   * @returns The balance (zero when nothing was posted in that currency)
+   *
+   * @throws {MonieUtilsError} When the account or currency is invalid
+   *
+   * @example
+   * ```typescript
+   * ledger.getBalance('cash', 'USD').balance.amount; // 250
+   * ```
+   */
+  public getBalance(
+    accountId: string,
+    currency: string,
+    asOf?: Date
+  ): AccountBalance {
+    const account = this.requireAccount(accountId);
+    const code = Money.zero(currency).currency;
+
+    return summarize(
+      account,
+      code,
+      this.getPostings(accountId, asOf).filter(
+        posting => posting.amount.currency === code
+      )
+    );
+  }
+
+  /**
+   * Returns every posting of an account in one currency with the balance
+   * after it
+   *
+   * @param accountId - The account identifier
+   * @param currency - The currency code
+   * @returns Postings in date order with running balances
+   *
+   * @throws {MonieUtilsError} When the account or currency is invalid
+   *
+   * @example
+   * ```typescript
+   * ledger
+   *   .getRunningBalance('cash', 'USD')
+   *   .map(row => row.balance.amount); // [250, -950]
+   * ```
+   */
+  public getRunningBalance(
+    accountId: string,
+    currency: string
+  ): RunningBalanceEntry[] {
+    const account = this.requireAccount(accountId);
+    const code = Money.zero(currency).currency;
+    const increasesWithDebits = DEBIT_NORMAL_TYPES.includes(account.type);
+    let balance = Money.zero(code);
+
+    return this.getPostings(accountId)
+      .filter(posting => posting.amount.currency === code)
+      .map(posting => {
+        balance =
+          (posting.type === 'debit') === increasesWithDebits
+            ? balance.add(posting.amount)
+            : balance.subtract(posting.amount);
+        return { posting, balance };
+      });
+  }
+
+  /**
+   * Lists the balance of every account with postings and checks that
+   * debits equal credits in each currency
+   *
+   * @param asOf - Only include postings dated on or before this date
+   * @returns The trial balance
+   *
+   * @example
+   * ```typescript
+   * const trial = ledger.getTrialBalance();
+   * trial.isBalanced; // true
+   * trial.totals; // [{ currency: 'USD', debits: 1450.00 USD, credits: 1450.00 USD }]
+   * ```
+   */
+  public getTrialBalance(asOf?: Date): TrialBalance {
+    const balances = [...this.accounts.keys()].flatMap(accountId =>
+      this.getBalances(accountId, asOf)
+    );
+    const totals = new Map<string, TrialBalanceTotal>();
+
+    for (const { currency, debits, credits } of balances) {
+      const total = totals.get(currency) ?? {
+        currency,
+        debits: Money.zero(currency),
+        credits: Money.zero(currency),
+      };
+      const net = debits.subtract(credits);
+
+      totals.set(currency, {
+        currency,
+        debits: net.isPositive() ? total.debits.add(net) : total.debits,
+        credits: net.isNegative()
+          ? total.credits.add(net.negate())
+          : total.credits,
+      });
+    }
+
+    return {
+      ...(asOf !== undefined && { asOf: new Date(asOf.getTime()) }),
+      balances,
+      totals: [...totals.values()],
+      isBalanced: [...totals.values()].every(total =>
+        total.debits.equals(total.credits)
+      ),
+    };
+  }
+
+  /**
+   * Closes the books through a date: snapshots the trial balance as of that
+   * date and rejects any later entry dated on or before it
+   *
+   * @param periodEnd - Last moment included in the period
+   * @returns The period snapshot
+   *
+   * @throws {MonieUtilsError} When the date is invalid or not after the
+   * previous close
+   *
+   * @example
+   * ```typescript
+   * const january = ledger.closePeriod(new Date('2024-01-31T23:59:59Z'));
+   * january.trialBalance.isBalanced; // true
+   * ```
+   */
+  public closePeriod(periodEnd: Date): PeriodSnapshot {
+    if (!isValidDate(periodEnd)) {
+      throw new MonieUtilsError(
+        'Period end must be a valid Date',
+        'INVALID_DATE',
+        { field: 'periodEnd', value: periodEnd }
+      );
+    }
+
+    const closedThrough = this.getClosedThrough();
+    if (closedThrough !== undefined && periodEnd <= closedThrough) {
+      throw new MonieUtilsError(
+        `Period already closed through ${closedThrough.toISOString()}`,
+        'PERIOD_CLOSED',
+        { field: 'periodEnd', value: periodEnd, closedThrough }
+      );
+    }
+
+    const snapshot: PeriodSnapshot = {
+      periodEnd: new Date(periodEnd.getTime()),
+      closedAt: new Date(),
+      trialBalance: this.getTrialBalance(periodEnd),
+      entryCount: this.entries.filter(
+        entry =>
+          entry.date <= periodEnd &&
+          (closedThrough === undefined || entry.date > closedThrough)
+      ).length,
+    };
+    this.snapshots.push(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Lists period snapshots, oldest first
+   */
+  public getSnapshots(): PeriodSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  private getClosedThrough(): Date | undefined {
+    return this.snapshots[this.snapshots.length - 1]?.periodEnd;
+  }
+
+  private hasEntry(id: string): boolean {
+    return this.entries.some(entry => entry.id === id);
+  }
+
+  private requireAccount(accountId: string): LedgerAccount {
+    const account = this.accounts.get(accountId);
+    if (account === undefined) {
+      throw new MonieUtilsError(
+        `Account not found: ${accountId}`,
+        'ACCOUNT_NOT_FOUND',
+        { field: 'accountId', value: accountId }
+      );
+    }
+    return account;
+  }
+}
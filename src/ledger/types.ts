@@ -0,0 +1,156 @@
+/**
+ * Type definitions for the double-entry ledger
+ */
+
+import type { MoneyLike, Transaction } from '../types';
+import type { Money } from '../money/money';
+
+/**
+ * Account classification.
+ * Assets and expenses increase with debits; liabilities, equity and revenue
+ * increase with credits.
+ */
+export type AccountType =
+  | 'asset'
+  | 'liability'
+  | 'equity'
+  | 'revenue'
+  | 'expense';
+
+/**
+ * Ledger account
+ */
+export interface LedgerAccount {
+  /** Unique account identifier (e.g., '1000' or 'cash') */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Account classification */
+  type: AccountType;
+  /** Restricts postings to one currency when set */
+  currency?: string;
+}
+
+/**
+ * One side of a journal entry before posting
+ */
+export interface JournalLineInput {
+  /** Account to post to */
+  accountId: string;
+  /** Whether the line debits or credits the account */
+  type: Transaction['type'];
+  /** Positive amount to post */
+  amount: Money | MoneyLike;
+  /** Line description (default: the entry description) */
+  description?: string;
+  /** Optional category */
+  category?: string;
+}
+
+/**
+ * Journal entry to post
+ */
+export interface JournalEntryInput {
+  /** Unique entry identifier (default: generated, e.g. 'JE-000001') */
+  id?: string;
+  /** Accounting date */
+  date: Date;
+  /** Entry description */
+  description: string;
+  /** Debit and credit lines; debits must equal credits per currency */
+  lines: JournalLineInput[];
+}
+
+/**
+ * A posted journal line, recorded as a Transaction against one account
+ */
+export interface LedgerPosting extends Transaction {
+  /** Posted amount, kept exact in minor units */
+  amount: Money;
+  /** Account the line was posted to */
+  accountId: string;
+  /** Journal entry the line belongs to */
+  entryId: string;
+}
+
+/**
+ * A posted journal entry
+ */
+export interface JournalEntry {
+  /** Entry identifier */
+  readonly id: string;
+  /** Accounting date */
+  readonly date: Date;
+  /** Entry description */
+  readonly description: string;
+  /** Posted lines */
+  readonly postings: readonly LedgerPosting[];
+}
+
+/**
+ * Balance of one account in one currency
+ */
+export interface AccountBalance {
+  /** Account identifier */
+  accountId: string;
+  /** Account classification */
+  accountType: AccountType;
+  /** Currency code */
+  currency: string;
+  /** Sum of debits */
+  debits: Money;
+  /** Sum of credits */
+  credits: Money;
+  /** Balance on the account's normal side (debits - credits for assets and expenses) */
+  balance: Money;
+}
+
+/**
+ * A posting together with the account balance after it
+ */
+export interface RunningBalanceEntry {
+  /** The posting */
+  posting: LedgerPosting;
+  /** Account balance after the posting */
+  balance: Money;
+}
+
+/**
+ * Debit and credit totals in one currency
+ */
+export interface TrialBalanceTotal {
+  /** Currency code */
+  currency: string;
+  /** Sum of debit balances */
+  debits: Money;
+  /** Sum of credit balances */
+  credits: Money;
+}
+
+/**
+ * Trial balance of every account with postings
+ */
+export interface TrialBalance {
+  /** Date the trial balance was taken at, if limited */
+  asOf?: Date;
+  /** Account balances */
+  balances: AccountBalance[];
+  /** Totals per currency */
+  totals: TrialBalanceTotal[];
+  /** Whether debits equal credits in every currency */
+  isBalanced: boolean;
+}
+
+/**
+ * Snapshot of balances taken when a period is closed
+ */
+export interface PeriodSnapshot {
+  /** Last day included in the period */
+  periodEnd: Date;
+  /** When the period was closed */
+  closedAt: Date;
+  /** Trial balance as of the period end */
+  trialBalance: TrialBalance;
+  /** Number of entries dated within the period */
+  entryCount: number;
+}
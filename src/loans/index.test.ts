@@ -67,5 +67,17 @@ describe('loan and credit utilities', () => {
         MonieUtilsError
       );
     });
+
+    it('should report the allowed range on errors', () => {
+      expect(() => calculateLoanBalance(1000, 5, 12, 13)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_RANGE',
+          details: { field: 'paymentsMade', value: 13, min: 0, max: 12 },
+        })
+      );
+      expect(() => calculateMonthlyPayment(1000, -1, 12)).toThrow(
+        expect.objectContaining({ code: 'INVALID_RATE' })
+      );
+    });
   });
 });
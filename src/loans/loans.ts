@@ -12,15 +12,74 @@ import type {
   PayoffTimeResult,
 } from './types';
 import { isValidAmount } from '../validation/validation';
-import { roundMoney } from '../arithmetic/arithmetic';
+import {
+  roundMoney,
+  addMoney,
+  multiplyMoney,
+  subtractMoney,
+} from '../arithmetic/arithmetic';
+import { Decimal } from '../decimal';
+import { resolveRoundingPolicy } from '../rounding';
+import type { RoundingMode, RoundingPolicy } from '../rounding';
+import { getConfig, isDecimalArithmetic } from '../config/config';
 import { MonieUtilsError } from '../errors';
 
+/**
+ * Exact monthly rate (annual percentage / 1200) for the decimal engine
+ */
+function decimalMonthlyRate(rate: number): Decimal {
+  return Decimal.from(rate).div(1200, getConfig().decimalScale);
+}
+
+/**
+ * Interest accrued on a balance over one month, rounded to cents
+ *
+ * @param balance - Outstanding balance
+ * @param rate - Annual interest rate (e.g., 5 for 5%)
+ * @param policy - Rounding policy for the result
+ * @returns The monthly interest
+ */
+function monthlyInterestOn(
+  balance: number,
+  rate: number,
+  policy: RoundingPolicy
+): number {
+  if (isDecimalArithmetic()) {
+    return Decimal.from(balance)
+      .mul(decimalMonthlyRate(rate))
+      .round(2, policy)
+      .toNumber();
+  }
+
+  return roundMoney(balance * (rate / 100 / 12), 2, policy);
+}
+
+/**
+ * Divides an amount and rounds the quotient to cents
+ */
+function divideToCents(
+  amount: number,
+  divisor: number,
+  policy: RoundingPolicy
+): number {
+  if (isDecimalArithmetic()) {
+    return Decimal.from(amount)
+      .div(divisor, getConfig().decimalScale)
+      .round(2, policy)
+      .toNumber();
+  }
+
+  return roundMoney(amount / divisor, 2, policy);
+}
+
 /**
  * Calculates monthly payment for a loan
  *
  * @param principal - Loan principal amount
  * @param rate - Annual interest rate (e.g., 5 for 5%)
  * @param termMonths - Loan term in months
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Loan payment calculation result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -34,47 +93,70 @@ import { MonieUtilsError } from '../errors';
 export function calculateMonthlyPayment(
   principal: number,
   rate: number,
-  termMonths: number
+  termMonths: number,
+  roundingMode?: RoundingMode
 ): LoanPaymentResult {
   if (!isValidAmount(principal) || principal <= 0) {
     throw new MonieUtilsError(
-      `Invalid principal: ${principal}. Principal must be a positive number.`
+      `Invalid principal: ${principal}. Principal must be a positive number.`,
+      'INVALID_AMOUNT',
+      { field: 'principal', value: principal }
     );
   }
 
   if (!isValidAmount(rate) || rate < 0) {
     throw new MonieUtilsError(
-      `Invalid rate: ${rate}. Rate must be a non-negative number.`
+      `Invalid rate: ${rate}. Rate must be a non-negative number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
     );
   }
 
   if (!Number.isInteger(termMonths) || termMonths <= 0) {
     throw new MonieUtilsError(
-      `Invalid term: ${termMonths}. Term must be a positive integer.`
+      `Invalid term: ${termMonths}. Term must be a positive integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'termMonths', value: termMonths, min: 1 }
     );
   }
 
+  const policy = resolveRoundingPolicy(roundingMode);
+
   // Handle zero interest rate
   if (rate === 0) {
-    const monthlyPayment = roundMoney(principal / termMonths);
+    const monthlyPayment = divideToCents(principal, termMonths, policy);
     return {
       monthlyPayment,
       principal,
       rate,
       termMonths,
-      totalAmount: roundMoney(monthlyPayment * termMonths),
+      totalAmount: multiplyMoney(monthlyPayment, termMonths),
       totalInterest: 0,
     };
   }
 
-  const monthlyRate = rate / 100 / 12;
-  const monthlyPayment =
-    (principal * (monthlyRate * Math.pow(1 + monthlyRate, termMonths))) /
-    (Math.pow(1 + monthlyRate, termMonths) - 1);
+  let roundedPayment: number;
+
+  if (isDecimalArithmetic()) {
+    const { decimalScale } = getConfig();
+    const monthlyRate = decimalMonthlyRate(rate);
+    const growth = monthlyRate.add(1).pow(termMonths, decimalScale);
+    roundedPayment = Decimal.from(principal)
+      .mul(monthlyRate)
+      .mul(growth)
+      .div(growth.sub(1), decimalScale)
+      .round(2, policy)
+      .toNumber();
+  } else {
+    const monthlyRate = rate / 100 / 12;
+    const monthlyPayment =
+      (principal * (monthlyRate * Math.pow(1 + monthlyRate, termMonths))) /
+      (Math.pow(1 + monthlyRate, termMonths) - 1);
+    roundedPayment = roundMoney(monthlyPayment, 2, policy);
+  }
 
-  const roundedPayment = roundMoney(monthlyPayment);
-  const totalAmount = roundMoney(roundedPayment * termMonths);
-  const totalInterest = roundMoney(totalAmount - principal);
+  const totalAmount = multiplyMoney(roundedPayment, termMonths);
+  const totalInterest = subtractMoney(totalAmount, principal);
 
   return {
     monthlyPayment: roundedPayment,
@@ -93,6 +175,8 @@ export function calculateMonthlyPayment(
  * @param rate - Annual interest rate (e.g., 5 for 5%)
  * @param termMonths - Original loan term in months
  * @param paymentsMade - Number of payments made
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Loan balance calculation result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -106,23 +190,30 @@ export function calculateLoanBalance(
   principal: number,
   rate: number,
   termMonths: number,
-  paymentsMade: number
+  paymentsMade: number,
+  roundingMode?: RoundingMode
 ): LoanBalanceResult {
   if (!isValidAmount(principal) || principal <= 0) {
     throw new MonieUtilsError(
-      `Invalid principal: ${principal}. Principal must be a positive number.`
+      `Invalid principal: ${principal}. Principal must be a positive number.`,
+      'INVALID_AMOUNT',
+      { field: 'principal', value: principal }
     );
   }
 
   if (!isValidAmount(rate) || rate < 0) {
     throw new MonieUtilsError(
-      `Invalid rate: ${rate}. Rate must be a non-negative number.`
+      `Invalid rate: ${rate}. Rate must be a non-negative number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
     );
   }
 
   if (!Number.isInteger(termMonths) || termMonths <= 0) {
     throw new MonieUtilsError(
-      `Invalid term: ${termMonths}. Term must be a positive integer.`
+      `Invalid term: ${termMonths}. Term must be a positive integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'termMonths', value: termMonths, min: 1 }
     );
   }
 
@@ -132,7 +223,9 @@ export function calculateLoanBalance(
     paymentsMade > termMonths
   ) {
     throw new MonieUtilsError(
-      `Invalid payments made: ${paymentsMade}. Must be between 0 and ${termMonths}.`
+      `Invalid payments made: ${paymentsMade}. Must be between 0 and ${termMonths}.`,
+      'INVALID_RANGE',
+      { field: 'paymentsMade', value: paymentsMade, min: 0, max: termMonths }
     );
   }
 
@@ -146,15 +239,17 @@ export function calculateLoanBalance(
     };
   }
 
+  const policy = resolveRoundingPolicy(roundingMode);
   const { monthlyPayment } = calculateMonthlyPayment(
     principal,
     rate,
-    termMonths
+    termMonths,
+    policy
   );
 
   if (rate === 0) {
-    const principalPaid = roundMoney(monthlyPayment * paymentsMade);
-    const remainingBalance = roundMoney(principal - principalPaid);
+    const principalPaid = multiplyMoney(monthlyPayment, paymentsMade);
+    const remainingBalance = subtractMoney(principal, principalPaid);
 
     return {
       remainingBalance: Math.max(0, remainingBalance),
@@ -165,17 +260,32 @@ export function calculateLoanBalance(
     };
   }
 
-  const monthlyRate = rate / 100 / 12;
-  const remainingBalance =
-    (principal *
-      (Math.pow(1 + monthlyRate, termMonths) -
-        Math.pow(1 + monthlyRate, paymentsMade))) /
-    (Math.pow(1 + monthlyRate, termMonths) - 1);
+  let roundedBalance: number;
+
+  if (isDecimalArithmetic()) {
+    const { decimalScale } = getConfig();
+    const growthFactor = decimalMonthlyRate(rate).add(1);
+    const fullGrowth = growthFactor.pow(termMonths, decimalScale);
+    const elapsedGrowth = growthFactor.pow(paymentsMade, decimalScale);
+    const remainingBalance = Decimal.from(principal)
+      .mul(fullGrowth.sub(elapsedGrowth))
+      .div(fullGrowth.sub(1), decimalScale);
+    roundedBalance = remainingBalance.isNegative()
+      ? 0
+      : remainingBalance.round(2, policy).toNumber();
+  } else {
+    const monthlyRate = rate / 100 / 12;
+    const remainingBalance =
+      (principal *
+        (Math.pow(1 + monthlyRate, termMonths) -
+          Math.pow(1 + monthlyRate, paymentsMade))) /
+      (Math.pow(1 + monthlyRate, termMonths) - 1);
+    roundedBalance = roundMoney(Math.max(0, remainingBalance), 2, policy);
+  }
 
-  const roundedBalance = roundMoney(Math.max(0, remainingBalance));
-  const principalPaid = roundMoney(principal - roundedBalance);
-  const totalPaid = roundMoney(monthlyPayment * paymentsMade);
-  const interestPaid = roundMoney(totalPaid - principalPaid);
+  const principalPaid = subtractMoney(principal, roundedBalance);
+  const totalPaid = multiplyMoney(monthlyPayment, paymentsMade);
+  const interestPaid = subtractMoney(totalPaid, principalPaid);
 
   return {
     remainingBalance: roundedBalance,
@@ -192,6 +302,8 @@ export function calculateLoanBalance(
  * @param principal - Loan principal amount
  * @param rate - Annual interest rate (e.g., 5 for 5%)
  * @param termMonths - Loan term in months
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Total interest amount
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -204,9 +316,15 @@ export function calculateLoanBalance(
 export function calculateTotalInterest(
   principal: number,
   rate: number,
-  termMonths: number
+  termMonths: number,
+  roundingMode?: RoundingMode
 ): number {
-  const loanResult = calculateMonthlyPayment(principal, rate, termMonths);
+  const loanResult = calculateMonthlyPayment(
+    principal,
+    rate,
+    termMonths,
+    roundingMode
+  );
   return loanResult.totalInterest;
 }
 
@@ -216,6 +334,8 @@ export function calculateTotalInterest(
  * @param principal - Loan principal amount
  * @param rate - Annual interest rate (e.g., 5 for 5%)
  * @param termMonths - Loan term in months
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Complete amortization schedule
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -229,28 +349,31 @@ export function calculateTotalInterest(
 export function generateAmortizationSchedule(
   principal: number,
   rate: number,
-  termMonths: number
+  termMonths: number,
+  roundingMode?: RoundingMode
 ): AmortizationSchedule {
-  const summary = calculateMonthlyPayment(principal, rate, termMonths);
+  const policy = resolveRoundingPolicy(roundingMode);
+  const summary = calculateMonthlyPayment(principal, rate, termMonths, policy);
   const payments: AmortizationPayment[] = [];
 
   let remainingBalance = principal;
-  const monthlyRate = rate / 100 / 12;
 
   for (let i = 1; i <= termMonths; i++) {
     const interestAmount =
-      rate === 0 ? 0 : roundMoney(remainingBalance * monthlyRate);
-    const principalAmount = roundMoney(summary.monthlyPayment - interestAmount);
+      rate === 0 ? 0 : monthlyInterestOn(remainingBalance, rate, policy);
+    const principalAmount = subtractMoney(
+      summary.monthlyPayment,
+      interestAmount
+    );
 
     // Adjust last payment if necessary
     const actualPrincipalAmount =
       i === termMonths ? remainingBalance : principalAmount;
-    const actualPaymentAmount = roundMoney(
-      actualPrincipalAmount + interestAmount
-    );
+    const actualPaymentAmount = addMoney(actualPrincipalAmount, interestAmount);
 
-    remainingBalance = roundMoney(
-      Math.max(0, remainingBalance - actualPrincipalAmount)
+    remainingBalance = Math.max(
+      0,
+      subtractMoney(remainingBalance, actualPrincipalAmount)
     );
 
     payments.push({
@@ -273,6 +396,8 @@ export function generateAmortizationSchedule(
  *
  * @param usedCredit - Amount of credit currently used
  * @param totalCredit - Total credit limit available
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Credit utilization result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -285,28 +410,40 @@ export function generateAmortizationSchedule(
  */
 export function calculateCreditUtilization(
   usedCredit: number,
-  totalCredit: number
+  totalCredit: number,
+  roundingMode?: RoundingMode
 ): CreditUtilizationResult {
   if (!isValidAmount(usedCredit) || usedCredit < 0) {
     throw new MonieUtilsError(
-      `Invalid used credit: ${usedCredit}. Must be a non-negative number.`
+      `Invalid used credit: ${usedCredit}. Must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'usedCredit', value: usedCredit, min: 0 }
     );
   }
 
   if (!isValidAmount(totalCredit) || totalCredit <= 0) {
     throw new MonieUtilsError(
-      `Invalid total credit: ${totalCredit}. Must be a positive number.`
+      `Invalid total credit: ${totalCredit}. Must be a positive number.`,
+      'INVALID_AMOUNT',
+      { field: 'totalCredit', value: totalCredit }
     );
   }
 
   if (usedCredit > totalCredit) {
     throw new MonieUtilsError(
-      `Used credit (${usedCredit}) cannot exceed total credit (${totalCredit}).`
+      `Used credit (${usedCredit}) cannot exceed total credit (${totalCredit}).`,
+      'INVALID_RANGE',
+      { field: 'usedCredit', value: usedCredit, max: totalCredit }
     );
   }
 
-  const utilizationPercentage = roundMoney((usedCredit / totalCredit) * 100);
-  const availableCredit = roundMoney(totalCredit - usedCredit);
+  const policy = resolveRoundingPolicy(roundingMode);
+  const utilizationPercentage = roundMoney(
+    (usedCredit / totalCredit) * 100,
+    2,
+    policy
+  );
+  const availableCredit = roundMoney(totalCredit - usedCredit, 2, policy);
 
   let riskLevel: 'low' | 'medium' | 'high';
   if (utilizationPercentage <= 10) {
@@ -332,6 +469,8 @@ export function calculateCreditUtilization(
  * @param balance - Current credit card balance
  * @param rate - Annual interest rate (e.g., 18 for 18%)
  * @param minimumRate - Minimum payment rate (e.g., 2 for 2%)
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Minimum payment calculation result
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -345,36 +484,52 @@ export function calculateCreditUtilization(
 export function calculateMinimumPayment(
   balance: number,
   rate: number,
-  minimumRate: number
+  minimumRate: number,
+  roundingMode?: RoundingMode
 ): MinimumPaymentResult {
   if (!isValidAmount(balance) || balance < 0) {
     throw new MonieUtilsError(
-      `Invalid balance: ${balance}. Balance must be a non-negative number.`
+      `Invalid balance: ${balance}. Balance must be a non-negative number.`,
+      'INVALID_AMOUNT',
+      { field: 'balance', value: balance, min: 0 }
     );
   }
 
   if (!isValidAmount(rate) || rate < 0) {
     throw new MonieUtilsError(
-      `Invalid rate: ${rate}. Rate must be a non-negative number.`
+      `Invalid rate: ${rate}. Rate must be a non-negative number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
     );
   }
 
   if (!isValidAmount(minimumRate) || minimumRate <= 0 || minimumRate > 100) {
     throw new MonieUtilsError(
-      `Invalid minimum rate: ${minimumRate}. Must be between 0 and 100.`
+      `Invalid minimum rate: ${minimumRate}. Must be between 0 and 100.`,
+      'INVALID_PERCENTAGE',
+      { field: 'minimumRate', value: minimumRate, min: 0, max: 100 }
     );
   }
 
-  const monthlyInterestRate = rate / 100 / 12;
-  const interestPortion = roundMoney(balance * monthlyInterestRate);
-  const minimumBasedOnRate = roundMoney((balance * minimumRate) / 100);
+  const policy = resolveRoundingPolicy(roundingMode);
+  const interestPortion = monthlyInterestOn(balance, rate, policy);
+  const minimumBasedOnRate = isDecimalArithmetic()
+    ? Decimal.from(balance)
+        .mul(minimumRate)
+        .div(100, getConfig().decimalScale)
+        .round(2, policy)
+        .toNumber()
+    : roundMoney((balance * minimumRate) / 100, 2, policy);
 
   // Minimum payment is the higher of: minimum rate calculation or interest + $15
-  const minimumPayment = Math.max(minimumBasedOnRate, interestPortion + 15);
-  const principalPortion = roundMoney(minimumPayment - interestPortion);
+  const minimumPayment = Math.max(
+    minimumBasedOnRate,
+    addMoney(interestPortion, 15)
+  );
+  const principalPortion = subtractMoney(minimumPayment, interestPortion);
 
   return {
-    minimumPayment: roundMoney(minimumPayment),
+    minimumPayment: roundMoney(minimumPayment, 2, policy),
     balance,
     interestRate: rate,
     minimumRate,
@@ -389,6 +544,8 @@ export function calculateMinimumPayment(
  * @param balance - Current debt balance
  * @param payment - Monthly payment amount
  * @param rate - Annual interest rate (e.g., 18 for 18%)
+ * @param roundingMode - Rounding policy for the results (default: the
+ * configured rounding mode)
  * @returns Payoff time calculation result
  *
  * @throws {MonieUtilsError} When inputs are invalid or payment is too low
@@ -402,23 +559,30 @@ export function calculateMinimumPayment(
 export function calculatePayoffTime(
   balance: number,
   payment: number,
-  rate: number
+  rate: number,
+  roundingMode?: RoundingMode
 ): PayoffTimeResult {
   if (!isValidAmount(balance) || balance <= 0) {
     throw new MonieUtilsError(
-      `Invalid balance: ${balance}. Balance must be a positive number.`
+      `Invalid balance: ${balance}. Balance must be a positive number.`,
+      'INVALID_AMOUNT',
+      { field: 'balance', value: balance }
     );
   }
 
   if (!isValidAmount(payment) || payment <= 0) {
     throw new MonieUtilsError(
-      `Invalid payment: ${payment}. Payment must be a positive number.`
+      `Invalid payment: ${payment}. Payment must be a positive number.`,
+      'INVALID_AMOUNT',
+      { field: 'payment', value: payment }
     );
   }
 
   if (!isValidAmount(rate) || rate < 0) {
     throw new MonieUtilsError(
-      `Invalid rate: ${rate}. Rate must be a non-negative number.`
+      `Invalid rate: ${rate}. Rate must be a non-negative number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, min: 0 }
     );
   }
 
@@ -427,17 +591,21 @@ export function calculatePayoffTime(
 
   if (payment <= monthlyInterest) {
     throw new MonieUtilsError(
-      `Payment (${payment}) must be greater than monthly interest (${roundMoney(monthlyInterest)}).`
+      `Payment (${payment}) must be greater than monthly interest (${roundMoney(monthlyInterest)}).`,
+      'INVALID_RANGE',
+      { field: 'payment', value: payment, min: roundMoney(monthlyInterest) }
     );
   }
 
+  const policy = resolveRoundingPolicy(roundingMode);
+
   if (rate === 0) {
     const monthsToPayoff = Math.ceil(balance / payment);
-    const totalAmountPaid = roundMoney(payment * monthsToPayoff);
+    const totalAmountPaid = multiplyMoney(payment, monthsToPayoff);
 
     return {
       monthsToPayoff,
-      yearsToPayoff: roundMoney(monthsToPayoff / 12),
+      yearsToPayoff: divideToCents(monthsToPayoff, 12, policy),
       totalInterestPaid: 0,
       totalAmountPaid,
       monthlyPayment: payment,
@@ -447,12 +615,12 @@ export function calculatePayoffTime(
   const monthsToPayoff = Math.ceil(
     -Math.log(1 - (balance * monthlyRate) / payment) / Math.log(1 + monthlyRate)
   );
-  const totalAmountPaid = roundMoney(payment * monthsToPayoff);
-  const totalInterestPaid = roundMoney(totalAmountPaid - balance);
+  const totalAmountPaid = multiplyMoney(payment, monthsToPayoff);
+  const totalInterestPaid = subtractMoney(totalAmountPaid, balance);
 
   return {
     monthsToPayoff,
-    yearsToPayoff: roundMoney(monthsToPayoff / 12),
+    yearsToPayoff: divideToCents(monthsToPayoff, 12, policy),
     totalInterestPaid,
     totalAmountPaid,
     monthlyPayment: payment,
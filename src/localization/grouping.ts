@@ -0,0 +1,172 @@
+/**
+ * Digit grouping shared by the number formatters
+ */
+
+import type { GroupingStrategy, GroupingOptions } from './types';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Options for formatting a number with grouping
+ */
+export interface GroupedNumberOptions extends GroupingOptions {
+  /** Locale supplying digits, separators and default grouping */
+  locale: string;
+  /** Minimum fraction digits */
+  minimumFractionDigits?: number;
+  /** Maximum fraction digits */
+  maximumFractionDigits?: number;
+}
+
+const GROUP_SIZES: Record<Exclude<GroupingStrategy, number[]>, number[]> = {
+  standard: [3],
+  indian: [3, 2],
+  none: [],
+};
+
+/**
+ * Resolves a grouping strategy to group sizes, rightmost group first; the
+ * last size repeats
+ *
+ * @param grouping - Grouping strategy
+ * @returns Group sizes, or undefined to keep the locale's grouping
+ *
+ * @throws {MonieUtilsError} When the strategy is unknown or a custom size is
+ * not a positive whole number
+ */
+export function resolveGroupSizes(
+  grouping: GroupingStrategy | undefined
+): number[] | undefined {
+  if (grouping === undefined) {
+    return undefined;
+  }
+
+  if (Array.isArray(grouping)) {
+    if (
+      grouping.length === 0 ||
+      !grouping.every(size => Number.isInteger(size) && size > 0)
+    ) {
+      throw new MonieUtilsError(
+        `Invalid grouping: [${grouping.join(', ')}]. Group sizes must be positive whole numbers.`,
+        'INVALID_ARGUMENT',
+        { field: 'grouping', value: grouping }
+      );
+    }
+    return grouping;
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(GROUP_SIZES, grouping)) {
+    throw new MonieUtilsError(
+      `Invalid grouping: ${grouping}`,
+      'INVALID_ARGUMENT',
+      { field: 'grouping', value: grouping, allowed: Object.keys(GROUP_SIZES) }
+    );
+  }
+
+  return GROUP_SIZES[grouping];
+}
+
+/**
+ * Splits a run of integer digits into groups
+ *
+ * @param digits - Integer digits
+ * @param sizes - Group sizes, rightmost group first; the last size repeats
+ * @param separator - Group separator
+ * @returns The grouped digits
+ *
+ * @example
+ * ```typescript
+ * groupDigits('1234567', [3, 2], ',') // "12,34,567"
+ * ```
+ */
+export function groupDigits(
+  digits: string,
+  sizes: readonly number[],
+  separator: string
+): string {
+  const chars = [...digits];
+  const groups: string[] = [];
+  let end = chars.length;
+
+  for (let i = 0; sizes.length > 0 && end > 0; i++) {
+    const size = sizes[Math.min(i, sizes.length - 1)];
+    const start = Math.max(0, end - size);
+    groups.unshift(chars.slice(start, end).join(''));
+    end = start;
+  }
+
+  if (end > 0) {
+    groups.unshift(chars.slice(0, end).join(''));
+  }
+
+  return groups.join(separator);
+}
+
+/**
+ * Formats a number with the locale's digits and separators, applying a
+ * grouping strategy and custom separators when given
+ *
+ * @param value - The number
+ * @param options - Locale, grouping, separators and fraction digits
+ * @returns The formatted number
+ *
+ * @throws {MonieUtilsError} When the grouping strategy is invalid
+ * @throws {RangeError} When the locale is malformed
+ */
+export function formatGroupedNumber(
+  value: number,
+  options: GroupedNumberOptions
+): string {
+  const { locale, separator, decimalSeparator } = options;
+  const sizes = resolveGroupSizes(options.grouping);
+  const formatter = new Intl.NumberFormat(locale, {
+    useGrouping: true,
+    ...(options.minimumFractionDigits !== undefined && {
+      minimumFractionDigits: options.minimumFractionDigits,
+    }),
+    ...(options.maximumFractionDigits !== undefined && {
+      maximumFractionDigits: options.maximumFractionDigits,
+    }),
+  });
+  const parts = formatter.formatToParts(value);
+
+  if (sizes === undefined) {
+    return parts
+      .map(part => {
+        if (part.type === 'group') {
+          return separator ?? part.value;
+        }
+        if (part.type === 'decimal') {
+          return decimalSeparator ?? part.value;
+        }
+        return part.value;
+      })
+      .join('');
+  }
+
+  const groupSeparator =
+    separator ??
+    formatter.formatToParts(1234567).find(part => part.type === 'group')
+      ?.value ??
+    ',';
+  const digits = parts
+    .filter(part => part.type === 'integer')
+    .map(part => part.value)
+    .join('');
+  let formatted = '';
+  let placed = false;
+
+  for (const part of parts) {
+    if (part.type === 'integer' || part.type === 'group') {
+      if (!placed) {
+        formatted += groupDigits(digits, sizes, groupSeparator);
+        placed = true;
+      }
+    } else if (part.type === 'decimal') {
+      formatted += decimalSeparator ?? part.value;
+    } else {
+      formatted += part.value;
+    }
+  }
+
+  return formatted;
+}
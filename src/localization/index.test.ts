@@ -22,6 +22,25 @@ describe('localization utilities', () => {
       expect(result).toContain('1.234,56');
     });
 
+    it('should follow the locale currency pattern', () => {
+      expect(formatCurrencyByLocale(12345.67, 'EUR', 'es-ES')).toBe(
+        '12.345,67\u00a0€'
+      );
+      expect(
+        formatCurrencyByLocale(12345.67, 'EUR', 'es-ES', {
+          symbolPosition: 'start',
+        })
+      ).toBe('€12.345,67');
+    });
+
+    it('should pass sign options through', () => {
+      expect(
+        formatCurrencyByLocale(-5, 'EUR', 'fr-FR', {
+          signDisplay: 'accounting',
+        })
+      ).toBe('(5,00\u00a0€)');
+    });
+
     it('should throw error for invalid amount', () => {
       expect(() => formatCurrencyByLocale(NaN, 'USD', 'en-US')).toThrow(
         MonieUtilsError
@@ -49,6 +68,25 @@ describe('localization utilities', () => {
       expect(result.hasGrouping).toBe(true);
     });
 
+    it('should apply grouping strategies and separators', () => {
+      expect(
+        formatWithGrouping(1234567.89, 'en-US', { grouping: 'indian' })
+          .formatted
+      ).toBe('12,34,567.89');
+      expect(
+        formatWithGrouping(1234567.89, 'de-DE', {
+          separator: "'",
+          decimalSeparator: '.',
+        }).formatted
+      ).toBe("1'234'567.89");
+
+      const ungrouped = formatWithGrouping(1234567.89, 'en-US', {
+        grouping: 'none',
+      });
+      expect(ungrouped.formatted).toBe('1234567.89');
+      expect(ungrouped.hasGrouping).toBe(false);
+    });
+
     it('should throw error for invalid amount', () => {
       expect(() => formatWithGrouping(Infinity)).toThrow(MonieUtilsError);
     });
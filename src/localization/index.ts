@@ -4,7 +4,7 @@
  * This module provides localization utilities including:
  * - Locale-specific currency formatting
  * - Currency information by locale
- * - Number grouping separators
+ * - Number grouping with standard, Indian or custom group sizes
  * - Decimal place formatting
  *
  * @example
@@ -33,6 +33,8 @@ export {
 export type {
   LocaleFormatOptions,
   LocaleCurrencyInfo,
+  GroupingStrategy,
+  GroupingOptions,
   FormattedWithGrouping,
   FormattedDecimalPlaces,
 } from './types';
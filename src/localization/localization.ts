@@ -7,9 +7,11 @@ import type {
   LocaleCurrencyInfo,
   FormattedWithGrouping,
   FormattedDecimalPlaces,
+  GroupingOptions,
 } from './types';
 import { LOCALE_CURRENCY_MAP } from './constants';
-import { MonieUtilsError } from '../errors';
+import { formatGroupedNumber } from './grouping';
+import { MonieUtilsError, isMonieUtilsError } from '../errors';
 import { formatCurrency } from '../formatCurrency';
 
 /**
@@ -42,6 +44,7 @@ function isValidLocale(locale: string): boolean {
  * ```typescript
  * formatCurrencyByLocale(1234.56, 'USD', 'en-US') // "$1,234.56"
  * formatCurrencyByLocale(1234.56, 'EUR', 'de-DE') // "1.234,56 €"
+ * formatCurrencyByLocale(-5, 'EUR', 'fr-FR', { signDisplay: 'accounting' }) // "(5,00 €)"
  * ```
  */
 export function formatCurrencyByLocale(
@@ -52,19 +55,25 @@ export function formatCurrencyByLocale(
 ): string {
   if (typeof amount !== 'number' || !Number.isFinite(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!currency || typeof currency !== 'string') {
     throw new MonieUtilsError(
-      `Invalid currency: ${currency}. Currency must be a valid string.`
+      `Invalid currency: ${currency}. Currency must be a valid string.`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
     );
   }
 
   if (!isValidLocale(locale)) {
     throw new MonieUtilsError(
-      `Invalid locale: ${locale}. Locale must be a valid locale string.`
+      `Invalid locale: ${locale}. Locale must be a valid locale string.`,
+      'INVALID_LOCALE',
+      { field: 'locale', value: locale }
     );
   }
 
@@ -79,6 +88,14 @@ export function formatCurrencyByLocale(
   if (options.showCode !== undefined) formatOptions.showCode = options.showCode;
   if (options.symbolPosition !== undefined)
     formatOptions.symbolPosition = options.symbolPosition;
+  if (options.signDisplay !== undefined)
+    formatOptions.signDisplay = options.signDisplay;
+  if (options.negativePattern !== undefined)
+    formatOptions.negativePattern = options.negativePattern;
+  if (options.positivePattern !== undefined)
+    formatOptions.positivePattern = options.positivePattern;
+  if (options.zeroPattern !== undefined)
+    formatOptions.zeroPattern = options.zeroPattern;
 
   const result = formatCurrency(amount, currency, formatOptions);
   return result.formatted;
@@ -101,14 +118,18 @@ export function formatCurrencyByLocale(
 export function getLocaleCurrencyInfo(locale: string): LocaleCurrencyInfo {
   if (!locale || typeof locale !== 'string') {
     throw new MonieUtilsError(
-      `Invalid locale: ${locale}. Locale must be a valid string.`
+      `Invalid locale: ${locale}. Locale must be a valid string.`,
+      'INVALID_LOCALE',
+      { field: 'locale', value: locale }
     );
   }
 
   const currencyInfo = LOCALE_CURRENCY_MAP[locale];
   if (!currencyInfo) {
     throw new MonieUtilsError(
-      `Unsupported locale: ${locale}. Check the locale code.`
+      `Unsupported locale: ${locale}. Check the locale code.`,
+      'INVALID_LOCALE',
+      { field: 'locale', value: locale }
     );
   }
 
@@ -120,49 +141,57 @@ export function getLocaleCurrencyInfo(locale: string): LocaleCurrencyInfo {
  *
  * @param amount - The amount to format
  * @param locale - The locale for formatting (defaults to 'en-US')
+ * @param options - Grouping strategy and separators (default: the locale's)
  * @returns Formatted number with grouping information
  *
- * @throws {MonieUtilsError} When amount is invalid or locale is unsupported
+ * @throws {MonieUtilsError} When amount, locale or grouping is invalid
  *
  * @example
  * ```typescript
  * formatWithGrouping(1234567.89) // "1,234,567.89"
  * formatWithGrouping(1234567.89, 'de-DE') // "1.234.567,89"
+ * formatWithGrouping(1234567.89, 'en-US', { grouping: 'indian' }) // "12,34,567.89"
+ * formatWithGrouping(1234567.89, 'en-US', { separator: "'", decimalSeparator: ',' }) // "1'234'567,89"
  * ```
  */
 export function formatWithGrouping(
   amount: number,
-  locale: string = 'en-US'
+  locale: string = 'en-US',
+  options: GroupingOptions = {}
 ): FormattedWithGrouping {
   if (typeof amount !== 'number' || !Number.isFinite(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
   if (!isValidLocale(locale)) {
     throw new MonieUtilsError(
-      `Invalid locale: ${locale}. Locale must be a valid locale string.`
+      `Invalid locale: ${locale}. Locale must be a valid locale string.`,
+      'INVALID_LOCALE',
+      { field: 'locale', value: locale }
     );
   }
 
   try {
-    const formatter = new Intl.NumberFormat(locale, {
-      style: 'decimal',
-      useGrouping: true,
-    });
-
-    const formatted = formatter.format(amount);
+    const formatted = formatGroupedNumber(amount, { ...options, locale });
 
     return {
       formatted,
       amount,
       locale,
-      hasGrouping: true,
+      hasGrouping: options.grouping !== 'none',
     };
   } catch (error) {
+    if (isMonieUtilsError(error)) {
+      throw error;
+    }
     throw new MonieUtilsError(
-      `Failed to format with grouping: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to format with grouping: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'FORMATTING_FAILED',
+      { field: 'amount', value: amount }
     );
   }
 }
@@ -188,7 +217,9 @@ export function formatDecimalPlaces(
 ): FormattedDecimalPlaces {
   if (typeof amount !== 'number' || !Number.isFinite(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
@@ -198,7 +229,9 @@ export function formatDecimalPlaces(
     !Number.isInteger(decimalPlaces)
   ) {
     throw new MonieUtilsError(
-      `Invalid decimal places: ${decimalPlaces}. Must be a non-negative integer.`
+      `Invalid decimal places: ${decimalPlaces}. Must be a non-negative integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'decimalPlaces', value: decimalPlaces, min: 0 }
     );
   }
 
@@ -212,7 +245,9 @@ export function formatDecimalPlaces(
     };
   } catch (error) {
     throw new MonieUtilsError(
-      `Failed to format decimal places: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to format decimal places: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'FORMATTING_FAILED',
+      { field: 'amount', value: amount }
     );
   }
 }
@@ -2,20 +2,45 @@
  * Type definitions for localization utilities
  */
 
+import type { CurrencySignOptions } from '../formatCurrency/types';
+
 /**
  * Options for locale-based formatting
  */
-export interface LocaleFormatOptions {
+export interface LocaleFormatOptions extends CurrencySignOptions {
   /** Whether to use grouping separators (default: true) */
   useGrouping?: boolean;
   /** Custom currency symbol */
   customSymbol?: string;
   /** Whether to show currency code instead of symbol */
   showCode?: boolean;
-  /** Position of currency symbol */
+  /** Position of currency symbol (default: the locale's placement) */
   symbolPosition?: 'start' | 'end';
 }
 
+/**
+ * How integer digits are grouped
+ *
+ * - `standard`: groups of three (1,234,567)
+ * - `indian`: three, then groups of two (12,34,567)
+ * - `none`: no grouping (1234567)
+ * - `number[]`: custom sizes, rightmost group first; the last size repeats
+ *   (`[4]` gives 123,4567)
+ */
+export type GroupingStrategy = 'standard' | 'indian' | 'none' | number[];
+
+/**
+ * Options for digit grouping and separators
+ */
+export interface GroupingOptions {
+  /** Grouping strategy (default: the locale's grouping) */
+  grouping?: GroupingStrategy;
+  /** Group separator (default: the locale's) */
+  separator?: string;
+  /** Decimal separator (default: the locale's) */
+  decimalSeparator?: string;
+}
+
 /**
  * Currency information for a specific locale
  */
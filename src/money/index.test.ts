@@ -0,0 +1,389 @@
+/**
+ * Tests for the Money value object
+ */
+
+import {
+  Money,
+  MoneyBag,
+  convertMoneyItems,
+  convertMoneyItemsAsync,
+} from './index';
+import type { MoneyConversionLine } from './index';
+import { InMemoryRateProvider } from '../rates';
+import { MonieUtilsError } from '../errors';
+import { validateMoneyObject } from '../validation';
+
+describe('Money', () => {
+  describe('creation', () => {
+    it('should store amounts as integer minor units', () => {
+      const money = Money.of(12.34, 'USD');
+      expect(money.minorUnits).toBe(BigInt(1234));
+      expect(money.amount).toBe(12.34);
+      expect(money.currency).toBe('USD');
+    });
+
+    it('should respect currency decimal places', () => {
+      expect(Money.of(1000, 'JPY').minorUnits).toBe(BigInt(1000));
+      expect(Money.of('0.00012345', 'BTC').minorUnits).toBe(BigInt(12345));
+    });
+
+    it('should create from minor units and plain objects', () => {
+      expect(Money.fromMinorUnits(1234, 'usd').toString()).toBe('12.34 USD');
+      expect(Money.from({ amount: 5.5, currency: 'EUR' }).toString()).toBe(
+        '5.50 EUR'
+      );
+      expect(Money.zero('NGN').isZero()).toBe(true);
+    });
+
+    it('should reject amounts with more precision than the currency supports', () => {
+      expect(() => Money.of(1.005, 'USD')).toThrow(MonieUtilsError);
+      expect(() => Money.of(10.5, 'JPY')).toThrow(MonieUtilsError);
+      expect(Money.of('1.500', 'USD').toString()).toBe('1.50 USD');
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => Money.of(NaN, 'USD')).toThrow(MonieUtilsError);
+      expect(() => Money.of('abc', 'USD')).toThrow(MonieUtilsError);
+      expect(() => Money.of(1, 'INVALID')).toThrow(MonieUtilsError);
+      expect(() => Money.fromMinorUnits(1.5, 'USD')).toThrow(MonieUtilsError);
+    });
+
+    it('should be immutable', () => {
+      const money = Money.of(10, 'USD');
+      money.add(Money.of(5, 'USD'));
+      expect(money.amount).toBe(10);
+      expect(Object.isFrozen(money)).toBe(true);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should add and subtract without float drift', () => {
+      const result = Money.of(0.1, 'USD').add(Money.of(0.2, 'USD'));
+      expect(result.amount).toBe(0.3);
+      expect(
+        Money.of(100.75, 'USD').subtract(Money.of(25.25, 'USD')).amount
+      ).toBe(75.5);
+    });
+
+    it('should chain operations', () => {
+      const total = Money.of('19.99', 'USD')
+        .multiply(3)
+        .add(Money.of(5, 'USD'));
+      expect(total.toString()).toBe('64.97 USD');
+    });
+
+    it('should round multiplication and division half away from zero', () => {
+      expect(Money.of(10, 'USD').multiply(0.0825).amount).toBe(0.83);
+      expect(Money.of(-10, 'USD').multiply(0.0825).amount).toBe(-0.83);
+      expect(Money.of(100, 'USD').divide(3).amount).toBe(33.33);
+      expect(Money.of(2, 'USD').divide(3).amount).toBe(0.67);
+    });
+
+    it('should throw when dividing by zero', () => {
+      expect(() => Money.of(10, 'USD').divide(0)).toThrow(
+        'Cannot divide by zero'
+      );
+    });
+
+    it('should refuse mixed currencies', () => {
+      const usd = Money.of(10, 'USD');
+      const eur = Money.of(10, 'EUR');
+      expect(() => usd.add(eur)).toThrow('Currency mismatch');
+      expect(() => usd.subtract(eur)).toThrow(MonieUtilsError);
+      expect(() => usd.compare(eur)).toThrow(MonieUtilsError);
+      expect(usd.equals(eur)).toBe(false);
+    });
+
+    it('should tag currency mismatches with both currencies', () => {
+      expect(() => Money.of(10, 'USD').add(Money.of(10, 'EUR'))).toThrow(
+        expect.objectContaining({
+          code: 'CURRENCY_MISMATCH',
+          details: { expected: 'USD', actual: 'EUR' },
+        })
+      );
+    });
+  });
+
+  describe('allocate', () => {
+    it('should allocate without losing minor units', () => {
+      const shares = Money.of(100, 'USD').allocate([1, 1, 1]);
+      expect(shares.map(share => share.amount)).toEqual([33.34, 33.33, 33.33]);
+    });
+
+    it('should allocate by ratio', () => {
+      const shares = Money.of(5, 'USD').allocate([70, 30]);
+      expect(shares.map(share => share.amount)).toEqual([3.5, 1.5]);
+    });
+
+    it('should skip zero ratios when handing out remainders', () => {
+      const shares = Money.of(1, 'JPY').allocate([0, 1, 1]);
+      expect(shares.map(share => share.amount)).toEqual([0, 1, 0]);
+    });
+
+    it('should allocate negative amounts', () => {
+      const shares = Money.of(-0.05, 'USD').allocate([1, 1]);
+      expect(shares.map(share => share.amount)).toEqual([-0.03, -0.02]);
+    });
+
+    it('should accept an allocation strategy', () => {
+      const shares = Money.of(100, 'USD').allocate([1, 1, 1], {
+        strategy: 'last',
+      });
+      expect(shares.map(share => share.amount)).toEqual([33.33, 33.33, 33.34]);
+    });
+
+    it('should reject invalid ratios', () => {
+      expect(() => Money.of(1, 'USD').allocate([])).toThrow(MonieUtilsError);
+      expect(() => Money.of(1, 'USD').allocate([0, 0])).toThrow(
+        MonieUtilsError
+      );
+      expect(() => Money.of(1, 'USD').allocate([-1, 2])).toThrow(
+        MonieUtilsError
+      );
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare amounts in the same currency', () => {
+      const small = Money.of(5, 'USD');
+      const large = Money.of(10, 'USD');
+      expect(small.compare(large)).toBe(-1);
+      expect(large.compare(small)).toBe(1);
+      expect(small.compare(Money.of(5, 'USD'))).toBe(0);
+      expect(small.lessThan(large)).toBe(true);
+      expect(large.greaterThanOrEqual(small)).toBe(true);
+    });
+
+    it('should report sign helpers', () => {
+      const negative = Money.of(-5, 'USD');
+      expect(negative.isNegative()).toBe(true);
+      expect(negative.abs().isPositive()).toBe(true);
+      expect(negative.negate().amount).toBe(5);
+    });
+  });
+
+  describe('interop', () => {
+    it('should format with formatCurrency', () => {
+      expect(Money.of(1234.56, 'USD').format()).toBe('$1,234.56');
+      expect(Money.of(1234.56, 'EUR').format({ locale: 'de-DE' })).toContain(
+        '1.234,56'
+      );
+    });
+
+    it('should convert with convertCurrency and round to target minor units', () => {
+      const yen = Money.of(10.01, 'USD').convert('JPY', 110.5);
+      expect(yen.currency).toBe('JPY');
+      expect(yen.amount).toBe(1106);
+    });
+
+    it('should pass validateMoneyObject and serialize to JSON', () => {
+      const money = Money.of(12.3, 'GBP');
+      expect(validateMoneyObject(money)).toBe(true);
+      expect(JSON.parse(JSON.stringify(money))).toEqual({
+        amount: 12.3,
+        currency: 'GBP',
+      });
+      expect(money.toDecimalString()).toBe('12.30');
+    });
+  });
+});
+
+describe('MoneyBag', () => {
+  const cart = MoneyBag.of(
+    Money.of('19.99', 'USD'),
+    Money.of(15, 'EUR'),
+    Money.of(2500, 'NGN')
+  ).add(Money.of('5.01', 'USD'));
+
+  describe('subtotals', () => {
+    it('should keep one subtotal per currency', () => {
+      expect(cart.currencies).toEqual(['USD', 'EUR', 'NGN']);
+      expect(cart.get('usd').toString()).toBe('25.00 USD');
+      expect(cart.get('GBP').isZero()).toBe(true);
+      expect(cart.has('EUR')).toBe(true);
+      expect(cart.has('GBP')).toBe(false);
+      expect(cart.toJSON()).toEqual([
+        { amount: 25, currency: 'USD' },
+        { amount: 15, currency: 'EUR' },
+        { amount: 2500, currency: 'NGN' },
+      ]);
+      expect(cart.toString()).toBe('25.00 USD + 15.00 EUR + 2500.00 NGN');
+    });
+
+    it('should be immutable', () => {
+      const more = cart.add(Money.of(5, 'EUR'));
+      expect(more.get('EUR').amount).toBe(20);
+      expect(cart.get('EUR').amount).toBe(15);
+      expect(Object.isFrozen(cart)).toBe(true);
+    });
+
+    it('should subtract money and bags, dropping zero subtotals', () => {
+      const refund = MoneyBag.of(Money.of(15, 'EUR'), Money.of(5, 'USD'));
+      const remaining = cart.subtract(refund);
+
+      expect(remaining.currencies).toEqual(['USD', 'NGN']);
+      expect(remaining.get('USD').amount).toBe(20);
+      expect(cart.subtract(cart).isEmpty()).toBe(true);
+      expect(
+        MoneyBag.empty().subtract(Money.of(1, 'USD')).get('USD').amount
+      ).toBe(-1);
+    });
+
+    it('should reject non-money values', () => {
+      expect(() => cart.add({ amount: 1, currency: 'USD' } as never)).toThrow(
+        MonieUtilsError
+      );
+      expect(() => cart.get('XYZ')).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('convertTo', () => {
+    it('should collapse into one currency and report the rates used', () => {
+      const result = cart.convertTo('USD', { EUR: 1.08, NGN: 0.00065 });
+
+      expect(result.total.toString()).toBe('42.83 USD');
+      expect(result.lines.map(line => line.converted.toString())).toEqual([
+        '25.00 USD',
+        '16.20 USD',
+        '1.63 USD',
+      ]);
+      expect(result.rates).toEqual([
+        { from: 'EUR', to: 'USD', rate: 1.08, timestamp: expect.any(Date) },
+        { from: 'NGN', to: 'USD', rate: 0.00065, timestamp: expect.any(Date) },
+      ]);
+    });
+
+    it('should use built-in rates only without a rate source', () => {
+      const result = MoneyBag.of(
+        Money.of(100, 'USD'),
+        Money.of(100, 'EUR')
+      ).convertTo('EUR');
+
+      expect(result.total.toString()).toBe('185.00 EUR');
+      expect(result.rates[0]).toMatchObject({ from: 'USD', rate: 0.85 });
+    });
+
+    it('should throw for currencies a rate table or function lacks', () => {
+      const bag = MoneyBag.of(
+        Money.of(100, 'USD'),
+        Money.of(100, 'EUR'),
+        Money.of(1000, 'NGN')
+      );
+
+      expect(() => bag.convertTo('USD', { EUR: 1.1 })).toThrow(
+        expect.objectContaining({
+          code: 'EXCHANGE_RATE_NOT_FOUND',
+          details: { from: 'NGN', to: 'USD' },
+        })
+      );
+      expect(() =>
+        bag.convertTo('USD', from => (from === 'EUR' ? 1.1 : undefined))
+      ).toThrow(expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' }));
+    });
+
+    it('should throw for unavailable or invalid rates', () => {
+      expect(() => cart.convertTo('CHF')).toThrow(
+        expect.objectContaining({ code: 'EXCHANGE_RATE_NOT_FOUND' })
+      );
+      expect(() => cart.convertTo('USD', { EUR: -1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_RATE' })
+      );
+    });
+  });
+});
+
+describe('convertMoneyItems', () => {
+  const rates = new InMemoryRateProvider({
+    EUR: { USD: 1.085 },
+    NGN: { USD: 0.00065 },
+  });
+  const fee = Money.of('0.05', 'EUR');
+  const items = [fee, Money.of(2500, 'NGN'), fee, Money.of(5, 'USD'), fee];
+
+  it('should round each line and reconcile against the subtotals', () => {
+    const result = convertMoneyItems(items, 'USD', rates);
+
+    expect(result.count).toBe(5);
+    expect(result.lines.map(line => line.converted.toString())).toEqual([
+      '0.05 USD',
+      '1.63 USD',
+      '0.05 USD',
+      '5.00 USD',
+      '0.05 USD',
+    ]);
+    expect(result.lines[1]).toMatchObject({
+      index: 1,
+      rate: 0.00065,
+      path: ['NGN', 'USD'],
+    });
+    expect(result.total.toString()).toBe('6.78 USD');
+    expect(
+      result.subtotals.map(({ original, converted }) => [
+        original.toString(),
+        converted.toString(),
+      ])
+    ).toEqual([
+      ['0.15 EUR', '0.16 USD'],
+      ['2500.00 NGN', '1.63 USD'],
+      ['5.00 USD', '5.00 USD'],
+    ]);
+    expect(result.convertedTotal.toString()).toBe('6.79 USD');
+    expect(result.roundingDifference.toString()).toBe('-0.01 USD');
+    expect(result.rates.map(({ from, rate }) => [from, rate])).toEqual([
+      ['EUR', 1.085],
+      ['NGN', 0.00065],
+    ]);
+  });
+
+  it('should accept generators and a rounding mode', () => {
+    function* generate(): Generator<Money> {
+      yield* items;
+    }
+
+    const result = convertMoneyItems(generate(), 'USD', rates, {
+      roundingMode: 'ceiling',
+    });
+
+    expect(result.total.toString()).toBe('6.81 USD');
+    expect(convertMoneyItems([], 'JPY').total.toString()).toBe('0 JPY');
+  });
+
+  it('should stream lines from async iterables', async () => {
+    const feed = {
+      getRate: jest.fn(async (from: string, to: string) =>
+        rates.getRate(from, to)
+      ),
+    };
+    async function* generate(): AsyncGenerator<Money> {
+      yield* items;
+    }
+    const seen: MoneyConversionLine[] = [];
+
+    const result = await convertMoneyItemsAsync(generate(), 'USD', feed, {
+      keepLines: false,
+      onLine: line => seen.push(line),
+    });
+
+    expect(result.lines).toEqual([]);
+    expect(seen.map(line => line.index)).toEqual([0, 1, 2, 3, 4]);
+    expect(result.total.toString()).toBe('6.78 USD');
+    expect(feed.getRate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report invalid items with their position', async () => {
+    expect(() =>
+      convertMoneyItems([fee, { amount: 1, currency: 'USD' } as never], 'USD')
+    ).toThrow(
+      expect.objectContaining({
+        code: 'INVALID_ARGUMENT',
+        details: expect.objectContaining({ index: 1 }),
+      })
+    );
+    expect(() => convertMoneyItems(fee as never, 'USD')).toThrow(
+      expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+    );
+    await expect(
+      convertMoneyItemsAsync([Money.of(1, 'CHF')], 'USD')
+    ).rejects.toMatchObject({ code: 'EXCHANGE_RATE_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Money value object barrel export
+ *
+ * This module provides an immutable Money class including:
+ * - Exact storage as bigint minor units plus a currency code
+ * - Chainable add, subtract, multiply, divide and allocate operations
+ * - Currency-safe comparisons that refuse mixed currencies
+ * - Interop with formatCurrency, convertCurrency and validateMoneyObject
+ * - A MoneyBag of per-currency subtotals that collapses to one currency
+ * - Bulk conversion of mixed-currency values from iterables and streams
+ *
+ * @example
+ * ```typescript
+ * import { Money } from 'monie-utils/money';
+ *
+ * const subtotal = Money.of('19.99', 'USD').multiply(3);
+ * const total = subtotal.add(Money.of('4.99', 'USD'));
+ * console.log(total.format()); // "$64.96"
+ *
+ * const [first, second, third] = total.allocate([1, 1, 1]);
+ * console.log(first.toString()); // "21.66 USD"
+ * ```
+ */
+
+// Export Money class
+export { Money } from './money';
+export { MoneyBag } from './moneyBag';
+export { convertMoneyItems, convertMoneyItemsAsync } from './moneyConversion';
+
+// Export types
+export type {
+  MoneyAmountInput,
+  MoneyFactor,
+  MoneyComparison,
+  MoneyBagRateSource,
+  MoneyBagConversionLine,
+  MoneyBagConversion,
+  MoneyConversionOptions,
+  MoneyConversionLine,
+  MoneyConversion,
+} from './types';
@@ -0,0 +1,506 @@
+/**
+ * Immutable Money value object backed by integer minor units
+ */
+
+import type { MoneyAmountInput, MoneyFactor, MoneyComparison } from './types';
+import type { MoneyLike } from '../types';
+import type { FormatCurrencyOptions } from '../formatCurrency/types';
+import { CURRENCY_INFO } from '../formatCurrency/constants';
+import { formatCurrency } from '../formatCurrency/formatCurrency';
+import { convertCurrency } from '../conversion/conversion';
+import { isValidCurrency, validateMoneyObject } from '../validation/validation';
+import { Decimal, divideAndRound } from '../decimal';
+import { allocateMinorUnits } from '../allocation/allocation';
+import type { AllocationStrategyOptions } from '../allocation/types';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Returns 10 raised to the given power as a bigint
+ */
+function pow10(exponent: number): bigint {
+  return BigInt(10) ** BigInt(exponent);
+}
+
+/**
+ * Parses a number or numeric string into an exact decimal
+ *
+ * @param value - The value to parse
+ * @param label - Name of the value used in error messages
+ * @returns The parsed decimal
+ */
+function parseDecimal(value: MoneyFactor, label: string): Decimal {
+  try {
+    return Decimal.from(value);
+  } catch {
+    throw new MonieUtilsError(
+      `Invalid ${label}: ${value}. Must be a finite number.`,
+      label === 'amount' ? 'INVALID_AMOUNT' : 'INVALID_ARGUMENT',
+      { field: label, value }
+    );
+  }
+}
+
+/**
+ * Divides two bigints, rounding half away from zero
+ */
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  return divideAndRound(numerator, denominator, 'half-away-from-zero');
+}
+
+/**
+ * Looks up the number of minor-unit decimal places for a currency
+ */
+function getDecimalPlaces(currency: string): number {
+  return CURRENCY_INFO[currency].decimalPlaces;
+}
+
+/**
+ * Validates and normalizes a currency code
+ */
+function normalizeCurrency(currency: string): string {
+  if (!isValidCurrency(currency)) {
+    throw new MonieUtilsError(
+      `Invalid currency: ${currency}`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
+    );
+  }
+
+  return currency.toUpperCase();
+}
+
+/**
+ * Immutable monetary value stored as an integer number of minor units
+ * (cents, kobo, satoshis...) plus an ISO 4217 currency code.
+ *
+ * All arithmetic is performed on bigints, so results never drift the way
+ * `0.1 + 0.2` does. Operations that combine two values refuse to mix
+ * currencies.
+ *
+ * @example
+ * ```typescript
+ * const price = Money.of('19.99', 'USD');
+ * const total = price.multiply(3).add(Money.of(5, 'USD'));
+ * console.log(total.toString()); // "64.97 USD"
+ * console.log(total.format()); // "$64.97"
+ *
+ * const [a, b, c] = Money.of(100, 'USD').allocate([1, 1, 1]);
+ * // 33.34 USD, 33.33 USD, 33.33 USD
+ * ```
+ */
+export class Money {
+  /** ISO 4217 currency code */
+  public readonly currency: string;
+
+  private readonly minor: bigint;
+
+  private constructor(minor: bigint, currency: string) {
+    this.minor = minor;
+    this.currency = currency;
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a money value from an amount in the currency's base unit
+   *
+   * @param amount - Amount in major units (e.g., 12.34 for $12.34)
+   * @param currency - ISO 4217 currency code
+   * @returns A new Money instance
+   *
+   * @throws {MonieUtilsError} When the amount is invalid, has more decimal
+   * places than the currency supports, or the currency is not supported
+   *
+   * @example
+   * ```typescript
+   * Money.of(12.34, 'USD');
+   * Money.of('0.00012345', 'BTC');
+   * ```
+   */
+  public static of(amount: MoneyAmountInput, currency: string): Money {
+    const code = normalizeCurrency(currency);
+    const decimalPlaces = getDecimalPlaces(code);
+    const { coefficient: digits, scale } = parseDecimal(amount, 'amount');
+
+    if (scale <= decimalPlaces) {
+      return new Money(digits * pow10(decimalPlaces - scale), code);
+    }
+
+    const divisor = pow10(scale - decimalPlaces);
+    if (digits % divisor !== BigInt(0)) {
+      throw new MonieUtilsError(
+        `Invalid amount: ${amount}. ${code} supports at most ${decimalPlaces} decimal places.`,
+        'INVALID_AMOUNT',
+        { field: 'amount', value: amount, currency: code, decimalPlaces }
+      );
+    }
+
+    return new Money(digits / divisor, code);
+  }
+
+  /**
+   * Creates a money value from an integer number of minor units
+   *
+   * @param minorUnits - Amount in minor units (e.g., 1234 for $12.34)
+   * @param currency - ISO 4217 currency code
+   * @returns A new Money instance
+   *
+   * @throws {MonieUtilsError} When the value is not an integer or the currency is not supported
+   *
+   * @example
+   * ```typescript
+   * Money.fromMinorUnits(1234, 'USD'); // 12.34 USD
+   * Money.fromMinorUnits(BigInt(150000000), 'BTC'); // 1.5 BTC
+   * ```
+   */
+  public static fromMinorUnits(
+    minorUnits: bigint | number | string,
+    currency: string
+  ): Money {
+    const code = normalizeCurrency(currency);
+
+    if (typeof minorUnits === 'bigint') {
+      return new Money(minorUnits, code);
+    }
+
+    if (typeof minorUnits === 'number' && !Number.isSafeInteger(minorUnits)) {
+      throw new MonieUtilsError(
+        `Invalid minor units: ${minorUnits}. Must be a safe integer.`,
+        'INVALID_AMOUNT',
+        { field: 'minorUnits', value: minorUnits }
+      );
+    }
+
+    if (typeof minorUnits === 'string' && !/^[+-]?\d+$/.test(minorUnits)) {
+      throw new MonieUtilsError(
+        `Invalid minor units: ${minorUnits}. Must be an integer string.`,
+        'INVALID_AMOUNT',
+        { field: 'minorUnits', value: minorUnits }
+      );
+    }
+
+    return new Money(BigInt(minorUnits), code);
+  }
+
+  /**
+   * Creates a money value from a plain `{ amount, currency }` object
+   *
+   * @param value - Object that passes `validateMoneyObject`
+   * @returns A new Money instance
+   *
+   * @throws {MonieUtilsError} When the object is not a valid money object
+   *
+   * @example
+   * ```typescript
+   * Money.from({ amount: 99.5, currency: 'EUR' });
+   * ```
+   */
+  public static from(value: MoneyLike): Money {
+    if (value instanceof Money) {
+      return value;
+    }
+
+    if (!validateMoneyObject(value)) {
+      throw new MonieUtilsError(
+        'Invalid money object. Expected { amount: number, currency: string }.',
+        'INVALID_ARGUMENT',
+        { field: 'value', value }
+      );
+    }
+
+    return Money.of(value.amount, value.currency);
+  }
+
+  /**
+   * Creates a zero amount in the given currency
+   *
+   * @param currency - ISO 4217 currency code
+   * @returns A zero Money instance
+   */
+  public static zero(currency: string): Money {
+    return new Money(BigInt(0), normalizeCurrency(currency));
+  }
+
+  /**
+   * Checks whether a value is a Money instance
+   *
+   * @param value - The value to check
+   * @returns True if the value is a Money instance
+   */
+  public static isMoney(value: unknown): value is Money {
+    return value instanceof Money;
+  }
+
+  /**
+   * The amount in minor units
+   */
+  public get minorUnits(): bigint {
+    return this.minor;
+  }
+
+  /**
+   * The amount in the currency's base unit as a JS number
+   */
+  public get amount(): number {
+    return Number(this.toDecimalString());
+  }
+
+  /**
+   * Number of minor-unit decimal places for this currency
+   */
+  public get decimalPlaces(): number {
+    return getDecimalPlaces(this.currency);
+  }
+
+  /**
+   * Adds another money value in the same currency
+   *
+   * @param other - The value to add
+   * @returns The sum
+   *
+   * @throws {MonieUtilsError} When currencies differ
+   */
+  public add(other: Money): Money {
+    this.assertSameCurrency(other, 'add');
+    return new Money(this.minor + other.minor, this.currency);
+  }
+
+  /**
+   * Subtracts another money value in the same currency
+   *
+   * @param other - The value to subtract
+   * @returns The difference
+   *
+   * @throws {MonieUtilsError} When currencies differ
+   */
+  public subtract(other: Money): Money {
+    this.assertSameCurrency(other, 'subtract');
+    return new Money(this.minor - other.minor, this.currency);
+  }
+
+  /**
+   * Multiplies by a factor, rounding half away from zero to the nearest minor unit
+   *
+   * @param factor - The multiplier (e.g., 1.075 or '1.075')
+   * @returns The product
+   *
+   * @throws {MonieUtilsError} When the factor is invalid
+   */
+  public multiply(factor: MoneyFactor): Money {
+    const { coefficient: digits, scale } = parseDecimal(factor, 'multiplier');
+    return new Money(
+      divideRounded(this.minor * digits, pow10(scale)),
+      this.currency
+    );
+  }
+
+  /**
+   * Divides by a divisor, rounding half away from zero to the nearest minor unit
+   *
+   * @param divisor - The divisor
+   * @returns The quotient
+   *
+   * @throws {MonieUtilsError} When the divisor is invalid or zero
+   */
+  public divide(divisor: MoneyFactor): Money {
+    const { coefficient: digits, scale } = parseDecimal(divisor, 'divisor');
+
+    if (digits === BigInt(0)) {
+      throw new MonieUtilsError('Cannot divide by zero', 'DIVISION_BY_ZERO', {
+        field: 'divisor',
+        value: divisor,
+      });
+    }
+
+    return new Money(
+      divideRounded(this.minor * pow10(scale), digits),
+      this.currency
+    );
+  }
+
+  /**
+   * Splits the amount according to ratios without losing a single minor unit.
+   * Leftover minor units are handed out by the chosen strategy, by default
+   * to the shares with the largest fractional remainders.
+   *
+   * @param ratios - Non-negative ratios (e.g., [1, 1, 1] or [70, 30])
+   * @param options - Leftover distribution strategy and seed
+   * @returns One Money per ratio, summing exactly to this amount
+   *
+   * @throws {MonieUtilsError} When ratios are empty, negative or sum to zero,
+   * or the strategy is invalid
+   *
+   * @example
+   * ```typescript
+   * Money.of(100, 'USD').allocate([1, 1, 1]); // [33.34, 33.33, 33.33]
+   * Money.of(5, 'USD').allocate([70, 30]); // [3.50, 1.50]
+   * Money.of(100, 'USD').allocate([1, 1, 1], { strategy: 'last' }); // [33.33, 33.33, 33.34]
+   * ```
+   */
+  public allocate(
+    ratios: MoneyFactor[],
+    options: AllocationStrategyOptions = {}
+  ): Money[] {
+    return allocateMinorUnits(this.minor, ratios, options).map(
+      share => new Money(share, this.currency)
+    );
+  }
+
+  /**
+   * Compares with another money value in the same currency
+   *
+   * @param other - The value to compare against
+   * @returns -1 if less than, 0 if equal, 1 if greater than `other`
+   *
+   * @throws {MonieUtilsError} When currencies differ
+   */
+  public compare(other: Money): MoneyComparison {
+    this.assertSameCurrency(other, 'compare');
+    if (this.minor === other.minor) return 0;
+    return this.minor < other.minor ? -1 : 1;
+  }
+
+  /**
+   * Checks equality of amount and currency (never throws on mixed currencies)
+   */
+  public equals(other: Money): boolean {
+    return this.currency === other.currency && this.minor === other.minor;
+  }
+
+  /** Whether this amount is greater than `other` */
+  public greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /** Whether this amount is greater than or equal to `other` */
+  public greaterThanOrEqual(other: Money): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  /** Whether this amount is less than `other` */
+  public lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  /** Whether this amount is less than or equal to `other` */
+  public lessThanOrEqual(other: Money): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  /** Whether the amount is zero */
+  public isZero(): boolean {
+    return this.minor === BigInt(0);
+  }
+
+  /** Whether the amount is greater than zero */
+  public isPositive(): boolean {
+    return this.minor > BigInt(0);
+  }
+
+  /** Whether the amount is less than zero */
+  public isNegative(): boolean {
+    return this.minor < BigInt(0);
+  }
+
+  /** Returns the amount with its sign flipped */
+  public negate(): Money {
+    return new Money(-this.minor, this.currency);
+  }
+
+  /** Returns the absolute amount */
+  public abs(): Money {
+    return this.isNegative() ? this.negate() : this;
+  }
+
+  /**
+   * Converts to another currency using `convertCurrency`, rounding half away
+   * from zero to the target currency's minor units
+   *
+   * @param toCurrency - Target currency code
+   * @param rate - Optional custom exchange rate
+   * @returns The converted value
+   *
+   * @throws {MonieUtilsError} When the currency or rate is invalid
+   *
+   * @example
+   * ```typescript
+   * Money.of(100, 'USD').convert('EUR', 0.85); // 85.00 EUR
+   * ```
+   */
+  public convert(toCurrency: string, rate?: number): Money {
+    const result = convertCurrency(
+      this.amount,
+      this.currency,
+      toCurrency,
+      rate
+    );
+    const { coefficient: digits, scale } = parseDecimal(
+      result.exchangeRate,
+      'rate'
+    );
+    const targetPlaces = getDecimalPlaces(result.toCurrency);
+
+    return new Money(
+      divideRounded(
+        this.minor * digits * pow10(targetPlaces),
+        pow10(scale + this.decimalPlaces)
+      ),
+      result.toCurrency
+    );
+  }
+
+  /**
+   * Formats the value using `formatCurrency`
+   *
+   * @param options - Formatting options
+   * @returns The formatted string
+   *
+   * @example
+   * ```typescript
+   * Money.of(1234.5, 'EUR').format({ locale: 'de-DE' }); // "1.234,50 €"
+   * ```
+   */
+  public format(options: FormatCurrencyOptions = {}): string {
+    return formatCurrency(this.amount, this.currency, options).formatted;
+  }
+
+  /**
+   * Returns the exact amount as a decimal string in major units (e.g., "12.30")
+   */
+  public toDecimalString(): string {
+    return Decimal.fromScaled(this.minor, this.decimalPlaces).toFixed(
+      this.decimalPlaces
+    );
+  }
+
+  /**
+   * Returns a plain `{ amount, currency }` object
+   */
+  public toJSON(): MoneyLike {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  /**
+   * Returns a string such as "12.30 USD"
+   */
+  public toString(): string {
+    return `${this.toDecimalString()} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money, operation: string): void {
+    if (!(other instanceof Money)) {
+      throw new MonieUtilsError(
+        `Cannot ${operation}: expected a Money instance`,
+        'INVALID_ARGUMENT',
+        { field: 'other', value: other }
+      );
+    }
+
+    if (other.currency !== this.currency) {
+      throw new MonieUtilsError(
+        `Currency mismatch: cannot ${operation} ${other.currency} and ${this.currency}`,
+        'CURRENCY_MISMATCH',
+        { expected: this.currency, actual: other.currency }
+      );
+    }
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Multi-currency collection of Money subtotals
+ */
+
+import { Money } from './money';
+import type {
+  MoneyBagRateSource,
+  MoneyBagConversion,
+  MoneyBagConversionLine,
+} from './types';
+import type { MoneyLike } from '../types';
+import type { ExchangeRate } from '../conversion/types';
+import type { ExchangeRateProvider } from '../rates/types';
+import { getExchangeRate } from '../conversion/conversion';
+import { assertValidRate, isExchangeRateProvider } from '../rates/rates';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Resolves the rate from one currency to another. A provider is asked
+ * through `getExchangeRate`, which may triangulate; a rate table or function
+ * must cover the currency itself; with no source, the built-in demo rates
+ * are used.
+ *
+ * @param source - The rate source, if any
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @returns The rate
+ *
+ * @throws {MonieUtilsError} When the source has no rate for the currency
+ * or returns an invalid one
+ */
+function lookupRate(
+  source: MoneyBagRateSource | undefined,
+  from: string,
+  to: string
+): number {
+  if (source === undefined || isExchangeRateProvider(source)) {
+    return getExchangeRate(from, to, source as ExchangeRateProvider).rate;
+  }
+
+  let rate: number | undefined;
+
+  if (typeof source === 'function') {
+    rate = source(from, to);
+  } else if (Object.prototype.hasOwnProperty.call(source, from)) {
+    rate = source[from];
+  }
+
+  if (rate === undefined) {
+    throw new MonieUtilsError(
+      `Exchange rate not available for ${from} to ${to}`,
+      'EXCHANGE_RATE_NOT_FOUND',
+      { from, to }
+    );
+  }
+
+  return assertValidRate(rate, from, to);
+}
+
+/**
+ * Immutable collection of money values in several currencies, kept as one
+ * subtotal per currency.
+ *
+ * Adding a Money increases the subtotal in its currency; subtotals that
+ * reach zero are dropped. `convertTo` collapses the bag into a single
+ * currency and reports every rate it used.
+ *
+ * @example
+ * ```typescript
+ * const cart = MoneyBag.of(
+ *   Money.of('19.99', 'USD'),
+ *   Money.of(15, 'EUR'),
+ *   Money.of(2500, 'NGN')
+ * ).add(Money.of('5.01', 'USD'));
+ *
+ * cart.get('USD').toString(); // "25.00 USD"
+ * cart.currencies; // ["USD", "EUR", "NGN"]
+ *
+ * const { total, rates } = cart.convertTo('USD', { EUR: 1.08, NGN: 0.00065 });
+ * total.toString(); // "42.83 USD"
+ * ```
+ */
+export class MoneyBag {
+  private readonly entries: ReadonlyMap<string, Money>;
+
+  private constructor(entries: ReadonlyMap<string, Money>) {
+    this.entries = entries;
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a bag holding the given money values
+   *
+   * @param values - Money values in any currencies
+   * @returns A new MoneyBag
+   *
+   * @throws {MonieUtilsError} When a value is not a Money instance
+   *
+   * @example
+   * ```typescript
+   * MoneyBag.of(Money.of(10, 'USD'), Money.of(5, 'EUR'));
+   * ```
+   */
+  public static of(...values: Money[]): MoneyBag {
+    return values.reduce((bag, value) => bag.add(value), MoneyBag.empty());
+  }
+
+  /**
+   * Creates an empty bag
+   *
+   * @returns An empty MoneyBag
+   */
+  public static empty(): MoneyBag {
+    return new MoneyBag(new Map());
+  }
+
+  /**
+   * Checks whether a value is a MoneyBag instance
+   *
+   * @param value - The value to check
+   * @returns True if the value is a MoneyBag instance
+   */
+  public static isMoneyBag(value: unknown): value is MoneyBag {
+    return value instanceof MoneyBag;
+  }
+
+  /**
+   * Currency codes with a non-zero subtotal, in the order they were added
+   */
+  public get currencies(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Adds a money value or every subtotal of another bag
+   *
+   * @param value - The Money or MoneyBag to add
+   * @returns A new MoneyBag
+   *
+   * @throws {MonieUtilsError} When the value is not a Money or MoneyBag
+   */
+  public add(value: Money | MoneyBag): MoneyBag {
+    return this.combine(value, 'add');
+  }
+
+  /**
+   * Subtracts a money value or every subtotal of another bag
+   *
+   * @param value - The Money or MoneyBag to subtract
+   * @returns A new MoneyBag
+   *
+   * @throws {MonieUtilsError} When the value is not a Money or MoneyBag
+   */
+  public subtract(value: Money | MoneyBag): MoneyBag {
+    return this.combine(value, 'subtract');
+  }
+
+  /**
+   * Returns the subtotal in a currency
+   *
+   * @param currency - ISO 4217 currency code
+   * @returns The subtotal, or zero when the bag holds none of that currency
+   *
+   * @throws {MonieUtilsError} When the currency is not supported
+   */
+  public get(currency: string): Money {
+    const zero = Money.zero(currency);
+    return this.entries.get(zero.currency) ?? zero;
+  }
+
+  /**
+   * Checks whether the bag holds a non-zero subtotal in a currency
+   *
+   * @param currency - Currency code (case-insensitive)
+   * @returns True if the currency has a subtotal
+   */
+  public has(currency: string): boolean {
+    return (
+      typeof currency === 'string' && this.entries.has(currency.toUpperCase())
+    );
+  }
+
+  /**
+   * Checks whether the bag holds no subtotals
+   */
+  public isEmpty(): boolean {
+    return this.entries.size === 0;
+  }
+
+  /**
+   * Collapses the bag into a single currency. Each subtotal is converted
+   * with `Money.convert` and the converted subtotals are summed.
+   *
+   * @param currency - Target currency code
+   * @param rates - Rates into the target currency. A rate table or function
+   * must cover every currency in the bag; a provider derives missing rates
+   * through a pivot currency. Without rates, the built-in demo rates are
+   * used.
+   * @returns The total, per-currency lines and the rates used
+   *
+   * @throws {MonieUtilsError} When the currency is not supported or a rate
+   * is invalid or unavailable
+   *
+   * @example
+   * ```typescript
+   * const bag = MoneyBag.of(Money.of(100, 'USD'), Money.of(100, 'EUR'));
+   * const result = bag.convertTo('USD', { EUR: 1.1 });
+   * result.total.toString(); // "210.00 USD"
+   * result.rates; // [{ from: 'EUR', to: 'USD', rate: 1.1, timestamp: ... }]
+   * ```
+   */
+  public convertTo(
+    currency: string,
+    rates?: MoneyBagRateSource
+  ): MoneyBagConversion {
+    const zero = Money.zero(currency);
+    const target = zero.currency;
+    const lines: MoneyBagConversionLine[] = [];
+    const usedRates: ExchangeRate[] = [];
+    const timestamp = new Date();
+
+    for (const original of this.entries.values()) {
+      if (original.currency === target) {
+        lines.push({ original, converted: original, rate: 1 });
+        continue;
+      }
+
+      const rate = lookupRate(rates, original.currency, target);
+
+      lines.push({
+        original,
+        converted: original.convert(target, rate),
+        rate,
+      });
+      usedRates.push({ from: original.currency, to: target, rate, timestamp });
+    }
+
+    return {
+      total: lines.reduce((sum, line) => sum.add(line.converted), zero),
+      lines,
+      rates: usedRates,
+    };
+  }
+
+  /**
+   * Returns the subtotals as Money values, in the order they were added
+   */
+  public toArray(): Money[] {
+    return [...this.entries.values()];
+  }
+
+  /**
+   * Returns the subtotals as plain `{ amount, currency }` objects
+   */
+  public toJSON(): MoneyLike[] {
+    return this.toArray().map(value => value.toJSON());
+  }
+
+  /**
+   * Returns a string such as "25.00 USD + 15.00 EUR"
+   */
+  public toString(): string {
+    return this.isEmpty() ? '0' : this.toArray().join(' + ');
+  }
+
+  private combine(value: Money | MoneyBag, operation: string): MoneyBag {
+    let values: Money[];
+
+    if (value instanceof MoneyBag) {
+      values = value.toArray();
+    } else if (value instanceof Money) {
+      values = [value];
+    } else {
+      throw new MonieUtilsError(
+        `Cannot ${operation}: expected a Money or MoneyBag instance`,
+        'INVALID_ARGUMENT',
+        { field: 'value', value }
+      );
+    }
+
+    const entries = new Map(this.entries);
+    for (const money of values) {
+      const current = entries.get(money.currency) ?? Money.zero(money.currency);
+      const next =
+        operation === 'add' ? current.add(money) : current.subtract(money);
+
+      if (next.isZero()) {
+        entries.delete(money.currency);
+      } else {
+        entries.set(money.currency, next);
+      }
+    }
+
+    return new MoneyBag(entries);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Bulk conversion of mixed-currency money values into one currency
+ */
+
+import { Money } from './money';
+import type {
+  MoneyConversionOptions,
+  MoneyConversionLine,
+  MoneyConversion,
+  MoneyBagConversionLine,
+} from './types';
+import type { ExchangeRate } from '../conversion/types';
+import type {
+  ExchangeRateProvider,
+  AsyncExchangeRateProvider,
+  ResolvedRate,
+} from '../rates/types';
+import type { RoundingPolicy } from '../rounding/types';
+import {
+  getExchangeRate,
+  getExchangeRateAsync,
+} from '../conversion/conversion';
+import { resolveRoundingPolicy } from '../rounding';
+import { Decimal } from '../decimal';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Running state of a bulk conversion: rates resolved so far, per-currency
+ * subtotals and the sum of converted lines
+ */
+class ConversionBatch {
+  private readonly target: Money;
+  private readonly policy: RoundingPolicy;
+  private readonly options: MoneyConversionOptions;
+  private readonly resolved = new Map<string, ResolvedRate>();
+  private readonly subtotals = new Map<string, Money>();
+  private readonly usedRates: ExchangeRate[] = [];
+  private readonly lines: MoneyConversionLine[] = [];
+  private total: Money;
+  private count = 0;
+
+  constructor(toCurrency: string, options: MoneyConversionOptions) {
+    this.target = Money.zero(toCurrency);
+    this.policy = resolveRoundingPolicy(options.roundingMode);
+    this.options = options;
+    this.total = this.target;
+  }
+
+  /**
+   * Target currency code
+   */
+  public get currency(): string {
+    return this.target.currency;
+  }
+
+  /**
+   * Checks that an item is a Money value and reports whether its rate
+   * still has to be resolved
+   *
+   * @param item - The item
+   * @returns True when the item's rate is not yet known
+   */
+  public needsRate(item: unknown): boolean {
+    if (!(item instanceof Money)) {
+      throw new MonieUtilsError(
+        'Items must be Money instances',
+        'INVALID_ARGUMENT',
+        { field: 'items', value: item, index: this.count }
+      );
+    }
+
+    return item.currency !== this.currency && !this.resolved.has(item.currency);
+  }
+
+  /**
+   * Records the rate from a source currency into the target currency
+   *
+   * @param from - Source currency code
+   * @param resolved - The resolved rate
+   */
+  public setRate(from: string, resolved: ResolvedRate): void {
+    this.resolved.set(from, resolved);
+    this.usedRates.push({
+      from,
+      to: this.currency,
+      rate: resolved.rate,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Converts an item whose rate is known and adds it to the totals
+   *
+   * @param original - The item
+   */
+  public add(original: Money): void {
+    const { rate, path } = this.resolved.get(original.currency) ?? {
+      rate: 1,
+      path: [this.currency],
+    };
+    const line: MoneyConversionLine = {
+      index: this.count++,
+      original,
+      converted: this.convert(original, rate),
+      rate,
+      path,
+    };
+
+    this.total = this.total.add(line.converted);
+    this.subtotals.set(
+      original.currency,
+      (
+        this.subtotals.get(original.currency) ?? Money.zero(original.currency)
+      ).add(original)
+    );
+
+    if (this.options.keepLines !== false) {
+      this.lines.push(line);
+    }
+    this.options.onLine?.(line);
+  }
+
+  /**
+   * Builds the result and reconciles the lines against the subtotals
+   *
+   * @returns The conversion result
+   */
+  public finish(): MoneyConversion {
+    const subtotals: MoneyBagConversionLine[] = [
+      ...this.subtotals.values(),
+    ].map(original => {
+      const rate = this.resolved.get(original.currency)?.rate ?? 1;
+      return { original, converted: this.convert(original, rate), rate };
+    });
+    const convertedTotal = subtotals.reduce(
+      (sum, line) => sum.add(line.converted),
+      this.target
+    );
+
+    return {
+      total: this.total,
+      lines: this.lines,
+      count: this.count,
+      subtotals,
+      convertedTotal,
+      roundingDifference: this.total.subtract(convertedTotal),
+      rates: this.usedRates,
+    };
+  }
+
+  /**
+   * Applies a rate exactly, rounding once to the target's minor units
+   *
+   * @param value - The value to convert
+   * @param rate - Units of the target currency per unit of the value's
+   * @returns The converted value
+   */
+  private convert(value: Money, rate: number): Money {
+    const places = this.target.decimalPlaces;
+
+    return Money.fromMinorUnits(
+      Decimal.fromScaled(value.minorUnits, value.decimalPlaces)
+        .mul(rate)
+        .toScaled(places, this.policy),
+      this.currency
+    );
+  }
+}
+
+/**
+ * Checks that items can be iterated
+ *
+ * @param items - The items
+ * @param isAsync - Whether async iterables are accepted
+ */
+function assertIterable(items: unknown, isAsync: boolean): void {
+  const iterable =
+    typeof items === 'object' &&
+    items !== null &&
+    (Symbol.iterator in items || (isAsync && Symbol.asyncIterator in items));
+
+  if (!iterable) {
+    throw new MonieUtilsError(
+      isAsync
+        ? 'Items must be an iterable or async iterable of Money values'
+        : 'Items must be an iterable of Money values',
+      'INVALID_ARGUMENT',
+      { field: 'items', value: items }
+    );
+  }
+}
+
+/**
+ * Converts money values in any mix of currencies into one currency.
+ *
+ * Each rate is resolved once per source currency. Every line is rounded to
+ * the target currency's minor units and `total` is the sum of the rounded
+ * lines, so the lines always add up to the total. `convertedTotal` converts
+ * each currency's exact subtotal instead, and `roundingDifference` shows
+ * how far rounding every line drifted from it.
+ *
+ * @param items - Money values, e.g. an array or a generator
+ * @param toCurrency - Target currency code
+ * @param rates - Rate provider (default: `convertCurrency`'s built-in rates)
+ * @param options - Rounding, streaming and triangulation options
+ * @returns Converted lines, totals and the rates used
+ *
+ * @throws {MonieUtilsError} When an item is not a Money, the currency or
+ * rounding mode is not supported, or a rate is unavailable
+ *
+ * @example
+ * ```typescript
+ * const rates = new InMemoryRateProvider({ EUR: { USD: 1.085 } });
+ * const fee = Money.of('0.05', 'EUR');
+ * const result = convertMoneyItems([fee, fee, fee, Money.of(5, 'USD')], 'USD', rates);
+ *
+ * result.total.toString(); // "5.15 USD" (each 0.05425 line rounds to 0.05)
+ * result.convertedTotal.toString(); // "5.16 USD" (0.15 EUR is 0.16275 USD)
+ * result.roundingDifference.toString(); // "-0.01 USD"
+ * ```
+ */
+export function convertMoneyItems(
+  items: Iterable<Money>,
+  toCurrency: string,
+  rates?: ExchangeRateProvider,
+  options: MoneyConversionOptions = {}
+): MoneyConversion {
+  const batch = new ConversionBatch(toCurrency, options);
+  assertIterable(items, false);
+
+  for (const item of items) {
+    if (batch.needsRate(item)) {
+      batch.setRate(
+        item.currency,
+        getExchangeRate(item.currency, batch.currency, rates, options)
+      );
+    }
+    batch.add(item);
+  }
+
+  return batch.finish();
+}
+
+/**
+ * Converts money values in any mix of currencies into one currency,
+ * reading them from an async iterable (e.g., a database cursor or a parsed
+ * export file) and resolving rates from a provider that may answer
+ * asynchronously. Pair `keepLines: false` with `onLine` to stream large
+ * exports without holding every line in memory.
+ *
+ * @param items - Money values, e.g. an array or an async generator
+ * @param toCurrency - Target currency code
+ * @param rates - Rate provider (default: `convertCurrency`'s built-in rates)
+ * @param options - Rounding, streaming and triangulation options
+ * @returns Converted lines, totals and the rates used
+ *
+ * @throws {MonieUtilsError} When an item is not a Money, the currency or
+ * rounding mode is not supported, or a rate is unavailable
+ *
+ * @example
+ * ```typescript
+ * const result = await convertMoneyItemsAsync(readPayouts(), 'USD', feed, {
+ *   keepLines: false,
+ *   onLine: line => output.write(`${line.converted.toDecimalString()}\n`),
+ * });
+ * result.total.toString();
+ * ```
+ */
+export async function convertMoneyItemsAsync(
+  items: Iterable<Money> | AsyncIterable<Money>,
+  toCurrency: string,
+  rates?: AsyncExchangeRateProvider,
+  options: MoneyConversionOptions = {}
+): Promise<MoneyConversion> {
+  const batch = new ConversionBatch(toCurrency, options);
+  assertIterable(items, true);
+
+  for await (const item of items) {
+    if (batch.needsRate(item)) {
+      batch.setRate(
+        item.currency,
+        await getExchangeRateAsync(
+          item.currency,
+          batch.currency,
+          rates,
+          options
+        )
+      );
+    }
+    batch.add(item);
+  }
+
+  return batch.finish();
+}
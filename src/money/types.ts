@@ -0,0 +1,112 @@
+/**
+ * Type definitions for the Money value object
+ */
+
+import type { Money } from './money';
+import type { ExchangeRate } from '../conversion/types';
+import type {
+  ExchangeRateProvider,
+  RateResolutionOptions,
+} from '../rates/types';
+import type { RoundingMode } from '../rounding/types';
+
+/**
+ * Amount accepted when creating money values.
+ * Strings are parsed exactly, so '0.1' never picks up binary float drift.
+ */
+export type MoneyAmountInput = number | string;
+
+/**
+ * Factor accepted by multiplication, division and allocation
+ */
+export type MoneyFactor = number | string;
+
+/**
+ * Result of comparing two money values
+ */
+export type MoneyComparison = -1 | 0 | 1;
+
+/**
+ * Source of exchange rates for collapsing a MoneyBag into one currency.
+ *
+ * - A record maps each source currency to its rate into the target currency
+ *   (e.g., `{ EUR: 1.08, NGN: 0.00065 }` when converting to USD)
+ * - A function returns the rate from `from` to `to`, or undefined when it
+ *   has none
+ *
+ * A record or function must cover every currency being converted.
+ * - An `ExchangeRateProvider` is asked with `getRate(from, to)` the same way
+ */
+export type MoneyBagRateSource =
+  | Readonly<Record<string, number>>
+  | ((from: string, to: string) => number | undefined)
+  | ExchangeRateProvider;
+
+/**
+ * One currency line of a converted MoneyBag
+ */
+export interface MoneyBagConversionLine {
+  /** The subtotal in its own currency */
+  original: Money;
+  /** The subtotal converted to the target currency */
+  converted: Money;
+  /** Exchange rate applied (1 for the target currency itself) */
+  rate: number;
+}
+
+/**
+ * Result of collapsing a MoneyBag into a single currency
+ */
+export interface MoneyBagConversion {
+  /** Sum of all converted subtotals */
+  total: Money;
+  /** Per-currency conversion lines, in bag order */
+  lines: MoneyBagConversionLine[];
+  /** Exchange rates used, one per foreign currency */
+  rates: ExchangeRate[];
+}
+
+/**
+ * Options for converting many money values into one currency
+ */
+export interface MoneyConversionOptions extends RateResolutionOptions {
+  /** Rounding mode for each converted line (default: configured roundingMode) */
+  roundingMode?: RoundingMode;
+  /**
+   * Keep every converted line in the result (default: true). Turn off for
+   * large exports and receive each line through `onLine` instead.
+   */
+  keepLines?: boolean;
+  /** Called with each converted line as soon as it is converted */
+  onLine?: (line: MoneyConversionLine) => void;
+}
+
+/**
+ * One converted item of a bulk money conversion
+ */
+export interface MoneyConversionLine extends MoneyBagConversionLine {
+  /** Position of the item in the input */
+  index: number;
+  /** Currencies the rate was routed through, from source to target */
+  path: string[];
+}
+
+/**
+ * Result of converting many money values into one currency
+ */
+export interface MoneyConversion {
+  /** Sum of the converted lines, each rounded to the target's minor units */
+  total: Money;
+  /** Converted lines in input order (empty when `keepLines` is false) */
+  lines: MoneyConversionLine[];
+  /** Number of items converted */
+  count: number;
+  /** One line per source currency: its exact subtotal and the converted subtotal */
+  subtotals: MoneyBagConversionLine[];
+  /** Sum of the converted subtotals, rounded once per source currency */
+  convertedTotal: Money;
+  /** `total` minus `convertedTotal`: the drift from rounding every line */
+  roundingDifference: Money;
+  /** Exchange rates used, one per foreign currency */
+  rates: ExchangeRate[];
+}
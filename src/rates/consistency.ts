@@ -0,0 +1,304 @@
+/**
+ * Consistency checks for sets of exchange rates
+ */
+
+import type {
+  RateAnalysisInput,
+  RateAnalysisOptions,
+  RateAnalysisReport,
+  MissingInverseRate,
+  InverseRateMismatch,
+  StaleRate,
+  ArbitrageCycle,
+} from './types';
+import type { ExchangeRate } from '../conversion/types';
+import { assertValidRate, isExchangeRateProvider } from './rates';
+import { Decimal } from '../decimal';
+import { MonieUtilsError } from '../errors';
+
+interface AnalyzedRate {
+  rate: number;
+  timestamp?: Date;
+}
+
+/**
+ * Rates keyed by source then target currency
+ */
+type RateGraph = Map<string, Map<string, AnalyzedRate>>;
+
+/**
+ * Checks that an optional option is a non-negative number
+ *
+ * @param value - The value to check
+ * @param field - Field name for error details
+ */
+function assertNonNegative(value: unknown, field: string): void {
+  if (
+    value !== undefined &&
+    (typeof value !== 'number' || !Number.isFinite(value) || value < 0)
+  ) {
+    throw new MonieUtilsError(
+      `Invalid ${field}: ${value}. Must be a non-negative number.`,
+      'INVALID_ARGUMENT',
+      { field, value, min: 0 }
+    );
+  }
+}
+
+/**
+ * Lists the rates of an analysis input
+ *
+ * @param input - Rate table, list of rates or provider
+ * @returns Every rate, with its timestamp when known
+ */
+function listRates(input: RateAnalysisInput): Iterable<ExchangeRate> {
+  if (isExchangeRateProvider(input)) {
+    const provider = input;
+    if (typeof provider.listPairs !== 'function') {
+      throw new MonieUtilsError(
+        'Rate providers must implement listPairs to be analyzed',
+        'INVALID_ARGUMENT',
+        { field: 'rates' }
+      );
+    }
+
+    return provider.listPairs().map(([from, to]) => ({
+      from,
+      to,
+      rate: provider.getRate(from, to) as number,
+    }));
+  }
+
+  if (typeof input !== 'object' || input === null) {
+    throw new MonieUtilsError(
+      'Rates must be a rate table, a list of rates or a rate provider',
+      'INVALID_ARGUMENT',
+      { field: 'rates', value: input }
+    );
+  }
+
+  if (Symbol.iterator in input) {
+    return input as Iterable<ExchangeRate>;
+  }
+
+  return Object.entries(input).flatMap(([from, targets]) =>
+    Object.entries(targets).map(([to, rate]) => ({ from, to, rate }))
+  );
+}
+
+/**
+ * Builds the rate graph of an analysis input. Later rates for a pair
+ * replace earlier ones; same-currency rates are ignored.
+ *
+ * @param input - Rate table, list of rates or provider
+ * @returns Rates keyed by source then target currency
+ */
+function buildGraph(input: RateAnalysisInput): RateGraph {
+  const graph: RateGraph = new Map();
+
+  for (const { from, to, rate, timestamp } of listRates(input)) {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    const entry: AnalyzedRate = { rate: assertValidRate(rate, source, target) };
+
+    if (timestamp !== undefined) {
+      if (!(timestamp instanceof Date) || isNaN(timestamp.getTime())) {
+        throw new MonieUtilsError(
+          `Invalid timestamp for ${source} to ${target}`,
+          'INVALID_DATE',
+          { field: 'timestamp', value: timestamp, from: source, to: target }
+        );
+      }
+      entry.timestamp = timestamp;
+    }
+
+    const targets = graph.get(source) ?? new Map<string, AnalyzedRate>();
+    graph.set(source, targets);
+    if (!graph.has(target)) {
+      graph.set(target, new Map());
+    }
+    if (source !== target) {
+      targets.set(target, entry);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Multiplies rates exactly
+ *
+ * @param rates - The rates
+ * @returns The product
+ */
+function product(rates: number[]): Decimal {
+  return rates.reduce((total, rate) => total.mul(rate), Decimal.from(1));
+}
+
+/**
+ * Converts a round-trip product to basis points away from 1
+ *
+ * @param value - The product
+ * @returns Gain (positive) or loss (negative) in basis points
+ */
+function toBps(value: Decimal): Decimal {
+  return value.sub(1).mul(10_000);
+}
+
+/**
+ * Finds triangular cycles that gain more than the tolerance
+ *
+ * @param graph - Rates keyed by source then target currency
+ * @param order - Position of each currency in the graph
+ * @param toleranceBps - Largest gain tolerated
+ * @returns Profitable cycles, largest gain first
+ */
+function findArbitrageCycles(
+  graph: RateGraph,
+  order: Map<string, number>,
+  toleranceBps: number
+): ArbitrageCycle[] {
+  const cycles: Array<{ cycle: ArbitrageCycle; gain: Decimal }> = [];
+
+  // Each cycle is visited once, starting from its earliest currency
+  for (const [a, fromA] of graph) {
+    const start = order.get(a) as number;
+
+    for (const [b, ab] of fromA) {
+      for (const [c, bc] of graph.get(b) ?? []) {
+        const ca = graph.get(c)?.get(a);
+        if (
+          ca === undefined ||
+          (order.get(b) as number) < start ||
+          (order.get(c) as number) < start
+        ) {
+          continue;
+        }
+
+        const rates = [ab.rate, bc.rate, ca.rate];
+        const total = product(rates);
+        const gain = toBps(total);
+
+        if (gain.gt(toleranceBps)) {
+          cycles.push({
+            cycle: {
+              path: [a, b, c, a],
+              rates,
+              product: total.toNumber(),
+              gainBps: gain.toNumber(),
+            },
+            gain,
+          });
+        }
+      }
+    }
+  }
+
+  return cycles.sort((x, y) => y.gain.cmp(x.gain)).map(({ cycle }) => cycle);
+}
+
+/**
+ * Analyzes a set of exchange rates for problems worth fixing before the
+ * rates are published:
+ *
+ * - rates whose reverse pair is missing
+ * - pairs whose rate and reverse rate do not multiply to 1 within the
+ *   tolerance (e.g., USD→EUR 0.85 with EUR→USD 1.18 gains 30 bps on a
+ *   round trip)
+ * - timestamped rates older than `maxAgeMs`
+ * - triangular cycles (A→B→C→A) that gain more than the tolerance
+ *
+ * Products are computed exactly, so the tolerance is not affected by
+ * floating-point error.
+ *
+ * @param rates - A rate table, a list of rates with optional timestamps,
+ * or a provider that implements `listPairs`
+ * @param options - Tolerance and staleness options
+ * @returns Report of every issue found
+ *
+ * @throws {MonieUtilsError} When a rate, timestamp or option is invalid,
+ * or a provider cannot list its pairs
+ *
+ * @example
+ * ```typescript
+ * const report = analyzeRates({
+ *   USD: { EUR: 0.85, GBP: 0.73 },
+ *   EUR: { USD: 1.18, GBP: 0.86 },
+ * });
+ *
+ * report.consistent; // false
+ * report.inverseMismatches[0].deviationBps; // 30
+ * report.missingInverses; // [{ from: 'USD', to: 'GBP', ... }, ...]
+ * ```
+ */
+export function analyzeRates(
+  rates: RateAnalysisInput,
+  options: RateAnalysisOptions = {}
+): RateAnalysisReport {
+  const { toleranceBps = 10, maxAgeMs, now = Date.now } = options;
+
+  assertNonNegative(toleranceBps, 'toleranceBps');
+  assertNonNegative(maxAgeMs, 'maxAgeMs');
+
+  const graph = buildGraph(rates);
+  const order = new Map([...graph.keys()].map((code, index) => [code, index]));
+  const currentTime = now();
+  const missingInverses: MissingInverseRate[] = [];
+  const inverseMismatches: InverseRateMismatch[] = [];
+  const staleRates: StaleRate[] = [];
+  let pairCount = 0;
+
+  for (const [from, targets] of graph) {
+    for (const [to, { rate, timestamp }] of targets) {
+      pairCount++;
+
+      if (maxAgeMs !== undefined && timestamp !== undefined) {
+        const ageMs = currentTime - timestamp.getTime();
+        if (ageMs > maxAgeMs) {
+          staleRates.push({ from, to, rate, timestamp, ageMs });
+        }
+      }
+
+      const inverse = graph.get(to)?.get(from);
+      if (inverse === undefined) {
+        missingInverses.push({ from, to, rate });
+        continue;
+      }
+
+      // Both directions exist; check the pair once, from its earlier currency
+      if ((order.get(to) as number) < (order.get(from) as number)) {
+        continue;
+      }
+
+      const roundTrip = product([rate, inverse.rate]);
+      const deviation = toBps(roundTrip);
+
+      if (deviation.abs().gt(toleranceBps)) {
+        inverseMismatches.push({
+          from,
+          to,
+          rate,
+          inverseRate: inverse.rate,
+          roundTrip: roundTrip.toNumber(),
+          deviationBps: deviation.toNumber(),
+        });
+      }
+    }
+  }
+
+  const arbitrageCycles = findArbitrageCycles(graph, order, toleranceBps);
+
+  return {
+    consistent:
+      missingInverses.length === 0 &&
+      inverseMismatches.length === 0 &&
+      staleRates.length === 0 &&
+      arbitrageCycles.length === 0,
+    currencies: [...graph.keys()],
+    pairCount,
+    missingInverses,
+    inverseMismatches,
+    staleRates,
+    arbitrageCycles,
+  };
+}
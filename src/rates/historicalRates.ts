@@ -0,0 +1,349 @@
+/**
+ * Time series of exchange rates for point-in-time lookups
+ */
+
+import type {
+  ExchangeRateProvider,
+  HistoricalRateRecord,
+  MissingRateStrategy,
+  HistoricalRateOptions,
+  HistoricalRate,
+} from './types';
+import { assertValidRate } from './rates';
+import { MonieUtilsError } from '../errors';
+
+const MS_PER_DAY = 86_400_000;
+
+const MISSING_RATE_STRATEGIES: readonly MissingRateStrategy[] = [
+  'previous-business-day',
+  'nearest',
+  'error',
+];
+
+interface RatePoint {
+  day: number;
+  rate: number;
+}
+
+/**
+ * Converts a date to days since the Unix epoch (UTC)
+ *
+ * @param value - A Date or an ISO date string
+ * @param field - Field name for error details
+ * @returns The day number
+ */
+function toDay(value: Date | string, field: string): number {
+  const date = typeof value === 'string' ? new Date(value) : value;
+
+  if (!(date instanceof Date) || isNaN(date.getTime())) {
+    throw new MonieUtilsError(
+      'Date must be a valid Date or ISO date string',
+      'INVALID_DATE',
+      { field, value }
+    );
+  }
+
+  return Math.floor(date.getTime() / MS_PER_DAY);
+}
+
+/**
+ * Truncates a date to midnight UTC
+ *
+ * @param value - A Date or an ISO date string
+ * @param field - Field name for error details
+ * @returns The day, as a Date at midnight UTC
+ *
+ * @throws {MonieUtilsError} When the date is invalid
+ */
+export function toRateDate(value: Date | string, field = 'date'): Date {
+  return new Date(toDay(value, field) * MS_PER_DAY);
+}
+
+/**
+ * Checks whether a day falls on a Saturday or Sunday
+ *
+ * @param day - Days since the Unix epoch
+ * @returns True for weekend days
+ */
+function isWeekend(day: number): boolean {
+  const weekday = new Date(day * MS_PER_DAY).getUTCDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * Finds the index of the last point on or before a day
+ *
+ * @param points - Points sorted by day
+ * @param day - The day to look for
+ * @returns The index, or -1 when every point is later
+ */
+function findFloor(points: RatePoint[], day: number): number {
+  let low = 0;
+  let high = points.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >>> 1;
+    if (points[mid].day <= day) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Store of exchange rates by day, for converting at the rate in effect on
+ * a past date. Days are compared as UTC calendar days.
+ *
+ * Records are plain `{ date, from, to, rate }` objects, so a store can be
+ * loaded from an array or a JSON file and saved back with `toJSON`.
+ *
+ * @example
+ * ```typescript
+ * const history = new HistoricalRateStore([
+ *   { date: '2024-03-14', from: 'USD', to: 'EUR', rate: 0.915 },
+ *   { date: '2024-03-15', from: 'USD', to: 'EUR', rate: 0.918 },
+ * ]);
+ *
+ * // Saturday falls back to Friday's rate
+ * history.getRate('USD', 'EUR', '2024-03-16');
+ * // { rate: 0.918, date: 2024-03-15, requestedDate: 2024-03-16, ... }
+ * ```
+ */
+export class HistoricalRateStore {
+  private readonly series = new Map<string, RatePoint[]>();
+
+  /**
+   * @param records - Initial rates
+   *
+   * @throws {MonieUtilsError} When a record has an invalid date or rate
+   */
+  constructor(records: Iterable<HistoricalRateRecord> = []) {
+    this.addRates(records);
+  }
+
+  /**
+   * Records the rate for one currency pair on one day, replacing any rate
+   * already recorded for that day
+   *
+   * @param from - Source currency code
+   * @param to - Target currency code
+   * @param date - Day the rate applies to
+   * @param rate - Units of `to` per unit of `from`
+   * @returns This store, for chaining
+   *
+   * @throws {MonieUtilsError} When the date or rate is invalid
+   */
+  public addRate(
+    from: string,
+    to: string,
+    date: Date | string,
+    rate: number
+  ): this {
+    const key = `${from.toUpperCase()}/${to.toUpperCase()}`;
+    const day = toDay(date, 'date');
+    const point = { day, rate: assertValidRate(rate, from, to) };
+
+    const points = this.series.get(key) ?? [];
+    const index = findFloor(points, day);
+
+    if (index >= 0 && points[index].day === day) {
+      points[index] = point;
+    } else {
+      points.splice(index + 1, 0, point);
+    }
+
+    this.series.set(key, points);
+    return this;
+  }
+
+  /**
+   * Records many rates at once
+   *
+   * @param records - Rates to record
+   * @returns This store, for chaining
+   *
+   * @throws {MonieUtilsError} When a record has an invalid date or rate
+   */
+  public addRates(records: Iterable<HistoricalRateRecord>): this {
+    for (const { from, to, date, rate } of records) {
+      this.addRate(from, to, date, rate);
+    }
+    return this;
+  }
+
+  /**
+   * Returns the rate in effect on a day
+   *
+   * @param from - Source currency code (case-insensitive)
+   * @param to - Target currency code (case-insensitive)
+   * @param date - The day to look up
+   * @param options - How to handle days without a rate
+   * @returns The rate and the day it was recorded, or undefined when the
+   * pair has no usable rate
+   *
+   * @throws {MonieUtilsError} When the date or options are invalid, or the
+   * 'error' strategy finds no rate on that exact day
+   *
+   * @example
+   * ```typescript
+   * history.getRate('USD', 'EUR', '2024-03-16', { missingDate: 'nearest' });
+   * ```
+   */
+  public getRate(
+    from: string,
+    to: string,
+    date: Date | string,
+    options: HistoricalRateOptions = {}
+  ): HistoricalRate | undefined {
+    const { missingDate = 'previous-business-day', maxGapDays = 7 } = options;
+
+    if (!MISSING_RATE_STRATEGIES.includes(missingDate)) {
+      throw new MonieUtilsError(
+        `Invalid missing date strategy: ${missingDate}`,
+        'INVALID_ARGUMENT',
+        {
+          field: 'missingDate',
+          value: missingDate,
+          allowed: MISSING_RATE_STRATEGIES,
+        }
+      );
+    }
+
+    if (!Number.isInteger(maxGapDays) || maxGapDays < 0) {
+      throw new MonieUtilsError(
+        `Invalid maximum gap: ${maxGapDays}. Must be a non-negative number of days.`,
+        'INVALID_ARGUMENT',
+        { field: 'maxGapDays', value: maxGapDays, min: 0 }
+      );
+    }
+
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+    const day = toDay(date, 'date');
+    const requestedDate = new Date(day * MS_PER_DAY);
+
+    if (source === target) {
+      return {
+        from: source,
+        to: target,
+        rate: 1,
+        date: requestedDate,
+        requestedDate,
+      };
+    }
+
+    const points = this.series.get(`${source}/${target}`);
+    if (points === undefined) {
+      return undefined;
+    }
+
+    const index = findFloor(points, day);
+    const before = index >= 0 ? points[index] : undefined;
+    const after = points[index + 1];
+    let match: RatePoint | undefined;
+
+    if (missingDate === 'error') {
+      if (before?.day !== day) {
+        throw new MonieUtilsError(
+          `No ${source} to ${target} rate recorded on ${requestedDate.toISOString().slice(0, 10)}`,
+          'EXCHANGE_RATE_NOT_FOUND',
+          { from: source, to: target, date: requestedDate }
+        );
+      }
+      match = before;
+    } else if (
+      missingDate === 'nearest' &&
+      after !== undefined &&
+      (before === undefined || after.day - day < day - before.day)
+    ) {
+      match = after;
+    } else if (missingDate === 'nearest') {
+      match = before;
+    } else {
+      // A substitute must come from a weekday; a rate recorded on the day
+      // itself is always used
+      let previous = index;
+      while (
+        previous >= 0 &&
+        points[previous].day !== day &&
+        isWeekend(points[previous].day)
+      ) {
+        previous -= 1;
+      }
+      match = previous >= 0 ? points[previous] : undefined;
+    }
+
+    if (match === undefined || Math.abs(match.day - day) > maxGapDays) {
+      return undefined;
+    }
+
+    return {
+      from: source,
+      to: target,
+      rate: match.rate,
+      date: new Date(match.day * MS_PER_DAY),
+      requestedDate,
+    };
+  }
+
+  /**
+   * Returns a provider that answers with the rates in effect on a day, for
+   * use with `convertCurrency`, `MoneyBag.convertTo` and other functions
+   * that take a rate provider
+   *
+   * @param date - The day to look up
+   * @param options - How to handle days without a rate
+   * @returns A synchronous rate provider
+   *
+   * @throws {MonieUtilsError} When the date is invalid
+   *
+   * @example
+   * ```typescript
+   * cart.convertTo('EUR', history.at('2024-03-15'));
+   * ```
+   */
+  public at(
+    date: Date | string,
+    options: HistoricalRateOptions = {}
+  ): ExchangeRateProvider {
+    toDay(date, 'date');
+
+    return {
+      getRate: (from, to) => this.getRate(from, to, date, options)?.rate,
+      listPairs: () => this.listPairs(),
+    };
+  }
+
+  /**
+   * Lists every pair with at least one recorded rate
+   *
+   * @returns Source and target currency codes of each pair
+   */
+  public listPairs(): Array<[from: string, to: string]> {
+    return [...this.series.keys()].map(key => {
+      const [from, to] = key.split('/');
+      return [from, to];
+    });
+  }
+
+  /**
+   * Returns every recorded rate with ISO date strings, ready to be saved as
+   * JSON and loaded again with the constructor
+   *
+   * @returns Records grouped by pair, oldest first
+   */
+  public toJSON(): HistoricalRateRecord[] {
+    return [...this.series.entries()].flatMap(([key, points]) => {
+      const [from, to] = key.split('/');
+      return points.map(({ day, rate }) => ({
+        date: new Date(day * MS_PER_DAY).toISOString().slice(0, 10),
+        from,
+        to,
+        rate,
+      }));
+    });
+  }
+}
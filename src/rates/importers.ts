@@ -0,0 +1,396 @@
+/**
+ * Importers for offline exchange rate files (ECB XML, CSV and JSON)
+ */
+
+import type {
+  RateTable,
+  HistoricalRateRecord,
+  RateImportOptions,
+  CsvRateImportOptions,
+  RateSnapshot,
+} from './types';
+import { assertValidRate } from './rates';
+import { toRateDate } from './historicalRates';
+import { isValidCurrency } from '../validation/validation';
+import { MonieUtilsError, isMonieUtilsError } from '../errors';
+
+type CsvColumn = 'date' | 'base' | 'quote' | 'rate';
+
+/**
+ * Column names accepted in CSV headers
+ */
+const CSV_COLUMNS: Record<CsvColumn, readonly string[]> = {
+  date: ['date', 'time'],
+  base: ['base', 'from', 'source'],
+  quote: ['quote', 'to', 'target', 'currency'],
+  rate: ['rate', 'value'],
+};
+
+/**
+ * Collects validated records from an import
+ */
+class RecordCollector {
+  public readonly records: HistoricalRateRecord[] = [];
+  private readonly options: RateImportOptions;
+
+  constructor(options: RateImportOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Validates one rate and adds it (and its inverse, if requested)
+   *
+   * @param date - Day of the rate
+   * @param base - Source currency code
+   * @param quote - Target currency code
+   * @param rate - Units of `quote` per unit of `base`
+   * @param location - Where the rate was found, for error details
+   */
+  public add(
+    date: unknown,
+    base: unknown,
+    quote: unknown,
+    rate: unknown,
+    location: Record<string, unknown>
+  ): void {
+    try {
+      for (const [field, code] of [
+        ['base', base],
+        ['quote', quote],
+      ] as const) {
+        if (typeof code !== 'string' || !isValidCurrency(code)) {
+          throw new MonieUtilsError(
+            `Invalid currency code: ${String(code)}`,
+            'INVALID_CURRENCY',
+            { field, value: code }
+          );
+        }
+      }
+
+      if (typeof date !== 'string' && !(date instanceof Date)) {
+        throw new MonieUtilsError(
+          `Invalid rate date: ${String(date)}`,
+          'INVALID_DATE',
+          { field: 'date', value: date }
+        );
+      }
+
+      const from = (base as string).toUpperCase();
+      const to = (quote as string).toUpperCase();
+      const day = toRateDate(date).toISOString().slice(0, 10);
+      const value = assertValidRate(
+        typeof rate === 'string' && rate.trim() !== '' ? Number(rate) : rate,
+        from,
+        to
+      );
+
+      this.records.push({ date: day, from, to, rate: value });
+      if (this.options.includeInverse) {
+        this.records.push({ date: day, from: to, to: from, rate: 1 / value });
+      }
+    } catch (error) {
+      if (!isMonieUtilsError(error)) {
+        throw error;
+      }
+      if (!this.options.skipInvalid) {
+        throw new MonieUtilsError(error.message, error.code, {
+          ...error.details,
+          ...location,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Parses the attributes of an XML tag
+ *
+ * @param source - Text between the tag name and its closing bracket
+ * @returns Attribute values by name
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, , value] of source.matchAll(
+    /([\w:-]+)\s*=\s*(["'])(.*?)\2/g
+  )) {
+    attributes[name] = value;
+  }
+  return attributes;
+}
+
+/**
+ * Checks that file content is a string
+ *
+ * @param content - The file content
+ * @param field - Field name for error details
+ */
+function assertContent(content: unknown, field: string): string {
+  if (typeof content !== 'string') {
+    throw new MonieUtilsError(
+      'Rate file content must be a string',
+      'INVALID_ARGUMENT',
+      { field, value: content }
+    );
+  }
+  return content;
+}
+
+/**
+ * Parses the European Central Bank's reference rate XML, in either the
+ * daily (`eurofxref-daily.xml`) or historical (`eurofxref-hist.xml`)
+ * format. Every rate is quoted against EUR.
+ *
+ * @param xml - File content
+ * @param options - Import options
+ * @returns One record per currency per day
+ *
+ * @throws {MonieUtilsError} When the file has no rates, or a currency,
+ * date or rate is invalid and `skipInvalid` is off
+ *
+ * @example
+ * ```typescript
+ * const records = parseEcbXml(readFileSync('eurofxref-hist.xml', 'utf8'), {
+ *   skipInvalid: true, // skip currencies that no longer exist, such as CYP
+ * });
+ * const history = new HistoricalRateStore(records);
+ * ```
+ */
+export function parseEcbXml(
+  xml: string,
+  options: RateImportOptions = {}
+): HistoricalRateRecord[] {
+  const collector = new RecordCollector(options);
+  let date: string | undefined;
+  let days = 0;
+
+  for (const [, source] of assertContent(xml, 'xml').matchAll(
+    /<Cube\b([^>]*)>/g
+  )) {
+    const attributes = parseAttributes(source);
+
+    if (attributes.time !== undefined) {
+      date = attributes.time;
+      days++;
+    } else if (attributes.currency !== undefined) {
+      if (date === undefined) {
+        throw new MonieUtilsError(
+          'ECB rate found outside a dated Cube element',
+          'PARSING_FAILED',
+          { field: 'xml', value: attributes.currency }
+        );
+      }
+      collector.add(date, 'EUR', attributes.currency, attributes.rate, {
+        date,
+      });
+    }
+  }
+
+  if (days === 0) {
+    throw new MonieUtilsError(
+      'No dated Cube elements found in ECB XML',
+      'PARSING_FAILED',
+      { field: 'xml' }
+    );
+  }
+
+  return collector.records;
+}
+
+/**
+ * Parses CSV rate files with date, base, quote and rate columns. A header
+ * row is optional; when present, columns are matched by name (date, base or
+ * from, quote or to, rate) in any order.
+ *
+ * @param csv - File content
+ * @param options - Import options
+ * @returns One record per data row
+ *
+ * @throws {MonieUtilsError} When a row is malformed, or a currency, date or
+ * rate is invalid and `skipInvalid` is off
+ *
+ * @example
+ * ```typescript
+ * parseRateCsv('date,base,quote,rate\n2024-03-15,USD,NGN,1580.5');
+ * // [{ date: '2024-03-15', from: 'USD', to: 'NGN', rate: 1580.5 }]
+ * ```
+ */
+export function parseRateCsv(
+  csv: string,
+  options: CsvRateImportOptions = {}
+): HistoricalRateRecord[] {
+  const { delimiter = ',' } = options;
+  const collector = new RecordCollector(options);
+  let columns: Record<CsvColumn, number> = {
+    date: 0,
+    base: 1,
+    quote: 2,
+    rate: 3,
+  };
+  let isFirstRow = true;
+
+  assertContent(csv, 'csv')
+    .split(/\r?\n/)
+    .forEach((text, index) => {
+      const line = index + 1;
+      if (text.trim() === '') {
+        return;
+      }
+
+      const cells = text
+        .split(delimiter)
+        .map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+      if (isFirstRow) {
+        isFirstRow = false;
+        const names = cells.map(cell => cell.toLowerCase());
+
+        if (names.some(name => CSV_COLUMNS.rate.includes(name))) {
+          const header = { ...columns };
+          for (const column of Object.keys(CSV_COLUMNS) as CsvColumn[]) {
+            const position = names.findIndex(name =>
+              CSV_COLUMNS[column].includes(name)
+            );
+            if (position === -1) {
+              throw new MonieUtilsError(
+                `CSV header is missing a ${column} column`,
+                'PARSING_FAILED',
+                { field: 'csv', value: text, line }
+              );
+            }
+            header[column] = position;
+          }
+          columns = header;
+          return;
+        }
+      }
+
+      if (cells.length <= Math.max(...Object.values(columns))) {
+        throw new MonieUtilsError(
+          `Malformed CSV row on line ${line}`,
+          'PARSING_FAILED',
+          { field: 'csv', value: text, line }
+        );
+      }
+
+      collector.add(
+        cells[columns.date],
+        cells[columns.base],
+        cells[columns.quote],
+        cells[columns.rate],
+        { line }
+      );
+    });
+
+  return collector.records;
+}
+
+/**
+ * Parses JSON rate files. Accepts a snapshot
+ * (`{ base, date, rates: { CODE: rate } }`), an array of snapshots, or an
+ * array of `{ date, from, to, rate }` records such as
+ * `HistoricalRateStore.toJSON()` produces.
+ *
+ * @param json - File content as a JSON string, or the already parsed value
+ * @param options - Import options
+ * @returns One record per rate
+ *
+ * @throws {MonieUtilsError} When the JSON is malformed, or a currency, date
+ * or rate is invalid and `skipInvalid` is off
+ *
+ * @example
+ * ```typescript
+ * parseRateJson('{ "base": "USD", "date": "2024-03-15", "rates": { "KES": 131.2 } }');
+ * // [{ date: '2024-03-15', from: 'USD', to: 'KES', rate: 131.2 }]
+ * ```
+ */
+export function parseRateJson(
+  json: unknown,
+  options: RateImportOptions = {}
+): HistoricalRateRecord[] {
+  let data: unknown = json;
+
+  if (typeof json === 'string') {
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new MonieUtilsError('Invalid JSON rate file', 'PARSING_FAILED', {
+        field: 'json',
+      });
+    }
+  }
+
+  const collector = new RecordCollector(options);
+  const items: unknown[] = Array.isArray(data) ? data : [data];
+
+  items.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new MonieUtilsError(
+        'Rate entries must be objects',
+        'PARSING_FAILED',
+        { field: 'json', value: item, index }
+      );
+    }
+
+    const entry = item as Partial<RateSnapshot & HistoricalRateRecord>;
+
+    if (typeof entry.rates === 'object' && entry.rates !== null) {
+      for (const [code, rate] of Object.entries(entry.rates)) {
+        collector.add(entry.date, entry.base, code, rate, { index });
+      }
+    } else if ('rate' in entry) {
+      collector.add(entry.date, entry.from, entry.to, entry.rate, { index });
+    } else {
+      throw new MonieUtilsError(
+        'Rate entries must have either rates or from, to and rate',
+        'PARSING_FAILED',
+        { field: 'json', value: item, index }
+      );
+    }
+  });
+
+  return collector.records;
+}
+
+/**
+ * Reduces imported records to the latest rate of each pair, for use with
+ * `InMemoryRateProvider`
+ *
+ * @param records - Imported records
+ * @returns The latest rates keyed by source then target currency
+ *
+ * @throws {MonieUtilsError} When a record's date is invalid
+ *
+ * @example
+ * ```typescript
+ * const rates = new InMemoryRateProvider(
+ *   toRateTable(parseEcbXml(xml, { includeInverse: true }))
+ * );
+ * convertCurrency(100, 'GBP', 'JPY', rates, { pivotCurrency: 'EUR' });
+ * ```
+ */
+export function toRateTable(
+  records: Iterable<HistoricalRateRecord>
+): RateTable {
+  const latest = new Map<
+    string,
+    { time: number; record: HistoricalRateRecord }
+  >();
+
+  for (const record of records) {
+    const time = toRateDate(record.date).getTime();
+    const key = `${record.from.toUpperCase()}/${record.to.toUpperCase()}`;
+    const current = latest.get(key);
+
+    if (current === undefined || time >= current.time) {
+      latest.set(key, { time, record });
+    }
+  }
+
+  const table: RateTable = {};
+  for (const { record } of latest.values()) {
+    const from = record.from.toUpperCase();
+    table[from] = { ...table[from], [record.to.toUpperCase()]: record.rate };
+  }
+
+  return table;
+}
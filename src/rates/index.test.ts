@@ -0,0 +1,600 @@
+/**
+ * Tests for exchange rate providers
+ */
+
+import {
+  InMemoryRateProvider,
+  createCachedRateProvider,
+  createFallbackRateProvider,
+  isExchangeRateProvider,
+  resolveExchangeRate,
+  resolveExchangeRateAsync,
+  HistoricalRateStore,
+  parseEcbXml,
+  parseRateCsv,
+  parseRateJson,
+  toRateTable,
+  analyzeRates,
+} from './index';
+import type { ExchangeRateProvider, AsyncExchangeRateProvider } from './index';
+import { MonieUtilsError } from '../errors';
+
+describe('exchange rate providers', () => {
+  describe('InMemoryRateProvider', () => {
+    it('should look up rates case-insensitively', () => {
+      const rates = new InMemoryRateProvider({ USD: { EUR: 0.92 } });
+      rates.setRate('eur', 'usd', 1.09);
+
+      expect(rates.getRate('usd', 'EUR')).toBe(0.92);
+      expect(rates.getRate('EUR', 'USD')).toBe(1.09);
+      expect(rates.getRate('USD', 'USD')).toBe(1);
+      expect(rates.getRate('USD', 'JPY')).toBeUndefined();
+      expect(rates.deleteRate('USD', 'EUR')).toBe(true);
+      expect(rates.getRate('USD', 'EUR')).toBeUndefined();
+    });
+
+    it('should reject invalid rates', () => {
+      expect(() => new InMemoryRateProvider({ USD: { EUR: -1 } })).toThrow(
+        expect.objectContaining({ code: 'INVALID_RATE' })
+      );
+      expect(() =>
+        new InMemoryRateProvider().setRate('USD', 'EUR', NaN)
+      ).toThrow(MonieUtilsError);
+    });
+
+    it('should be recognised as a provider', () => {
+      expect(isExchangeRateProvider(new InMemoryRateProvider())).toBe(true);
+      expect(isExchangeRateProvider({ getRate: () => 1 })).toBe(true);
+      expect(isExchangeRateProvider(0.85)).toBe(false);
+      expect(isExchangeRateProvider(null)).toBe(false);
+    });
+  });
+
+  describe('createCachedRateProvider', () => {
+    it('should cache sync rates until the TTL expires', () => {
+      let time = 0;
+      const getRate = jest.fn((from: string, to: string) =>
+        from === 'USD' && to === 'EUR' ? 0.92 : undefined
+      );
+      const cached = createCachedRateProvider(
+        { getRate },
+        { ttlMs: 1000, now: () => time }
+      );
+
+      expect(cached.getRate('USD', 'EUR')).toBe(0.92);
+      expect(cached.getRate('usd', 'eur')).toBe(0.92);
+      expect(getRate).toHaveBeenCalledTimes(1);
+
+      time = 1000;
+      expect(cached.getRate('USD', 'EUR')).toBe(0.92);
+      expect(getRate).toHaveBeenCalledTimes(2);
+
+      expect(cached.getRate('USD', 'JPY')).toBeUndefined();
+      expect(cached.getRate('USD', 'JPY')).toBeUndefined();
+      expect(getRate).toHaveBeenCalledTimes(4);
+    });
+
+    it('should share pending async lookups and forget failures', async () => {
+      let calls = 0;
+      const feed: AsyncExchangeRateProvider = {
+        getRate: async () => {
+          calls += 1;
+          if (calls === 1) {
+            throw new Error('feed down');
+          }
+          return 0.92;
+        },
+      };
+      const cached = createCachedRateProvider(feed, { ttlMs: 60_000 });
+
+      await expect(cached.getRate('USD', 'EUR')).rejects.toThrow('feed down');
+      const [first, second] = await Promise.all([
+        cached.getRate('USD', 'EUR'),
+        cached.getRate('USD', 'EUR'),
+      ]);
+
+      expect([first, second]).toEqual([0.92, 0.92]);
+      expect(calls).toBe(2);
+    });
+
+    it('should reject an invalid TTL', () => {
+      expect(() =>
+        createCachedRateProvider(new InMemoryRateProvider(), { ttlMs: -1 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    });
+  });
+
+  describe('createFallbackRateProvider', () => {
+    const primary = new InMemoryRateProvider({ USD: { EUR: 0.92 } });
+    const backup = new InMemoryRateProvider({
+      USD: { EUR: 0.9, GBP: 0.79 },
+    });
+
+    it('should try sync providers in order', () => {
+      const rates: ExchangeRateProvider = createFallbackRateProvider(
+        primary,
+        backup
+      );
+
+      expect(rates.getRate('USD', 'EUR')).toBe(0.92);
+      expect(rates.getRate('USD', 'GBP')).toBe(0.79);
+      expect(rates.getRate('USD', 'JPY')).toBeUndefined();
+    });
+
+    it('should skip failing providers but report outages', () => {
+      const broken: ExchangeRateProvider = {
+        getRate: () => {
+          throw new Error('feed down');
+        },
+      };
+      const rates = createFallbackRateProvider(broken, backup);
+
+      expect(rates.getRate('USD', 'GBP')).toBe(0.79);
+      expect(() => rates.getRate('USD', 'JPY')).toThrow('feed down');
+    });
+
+    it('should chain async providers', async () => {
+      const feed: AsyncExchangeRateProvider = {
+        getRate: async (_from, to) => (to === 'NGN' ? 1500 : undefined),
+      };
+      const rates = createFallbackRateProvider(feed, backup);
+
+      await expect(rates.getRate('USD', 'NGN')).resolves.toBe(1500);
+      await expect(rates.getRate('USD', 'GBP')).resolves.toBe(0.79);
+      await expect(rates.getRate('USD', 'JPY')).resolves.toBeUndefined();
+    });
+
+    it('should require at least one provider', () => {
+      expect(() => createFallbackRateProvider()).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('resolveExchangeRate', () => {
+    const rates = new InMemoryRateProvider({
+      KES: { USD: 0.0078, NGN: 12 },
+      USD: { GHS: 15.5, EUR: 0.1 },
+      EUR: { GHS: 0.2 },
+      NGN: { ZAR: 0.012 },
+      ZAR: { GHS: 0.84 },
+    });
+
+    it('should prefer direct rates', () => {
+      expect(resolveExchangeRate(rates, 'usd', 'GHS')).toEqual({
+        rate: 15.5,
+        path: ['USD', 'GHS'],
+        legs: [{ from: 'USD', to: 'GHS', rate: 15.5 }],
+      });
+      expect(resolveExchangeRate(rates, 'KES', 'KES')).toEqual({
+        rate: 1,
+        path: ['KES'],
+        legs: [],
+      });
+    });
+
+    it('should triangulate through the pivot currency', () => {
+      expect(resolveExchangeRate(rates, 'KES', 'GHS')).toEqual({
+        rate: 0.1209,
+        path: ['KES', 'USD', 'GHS'],
+        legs: [
+          { from: 'KES', to: 'USD', rate: 0.0078 },
+          { from: 'USD', to: 'GHS', rate: 15.5 },
+        ],
+      });
+      expect(
+        resolveExchangeRate(rates, 'USD', 'GHS', { pivotCurrency: 'EUR' })?.path
+      ).toEqual(['USD', 'GHS']);
+      expect(
+        resolveExchangeRate(rates, 'KES', 'GHS', { triangulation: 'none' })
+      ).toBeUndefined();
+    });
+
+    it('should multiply legs exactly and round once', () => {
+      // 0.1 * 0.2 is 0.020000000000000004 in floating point
+      const viaEur = new InMemoryRateProvider({
+        USD: { EUR: 0.1 },
+        EUR: { GHS: 0.2 },
+      });
+      expect(
+        resolveExchangeRate(viaEur, 'USD', 'GHS', { pivotCurrency: 'EUR' })
+          ?.rate
+      ).toBe(0.02);
+      expect(
+        resolveExchangeRate(rates, 'KES', 'GHS', { ratePrecision: 2 })?.rate
+      ).toBe(0.12);
+    });
+
+    it('should follow the shortest path through listed pairs', () => {
+      const noUsd = new InMemoryRateProvider({
+        KES: { NGN: 12 },
+        NGN: { ZAR: 0.012 },
+        ZAR: { GHS: 0.84 },
+      });
+
+      expect(resolveExchangeRate(noUsd, 'KES', 'GHS')).toBeUndefined();
+      expect(
+        resolveExchangeRate(noUsd, 'KES', 'GHS', {
+          triangulation: 'shortest-path',
+        })
+      ).toMatchObject({ rate: 0.12096, path: ['KES', 'NGN', 'ZAR', 'GHS'] });
+      expect(
+        resolveExchangeRate(rates, 'KES', 'GHS', {
+          triangulation: 'shortest-path',
+        })?.path
+      ).toEqual(['KES', 'USD', 'GHS']);
+    });
+
+    it('should list pairs through caches and fallbacks', () => {
+      const chained = createFallbackRateProvider(
+        createCachedRateProvider(
+          new InMemoryRateProvider({ KES: { NGN: 12 } }),
+          { ttlMs: 1000 }
+        ),
+        new InMemoryRateProvider({ NGN: { GHS: 0.01 } })
+      );
+
+      expect(chained.listPairs?.()).toEqual([
+        ['KES', 'NGN'],
+        ['NGN', 'GHS'],
+      ]);
+      expect(
+        resolveExchangeRate(chained, 'KES', 'GHS', {
+          triangulation: 'shortest-path',
+        })?.rate
+      ).toBe(0.12);
+      expect(
+        createCachedRateProvider({ getRate: () => 1 }, { ttlMs: 1000 })
+          .listPairs
+      ).toBeUndefined();
+    });
+
+    it('should resolve cross rates from async providers', async () => {
+      const feed: AsyncExchangeRateProvider = {
+        getRate: async (from, to) => rates.getRate(from, to),
+      };
+
+      await expect(
+        resolveExchangeRateAsync(feed, 'KES', 'GHS')
+      ).resolves.toMatchObject({ rate: 0.1209, path: ['KES', 'USD', 'GHS'] });
+      expect(() => resolveExchangeRate(feed as never, 'KES', 'GHS')).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+
+    it('should reject invalid options', () => {
+      expect(() =>
+        resolveExchangeRate(rates, 'KES', 'GHS', {
+          triangulation: 'sideways' as never,
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() =>
+        resolveExchangeRate(rates, 'KES', 'GHS', { pivotCurrency: 'XYZ' })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CURRENCY' }));
+      expect(() =>
+        resolveExchangeRate(rates, 'KES', 'GHS', { ratePrecision: 0 })
+      ).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('HistoricalRateStore', () => {
+    const history = new HistoricalRateStore([
+      { date: '2024-03-13', from: 'USD', to: 'EUR', rate: 0.914 },
+      { date: '2024-03-15', from: 'USD', to: 'EUR', rate: 0.918 },
+      {
+        date: new Date('2024-03-14T18:30:00Z'),
+        from: 'usd',
+        to: 'eur',
+        rate: 0.915,
+      },
+      { date: '2024-03-18', from: 'USD', to: 'EUR', rate: 0.92 },
+    ]);
+
+    it('should return the rate recorded on the day', () => {
+      expect(history.getRate('USD', 'EUR', '2024-03-14')).toEqual({
+        from: 'USD',
+        to: 'EUR',
+        rate: 0.915,
+        date: new Date('2024-03-14'),
+        requestedDate: new Date('2024-03-14'),
+      });
+      expect(
+        history.getRate('USD', 'EUR', new Date('2024-03-15T23:59:00Z'))?.rate
+      ).toBe(0.918);
+      expect(history.getRate('USD', 'GBP', '2024-03-15')).toBeUndefined();
+    });
+
+    it('should fall back to the previous business day', () => {
+      const weekend = history.getRate('USD', 'EUR', '2024-03-17');
+
+      expect(weekend?.rate).toBe(0.918);
+      expect(weekend?.date).toEqual(new Date('2024-03-15'));
+      expect(history.getRate('USD', 'EUR', '2024-03-01')).toBeUndefined();
+      expect(history.getRate('USD', 'EUR', '2024-04-30')).toBeUndefined();
+      expect(
+        history.getRate('USD', 'EUR', '2024-04-30', { maxGapDays: 60 })?.rate
+      ).toBe(0.92);
+    });
+
+    it('should skip weekend rates when falling back', () => {
+      const withWeekend = new HistoricalRateStore([
+        { date: '2024-03-15', from: 'USD', to: 'EUR', rate: 0.918 },
+        { date: '2024-03-16', from: 'USD', to: 'EUR', rate: 0.95 },
+      ]);
+
+      expect(withWeekend.getRate('USD', 'EUR', '2024-03-18')).toMatchObject({
+        rate: 0.918,
+        date: new Date('2024-03-15'),
+      });
+      expect(withWeekend.getRate('USD', 'EUR', '2024-03-16')?.rate).toBe(0.95);
+    });
+
+    it('should pick the nearest day when asked', () => {
+      const nearest = { missingDate: 'nearest' } as const;
+
+      expect(history.getRate('USD', 'EUR', '2024-03-17', nearest)?.rate).toBe(
+        0.92
+      );
+      expect(history.getRate('USD', 'EUR', '2024-03-10', nearest)?.rate).toBe(
+        0.914
+      );
+    });
+
+    it('should throw for missing days in strict mode', () => {
+      expect(() =>
+        history.getRate('USD', 'EUR', '2024-03-16', { missingDate: 'error' })
+      ).toThrow(
+        expect.objectContaining({
+          code: 'EXCHANGE_RATE_NOT_FOUND',
+          message: 'No USD to EUR rate recorded on 2024-03-16',
+        })
+      );
+      expect(
+        history.getRate('USD', 'EUR', '2024-03-18', { missingDate: 'error' })
+          ?.rate
+      ).toBe(0.92);
+    });
+
+    it('should act as a provider for a fixed day', () => {
+      const provider = history.at('2024-03-16');
+
+      expect(provider.getRate('USD', 'EUR')).toBe(0.918);
+      expect(provider.listPairs?.()).toEqual([['USD', 'EUR']]);
+    });
+
+    it('should round-trip through JSON', () => {
+      const restored = new HistoricalRateStore(
+        JSON.parse(JSON.stringify(history))
+      );
+
+      expect(restored.toJSON()).toEqual(history.toJSON());
+      expect(history.toJSON()[1]).toEqual({
+        date: '2024-03-14',
+        from: 'USD',
+        to: 'EUR',
+        rate: 0.915,
+      });
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => history.addRate('USD', 'EUR', 'yesterday', 0.9)).toThrow(
+        expect.objectContaining({ code: 'INVALID_DATE' })
+      );
+      expect(() => history.addRate('USD', 'EUR', '2024-03-15', 0)).toThrow(
+        expect.objectContaining({ code: 'INVALID_RATE' })
+      );
+      expect(() =>
+        history.getRate('USD', 'EUR', '2024-03-15', { maxGapDays: -1 })
+      ).toThrow(MonieUtilsError);
+      expect(() =>
+        history.getRate('USD', 'EUR', '2024-03-15', {
+          missingDate: 'latest' as never,
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    });
+  });
+
+  describe('rate file importers', () => {
+    const ecbXml = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time='2024-03-15'>
+      <Cube currency='USD' rate='1.0887'/>
+      <Cube currency='JPY' rate='162.13'/>
+    </Cube>
+    <Cube time="2024-03-14">
+      <Cube currency="USD" rate="1.0925"/>
+      <Cube currency="CYP" rate="0.5853"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+    it('should parse ECB daily and historical XML', () => {
+      expect(parseEcbXml(ecbXml, { skipInvalid: true })).toEqual([
+        { date: '2024-03-15', from: 'EUR', to: 'USD', rate: 1.0887 },
+        { date: '2024-03-15', from: 'EUR', to: 'JPY', rate: 162.13 },
+        { date: '2024-03-14', from: 'EUR', to: 'USD', rate: 1.0925 },
+      ]);
+      expect(() => parseEcbXml(ecbXml)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_CURRENCY',
+          details: expect.objectContaining({
+            value: 'CYP',
+            date: '2024-03-14',
+          }),
+        })
+      );
+      expect(() => parseEcbXml('<Envelope/>')).toThrow(
+        expect.objectContaining({ code: 'PARSING_FAILED' })
+      );
+    });
+
+    it('should parse CSV with or without a header', () => {
+      expect(
+        parseRateCsv(
+          'rate;quote;base;date\r\n1580.5;NGN;usd;2024-03-15\r\n\r\n',
+          { delimiter: ';' }
+        )
+      ).toEqual([{ date: '2024-03-15', from: 'USD', to: 'NGN', rate: 1580.5 }]);
+      expect(parseRateCsv('"2024-03-15","USD","KES","131.2"')).toEqual([
+        { date: '2024-03-15', from: 'USD', to: 'KES', rate: 131.2 },
+      ]);
+    });
+
+    it('should report the line of invalid CSV rows', () => {
+      const csv =
+        'date,base,quote,rate\n2024-03-15,USD,KES,131.2\n2024-03-15,USD,KES,abc';
+
+      expect(() => parseRateCsv(csv)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_RATE',
+          details: expect.objectContaining({ line: 3 }),
+        })
+      );
+      expect(parseRateCsv(csv, { skipInvalid: true })).toHaveLength(1);
+      expect(() => parseRateCsv('2024-03-15,USD,KES')).toThrow(
+        expect.objectContaining({ code: 'PARSING_FAILED' })
+      );
+      expect(() => parseRateCsv('date,base,rate\n2024-03-15,USD,1')).toThrow(
+        expect.objectContaining({ code: 'PARSING_FAILED' })
+      );
+    });
+
+    it('should parse JSON snapshots and records', () => {
+      expect(
+        parseRateJson(
+          '{ "base": "USD", "date": "2024-03-15", "rates": { "KES": 131.2, "GHS": 12.9 } }'
+        )
+      ).toEqual([
+        { date: '2024-03-15', from: 'USD', to: 'KES', rate: 131.2 },
+        { date: '2024-03-15', from: 'USD', to: 'GHS', rate: 12.9 },
+      ]);
+
+      const history = new HistoricalRateStore([
+        { date: '2024-03-15', from: 'USD', to: 'EUR', rate: 0.918 },
+      ]);
+      expect(parseRateJson(JSON.stringify(history))).toEqual(history.toJSON());
+      expect(() => parseRateJson('{ not json')).toThrow(
+        expect.objectContaining({ code: 'PARSING_FAILED' })
+      );
+      expect(() => parseRateJson([{ base: 'USD' }])).toThrow(
+        expect.objectContaining({ code: 'PARSING_FAILED' })
+      );
+    });
+
+    it('should produce data the conversion functions can use', () => {
+      const records = parseEcbXml(ecbXml, {
+        skipInvalid: true,
+        includeInverse: true,
+      });
+      const rates = new InMemoryRateProvider(toRateTable(records));
+
+      expect(rates.getRate('EUR', 'USD')).toBe(1.0887);
+      expect(rates.getRate('USD', 'EUR')).toBeCloseTo(1 / 1.0887, 12);
+      expect(
+        resolveExchangeRate(rates, 'USD', 'JPY', { pivotCurrency: 'EUR' })?.path
+      ).toEqual(['USD', 'EUR', 'JPY']);
+      expect(
+        new HistoricalRateStore(records).getRate('EUR', 'USD', '2024-03-14')
+          ?.rate
+      ).toBe(1.0925);
+    });
+  });
+
+  describe('analyzeRates', () => {
+    it('should report missing inverses and inverse mismatches', () => {
+      const report = analyzeRates({
+        USD: { EUR: 0.85, GBP: 0.73 },
+        EUR: { USD: 1.18, GBP: 0.86 },
+      });
+
+      expect(report.consistent).toBe(false);
+      expect(report.currencies).toEqual(['USD', 'EUR', 'GBP']);
+      expect(report.pairCount).toBe(4);
+      expect(report.missingInverses).toEqual([
+        { from: 'USD', to: 'GBP', rate: 0.73 },
+        { from: 'EUR', to: 'GBP', rate: 0.86 },
+      ]);
+      expect(report.inverseMismatches).toEqual([
+        {
+          from: 'USD',
+          to: 'EUR',
+          rate: 0.85,
+          inverseRate: 1.18,
+          roundTrip: 1.003,
+          deviationBps: 30,
+        },
+      ]);
+      expect(
+        analyzeRates(
+          { USD: { EUR: 0.85 }, EUR: { USD: 1.18 } },
+          {
+            toleranceBps: 30,
+          }
+        ).consistent
+      ).toBe(true);
+    });
+
+    it('should find triangular arbitrage cycles', () => {
+      const { arbitrageCycles, inverseMismatches } = analyzeRates({
+        USD: { EUR: 0.9, GBP: 0.8 },
+        EUR: { USD: 1 / 0.9, GBP: 0.9 },
+        GBP: { USD: 1.25, EUR: 1 / 0.9 },
+      });
+
+      expect(inverseMismatches).toEqual([]);
+      expect(arbitrageCycles).toHaveLength(1);
+      expect(arbitrageCycles[0]).toEqual({
+        path: ['USD', 'EUR', 'GBP', 'USD'],
+        rates: [0.9, 0.9, 1.25],
+        product: 1.0125,
+        gainBps: expect.closeTo(125, 9),
+      });
+    });
+
+    it('should report stale timestamped rates', () => {
+      const now = Date.UTC(2024, 2, 15, 12);
+      const { staleRates, missingInverses } = analyzeRates(
+        [
+          {
+            from: 'usd',
+            to: 'eur',
+            rate: 0.92,
+            timestamp: new Date(now - 90_000),
+          },
+          { from: 'EUR', to: 'USD', rate: 1 / 0.92, timestamp: new Date(now) },
+          { from: 'USD', to: 'USD', rate: 1 },
+        ],
+        { maxAgeMs: 60_000, now: () => now }
+      );
+
+      expect(missingInverses).toEqual([]);
+      expect(staleRates).toEqual([
+        {
+          from: 'USD',
+          to: 'EUR',
+          rate: 0.92,
+          timestamp: new Date(now - 90_000),
+          ageMs: 90_000,
+        },
+      ]);
+    });
+
+    it('should analyze providers that list their pairs', () => {
+      const rates = new InMemoryRateProvider({
+        USD: { EUR: 0.92 },
+        EUR: { USD: 1 / 0.92 },
+      });
+
+      expect(analyzeRates(rates).consistent).toBe(true);
+      expect(() => analyzeRates({ getRate: () => 1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+      expect(() => analyzeRates({ USD: { EUR: -1 } })).toThrow(
+        expect.objectContaining({ code: 'INVALID_RATE' })
+      );
+      expect(() => analyzeRates({}, { toleranceBps: -1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+      );
+    });
+  });
+});
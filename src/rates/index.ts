@@ -0,0 +1,71 @@
+/**
+ * Exchange rate providers barrel export
+ *
+ * This module provides pluggable exchange rate sources including:
+ * - Sync and async provider interfaces accepted by the conversion functions
+ * - An in-memory provider for fixed tables and test stubs
+ * - A caching decorator with a time-to-live
+ * - Fallback chains that try providers in priority order
+ * - Cross rates derived through a pivot currency or the shortest path
+ * - Historical rate stores for point-in-time lookups
+ * - Importers for ECB XML, CSV and JSON rate files
+ * - Consistency checks for missing inverses, stale rates and arbitrage
+ *
+ * @example
+ * ```typescript
+ * import {
+ *   InMemoryRateProvider,
+ *   createCachedRateProvider,
+ *   createFallbackRateProvider,
+ * } from 'monie-utils/rates';
+ *
+ * const rates = createFallbackRateProvider(
+ *   createCachedRateProvider(liveFeed, { ttlMs: 60_000 }),
+ *   new InMemoryRateProvider({ USD: { EUR: 0.92 } })
+ * );
+ * await convertCurrencyAsync(100, 'USD', 'EUR', rates);
+ * ```
+ */
+
+// Export providers
+export {
+  InMemoryRateProvider,
+  createCachedRateProvider,
+  createFallbackRateProvider,
+  isExchangeRateProvider,
+  resolveExchangeRate,
+  resolveExchangeRateAsync,
+} from './rates';
+export { HistoricalRateStore } from './historicalRates';
+export {
+  parseEcbXml,
+  parseRateCsv,
+  parseRateJson,
+  toRateTable,
+} from './importers';
+export { analyzeRates } from './consistency';
+
+// Export types
+export type {
+  RateTable,
+  ExchangeRateProvider,
+  AsyncExchangeRateProvider,
+  RateCacheOptions,
+  TriangulationStrategy,
+  RateResolutionOptions,
+  ResolvedRate,
+  HistoricalRateRecord,
+  MissingRateStrategy,
+  HistoricalRateOptions,
+  HistoricalRate,
+  RateImportOptions,
+  CsvRateImportOptions,
+  RateSnapshot,
+  RateAnalysisInput,
+  RateAnalysisOptions,
+  MissingInverseRate,
+  InverseRateMismatch,
+  StaleRate,
+  ArbitrageCycle,
+  RateAnalysisReport,
+} from './types';
@@ -0,0 +1,660 @@
+/**
+ * Exchange rate providers: in-memory tables, caching, fallback chains and
+ * cross-rate triangulation
+ */
+
+import type {
+  RateTable,
+  ExchangeRateProvider,
+  AsyncExchangeRateProvider,
+  RateCacheOptions,
+  TriangulationStrategy,
+  RateResolutionOptions,
+  ResolvedRate,
+} from './types';
+import type { ExchangeRate } from '../conversion/types';
+import { Decimal } from '../decimal';
+import { isValidCurrency } from '../validation/validation';
+import { MonieUtilsError } from '../errors';
+
+const TRIANGULATION_STRATEGIES: readonly TriangulationStrategy[] = [
+  'pivot',
+  'shortest-path',
+  'none',
+];
+
+/**
+ * Most significant digits a derived rate can keep; doubles hold no more
+ */
+const MAX_RATE_PRECISION = 17;
+
+/**
+ * Checks whether a value is a promise or other thenable
+ */
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PromiseLike<T>).then === 'function'
+  );
+}
+
+/**
+ * Checks that a rate is a positive finite number
+ *
+ * @param rate - The rate to check
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @returns The rate
+ *
+ * @throws {MonieUtilsError} When the rate is not a positive finite number
+ */
+export function assertValidRate(
+  rate: unknown,
+  from: string,
+  to: string
+): number {
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+    throw new MonieUtilsError(
+      `Invalid exchange rate for ${from} to ${to}: ${rate}. Rate must be a positive number.`,
+      'INVALID_RATE',
+      { field: 'rate', value: rate, from, to }
+    );
+  }
+
+  return rate;
+}
+
+/**
+ * Checks whether a value implements the exchange rate provider interface
+ *
+ * @param value - The value to check
+ * @returns True if the value has a `getRate` method
+ *
+ * @example
+ * ```typescript
+ * isExchangeRateProvider(new InMemoryRateProvider()); // true
+ * isExchangeRateProvider(0.85); // false
+ * ```
+ */
+export function isExchangeRateProvider(
+  value: unknown
+): value is AsyncExchangeRateProvider {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncExchangeRateProvider).getRate === 'function'
+  );
+}
+
+/**
+ * Exchange rate provider backed by an in-memory table.
+ * Converting a currency into itself always has rate 1.
+ *
+ * @example
+ * ```typescript
+ * const rates = new InMemoryRateProvider({ USD: { EUR: 0.92 } });
+ * rates.setRate('EUR', 'USD', 1.09);
+ *
+ * rates.getRate('usd', 'eur'); // 0.92
+ * rates.getRate('USD', 'JPY'); // undefined
+ * ```
+ */
+export class InMemoryRateProvider implements ExchangeRateProvider {
+  private readonly rates = new Map<string, number>();
+
+  /**
+   * @param rates - Initial rates keyed by source then target currency
+   *
+   * @throws {MonieUtilsError} When a rate is not a positive number
+   */
+  constructor(rates: RateTable = {}) {
+    this.setRates(rates);
+  }
+
+  /**
+   * Sets the rate for one currency pair
+   *
+   * @param from - Source currency code
+   * @param to - Target currency code
+   * @param rate - Units of `to` per unit of `from`
+   * @returns This provider, for chaining
+   *
+   * @throws {MonieUtilsError} When the rate is not a positive number
+   */
+  public setRate(from: string, to: string, rate: number): this {
+    const key = `${from.toUpperCase()}/${to.toUpperCase()}`;
+    this.rates.set(key, assertValidRate(rate, from, to));
+    return this;
+  }
+
+  /**
+   * Sets many rates at once
+   *
+   * @param rates - Rates keyed by source then target currency
+   * @returns This provider, for chaining
+   *
+   * @throws {MonieUtilsError} When a rate is not a positive number
+   */
+  public setRates(rates: RateTable): this {
+    for (const [from, targets] of Object.entries(rates)) {
+      for (const [to, rate] of Object.entries(targets)) {
+        this.setRate(from, to, rate);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Removes the rate for one currency pair
+   *
+   * @param from - Source currency code
+   * @param to - Target currency code
+   * @returns True if a rate was removed
+   */
+  public deleteRate(from: string, to: string): boolean {
+    return this.rates.delete(`${from.toUpperCase()}/${to.toUpperCase()}`);
+  }
+
+  /**
+   * Returns the rate from one currency to another
+   *
+   * @param from - Source currency code (case-insensitive)
+   * @param to - Target currency code (case-insensitive)
+   * @returns The rate, or undefined when the pair is unknown
+   */
+  public getRate(from: string, to: string): number | undefined {
+    const source = from.toUpperCase();
+    const target = to.toUpperCase();
+
+    if (source === target) {
+      return 1;
+    }
+
+    return this.rates.get(`${source}/${target}`);
+  }
+
+  /**
+   * Lists every pair with a rate
+   *
+   * @returns Source and target currency codes of each stored rate
+   */
+  public listPairs(): Array<[from: string, to: string]> {
+    return [...this.rates.keys()].map(key => {
+      const [from, to] = key.split('/');
+      return [from, to];
+    });
+  }
+}
+
+/**
+ * Wraps a provider so each currency pair is fetched at most once per TTL.
+ * Unknown pairs and failed lookups are not cached; concurrent async lookups
+ * of the same pair share one request.
+ *
+ * @param provider - The provider to cache
+ * @param options - Cache options
+ * @returns A provider of the same kind (sync or async) as `provider`
+ *
+ * @throws {MonieUtilsError} When the TTL is not a non-negative number
+ *
+ * @example
+ * ```typescript
+ * const feed = createCachedRateProvider(httpRateProvider, { ttlMs: 60_000 });
+ * await convertCurrencyAsync(100, 'USD', 'EUR', feed); // fetches
+ * await convertCurrencyAsync(250, 'USD', 'EUR', feed); // cached
+ * ```
+ */
+export function createCachedRateProvider(
+  provider: ExchangeRateProvider,
+  options: RateCacheOptions
+): ExchangeRateProvider;
+export function createCachedRateProvider(
+  provider: AsyncExchangeRateProvider,
+  options: RateCacheOptions
+): AsyncExchangeRateProvider;
+export function createCachedRateProvider(
+  provider: AsyncExchangeRateProvider,
+  options: RateCacheOptions
+): AsyncExchangeRateProvider {
+  const { ttlMs, now = Date.now } = options;
+
+  if (typeof ttlMs !== 'number' || !(ttlMs >= 0)) {
+    throw new MonieUtilsError(
+      `Invalid cache TTL: ${ttlMs}. Must be a non-negative number of milliseconds.`,
+      'INVALID_ARGUMENT',
+      { field: 'ttlMs', value: ttlMs, min: 0 }
+    );
+  }
+
+  const cache = new Map<
+    string,
+    { rate: number | Promise<number | undefined>; expiresAt: number }
+  >();
+
+  return {
+    getRate(from: string, to: string) {
+      const key = `${from.toUpperCase()}/${to.toUpperCase()}`;
+      const cached = cache.get(key);
+
+      if (cached !== undefined && cached.expiresAt > now()) {
+        return cached.rate;
+      }
+      cache.delete(key);
+
+      const result = provider.getRate(from, to);
+
+      if (isPromiseLike<number | undefined>(result)) {
+        const pending: Promise<number | undefined> = Promise.resolve(
+          result
+        ).then(
+          rate => {
+            if (rate === undefined && cache.get(key)?.rate === pending) {
+              cache.delete(key);
+            }
+            return rate;
+          },
+          (error: unknown) => {
+            if (cache.get(key)?.rate === pending) {
+              cache.delete(key);
+            }
+            throw error;
+          }
+        );
+        cache.set(key, { rate: pending, expiresAt: now() + ttlMs });
+        return pending;
+      }
+
+      if (result !== undefined) {
+        cache.set(key, { rate: result, expiresAt: now() + ttlMs });
+      }
+      return result;
+    },
+    ...(provider.listPairs && {
+      listPairs: () => provider.listPairs?.() ?? [],
+    }),
+  };
+}
+
+/**
+ * Chains providers so each pair is looked up in order until one knows it.
+ * A provider that throws is skipped; if no provider has the rate and at
+ * least one threw, the first error is rethrown so outages are not masked.
+ *
+ * @param providers - Providers in priority order
+ * @returns A provider that is synchronous when every input is synchronous
+ *
+ * @throws {MonieUtilsError} When no providers are given
+ *
+ * @example
+ * ```typescript
+ * const rates = createFallbackRateProvider(
+ *   liveFeed,
+ *   new InMemoryRateProvider({ USD: { EUR: 0.92 } })
+ * );
+ * ```
+ */
+export function createFallbackRateProvider(
+  ...providers: ExchangeRateProvider[]
+): ExchangeRateProvider;
+export function createFallbackRateProvider(
+  ...providers: AsyncExchangeRateProvider[]
+): AsyncExchangeRateProvider;
+export function createFallbackRateProvider(
+  ...providers: AsyncExchangeRateProvider[]
+): AsyncExchangeRateProvider {
+  if (providers.length === 0 || !providers.every(isExchangeRateProvider)) {
+    throw new MonieUtilsError(
+      'At least one exchange rate provider is required',
+      'INVALID_ARGUMENT',
+      { field: 'providers', value: providers }
+    );
+  }
+
+  return {
+    getRate(from: string, to: string) {
+      const errors: unknown[] = [];
+
+      const continueAsync = async (
+        start: number,
+        pending: PromiseLike<number | undefined>
+      ): Promise<number | undefined> => {
+        for (let i = start; i < providers.length; i++) {
+          try {
+            const rate = await (i === start
+              ? pending
+              : providers[i].getRate(from, to));
+            if (rate !== undefined) {
+              return rate;
+            }
+          } catch (error) {
+            errors.push(error);
+          }
+        }
+
+        if (errors.length > 0) {
+          throw errors[0];
+        }
+        return undefined;
+      };
+
+      for (let i = 0; i < providers.length; i++) {
+        try {
+          const rate = providers[i].getRate(from, to);
+          if (isPromiseLike<number | undefined>(rate)) {
+            return continueAsync(i, rate);
+          }
+          if (rate !== undefined) {
+            return rate;
+          }
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+
+      if (errors.length > 0) {
+        throw errors[0];
+      }
+      return undefined;
+    },
+    ...(providers.some(provider => provider.listPairs) && {
+      listPairs: () => {
+        const pairs = new Map<string, [from: string, to: string]>();
+        for (const provider of providers) {
+          for (const [from, to] of provider.listPairs?.() ?? []) {
+            pairs.set(`${from.toUpperCase()}/${to.toUpperCase()}`, [from, to]);
+          }
+        }
+        return [...pairs.values()];
+      },
+    }),
+  };
+}
+
+/**
+ * Finds the route with the fewest hops between two currencies
+ *
+ * @param pairs - Directly quoted pairs
+ * @param from - Source currency code (upper case)
+ * @param to - Target currency code (upper case)
+ * @returns The currencies visited, or undefined when no route exists
+ */
+function findShortestPath(
+  pairs: Array<[from: string, to: string]>,
+  from: string,
+  to: string
+): string[] | undefined {
+  const edges = new Map<string, string[]>();
+  for (const [source, target] of pairs) {
+    const key = source.toUpperCase();
+    edges.set(key, [...(edges.get(key) ?? []), target.toUpperCase()]);
+  }
+
+  const previous = new Map<string, string>([[from, from]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+
+    if (current === to) {
+      const path = [to];
+      while (path[0] !== from) {
+        path.unshift(previous.get(path[0]) as string);
+      }
+      return path;
+    }
+
+    for (const next of edges.get(current) ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Lists the routes to try, in order, for a currency pair
+ *
+ * @param provider - The rate provider
+ * @param from - Source currency code (upper case)
+ * @param to - Target currency code (upper case)
+ * @param triangulation - The triangulation strategy
+ * @param pivot - Pivot currency code (upper case)
+ * @returns Candidate paths
+ */
+function candidatePaths(
+  provider: AsyncExchangeRateProvider,
+  from: string,
+  to: string,
+  triangulation: TriangulationStrategy,
+  pivot: string
+): string[][] {
+  if (triangulation === 'none') {
+    return [[from, to]];
+  }
+
+  // Providers that cannot list their pairs are triangulated via the pivot
+  if (triangulation === 'shortest-path' && provider.listPairs) {
+    const path = findShortestPath(provider.listPairs(), from, to);
+    return path === undefined ? [] : [path];
+  }
+
+  return pivot === from || pivot === to
+    ? [[from, to]]
+    : [
+        [from, to],
+        [from, pivot, to],
+      ];
+}
+
+/**
+ * Multiplies the legs of a path into one cross rate. The product is exact;
+ * only the result is rounded, so precision is not lost hop by hop.
+ *
+ * @param legs - Rates of each hop
+ * @param precision - Significant digits to keep
+ * @returns The cross rate
+ */
+function crossRate(legs: ExchangeRate[], precision: number): number {
+  const product = legs.reduce(
+    (total, leg) => total.mul(leg.rate),
+    Decimal.from(1)
+  );
+  const integerDigits = product.coefficient.toString().length - product.scale;
+
+  return product
+    .round(Math.max(0, precision - integerDigits), 'half-even')
+    .toNumber();
+}
+
+/**
+ * Resolves a rate step by step, yielding each pair it needs a quote for so
+ * the same logic serves sync and async providers
+ *
+ * @param provider - The rate provider
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param options - Resolution options
+ * @returns The resolved rate, or undefined when no route has every quote
+ */
+function* resolveSteps(
+  provider: AsyncExchangeRateProvider,
+  from: string,
+  to: string,
+  options: RateResolutionOptions
+): Generator<[from: string, to: string], ResolvedRate | undefined, unknown> {
+  const {
+    triangulation = 'pivot',
+    pivotCurrency = 'USD',
+    ratePrecision = 12,
+  } = options;
+
+  if (!TRIANGULATION_STRATEGIES.includes(triangulation)) {
+    throw new MonieUtilsError(
+      `Invalid triangulation strategy: ${triangulation}`,
+      'INVALID_ARGUMENT',
+      {
+        field: 'triangulation',
+        value: triangulation,
+        allowed: TRIANGULATION_STRATEGIES,
+      }
+    );
+  }
+
+  if (!isValidCurrency(pivotCurrency)) {
+    throw new MonieUtilsError(
+      `Invalid pivot currency: ${pivotCurrency}`,
+      'INVALID_CURRENCY',
+      { field: 'pivotCurrency', value: pivotCurrency }
+    );
+  }
+
+  if (
+    !Number.isInteger(ratePrecision) ||
+    ratePrecision < 1 ||
+    ratePrecision > MAX_RATE_PRECISION
+  ) {
+    throw new MonieUtilsError(
+      `Invalid rate precision: ${ratePrecision}. Must be an integer between 1 and ${MAX_RATE_PRECISION}.`,
+      'INVALID_ARGUMENT',
+      {
+        field: 'ratePrecision',
+        value: ratePrecision,
+        min: 1,
+        max: MAX_RATE_PRECISION,
+      }
+    );
+  }
+
+  const source = from.toUpperCase();
+  const target = to.toUpperCase();
+
+  if (source === target) {
+    return { rate: 1, path: [source], legs: [] };
+  }
+
+  const paths = candidatePaths(
+    provider,
+    source,
+    target,
+    triangulation,
+    pivotCurrency.toUpperCase()
+  );
+
+  for (const path of paths) {
+    const legs: ExchangeRate[] = [];
+
+    for (let i = 1; i < path.length; i++) {
+      const rate = yield [path[i - 1], path[i]];
+      if (rate === undefined) {
+        break;
+      }
+      legs.push({
+        from: path[i - 1],
+        to: path[i],
+        rate: assertValidRate(rate, path[i - 1], path[i]),
+      });
+    }
+
+    if (legs.length === path.length - 1) {
+      return {
+        rate: legs.length === 1 ? legs[0].rate : crossRate(legs, ratePrecision),
+        path,
+        legs,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves the rate between two currencies, deriving a cross rate when the
+ * provider has no direct quote. By default the pair is routed through USD;
+ * `triangulation: 'shortest-path'` instead follows the fewest hops through
+ * the pairs the provider lists.
+ *
+ * @param provider - A synchronous rate provider
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param options - Triangulation options
+ * @returns The rate and its route, or undefined when no route is known
+ *
+ * @throws {MonieUtilsError} When an option is invalid, a quoted rate is not
+ * a positive number or the provider answers asynchronously
+ *
+ * @example
+ * ```typescript
+ * const rates = new InMemoryRateProvider({
+ *   KES: { USD: 0.0078 },
+ *   USD: { GHS: 15.5 },
+ * });
+ *
+ * resolveExchangeRate(rates, 'KES', 'GHS');
+ * // { rate: 0.1209, path: ['KES', 'USD', 'GHS'], legs: [...] }
+ * ```
+ */
+export function resolveExchangeRate(
+  provider: ExchangeRateProvider,
+  from: string,
+  to: string,
+  options: RateResolutionOptions = {}
+): ResolvedRate | undefined {
+  const steps = resolveSteps(provider, from, to, options);
+
+  for (let step = steps.next(); ; ) {
+    if (step.done) {
+      return step.value;
+    }
+
+    const [source, target] = step.value;
+    const rate: unknown = provider.getRate(source, target);
+    if (isPromiseLike(rate)) {
+      throw new MonieUtilsError(
+        'The exchange rate provider is asynchronous. Use convertCurrencyAsync or bulkConvertAsync instead.',
+        'INVALID_ARGUMENT',
+        { field: 'rate', from: source, to: target }
+      );
+    }
+    step = steps.next(rate);
+  }
+}
+
+/**
+ * Resolves the rate between two currencies from a provider that may answer
+ * asynchronously, deriving a cross rate when there is no direct quote
+ *
+ * @param provider - A sync or async rate provider
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param options - Triangulation options
+ * @returns The rate and its route, or undefined when no route is known
+ *
+ * @throws {MonieUtilsError} When an option is invalid or a quoted rate is not
+ * a positive number
+ *
+ * @example
+ * ```typescript
+ * await resolveExchangeRateAsync(liveFeed, 'KES', 'GHS', { pivotCurrency: 'EUR' });
+ * ```
+ */
+export async function resolveExchangeRateAsync(
+  provider: AsyncExchangeRateProvider,
+  from: string,
+  to: string,
+  options: RateResolutionOptions = {}
+): Promise<ResolvedRate | undefined> {
+  const steps = resolveSteps(provider, from, to, options);
+
+  for (let step = steps.next(); ; ) {
+    if (step.done) {
+      return step.value;
+    }
+
+    const [source, target] = step.value;
+    step = steps.next(await provider.getRate(source, target));
+  }
+}
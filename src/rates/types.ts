@@ -0,0 +1,281 @@
+/**
+ * Type definitions for exchange rate providers
+ */
+
+import type { ExchangeRate } from '../conversion/types';
+
+/**
+ * Exchange rates keyed by source then target currency
+ * (e.g., `{ USD: { EUR: 0.92 } }`)
+ */
+export type RateTable = Record<string, Record<string, number>>;
+
+/**
+ * Synchronous source of exchange rates
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Returns the rate that converts one unit of `from` into `to`, or
+   * undefined when the provider does not know the pair
+   */
+  getRate(from: string, to: string): number | undefined;
+  /**
+   * Lists the pairs the provider can quote directly, which lets rates be
+   * found through the shortest path of known pairs
+   */
+  listPairs?(): Array<[from: string, to: string]>;
+}
+
+/**
+ * Source of exchange rates that may answer asynchronously (e.g., over the
+ * network). Every synchronous provider is also a valid async provider.
+ */
+export interface AsyncExchangeRateProvider {
+  /**
+   * Returns (or resolves to) the rate that converts one unit of `from` into
+   * `to`, or undefined when the provider does not know the pair
+   */
+  getRate(
+    from: string,
+    to: string
+  ): number | undefined | Promise<number | undefined>;
+  /**
+   * Lists the pairs the provider can quote directly, which lets rates be
+   * found through the shortest path of known pairs
+   */
+  listPairs?(): Array<[from: string, to: string]>;
+}
+
+/**
+ * Options for caching rates from a provider
+ */
+export interface RateCacheOptions {
+  /** How long a fetched rate stays valid, in milliseconds */
+  ttlMs: number;
+  /** Clock returning the current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * How a rate is derived when the provider has no direct quote for a pair
+ *
+ * - `pivot`: convert through a pivot currency (from → pivot → to)
+ * - `shortest-path`: follow the fewest hops through the provider's pairs
+ * - `none`: only use direct quotes
+ */
+export type TriangulationStrategy = 'pivot' | 'shortest-path' | 'none';
+
+/**
+ * Options for resolving an exchange rate
+ */
+export interface RateResolutionOptions {
+  /** How to derive rates the provider cannot quote directly (default: 'pivot') */
+  triangulation?: TriangulationStrategy;
+  /** Currency to convert through with the 'pivot' strategy (default: 'USD') */
+  pivotCurrency?: string;
+  /** Significant digits kept in a derived cross rate (default: 12) */
+  ratePrecision?: number;
+}
+
+/**
+ * Exchange rate together with the route it was derived from
+ */
+export interface ResolvedRate {
+  /** Units of the target currency per unit of the source currency */
+  rate: number;
+  /** Currencies visited, from the source to the target */
+  path: string[];
+  /** The direct rate used for each hop of the path */
+  legs: ExchangeRate[];
+}
+
+/**
+ * One observed exchange rate, as loaded from an array or a JSON file
+ */
+export interface HistoricalRateRecord {
+  /** Day the rate applies to (a Date or an ISO date such as '2024-03-15') */
+  date: Date | string;
+  /** Source currency code */
+  from: string;
+  /** Target currency code */
+  to: string;
+  /** Units of `to` per unit of `from` */
+  rate: number;
+}
+
+/**
+ * What to do when no rate was recorded on the requested day
+ *
+ * - `previous-business-day`: use the rate on the day, else the latest rate
+ *   recorded on a weekday (Monday to Friday) before it
+ * - `nearest`: use the closest rate before or after the day (earlier wins ties)
+ * - `error`: throw unless a rate was recorded on exactly that day
+ */
+export type MissingRateStrategy = 'previous-business-day' | 'nearest' | 'error';
+
+/**
+ * Options for looking up historical rates
+ */
+export interface HistoricalRateOptions {
+  /** How to handle days without a rate (default: 'previous-business-day') */
+  missingDate?: MissingRateStrategy;
+  /** Furthest, in days, a substitute rate may be from the requested day (default: 7) */
+  maxGapDays?: number;
+}
+
+/**
+ * Historical rate together with the day it was recorded
+ */
+export interface HistoricalRate {
+  /** Source currency code */
+  from: string;
+  /** Target currency code */
+  to: string;
+  /** Units of `to` per unit of `from` */
+  rate: number;
+  /** Day the rate was recorded (UTC midnight) */
+  date: Date;
+  /** Day that was asked for (UTC midnight) */
+  requestedDate: Date;
+}
+
+/**
+ * Options for importing rate files
+ */
+export interface RateImportOptions {
+  /**
+   * Skip rows with unknown currency codes or invalid dates and rates
+   * instead of throwing (default: false)
+   */
+  skipInvalid?: boolean;
+  /**
+   * Also emit the inverse (1 / rate) of every rate, so files quoted against
+   * one base currency convert in both directions (default: false)
+   */
+  includeInverse?: boolean;
+}
+
+/**
+ * Options for importing CSV rate files
+ */
+export interface CsvRateImportOptions extends RateImportOptions {
+  /** Column separator (default: ',') */
+  delimiter?: string;
+}
+
+/**
+ * One day's rates against a base currency, as published by most rate APIs
+ * (e.g., `{ "base": "EUR", "date": "2024-03-15", "rates": { "USD": 1.089 } }`)
+ */
+export interface RateSnapshot {
+  /** Currency the rates are quoted against */
+  base: string;
+  /** Day the rates apply to */
+  date: string;
+  /** Units of each currency per unit of `base` */
+  rates: Record<string, number>;
+}
+
+/**
+ * Rates to analyze: a rate table, a list of rates (with optional
+ * timestamps), or a provider that can list its pairs
+ */
+export type RateAnalysisInput =
+  | RateTable
+  | Iterable<ExchangeRate>
+  | ExchangeRateProvider;
+
+/**
+ * Options for analyzing a set of rates
+ */
+export interface RateAnalysisOptions {
+  /**
+   * Largest gain or loss, in basis points, tolerated on a round trip
+   * before it is reported (default: 10)
+   */
+  toleranceBps?: number;
+  /** Age, in milliseconds, after which a timestamped rate is stale */
+  maxAgeMs?: number;
+  /** Clock returning the current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * A rate whose reverse pair has no rate
+ */
+export interface MissingInverseRate {
+  /** Source currency code of the rate that exists */
+  from: string;
+  /** Target currency code of the rate that exists */
+  to: string;
+  /** Units of `to` per unit of `from` */
+  rate: number;
+}
+
+/**
+ * A pair whose rate and reverse rate do not multiply to 1
+ */
+export interface InverseRateMismatch {
+  /** Source currency code */
+  from: string;
+  /** Target currency code */
+  to: string;
+  /** Units of `to` per unit of `from` */
+  rate: number;
+  /** Units of `from` per unit of `to` */
+  inverseRate: number;
+  /** Amount left after converting 1 `from` to `to` and back */
+  roundTrip: number;
+  /** Round-trip gain (positive) or loss (negative) in basis points */
+  deviationBps: number;
+}
+
+/**
+ * A rate older than the maximum age
+ */
+export interface StaleRate {
+  /** Source currency code */
+  from: string;
+  /** Target currency code */
+  to: string;
+  /** Units of `to` per unit of `from` */
+  rate: number;
+  /** When the rate was observed */
+  timestamp: Date;
+  /** Age of the rate in milliseconds */
+  ageMs: number;
+}
+
+/**
+ * A cycle of three conversions that ends with more than it started with
+ */
+export interface ArbitrageCycle {
+  /** Currencies visited, starting and ending with the same currency */
+  path: string[];
+  /** The rate used for each hop of the path */
+  rates: number[];
+  /** Amount left after converting 1 unit around the cycle */
+  product: number;
+  /** Gain in basis points */
+  gainBps: number;
+}
+
+/**
+ * Findings of a rate consistency analysis
+ */
+export interface RateAnalysisReport {
+  /** True when no issues were found */
+  consistent: boolean;
+  /** Currencies that appear in any rate */
+  currencies: string[];
+  /** Number of currency pairs analyzed */
+  pairCount: number;
+  /** Rates whose reverse pair has no rate */
+  missingInverses: MissingInverseRate[];
+  /** Pairs whose round trip deviates from 1 by more than the tolerance */
+  inverseMismatches: InverseRateMismatch[];
+  /** Rates older than `maxAgeMs` */
+  staleRates: StaleRate[];
+  /** Triangular cycles that gain more than the tolerance, largest first */
+  arbitrageCycles: ArbitrageCycle[];
+}
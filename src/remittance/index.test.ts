@@ -0,0 +1,163 @@
+/**
+ * Tests for remittance quoting utilities
+ */
+
+import { createRemittanceQuote } from './index';
+import type { RemittanceQuoteRequest } from './index';
+import type { FeeStructure } from '../types';
+import { MonieUtilsError } from '../errors';
+
+describe('remittance quotes', () => {
+  const request: Omit<RemittanceQuoteRequest, 'mode' | 'amount'> = {
+    sendCurrency: 'usd',
+    receiveCurrency: 'NGN',
+    rate: 1580,
+    fee: { fixed: 2.99, percentage: 1 },
+    fxMarginBps: 150,
+  };
+  const now = (): number => Date.UTC(2024, 2, 15, 12);
+
+  describe('createRemittanceQuote', () => {
+    it('should quote what arrives for a send amount', () => {
+      expect(
+        createRemittanceQuote(
+          { ...request, mode: 'send', amount: 200 },
+          { now }
+        )
+      ).toEqual({
+        mode: 'send',
+        requestedAmount: 200,
+        sendCurrency: 'USD',
+        receiveCurrency: 'NGN',
+        sendAmount: 200,
+        fee: 4.99,
+        feeBreakdown: { fixed: 2.99, percentage: 2, tiers: 0, adjustment: 0 },
+        amountConverted: 195.01,
+        marketRate: 1580,
+        fxMarginBps: 150,
+        customerRate: 1556.3,
+        receiveAmount: 303494.06,
+        fxMargin: { source: 2.93, target: 4621.74 },
+        totalCost: { source: 7.92, target: 12505.94 },
+        effectiveRate: 1517.4703,
+        createdAt: new Date(now()),
+      });
+    });
+
+    it('should solve for the smallest send amount that delivers the target', () => {
+      const quote = createRemittanceQuote({
+        ...request,
+        mode: 'receive',
+        amount: 100000,
+      });
+
+      expect(quote).toMatchObject({
+        requestedAmount: 100000,
+        sendAmount: 67.93,
+        fee: 3.67,
+        amountConverted: 64.26,
+        receiveAmount: 100007.84,
+      });
+      expect(
+        createRemittanceQuote({ ...request, mode: 'send', amount: 67.92 })
+          .receiveAmount
+      ).toBeLessThan(100000);
+    });
+
+    it('should search each fee band when solving for the send amount', () => {
+      const quote = (fee: FeeStructure, amount: number) =>
+        createRemittanceQuote({
+          sendCurrency: 'USD',
+          receiveCurrency: 'EUR',
+          rate: 1,
+          fee,
+          mode: 'receive',
+          amount,
+        });
+
+      expect(quote({ fixed: 5, waiveBelow: 100 }, 98)).toMatchObject({
+        sendAmount: 98,
+        fee: 0,
+        receiveAmount: 98,
+      });
+      expect(quote({ fixed: 5, waiveBelow: 100 }, 101)).toMatchObject({
+        sendAmount: 106,
+        fee: 5,
+        receiveAmount: 101,
+      });
+
+      const tiers = {
+        tiers: [{ upTo: 100, percentage: 0 }, { percentage: 10 }],
+        tierMode: 'volume' as const,
+      };
+      expect(quote(tiers, 95)).toMatchObject({
+        sendAmount: 95,
+        fee: 0,
+        receiveAmount: 95,
+      });
+      expect(quote(tiers, 100)).toMatchObject({ sendAmount: 100, fee: 0 });
+      expect(quote(tiers, 100.01)).toMatchObject({
+        sendAmount: 111.12,
+        receiveAmount: 100.01,
+      });
+    });
+
+    it("should round to each currency's minor units", () => {
+      const quote = createRemittanceQuote(
+        {
+          mode: 'receive',
+          amount: 50000,
+          sendCurrency: 'JPY',
+          receiveCurrency: 'USD',
+          rate: 0.0066,
+          fee: { fixed: 500 },
+        },
+        { roundingMode: 'floor', validForMs: 30_000, now }
+      );
+
+      expect(quote).toMatchObject({
+        sendAmount: 7576258,
+        fee: 500,
+        amountConverted: 7575758,
+        receiveAmount: 50000,
+        expiresAt: new Date(now() + 30_000),
+      });
+    });
+
+    it('should reject invalid requests', () => {
+      expect(() =>
+        createRemittanceQuote({ ...request, mode: 'send', amount: 2 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+      expect(() =>
+        createRemittanceQuote({
+          ...request,
+          mode: 'receive',
+          amount: 100,
+          fee: { percentage: 100 },
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      expect(() =>
+        createRemittanceQuote({ ...request, mode: 'both' as never, amount: 1 })
+      ).toThrow(MonieUtilsError);
+      expect(() =>
+        createRemittanceQuote({ ...request, mode: 'send', amount: -1 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_AMOUNT' }));
+      expect(() =>
+        createRemittanceQuote({
+          ...request,
+          mode: 'send',
+          amount: 1,
+          receiveCurrency: 'XYZ',
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_CURRENCY' }));
+      expect(() =>
+        createRemittanceQuote({
+          ...request,
+          mode: 'send',
+          amount: 100,
+          fxMarginBps: 10000,
+        })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+    });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Remittance quoting barrel export
+ *
+ * This module provides quotes for cross-border transfers including:
+ * - Send-amount mode: how much arrives for a given send amount
+ * - Receive-amount mode: the smallest send amount that delivers a target
+ * - Fixed and percentage fees evaluated with `convertWithFee`
+ * - FX margin in basis points off the market rate
+ * - Itemized, persistable quotes exact to the minor unit
+ *
+ * @example
+ * ```typescript
+ * import { createRemittanceQuote } from 'monie-utils/remittance';
+ *
+ * const quote = createRemittanceQuote({
+ *   mode: 'receive',
+ *   amount: 100000,
+ *   sendCurrency: 'USD',
+ *   receiveCurrency: 'NGN',
+ *   rate: 1580,
+ *   fee: { fixed: 2.99, percentage: 1 },
+ *   fxMarginBps: 150,
+ * });
+ * console.log(quote.sendAmount); // 67.93
+ * ```
+ */
+
+// Export remittance functions
+export { createRemittanceQuote } from './remittance';
+
+// Export types
+export type {
+  RemittanceQuoteMode,
+  RemittanceQuoteRequest,
+  RemittanceQuoteOptions,
+  RemittanceQuote,
+} from './types';
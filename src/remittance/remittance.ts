@@ -0,0 +1,264 @@
+/**
+ * Remittance quotes in send-amount and receive-amount modes
+ */
+
+import type {
+  RemittanceQuoteMode,
+  RemittanceQuoteRequest,
+  RemittanceQuoteOptions,
+  RemittanceQuote,
+} from './types';
+import type { FeeBreakdown } from '../fees/types';
+import type { RoundingPolicy } from '../rounding/types';
+import { convertWithFee } from '../conversion/conversion';
+import { bandStarts, solveGrossUp } from '../fees/fees';
+import { assertValidRate } from '../rates/rates';
+import { getCurrencyInfo } from '../currencies';
+import { isValidAmount } from '../validation/validation';
+import { resolveRoundingPolicy } from '../rounding';
+import { Decimal } from '../decimal';
+import { MonieUtilsError } from '../errors';
+
+const QUOTE_MODES: readonly RemittanceQuoteMode[] = ['send', 'receive'];
+
+interface CurrencyPrecision {
+  code: string;
+  decimalPlaces: number;
+}
+
+interface Transfer {
+  send: bigint;
+  fee: bigint;
+  feeBreakdown: FeeBreakdown;
+  converted: bigint;
+  receive: bigint;
+}
+
+/**
+ * Looks up the minor units of a request currency
+ *
+ * @param currency - Currency code
+ * @param field - Field name for error details
+ * @returns The normalized code and its minor unit digits
+ */
+function getPrecision(currency: string, field: string): CurrencyPrecision {
+  const info =
+    typeof currency === 'string' ? getCurrencyInfo(currency) : undefined;
+
+  if (info === undefined) {
+    throw new MonieUtilsError(
+      `Invalid currency code: ${currency}`,
+      'INVALID_CURRENCY',
+      { field, value: currency }
+    );
+  }
+
+  return { code: info.code, decimalPlaces: info.decimalPlaces };
+}
+
+/**
+ * Creates a remittance quote. In `send` mode the sender's amount is fixed
+ * and the quote solves for what the recipient gets; in `receive` mode the
+ * recipient's amount is fixed and the quote solves for the smallest send
+ * amount that delivers at least that much.
+ *
+ * The fee is evaluated with `convertWithFee` and deducted from the send
+ * amount, and the rest is converted at the market rate less the FX margin.
+ * All amounts are exact to the minor units of their currency.
+ *
+ * @param request - Mode, amount, currencies, market rate, fee and FX margin
+ * @param options - Rounding and expiry options
+ * @returns Itemized quote
+ *
+ * @throws {MonieUtilsError} When the request is invalid, the fee consumes
+ * the send amount, or no send amount delivers the receive amount
+ *
+ * @example
+ * ```typescript
+ * const request = {
+ *   sendCurrency: 'USD',
+ *   receiveCurrency: 'NGN',
+ *   rate: 1580,
+ *   fee: { fixed: 2.99, percentage: 1 },
+ *   fxMarginBps: 150,
+ * };
+ *
+ * createRemittanceQuote({ ...request, mode: 'send', amount: 200 });
+ * // { sendAmount: 200, fee: 4.99, amountConverted: 195.01,
+ * //   customerRate: 1556.3, receiveAmount: 303494.06, ... }
+ *
+ * createRemittanceQuote({ ...request, mode: 'receive', amount: 100000 }).sendAmount;
+ * // 67.93
+ * ```
+ */
+export function createRemittanceQuote(
+  request: RemittanceQuoteRequest,
+  options: RemittanceQuoteOptions = {}
+): RemittanceQuote {
+  if (!request || typeof request !== 'object') {
+    throw new MonieUtilsError(
+      'Quote request must be an object',
+      'INVALID_ARGUMENT',
+      { field: 'request', value: request }
+    );
+  }
+
+  const { mode, amount, rate, fee = {}, fxMarginBps = 0 } = request;
+  const { roundingMode, validForMs, now = Date.now } = options;
+
+  if (!QUOTE_MODES.includes(mode)) {
+    throw new MonieUtilsError(
+      `Invalid quote mode: ${mode}`,
+      'INVALID_ARGUMENT',
+      { field: 'mode', value: mode, allowed: QUOTE_MODES }
+    );
+  }
+
+  if (!isValidAmount(amount) || amount <= 0) {
+    throw new MonieUtilsError(
+      `Invalid amount: ${amount}. Amount must be a positive number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount, min: 0 }
+    );
+  }
+
+  const sender = getPrecision(request.sendCurrency, 'sendCurrency');
+  const recipient = getPrecision(request.receiveCurrency, 'receiveCurrency');
+  assertValidRate(rate, sender.code, recipient.code);
+
+  if (!isValidAmount(fxMarginBps) || fxMarginBps < 0 || fxMarginBps >= 10000) {
+    throw new MonieUtilsError(
+      `Invalid FX margin: ${fxMarginBps}. Must be between 0 and 10000 basis points.`,
+      'INVALID_ARGUMENT',
+      { field: 'fxMarginBps', value: fxMarginBps, min: 0, max: 10000 }
+    );
+  }
+
+  if (
+    validForMs !== undefined &&
+    (!isValidAmount(validForMs) || validForMs < 0)
+  ) {
+    throw new MonieUtilsError(
+      `Invalid validity: ${validForMs}. Must be a non-negative number of milliseconds.`,
+      'INVALID_ARGUMENT',
+      { field: 'validForMs', value: validForMs, min: 0 }
+    );
+  }
+
+  const policy: RoundingPolicy = resolveRoundingPolicy(roundingMode);
+  const marketRate = Decimal.from(rate);
+  const customerRate = marketRate
+    .mul(Decimal.from(10000).sub(fxMarginBps))
+    .div(10000);
+  const toSend = (minor: bigint): Decimal =>
+    Decimal.fromScaled(minor, sender.decimalPlaces);
+
+  const price = (send: bigint): Transfer => {
+    const { feeAmount, feeBreakdown } = convertWithFee(
+      toSend(send).toNumber(),
+      customerRate.toNumber(),
+      fee,
+      { currency: sender.code, roundingMode: policy }
+    );
+    const feeMinor = Decimal.from(feeAmount).toScaled(
+      sender.decimalPlaces,
+      policy
+    );
+    const converted = send - feeMinor;
+
+    return {
+      send,
+      fee: feeMinor,
+      feeBreakdown,
+      converted,
+      receive:
+        converted > BigInt(0)
+          ? toSend(converted)
+              .mul(customerRate)
+              .toScaled(recipient.decimalPlaces, policy)
+          : BigInt(0),
+    };
+  };
+
+  let transfer: Transfer;
+
+  if (mode === 'send') {
+    transfer = price(
+      Decimal.from(amount).toScaled(sender.decimalPlaces, policy)
+    );
+    if (transfer.converted <= BigInt(0)) {
+      throw new MonieUtilsError(
+        `Fee ${toSend(transfer.fee).toNumber()} consumes the send amount ${amount}`,
+        'INVALID_AMOUNT',
+        { field: 'amount', value: amount, min: toSend(transfer.fee).toNumber() }
+      );
+    }
+  } else {
+    const target = Decimal.from(amount).toScaled(
+      recipient.decimalPlaces,
+      policy
+    );
+    // The amount delivered can drop where a fee band starts, so each band
+    // is searched on its own; nothing is delivered for a send amount of zero
+    const send = solveGrossUp(
+      target,
+      minor => price(minor).receive,
+      bandStarts(fee, sender.decimalPlaces),
+      BigInt(1)
+    );
+
+    if (send === undefined) {
+      throw new MonieUtilsError(
+        `Cannot deliver ${amount} ${recipient.code}: the fees consume the whole send amount`,
+        'INVALID_ARGUMENT',
+        { field: 'fee', value: fee }
+      );
+    }
+    transfer = price(send);
+  }
+
+  const sendAmount = toSend(transfer.send);
+  const feeAmount = toSend(transfer.fee);
+  const amountConverted = toSend(transfer.converted);
+  const receiveAmount = Decimal.fromScaled(
+    transfer.receive,
+    recipient.decimalPlaces
+  );
+  const inSend = (value: Decimal): number =>
+    value.round(sender.decimalPlaces, policy).toNumber();
+  const inReceive = (value: Decimal): number =>
+    value.round(recipient.decimalPlaces, policy).toNumber();
+
+  const marginSource = amountConverted.mul(fxMarginBps).div(10000);
+  const marginTarget = amountConverted.mul(marketRate.sub(customerRate));
+  const feeTarget = feeAmount.mul(marketRate);
+  const createdAt = now();
+
+  return {
+    mode,
+    requestedAmount: amount,
+    sendCurrency: sender.code,
+    receiveCurrency: recipient.code,
+    sendAmount: sendAmount.toNumber(),
+    fee: feeAmount.toNumber(),
+    feeBreakdown: transfer.feeBreakdown,
+    amountConverted: amountConverted.toNumber(),
+    marketRate: rate,
+    fxMarginBps,
+    customerRate: customerRate.toNumber(),
+    receiveAmount: receiveAmount.toNumber(),
+    fxMargin: {
+      source: inSend(marginSource),
+      target: inReceive(marginTarget),
+    },
+    totalCost: {
+      source: inSend(feeAmount.add(marginSource)),
+      target: inReceive(feeTarget.add(marginTarget)),
+    },
+    effectiveRate: receiveAmount.div(sendAmount).toNumber(),
+    createdAt: new Date(createdAt),
+    ...(validForMs !== undefined && {
+      expiresAt: new Date(createdAt + validForMs),
+    }),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Type definitions for remittance quoting utilities
+ */
+
+import type { FeeStructure } from '../types';
+import type { FeeBreakdown } from '../fees/types';
+import type { ConversionCost } from '../conversion/types';
+import type { RoundingMode } from '../rounding/types';
+
+/**
+ * Which side of a transfer the customer fixes
+ *
+ * - `send`: the amount the sender pays; solve for the amount delivered
+ * - `receive`: the amount the recipient gets; solve for the amount to send
+ */
+export type RemittanceQuoteMode = 'send' | 'receive';
+
+/**
+ * Request for a remittance quote
+ */
+export interface RemittanceQuoteRequest {
+  /** Whether `amount` is the send amount or the receive amount */
+  mode: RemittanceQuoteMode;
+  /** Send amount in `sendCurrency`, or receive amount in `receiveCurrency` */
+  amount: number;
+  /** Currency the sender pays in */
+  sendCurrency: string;
+  /** Currency the recipient gets */
+  receiveCurrency: string;
+  /** Mid-market rate: units of `receiveCurrency` per unit of `sendCurrency` */
+  rate: number;
+  /** Fee charged to the sender, in `sendCurrency` (default: no fee) */
+  fee?: FeeStructure;
+  /** FX margin taken off the market rate, in basis points (default: 0) */
+  fxMarginBps?: number;
+}
+
+/**
+ * Options for creating a remittance quote
+ */
+export interface RemittanceQuoteOptions {
+  /** Rounding mode for fees and the receive amount (default: configured roundingMode) */
+  roundingMode?: RoundingMode;
+  /** How long the quote is valid for, in milliseconds */
+  validForMs?: number;
+  /** Clock returning the current time in milliseconds (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Itemized remittance quote. Every amount is in minor-unit precision of its
+ * currency, and the object is plain data that can be persisted as JSON.
+ */
+export interface RemittanceQuote {
+  /** Whether the send or the receive amount was fixed */
+  mode: RemittanceQuoteMode;
+  /** Amount given in the request */
+  requestedAmount: number;
+  /** Currency the sender pays in */
+  sendCurrency: string;
+  /** Currency the recipient gets */
+  receiveCurrency: string;
+  /** Total the sender pays, fee included */
+  sendAmount: number;
+  /** Fee charged to the sender */
+  fee: number;
+  /** Itemized fee components */
+  feeBreakdown: FeeBreakdown;
+  /** Send amount after the fee, which is converted */
+  amountConverted: number;
+  /** Mid-market rate */
+  marketRate: number;
+  /** FX margin taken off the market rate, in basis points */
+  fxMarginBps: number;
+  /** Rate the customer gets after the FX margin */
+  customerRate: number;
+  /** Amount the recipient gets */
+  receiveAmount: number;
+  /** Cost of the FX margin compared with the market rate */
+  fxMargin: ConversionCost;
+  /** Fee plus FX margin */
+  totalCost: ConversionCost;
+  /** Receive amount per unit of the send amount, after all costs */
+  effectiveRate: number;
+  /** When the quote was created */
+  createdAt: Date;
+  /** When the quote expires, if `validForMs` was given */
+  expiresAt?: Date;
+}
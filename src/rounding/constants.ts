@@ -0,0 +1,32 @@
+/**
+ * Constants for the shared rounding policy
+ */
+
+import type { RoundingPolicy, LegacyRoundingMode } from './types';
+
+/**
+ * Every supported rounding policy
+ */
+export const ROUNDING_POLICIES: readonly RoundingPolicy[] = [
+  'half-up',
+  'half-down',
+  'half-even',
+  'half-odd',
+  'half-away-from-zero',
+  'half-toward-zero',
+  'up',
+  'down',
+  'ceiling',
+  'floor',
+];
+
+/**
+ * Policies that legacy rounding mode names stand for
+ */
+export const LEGACY_ROUNDING_MODES: Readonly<
+  Record<LegacyRoundingMode, RoundingPolicy>
+> = {
+  round: 'half-up',
+  ceil: 'ceiling',
+  bankers: 'half-even',
+};
@@ -0,0 +1,161 @@
+/**
+ * Tests for the shared rounding policy
+ */
+
+import { resolveRoundingPolicy, roundNumber, ROUNDING_POLICIES } from './index';
+import type { RoundingPolicy } from './index';
+import { MonieUtilsError } from '../errors';
+import { configure, resetConfig } from '../config';
+import {
+  roundMoney,
+  splitAmount,
+  distributeProportionally,
+} from '../arithmetic';
+import { normalizeAmount } from '../validation';
+import { roundToBankersRounding } from '../utils';
+import { calculateMonthlyPayment } from '../loans';
+import { calculateDividendYield } from '../investment';
+
+const INPUTS = [2.5, -2.5, 1.5, -1.5, 1.4, -1.6];
+
+const EXPECTED: Record<RoundingPolicy, number[]> = {
+  'half-up': [3, -2, 2, -1, 1, -2],
+  'half-down': [2, -3, 1, -2, 1, -2],
+  'half-even': [2, -2, 2, -2, 1, -2],
+  'half-odd': [3, -3, 1, -1, 1, -2],
+  'half-away-from-zero': [3, -3, 2, -2, 1, -2],
+  'half-toward-zero': [2, -2, 1, -1, 1, -2],
+  up: [3, -3, 2, -2, 2, -2],
+  down: [2, -2, 1, -1, 1, -1],
+  ceiling: [3, -2, 2, -1, 2, -1],
+  floor: [2, -3, 1, -2, 1, -2],
+};
+
+describe('rounding policy', () => {
+  afterEach(() => {
+    resetConfig();
+  });
+
+  describe('roundNumber', () => {
+    it('should cover every policy', () => {
+      expect([...ROUNDING_POLICIES].sort()).toEqual(
+        Object.keys(EXPECTED).sort()
+      );
+    });
+
+    it.each(ROUNDING_POLICIES.map(policy => [policy]))(
+      'should apply %s with native floats',
+      policy => {
+        expect(INPUTS.map(value => roundNumber(value, 0, policy))).toEqual(
+          EXPECTED[policy]
+        );
+      }
+    );
+
+    it.each(ROUNDING_POLICIES.map(policy => [policy]))(
+      'should apply %s with decimal arithmetic',
+      policy => {
+        configure({ arithmetic: 'decimal' });
+        expect(INPUTS.map(value => roundNumber(value, 0, policy))).toEqual(
+          EXPECTED[policy]
+        );
+      }
+    );
+
+    it('should detect ties hidden by float representation', () => {
+      expect(roundNumber(2.135, 2, 'half-even')).toBe(2.14);
+      expect(roundNumber(2.125, 2, 'half-even')).toBe(2.12);
+      expect(roundNumber(2.135, 2, 'half-down')).toBe(2.13);
+      expect(roundNumber(1.231, 2, 'up')).toBe(1.24);
+      expect(roundNumber(-1.239, 2, 'down')).toBe(-1.23);
+      expect(roundNumber(1.005, 2, 'half-up')).toBe(1.01);
+      expect(roundNumber(1.005, 2, 'half-away-from-zero')).toBe(1.01);
+    });
+
+    it('should not let binary error move directed modes', () => {
+      expect(roundMoney(1.1, 2, 'ceiling')).toBe(1.1);
+      expect(roundMoney(1.1, 2, 'up')).toBe(1.1);
+      expect(roundMoney(-1.1, 2, 'up')).toBe(-1.1);
+      expect(roundMoney(0.29, 2, 'floor')).toBe(0.29);
+      expect(roundMoney(0.29, 2, 'down')).toBe(0.29);
+      expect(normalizeAmount(1.1, { roundingMode: 'ceil' })).toBe(1.1);
+    });
+  });
+
+  describe('resolveRoundingPolicy', () => {
+    it('should map legacy aliases', () => {
+      expect(resolveRoundingPolicy('round')).toBe('half-up');
+      expect(resolveRoundingPolicy('ceil')).toBe('ceiling');
+      expect(resolveRoundingPolicy('bankers')).toBe('half-even');
+      expect(resolveRoundingPolicy('floor')).toBe('floor');
+    });
+
+    it('should fall back to the configured default', () => {
+      expect(resolveRoundingPolicy()).toBe('half-up');
+      configure({ roundingMode: 'half-even' });
+      expect(resolveRoundingPolicy()).toBe('half-even');
+    });
+
+    it('should reject unknown modes', () => {
+      expect(() => resolveRoundingPolicy('sideways' as never)).toThrow(
+        MonieUtilsError
+      );
+      expect(() => resolveRoundingPolicy('sideways' as never)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_ARGUMENT',
+          details: expect.objectContaining({ field: 'roundingMode' }),
+        })
+      );
+      expect(() =>
+        configure({ roundingMode: 'bankers' as RoundingPolicy })
+      ).toThrow(MonieUtilsError);
+    });
+  });
+
+  describe('library functions', () => {
+    it('should use the global default when no mode is passed', () => {
+      expect(roundMoney(2.125)).toBe(2.13);
+      expect(normalizeAmount(2.125)).toBe(2.13);
+
+      configure({ roundingMode: 'half-even' });
+      expect(roundMoney(2.125)).toBe(2.12);
+      expect(normalizeAmount(2.125)).toBe(2.12);
+      expect(roundMoney(2.125, 2, 'half-up')).toBe(2.13);
+    });
+
+    it('should accept policies in normalizeAmount', () => {
+      expect(normalizeAmount(-1.005, { roundingMode: 'up' })).toBe(-1.01);
+      expect(normalizeAmount(1.239, { roundingMode: 'down' })).toBe(1.23);
+    });
+
+    it('should accept policies in roundToBankersRounding', () => {
+      expect(roundToBankersRounding(2.125, 2)).toBe(2.12);
+      expect(roundToBankersRounding(2.125, 2, 'half-odd')).toBe(2.13);
+      expect(roundToBankersRounding(2.5, 0, 'half-toward-zero')).toBe(2);
+    });
+
+    it('should accept policies in splitAmount and distributeProportionally', () => {
+      expect(splitAmount(200, 3, 'half-up').amounts).toEqual([
+        66.67, 66.67, 66.66,
+      ]);
+      expect(splitAmount(100, 3, 'ceiling').amounts).toEqual([
+        33.34, 33.33, 33.33,
+      ]);
+
+      const distributed = distributeProportionally(100, [1, 1, 1], 'ceiling');
+      expect(distributed.amounts).toEqual([33.34, 33.34, 33.34]);
+      expect(distributed.remainder).toBe(-0.02);
+    });
+
+    it('should accept policies in loan and investment calculators', () => {
+      expect(calculateMonthlyPayment(10000, 5, 36).monthlyPayment).toBe(299.71);
+      expect(
+        calculateMonthlyPayment(10000, 5, 36, 'floor').monthlyPayment
+      ).toBe(299.7);
+      expect(calculateDividendYield(2, 3, 'floor').yieldPercentage).toBe(66.66);
+
+      configure({ arithmetic: 'decimal', roundingMode: 'floor' });
+      expect(calculateMonthlyPayment(10000, 5, 36).monthlyPayment).toBe(299.7);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Rounding policy barrel export
+ *
+ * This module provides the rounding policy shared across the library:
+ * - Ten rounding policies, from half-even to ceiling
+ * - Legacy aliases ('round', 'ceil', 'bankers')
+ * - A configurable default via `configure({ roundingMode })`
+ *
+ * @example
+ * ```typescript
+ * import { resolveRoundingPolicy, roundNumber } from '../rounding';
+ *
+ * roundNumber(2.125, 2, resolveRoundingPolicy('bankers')); // 2.12
+ * ```
+ */
+
+// Export rounding functions
+export { resolveRoundingPolicy, roundNumber } from './rounding';
+
+// Export constants
+export { ROUNDING_POLICIES, LEGACY_ROUNDING_MODES } from './constants';
+
+// Export types
+export type { RoundingPolicy, LegacyRoundingMode, RoundingMode } from './types';
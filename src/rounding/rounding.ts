@@ -0,0 +1,71 @@
+/**
+ * Shared rounding policy used by every function that rounds
+ */
+
+import type { RoundingMode, RoundingPolicy } from './types';
+import { ROUNDING_POLICIES, LEGACY_ROUNDING_MODES } from './constants';
+import { Decimal } from '../decimal';
+import { getConfig } from '../config/config';
+import { MonieUtilsError } from '../errors';
+
+/**
+ * Resolves a rounding mode or legacy alias to a policy.
+ * When no mode is given, the configured default (`roundingMode`) is used.
+ *
+ * @param mode - The requested mode
+ * @returns The rounding policy to apply
+ *
+ * @throws {MonieUtilsError} When the mode is not recognised
+ *
+ * @example
+ * ```typescript
+ * resolveRoundingPolicy('bankers'); // "half-even"
+ * resolveRoundingPolicy(); // "half-up" (or the configured default)
+ * ```
+ */
+export function resolveRoundingPolicy(mode?: RoundingMode): RoundingPolicy {
+  if (mode === undefined) {
+    return getConfig().roundingMode;
+  }
+
+  if (ROUNDING_POLICIES.includes(mode as RoundingPolicy)) {
+    return mode as RoundingPolicy;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(LEGACY_ROUNDING_MODES, mode)) {
+    return LEGACY_ROUNDING_MODES[mode as keyof typeof LEGACY_ROUNDING_MODES];
+  }
+
+  throw new MonieUtilsError(
+    `Invalid rounding mode: ${String(mode)}`,
+    'INVALID_ARGUMENT',
+    { field: 'roundingMode', value: mode, allowed: ROUNDING_POLICIES }
+  );
+}
+
+/**
+ * Rounds a number to a number of decimal places. The value is rounded
+ * exactly on its shortest decimal representation, so binary error never
+ * pushes a directed mode past the value (1.1 rounds up to 1.1, not 1.11)
+ * or hides a tie (1.005 is a tie at two places).
+ *
+ * @param value - The value to round
+ * @param decimalPlaces - Number of decimal places to keep
+ * @param policy - The rounding policy
+ * @returns The rounded value
+ *
+ * @example
+ * ```typescript
+ * roundNumber(2.125, 2, 'half-even'); // 2.12
+ * roundNumber(-2.5, 0, 'half-toward-zero'); // -2
+ * roundNumber(1.231, 2, 'up'); // 1.24
+ * roundNumber(1.1, 2, 'ceiling'); // 1.1
+ * ```
+ */
+export function roundNumber(
+  value: number,
+  decimalPlaces: number,
+  policy: RoundingPolicy
+): number {
+  return Decimal.from(value).round(decimalPlaces, policy).toNumber();
+}
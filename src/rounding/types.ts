@@ -0,0 +1,43 @@
+/**
+ * Type definitions for the shared rounding policy
+ */
+
+/**
+ * How a value is rounded to a number of decimal places
+ *
+ * - `half-up`: nearest, ties toward positive infinity (matches `Math.round`)
+ * - `half-down`: nearest, ties toward negative infinity
+ * - `half-even`: nearest, ties to the even neighbour (banker's rounding)
+ * - `half-odd`: nearest, ties to the odd neighbour
+ * - `half-away-from-zero`: nearest, ties away from zero
+ * - `half-toward-zero`: nearest, ties toward zero
+ * - `up`: away from zero
+ * - `down`: toward zero (truncation)
+ * - `ceiling`: toward positive infinity
+ * - `floor`: toward negative infinity
+ */
+export type RoundingPolicy =
+  | 'half-up'
+  | 'half-down'
+  | 'half-even'
+  | 'half-odd'
+  | 'half-away-from-zero'
+  | 'half-toward-zero'
+  | 'up'
+  | 'down'
+  | 'ceiling'
+  | 'floor';
+
+/**
+ * Older rounding mode names, kept as aliases
+ *
+ * - `round`: same as `half-up`
+ * - `ceil`: same as `ceiling`
+ * - `bankers`: same as `half-even`
+ */
+export type LegacyRoundingMode = 'round' | 'ceil' | 'bankers';
+
+/**
+ * Rounding mode accepted by functions that round: a policy or a legacy alias
+ */
+export type RoundingMode = RoundingPolicy | LegacyRoundingMode;
@@ -128,8 +128,8 @@ describe('subscription and recurring payment utilities', () => {
     it('should calculate upgrade credit correctly', () => {
       const result = calculateUpgradeCredit(oldPlan, newPlan, 15);
       expect(result.creditAmount).toBe(5); // (9.99 * 15) / 30 = 4.995, rounded to 5
-      expect(result.newPlanProratedCost).toBe(9.99); // (19.99 * 15) / 30 = 9.995, rounded to 9.99
-      expect(result.netAmountDue).toBe(5); // 9.99 - 5 = 4.99, but rounding after subtraction gives 5
+      expect(result.newPlanProratedCost).toBe(10); // (19.99 * 15) / 30 = 9.995, rounded to 10
+      expect(result.netAmountDue).toBe(5); // 9.995 - 4.995 = 5
       expect(result.daysRemaining).toBe(15);
     });
 
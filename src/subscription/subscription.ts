@@ -42,16 +42,26 @@ export function calculateSubscriptionValue(
 ): SubscriptionValueResult {
   if (!isValidAmount(monthlyAmount) || !isValidAmount(months)) {
     throw new MonieUtilsError(
-      'Monthly amount and months must be valid numbers'
+      'Monthly amount and months must be valid numbers',
+      'INVALID_AMOUNT',
+      { monthlyAmount, months }
     );
   }
 
   if (monthlyAmount < 0) {
-    throw new MonieUtilsError('Monthly amount cannot be negative');
+    throw new MonieUtilsError(
+      'Monthly amount cannot be negative',
+      'INVALID_AMOUNT',
+      { field: 'monthlyAmount', value: monthlyAmount, min: 0 }
+    );
   }
 
   if (months <= 0 || !Number.isInteger(months)) {
-    throw new MonieUtilsError('Months must be a positive integer');
+    throw new MonieUtilsError(
+      'Months must be a positive integer',
+      'INVALID_ARGUMENT',
+      { field: 'months', value: months, min: 1 }
+    );
   }
 
   const totalCost = monthlyAmount * months;
@@ -87,18 +97,28 @@ export function compareSubscriptionPlans(
   plans: SubscriptionPlan[]
 ): PlanComparisonResult {
   if (!Array.isArray(plans) || plans.length === 0) {
-    throw new MonieUtilsError('Plans must be a non-empty array');
+    throw new MonieUtilsError(
+      'Plans must be a non-empty array',
+      'INVALID_ARGUMENT',
+      { field: 'plans', value: plans }
+    );
   }
 
   if (plans.length === 1) {
-    throw new MonieUtilsError('At least two plans are required for comparison');
+    throw new MonieUtilsError(
+      'At least two plans are required for comparison',
+      'INVALID_ARGUMENT',
+      { field: 'plans', value: plans, min: 2 }
+    );
   }
 
   // Validate all plans
   for (const plan of plans) {
     if (!plan.id || !plan.name || !isValidAmount(plan.monthlyAmount)) {
       throw new MonieUtilsError(
-        'Each plan must have valid id, name, and monthlyAmount'
+        'Each plan must have valid id, name, and monthlyAmount',
+        'INVALID_ARGUMENT',
+        { field: 'plans', value: plan }
       );
     }
   }
@@ -174,22 +194,34 @@ export function calculateProrationAmount(
     !isValidAmount(totalDays)
   ) {
     throw new MonieUtilsError(
-      'Amount, days used, and total days must be valid numbers'
+      'Amount, days used, and total days must be valid numbers',
+      'INVALID_AMOUNT',
+      { amount, daysUsed, totalDays }
     );
   }
 
   if (amount < 0) {
-    throw new MonieUtilsError('Amount cannot be negative');
+    throw new MonieUtilsError('Amount cannot be negative', 'INVALID_AMOUNT', {
+      field: 'amount',
+      value: amount,
+      min: 0,
+    });
   }
 
   if (daysUsed < 0 || totalDays <= 0) {
     throw new MonieUtilsError(
-      'Days used cannot be negative and total days must be positive'
+      'Days used cannot be negative and total days must be positive',
+      'INVALID_RANGE',
+      { daysUsed, totalDays }
     );
   }
 
   if (daysUsed > totalDays) {
-    throw new MonieUtilsError('Days used cannot exceed total days');
+    throw new MonieUtilsError(
+      'Days used cannot exceed total days',
+      'INVALID_RANGE',
+      { field: 'daysUsed', value: daysUsed, max: totalDays }
+    );
   }
 
   const usagePercentage = (daysUsed / totalDays) * 100;
@@ -229,14 +261,22 @@ export function calculateUpgradeCredit(
   daysRemaining: number
 ): UpgradeCreditResult {
   if (!oldPlan || !newPlan) {
-    throw new MonieUtilsError('Both old and new plans must be provided');
+    throw new MonieUtilsError(
+      'Both old and new plans must be provided',
+      'INVALID_ARGUMENT',
+      { oldPlan, newPlan }
+    );
   }
 
   if (
     !isValidAmount(oldPlan.monthlyAmount) ||
     !isValidAmount(newPlan.monthlyAmount)
   ) {
-    throw new MonieUtilsError('Both plans must have valid monthly amounts');
+    throw new MonieUtilsError(
+      'Both plans must have valid monthly amounts',
+      'INVALID_AMOUNT',
+      { oldAmount: oldPlan.monthlyAmount, newAmount: newPlan.monthlyAmount }
+    );
   }
 
   if (
@@ -244,7 +284,11 @@ export function calculateUpgradeCredit(
     daysRemaining < 0 ||
     daysRemaining > 31
   ) {
-    throw new MonieUtilsError('Days remaining must be between 0 and 31');
+    throw new MonieUtilsError(
+      'Days remaining must be between 0 and 31',
+      'INVALID_RANGE',
+      { field: 'daysRemaining', value: daysRemaining, min: 0, max: 31 }
+    );
   }
 
   const assumedDaysInMonth = 30; // Standardize for calculation
@@ -294,11 +338,19 @@ export function calculateAnnualEquivalent(
   frequency: PaymentFrequency
 ): AnnualEquivalentResult {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
   }
 
   if (amount < 0) {
-    throw new MonieUtilsError('Amount cannot be negative');
+    throw new MonieUtilsError('Amount cannot be negative', 'INVALID_AMOUNT', {
+      field: 'amount',
+      value: amount,
+      min: 0,
+    });
   }
 
   const frequencyMultipliers: Record<PaymentFrequency, number> = {
@@ -313,7 +365,15 @@ export function calculateAnnualEquivalent(
 
   const paymentsPerYear = frequencyMultipliers[frequency];
   if (!paymentsPerYear) {
-    throw new MonieUtilsError(`Invalid frequency: ${frequency}`);
+    throw new MonieUtilsError(
+      `Invalid frequency: ${frequency}`,
+      'INVALID_ARGUMENT',
+      {
+        field: 'frequency',
+        value: frequency,
+        allowed: Object.keys(frequencyMultipliers),
+      }
+    );
   }
 
   const annualAmount = amount * paymentsPerYear;
@@ -346,7 +406,11 @@ export function calculateNextPaymentDate(
   frequency: PaymentFrequency
 ): Date {
   if (!(startDate instanceof Date) || isNaN(startDate.getTime())) {
-    throw new MonieUtilsError('Start date must be a valid Date object');
+    throw new MonieUtilsError(
+      'Start date must be a valid Date object',
+      'INVALID_DATE',
+      { field: 'startDate', value: startDate }
+    );
   }
 
   const nextDate = new Date(startDate);
@@ -374,7 +438,11 @@ export function calculateNextPaymentDate(
       nextDate.setFullYear(nextDate.getFullYear() + 1);
       break;
     default:
-      throw new MonieUtilsError(`Invalid frequency: ${frequency}`);
+      throw new MonieUtilsError(
+        `Invalid frequency: ${frequency}`,
+        'INVALID_ARGUMENT',
+        { field: 'frequency', value: frequency }
+      );
   }
 
   return nextDate;
@@ -403,15 +471,26 @@ export function calculateTotalRecurringCost(
   duration: number
 ): RecurringCostResult {
   if (!isValidAmount(amount) || !isValidAmount(duration)) {
-    throw new MonieUtilsError('Amount and duration must be valid numbers');
+    throw new MonieUtilsError(
+      'Amount and duration must be valid numbers',
+      'INVALID_AMOUNT',
+      { amount, duration }
+    );
   }
 
   if (amount < 0) {
-    throw new MonieUtilsError('Amount cannot be negative');
+    throw new MonieUtilsError('Amount cannot be negative', 'INVALID_AMOUNT', {
+      field: 'amount',
+      value: amount,
+      min: 0,
+    });
   }
 
   if (duration <= 0) {
-    throw new MonieUtilsError('Duration must be positive');
+    throw new MonieUtilsError('Duration must be positive', 'INVALID_RANGE', {
+      field: 'duration',
+      value: duration,
+    });
   }
 
   // Convert duration (in months) to number of payments based on frequency
@@ -427,7 +506,15 @@ export function calculateTotalRecurringCost(
 
   const paymentsPerMonth = frequencyToMonthlyMultiplier[frequency];
   if (!paymentsPerMonth) {
-    throw new MonieUtilsError(`Invalid frequency: ${frequency}`);
+    throw new MonieUtilsError(
+      `Invalid frequency: ${frequency}`,
+      'INVALID_ARGUMENT',
+      {
+        field: 'frequency',
+        value: frequency,
+        allowed: Object.keys(frequencyToMonthlyMultiplier),
+      }
+    );
   }
 
   const numberOfPayments = Math.round(duration * paymentsPerMonth);
@@ -3,15 +3,23 @@
  */
 
 /**
- * Represents a money amount with its currency
+ * Represents a money amount with its currency as a plain object
  */
-export interface Money {
+export interface MoneyLike {
   /** The amount in the currency's base unit */
   amount: number;
   /** ISO 4217 currency code */
   currency: string;
 }
 
+/**
+ * The plain `{ amount, currency }` interface, formerly exported as `Money`.
+ * `Money` is now the value class.
+ *
+ * @deprecated Use `MoneyLike`
+ */
+export type MoneyInterface = MoneyLike;
+
 /**
  * Exchange rate information between two currencies
  */
@@ -33,7 +41,7 @@ export interface Transaction {
   /** Unique transaction identifier */
   id: string;
   /** Transaction amount */
-  amount: Money;
+  amount: MoneyLike;
   /** Transaction date */
   date: Date;
   /** Transaction description */
@@ -90,8 +98,36 @@ export interface FeeStructure {
   minimum?: number;
   /** Maximum fee */
   maximum?: number;
+  /** Amounts below this threshold are charged no fee */
+  waiveBelow?: number;
+  /** Fee bands by amount, in ascending order of `upTo` */
+  tiers?: FeeTier[];
+  /** How the bands apply (default: 'tiered') */
+  tierMode?: FeeTierMode;
 }
 
+/**
+ * One band of a tiered fee
+ */
+export interface FeeTier {
+  /** Upper bound of the band, inclusive; omit for the last band */
+  upTo?: number;
+  /** Fixed fee charged when the amount falls in this band */
+  fixed?: number;
+  /** Percentage fee rate of this band */
+  percentage?: number;
+}
+
+/**
+ * How fee bands apply
+ *
+ * - `tiered`: each band's percentage applies to the part of the amount
+ *   inside that band
+ * - `volume`: the whole amount is charged at the percentage of the band it
+ *   falls in
+ */
+export type FeeTierMode = 'tiered' | 'volume';
+
 /**
  * Loan calculation parameters
  */
@@ -145,9 +181,9 @@ export interface SubscriptionPlan {
 }
 
 /**
- * Error types for validation and operations
+ * Error codes carried by `MonieUtilsError`
  */
-export type MonieUtilsError = 
+export type MonieUtilsErrorCode =
   | 'INVALID_AMOUNT'
   | 'INVALID_CURRENCY'
   | 'CURRENCY_MISMATCH'
@@ -155,4 +191,20 @@ export type MonieUtilsError =
   | 'INVALID_RANGE'
   | 'INVALID_PERCENTAGE'
   | 'INVALID_DATE'
-  | 'EXCHANGE_RATE_NOT_FOUND';
+  | 'EXCHANGE_RATE_NOT_FOUND'
+  | 'INVALID_RATE'
+  | 'INVALID_ARGUMENT'
+  | 'INVALID_LOCALE'
+  | 'FORMATTING_FAILED'
+  | 'PARSING_FAILED'
+  | 'ACCOUNT_NOT_FOUND'
+  | 'UNBALANCED_ENTRY'
+  | 'PERIOD_CLOSED'
+  | 'MONIE_UTILS_ERROR';
+
+/**
+ * The error code union under its original name
+ *
+ * @deprecated Use `MonieUtilsErrorCode`
+ */
+export type MonieUtilsErrorType = MonieUtilsErrorCode;
@@ -7,6 +7,7 @@ import {
   roundToBankersRounding,
   truncateToDecimalPlaces,
   ceilToNearestCent,
+  roundForCash,
   formatThousands,
   formatToHundreds,
   removeFormattingFromNumber,
@@ -14,6 +15,7 @@ import {
   formatAccountNumber,
 } from './index';
 import { MonieUtilsError } from '../errors';
+import { registerCurrency, unregisterCurrency } from '../currencies';
 
 describe('utility functions', () => {
   describe('rounding and precision', () => {
@@ -96,6 +98,74 @@ describe('utility functions', () => {
         expect(() => ceilToNearestCent(NaN)).toThrow(MonieUtilsError);
       });
     });
+
+    describe('roundForCash', () => {
+      it('should round to the currency cash increment', () => {
+        expect(roundForCash(12.34, 'CHF')).toEqual({
+          rounded: 12.35,
+          original: 12.34,
+          adjustment: 0.01,
+          currency: 'CHF',
+          increment: 0.05,
+        });
+        expect(roundForCash(12.32, 'cad').rounded).toBe(12.3);
+        expect(roundForCash(99.4, 'SEK')).toMatchObject({
+          rounded: 99,
+          adjustment: -0.4,
+        });
+        expect(roundForCash(1002.4, 'HUF').rounded).toBe(1000);
+        expect(roundForCash(10.74, 'DKK').rounded).toBe(10.5);
+      });
+
+      it('should round exact ties without float drift', () => {
+        expect(roundForCash(10.025, 'CHF').rounded).toBe(10.05);
+        expect(roundForCash(-10.025, 'CHF').rounded).toBe(-10.0);
+        expect(roundForCash(10.025, 'CHF', 'half-away-from-zero').rounded).toBe(
+          10.05
+        );
+        expect(roundForCash(10.025, 'CHF', 'half-even').rounded).toBe(10.0);
+      });
+
+      it('should fall back to the minor unit', () => {
+        expect(roundForCash(12.345, 'USD')).toMatchObject({
+          rounded: 12.35,
+          increment: 0.01,
+        });
+        expect(roundForCash(1234.5, 'JPY').rounded).toBe(1235);
+      });
+
+      it('should use increments of registered currencies', () => {
+        registerCurrency({
+          code: 'PTS',
+          decimalPlaces: 2,
+          cashIncrement: 0.25,
+        });
+        try {
+          expect(roundForCash(3.4, 'PTS').rounded).toBe(3.5);
+        } finally {
+          unregisterCurrency('PTS');
+        }
+        expect(() =>
+          registerCurrency({
+            code: 'PTS',
+            decimalPlaces: 2,
+            cashIncrement: 0.001,
+          })
+        ).toThrow(
+          expect.objectContaining({
+            code: 'INVALID_ARGUMENT',
+            details: expect.objectContaining({ field: 'cashIncrement' }),
+          })
+        );
+      });
+
+      it('should throw error for invalid input', () => {
+        expect(() => roundForCash(NaN, 'CHF')).toThrow(MonieUtilsError);
+        expect(() => roundForCash(10, 'XYZ')).toThrow(
+          expect.objectContaining({ code: 'INVALID_CURRENCY' })
+        );
+      });
+    });
   });
 
   describe('formatting helpers', () => {
@@ -118,6 +188,57 @@ describe('utility functions', () => {
         expect(formatThousands(1234.567, { decimalPlaces: 1 })).toBe('1,234.6');
       });
 
+      it('should support grouping strategies', () => {
+        expect(formatThousands(1234567.89, { grouping: 'indian' })).toBe(
+          '12,34,567.89'
+        );
+        expect(formatThousands(-1234567.89, { grouping: [4] })).toBe(
+          '-123,4567.89'
+        );
+        expect(formatThousands(1234567.89, { grouping: 'none' })).toBe(
+          '1234567.89'
+        );
+        expect(formatThousands(1234567.891, { locale: 'en-IN' })).toBe(
+          '12,34,567.891'
+        );
+        expect(
+          formatThousands(1234567.891, {
+            locale: 'en-IN',
+            grouping: 'standard',
+          })
+        ).toBe('1,234,567.891');
+      });
+
+      it('should honor custom separators for any locale', () => {
+        expect(
+          formatThousands(1234567.89, { locale: 'de-DE', separator: "'" })
+        ).toBe("1'234'567,89");
+        expect(
+          formatThousands(1234567.89, {
+            locale: 'de-DE',
+            separator: ' ',
+            decimalSeparator: '.',
+          })
+        ).toBe('1 234 567.89');
+        expect(
+          formatThousands(-1234567.891, {
+            locale: 'not a locale!',
+            grouping: 'indian',
+            separator: ' ',
+            decimalSeparator: ',',
+          })
+        ).toBe('-12 34 567,89');
+      });
+
+      it('should reject invalid grouping', () => {
+        expect(() => formatThousands(1234, { grouping: [0] })).toThrow(
+          expect.objectContaining({ code: 'INVALID_ARGUMENT' })
+        );
+        expect(() =>
+          formatThousands(1234, { grouping: 'chinese' as 'standard' })
+        ).toThrow(expect.objectContaining({ code: 'INVALID_ARGUMENT' }));
+      });
+
       it('should throw error for invalid input', () => {
         expect(() => formatThousands(NaN)).toThrow(MonieUtilsError);
       });
@@ -132,6 +253,9 @@ describe('utility functions', () => {
 
       it('should handle custom separators', () => {
         expect(formatToHundreds(123456, { separator: ' ' })).toBe('1 234.56');
+        expect(formatToHundreds(123456789, { grouping: 'indian' })).toBe(
+          '12,34,567.89'
+        );
       });
 
       it('should throw error for invalid input', () => {
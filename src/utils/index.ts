@@ -12,6 +12,7 @@
  *   roundToBankersRounding,
  *   truncateToDecimalPlaces,
  *   ceilToNearestCent,
+ *   roundForCash,
  *   formatThousands,
  *   formatToHundreds,
  *   removeFormattingFromNumber,
@@ -24,6 +25,7 @@
  * const bankers = roundToBankersRounding(2.125, 2); // 2.12
  * const truncated = truncateToDecimalPlaces(123.999, 2); // 123.99
  * const ceiled = ceilToNearestCent(123.451); // 123.46
+ * const cash = roundForCash(12.34, 'CHF'); // { rounded: 12.35, adjustment: 0.01, ... }
  *
  * // Formatting utilities
  * const thousands = formatThousands(1234567.89); // "1,234,567.89"
@@ -40,6 +42,7 @@ export {
   roundToBankersRounding,
   truncateToDecimalPlaces,
   ceilToNearestCent,
+  roundForCash,
 
   // Formatting Helpers
   formatThousands,
@@ -56,4 +59,5 @@ export type {
   ThousandFormatOptions,
   BankersRoundingMode,
   RoundingResult,
+  CashRoundingResult,
 } from './types';
@@ -3,6 +3,8 @@
  * @module Utils/Types
  */
 
+import type { GroupingOptions } from '../localization/types';
+
 /**
  * Result of number-to-words conversion
  */
@@ -52,10 +54,8 @@ export interface FormattedAccountResult {
 /**
  * Options for thousand formatting
  */
-export interface ThousandFormatOptions {
-  /** Separator for thousands (default: ',') */
-  separator?: string;
-  /** Locale for formatting */
+export interface ThousandFormatOptions extends GroupingOptions {
+  /** Locale for formatting (default: 'en-US') */
   locale?: string;
   /** Whether to include decimal places */
   includeDecimals?: boolean;
@@ -65,6 +65,8 @@ export interface ThousandFormatOptions {
 
 /**
  * Banker's rounding mode
+ *
+ * @deprecated Use `RoundingMode`, which `roundToBankersRounding` now accepts
  */
 export type BankersRoundingMode = 'half-even' | 'half-odd';
 
@@ -83,3 +85,19 @@ export interface RoundingResult {
   /** The difference between original and rounded */
   difference: number;
 }
+
+/**
+ * Result of rounding an amount for cash payment
+ */
+export interface CashRoundingResult {
+  /** The cash amount to collect or pay out */
+  rounded: number;
+  /** The original amount */
+  original: number;
+  /** The rounding adjustment line (rounded - original) */
+  adjustment: number;
+  /** The currency code */
+  currency: string;
+  /** The cash increment that was applied */
+  increment: number;
+}
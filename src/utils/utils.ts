@@ -5,13 +5,23 @@
 
 import { MonieUtilsError } from '../errors';
 import { isValidAmount } from '../validation';
+import { Decimal } from '../decimal';
+import { isDecimalArithmetic } from '../config/config';
 import type {
   NumberToWordsResult,
   AccountNumberOptions,
   FormattedAccountResult,
   ThousandFormatOptions,
-  BankersRoundingMode,
+  CashRoundingResult,
 } from './types';
+import { getCurrencyInfo } from '../currencies';
+import {
+  formatGroupedNumber,
+  groupDigits,
+  resolveGroupSizes,
+} from '../localization/grouping';
+import { resolveRoundingPolicy, roundNumber } from '../rounding';
+import type { RoundingMode } from '../rounding';
 
 // ==================== ROUNDING AND PRECISION ====================
 
@@ -34,7 +44,15 @@ import type {
  */
 export function roundToNearestCent(amount: number): number {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
+  }
+
+  if (isDecimalArithmetic()) {
+    return Decimal.from(amount).round(2, 'half-up').toNumber();
   }
 
   return Math.round(amount * 100) / 100;
@@ -45,7 +63,7 @@ export function roundToNearestCent(amount: number): number {
  *
  * @param amount - The amount to round
  * @param decimalPlaces - Number of decimal places (default: 2)
- * @param mode - Rounding mode (default: 'half-even')
+ * @param mode - Rounding policy or legacy alias (default: 'half-even')
  * @returns The amount with banker's rounding applied
  *
  * @throws {MonieUtilsError} When inputs are invalid
@@ -62,36 +80,25 @@ export function roundToNearestCent(amount: number): number {
 export function roundToBankersRounding(
   amount: number,
   decimalPlaces: number = 2,
-  mode: BankersRoundingMode = 'half-even'
+  mode: RoundingMode = 'half-even'
 ): number {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
   }
 
   if (!Number.isInteger(decimalPlaces) || decimalPlaces < 0) {
-    throw new MonieUtilsError('Decimal places must be a non-negative integer');
-  }
-
-  const multiplier = Math.pow(10, decimalPlaces);
-  const shifted = amount * multiplier;
-
-  // Round to nearest integer first to avoid floating point precision issues
-  const rounded = Math.round(shifted * 10) / 10;
-  const floor = Math.floor(rounded);
-  const remainder = rounded - floor;
-
-  // Check if we have exactly 0.5 (within small tolerance for floating point)
-  if (Math.abs(remainder - 0.5) < 1e-10) {
-    const isEven = floor % 2 === 0;
-    if (mode === 'half-even') {
-      return isEven ? floor / multiplier : (floor + 1) / multiplier;
-    } else {
-      return isEven ? (floor + 1) / multiplier : floor / multiplier;
-    }
+    throw new MonieUtilsError(
+      'Decimal places must be a non-negative integer',
+      'INVALID_ARGUMENT',
+      { field: 'decimalPlaces', value: decimalPlaces, min: 0 }
+    );
   }
 
-  // Otherwise, standard rounding
-  return Math.round(shifted) / multiplier;
+  return roundNumber(amount, decimalPlaces, resolveRoundingPolicy(mode));
 }
 
 /**
@@ -117,11 +124,23 @@ export function truncateToDecimalPlaces(
   places: number
 ): number {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
   }
 
   if (!Number.isInteger(places) || places < 0) {
-    throw new MonieUtilsError('Decimal places must be a non-negative integer');
+    throw new MonieUtilsError(
+      'Decimal places must be a non-negative integer',
+      'INVALID_ARGUMENT',
+      { field: 'places', value: places, min: 0 }
+    );
+  }
+
+  if (isDecimalArithmetic()) {
+    return Decimal.from(amount).round(places, 'down').toNumber();
   }
 
   const multiplier = Math.pow(10, places);
@@ -147,12 +166,81 @@ export function truncateToDecimalPlaces(
  */
 export function ceilToNearestCent(amount: number): number {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
+  }
+
+  if (isDecimalArithmetic()) {
+    return Decimal.from(amount).round(2, 'ceiling').toNumber();
   }
 
   return Math.ceil(amount * 100) / 100;
 }
 
+/**
+ * Round an amount to the smallest cash denomination of its currency
+ * (Swedish rounding), e.g. to 0.05 for CHF or to whole kronor for SEK.
+ * Currencies without a cash increment round to their minor unit.
+ *
+ * @param amount - The amount to round
+ * @param currency - The currency code
+ * @param roundingMode - Rounding policy or legacy alias (default: configured `roundingMode`)
+ * @returns The cash total and the rounding adjustment to show on a receipt
+ *
+ * @throws {MonieUtilsError} When amount or currency is invalid
+ *
+ * @example
+ * ```typescript
+ * const cash = roundForCash(12.34, 'CHF');
+ * console.log(cash.rounded); // 12.35
+ * console.log(cash.adjustment); // 0.01
+ *
+ * const kronor = roundForCash(99.4, 'SEK');
+ * console.log(kronor.rounded); // 99
+ * ```
+ */
+export function roundForCash(
+  amount: number,
+  currency: string,
+  roundingMode?: RoundingMode
+): CashRoundingResult {
+  if (!isValidAmount(amount)) {
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
+  }
+
+  const currencyInfo = getCurrencyInfo(currency);
+  if (currencyInfo === undefined) {
+    throw new MonieUtilsError(
+      `Invalid currency code: ${currency}`,
+      'INVALID_CURRENCY',
+      { field: 'currency', value: currency }
+    );
+  }
+
+  const { code, decimalPlaces } = currencyInfo;
+  const increment = currencyInfo.cashIncrement ?? 10 ** -decimalPlaces;
+  const policy = resolveRoundingPolicy(roundingMode);
+
+  // Exact decimal steps, so ties like 10.025 CHF are not lost to float drift
+  const original = Decimal.from(amount);
+  const rounded = original.div(increment).round(0, policy).mul(increment);
+
+  return {
+    original: amount,
+    rounded: rounded.round(decimalPlaces, 'half-up').toNumber(),
+    adjustment: rounded.sub(original).toNumber(),
+    currency: code,
+    increment,
+  };
+}
+
 // ==================== FORMATTING HELPERS ====================
 
 /**
@@ -162,7 +250,7 @@ export function ceilToNearestCent(amount: number): number {
  * @param options - Formatting options
  * @returns The number with thousand separators
  *
- * @throws {MonieUtilsError} When number is invalid
+ * @throws {MonieUtilsError} When number or grouping is invalid
  *
  * @example
  * ```typescript
@@ -171,6 +259,12 @@ export function ceilToNearestCent(amount: number): number {
  *
  * const formatted2 = formatThousands(1234567, { separator: ' ' });
  * console.log(formatted2); // "1 234 567"
+ *
+ * const formatted3 = formatThousands(1234567.89, { grouping: 'indian' });
+ * console.log(formatted3); // "12,34,567.89"
+ *
+ * const formatted4 = formatThousands(1234567.89, { locale: 'de-DE', separator: "'" });
+ * console.log(formatted4); // "1'234'567,89"
  * ```
  */
 export function formatThousands(
@@ -178,40 +272,42 @@ export function formatThousands(
   options: ThousandFormatOptions = {}
 ): string {
   if (!isValidAmount(number)) {
-    throw new MonieUtilsError('Number must be a valid number');
+    throw new MonieUtilsError(
+      'Number must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'number', value: number }
+    );
   }
 
   const {
-    separator = ',',
     locale = 'en-US',
     includeDecimals = true,
     decimalPlaces,
+    grouping,
+    separator,
+    decimalSeparator,
   } = options;
+  const sizes = resolveGroupSizes(grouping);
 
   try {
-    const formatOptions: Intl.NumberFormatOptions = {
-      useGrouping: true,
+    return formatGroupedNumber(number, {
+      locale,
       minimumFractionDigits: includeDecimals ? (decimalPlaces ?? 0) : 0,
       maximumFractionDigits: includeDecimals ? (decimalPlaces ?? 20) : 0,
-    };
-
-    let formatted = new Intl.NumberFormat(locale, formatOptions).format(number);
-
-    // Replace the default separator if custom one is provided
-    if (separator !== ',' && locale === 'en-US') {
-      formatted = formatted.replace(/,/g, separator);
-    }
-
-    return formatted;
+      ...(grouping !== undefined && { grouping }),
+      ...(separator !== undefined && { separator }),
+      ...(decimalSeparator !== undefined && { decimalSeparator }),
+    });
   } catch (error) {
     // Fallback for invalid locales
-    const parts = number
+    const [integerPart, fractionPart] = Math.abs(number)
       .toFixed(includeDecimals ? (decimalPlaces ?? 2) : 0)
       .split('.');
-    const integerPart = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, separator);
-    return includeDecimals && parts[1]
-      ? `${integerPart}.${parts[1]}`
-      : integerPart;
+    const grouped = groupDigits(integerPart, sizes ?? [3], separator ?? ',');
+    const sign = number < 0 ? '-' : '';
+    return includeDecimals && fractionPart
+      ? `${sign}${grouped}${decimalSeparator ?? '.'}${fractionPart}`
+      : `${sign}${grouped}`;
   }
 }
 
@@ -231,6 +327,9 @@ export function formatThousands(
  *
  * const formatted2 = formatToHundreds(12345, { separator: ' ' });
  * console.log(formatted2); // "123.45"
+ *
+ * const formatted3 = formatToHundreds(123456789, { grouping: 'indian' });
+ * console.log(formatted3); // "12,34,567.89"
  * ```
  */
 export function formatToHundreds(
@@ -238,7 +337,11 @@ export function formatToHundreds(
   options: ThousandFormatOptions = {}
 ): string {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
   }
 
   const hundredAmount = amount / 100;
@@ -268,7 +371,11 @@ export function formatToHundreds(
  */
 export function removeFormattingFromNumber(formattedString: string): string {
   if (typeof formattedString !== 'string' || formattedString.trim() === '') {
-    throw new MonieUtilsError('Formatted string must be a non-empty string');
+    throw new MonieUtilsError(
+      'Formatted string must be a non-empty string',
+      'INVALID_ARGUMENT',
+      { field: 'formattedString', value: formattedString }
+    );
   }
 
   // Remove common formatting characters but keep numbers, decimal points, and negative signs
@@ -278,7 +385,11 @@ export function removeFormattingFromNumber(formattedString: string): string {
     .replace(/(?<!^)-/g, ''); // Remove minus signs that aren't at the start
 
   if (cleaned === '' || isNaN(Number(cleaned))) {
-    throw new MonieUtilsError('String does not contain a valid number');
+    throw new MonieUtilsError(
+      'String does not contain a valid number',
+      'PARSING_FAILED',
+      { field: 'formattedString', value: formattedString }
+    );
   }
 
   return cleaned;
@@ -307,11 +418,19 @@ export function convertToWords(
   currency?: string
 ): NumberToWordsResult {
   if (!isValidAmount(amount)) {
-    throw new MonieUtilsError('Amount must be a valid number');
+    throw new MonieUtilsError(
+      'Amount must be a valid number',
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
+    );
   }
 
   if (Math.abs(amount) > 999999999999.99) {
-    throw new MonieUtilsError('Amount too large to convert to words');
+    throw new MonieUtilsError(
+      'Amount too large to convert to words',
+      'INVALID_RANGE',
+      { field: 'amount', value: amount, max: 999999999999.99 }
+    );
   }
 
   const isNegative = amount < 0;
@@ -469,14 +588,22 @@ export function formatAccountNumber(
   options: AccountNumberOptions = {}
 ): FormattedAccountResult {
   if (typeof accountNumber !== 'string' || accountNumber.trim() === '') {
-    throw new MonieUtilsError('Account number must be a non-empty string');
+    throw new MonieUtilsError(
+      'Account number must be a non-empty string',
+      'INVALID_ARGUMENT',
+      { field: 'accountNumber', value: accountNumber }
+    );
   }
 
   // Remove any existing formatting
   const cleanNumber = accountNumber.replace(/\s+/g, '');
 
   if (!/^\d+$/.test(cleanNumber)) {
-    throw new MonieUtilsError('Account number must contain only digits');
+    throw new MonieUtilsError(
+      'Account number must contain only digits',
+      'INVALID_ARGUMENT',
+      { field: 'accountNumber', value: accountNumber }
+    );
   }
 
   const {
@@ -489,11 +616,19 @@ export function formatAccountNumber(
   } = options;
 
   if (showFirst < 0 || showLast < 0) {
-    throw new MonieUtilsError('showFirst and showLast must be non-negative');
+    throw new MonieUtilsError(
+      'showFirst and showLast must be non-negative',
+      'INVALID_RANGE',
+      { showFirst, showLast, min: 0 }
+    );
   }
 
   if (groupSize <= 0) {
-    throw new MonieUtilsError('groupSize must be positive');
+    throw new MonieUtilsError('groupSize must be positive', 'INVALID_RANGE', {
+      field: 'groupSize',
+      value: groupSize,
+      min: 1,
+    });
   }
 
   let formatted = cleanNumber;
@@ -2,6 +2,8 @@
  * Type definitions for validation and parsing utilities
  */
 
+import type { RoundingMode } from '../rounding/types';
+
 /**
  * Result of parsing an amount string
  */
@@ -34,8 +36,8 @@ export interface ParsedCurrency {
 export interface NormalizeOptions {
   /** Number of decimal places to round to */
   decimalPlaces?: number;
-  /** Whether to round or truncate */
-  roundingMode?: 'round' | 'floor' | 'ceil';
+  /** Rounding policy or legacy alias (default: the configured rounding mode) */
+  roundingMode?: RoundingMode;
 }
 
 /**
@@ -8,9 +8,10 @@ import type {
   NormalizeOptions,
   RangeOptions,
 } from './types';
-import { CURRENCY_INFO } from '../formatCurrency/constants';
+import { isRegisteredCurrency } from '../currencies/currencies';
+import { resolveRoundingPolicy, roundNumber } from '../rounding';
 import { MonieUtilsError } from '../errors';
-import type { Money } from '../types';
+import type { MoneyLike } from '../types';
 
 /**
  * Checks if an amount is a valid money value
@@ -42,8 +43,7 @@ export function isValidAmount(amount: unknown): amount is number {
  * ```
  */
 export function isValidCurrency(currencyCode: unknown): currencyCode is string {
-  if (typeof currencyCode !== 'string') return false;
-  return currencyCode.toUpperCase() in CURRENCY_INFO;
+  return isRegisteredCurrency(currencyCode);
 }
 
 /**
@@ -60,7 +60,7 @@ export function isValidCurrency(currencyCode: unknown): currencyCode is string {
  */
 export function validateMoneyObject(
   moneyObject: unknown
-): moneyObject is Money {
+): moneyObject is MoneyLike {
   if (!moneyObject || typeof moneyObject !== 'object') return false;
 
   const obj = moneyObject as Record<string, unknown>;
@@ -205,6 +205,7 @@ export function parseCurrencyString(currencyString: string): ParsedCurrency {
  * ```typescript
  * normalizeAmount(123.456789) // 123.46 (default 2 decimal places)
  * normalizeAmount(123.456789, { decimalPlaces: 4 }) // 123.4568
+ * normalizeAmount(2.125, { roundingMode: 'half-even' }) // 2.12
  * ```
  */
 export function normalizeAmount(
@@ -213,11 +214,13 @@ export function normalizeAmount(
 ): number {
   if (!isValidAmount(amount)) {
     throw new MonieUtilsError(
-      `Invalid amount: ${amount}. Amount must be a finite number.`
+      `Invalid amount: ${amount}. Amount must be a finite number.`,
+      'INVALID_AMOUNT',
+      { field: 'amount', value: amount }
     );
   }
 
-  const { decimalPlaces = 2, roundingMode = 'round' } = options;
+  const { decimalPlaces = 2, roundingMode } = options;
 
   if (
     typeof decimalPlaces !== 'number' ||
@@ -225,21 +228,17 @@ export function normalizeAmount(
     !Number.isInteger(decimalPlaces)
   ) {
     throw new MonieUtilsError(
-      `Invalid decimal places: ${decimalPlaces}. Must be a non-negative integer.`
+      `Invalid decimal places: ${decimalPlaces}. Must be a non-negative integer.`,
+      'INVALID_ARGUMENT',
+      { field: 'decimalPlaces', value: decimalPlaces, min: 0 }
     );
   }
 
-  const multiplier = Math.pow(10, decimalPlaces);
-
-  switch (roundingMode) {
-    case 'floor':
-      return Math.floor(amount * multiplier) / multiplier;
-    case 'ceil':
-      return Math.ceil(amount * multiplier) / multiplier;
-    case 'round':
-    default:
-      return Math.round(amount * multiplier) / multiplier;
-  }
+  return roundNumber(
+    amount,
+    decimalPlaces,
+    resolveRoundingPolicy(roundingMode)
+  );
 }
 
 /**
@@ -263,7 +262,9 @@ export function parseFormattedCurrency(
 ): number {
   if (typeof formattedString !== 'string') {
     throw new MonieUtilsError(
-      `Invalid formatted string: ${formattedString}. Must be a string.`
+      `Invalid formatted string: ${formattedString}. Must be a string.`,
+      'INVALID_ARGUMENT',
+      { field: 'formattedString', value: formattedString }
     );
   }
 
@@ -297,14 +298,18 @@ export function parseFormattedCurrency(
 
     if (!isValidAmount(parsed)) {
       throw new MonieUtilsError(
-        `Failed to parse formatted currency: ${formattedString}`
+        `Failed to parse formatted currency: ${formattedString}`,
+        'PARSING_FAILED',
+        { field: 'formattedString', value: formattedString }
       );
     }
 
     return parsed;
   } catch (error) {
     throw new MonieUtilsError(
-      `Failed to parse formatted currency: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to parse formatted currency: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'PARSING_FAILED',
+      { field: 'formattedString', value: formattedString }
     );
   }
 }